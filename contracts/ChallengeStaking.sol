@@ -0,0 +1,241 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+
+/// @notice Escrow for ETH staked on challenge attempts in FinancialLiteracyGame.
+/// A stake is placed by the game when a player attaches ETH to a solution of an oracle-verified
+/// challenge, at most once per player and challenge. Once the game has evaluated the attempt it hands
+/// over the encrypted verdict, which is publicly decrypted to settle the stake: a correct answer returns
+/// the stake plus a reward from the pool, a wrong one forfeits the stake to the treasury. Payouts are
+/// credited first and withdrawn with `claim`. A stake the oracles have not settled by its deadline can be
+/// reclaimed by the player.
+/// The balance always equals rewardPool + escrowedStakes + totalClaimable.
+contract ChallengeStaking is SepoliaConfig {
+    enum StakeStatus {
+        None,
+        Pending,
+        Settling,
+        Won,
+        Forfeited,
+        Refunded
+    }
+
+    /// @dev ETH staked on a single attempt, with its reward reserved from the pool when it was placed
+    struct Stake {
+        address player;
+        uint256 challengeId;
+        uint256 amount;
+        uint256 reservedReward;
+        uint256 deadline;
+        StakeStatus status;
+    }
+
+    // Rewards on won stakes are a share of the stake, in basis points
+    uint256 public constant MAX_REWARD_BPS = 10_000;
+    uint256 private constant DEFAULT_REWARD_BPS = 1_000;
+    /// @dev How long the computation and decryption oracles have to settle a stake before the player
+    /// may take it back
+    uint256 public constant SETTLEMENT_TIMEOUT = 1 days;
+
+    address public immutable game;
+    address public owner;
+    address public treasury;
+    uint256 public rewardBps = DEFAULT_REWARD_BPS;
+
+    uint256 public rewardPool;
+    // Stakes awaiting settlement together with the rewards reserved for them
+    uint256 public escrowedStakes;
+    uint256 public totalClaimable;
+    uint256 public stakeCount;
+    mapping(uint256 => Stake) public stakes;
+    mapping(address => uint256) public claimable;
+    // A player gets a single staked attempt per challenge, whatever its outcome
+    mapping(address => mapping(uint256 => bool)) public hasStaked;
+
+    // Decryption requests for stakes being settled
+    mapping(uint256 => uint256) private requestToStake;
+
+    event RewardPoolFunded(address indexed funder, uint256 amount);
+    event StakePlaced(
+        uint256 indexed stakeId,
+        address indexed player,
+        uint256 indexed challengeId,
+        uint256 amount,
+        uint256 reservedReward
+    );
+    event StakeSettled(uint256 indexed stakeId, address indexed player, bool won, uint256 payout);
+    event StakeRefunded(uint256 indexed stakeId, address indexed player, uint256 amount);
+    event Claimed(address indexed account, uint256 amount);
+    event TreasuryUpdated(address indexed treasury);
+    event RewardRateUpdated(uint256 rewardBps);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+
+    constructor(address gameAddress) {
+        require(gameAddress != address(0), "Invalid game");
+        game = gameAddress;
+        owner = msg.sender;
+        treasury = msg.sender;
+        emit OwnershipTransferred(address(0), msg.sender);
+    }
+
+    /// @dev Modifier to restrict configuration to the owner
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Not owner");
+        _;
+    }
+
+    /// @dev Modifier to restrict stake bookkeeping to the game
+    modifier onlyGame() {
+        require(msg.sender == game, "Not game");
+        _;
+    }
+
+    /// @notice Escrow ETH a player attached to an attempt and reserve its reward, so every placed stake
+    /// can be paid out in full
+    function placeStake(address player, uint256 challengeId) public payable onlyGame returns (uint256 stakeId) {
+        require(!hasStaked[player][challengeId], "Challenge already staked");
+        uint256 reward = (msg.value * rewardBps) / MAX_REWARD_BPS;
+        require(rewardPool >= reward, "Reward pool too low");
+
+        hasStaked[player][challengeId] = true;
+
+        rewardPool -= reward;
+        escrowedStakes += msg.value + reward;
+        stakeId = ++stakeCount;
+        stakes[stakeId] = Stake({
+            player: player,
+            challengeId: challengeId,
+            amount: msg.value,
+            reservedReward: reward,
+            deadline: block.timestamp + SETTLEMENT_TIMEOUT,
+            status: StakeStatus.Pending
+        });
+        emit StakePlaced(stakeId, player, challengeId, msg.value, reward);
+    }
+
+    /// @notice Publish the encrypted verdict of a staked attempt through the decryption oracle. A stake
+    /// the player already reclaimed is left alone, so a late verdict still reaches the game.
+    function settle(uint256 stakeId, ebool isCorrect) public onlyGame {
+        Stake storage stake = stakes[stakeId];
+        if (stake.status != StakeStatus.Pending) {
+            return;
+        }
+        stake.status = StakeStatus.Settling;
+
+        bytes32[] memory ciphertexts = new bytes32[](1);
+        ciphertexts[0] = FHE.toBytes32(isCorrect);
+
+        uint256 reqId = FHE.requestDecryption(ciphertexts, this.settleStake.selector);
+        requestToStake[reqId] = stakeId;
+    }
+
+    /// @notice Callback for the decrypted verdict of a staked attempt
+    function settleStake(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        uint256 stakeId = requestToStake[requestId];
+        require(stakeId != 0, "Invalid request");
+        delete requestToStake[requestId];
+
+        // Verify decryption proof
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        Stake storage stake = stakes[stakeId];
+        if (stake.status != StakeStatus.Settling) {
+            // Reclaimed by the player while the decryption was overdue
+            return;
+        }
+        bool won = abi.decode(cleartexts, (bool));
+        escrowedStakes -= stake.amount + stake.reservedReward;
+
+        uint256 payout;
+        if (won) {
+            payout = stake.amount + stake.reservedReward;
+            stake.status = StakeStatus.Won;
+            _credit(stake.player, payout);
+        } else {
+            stake.status = StakeStatus.Forfeited;
+            rewardPool += stake.reservedReward;
+            _credit(treasury, stake.amount);
+        }
+        emit StakeSettled(stakeId, stake.player, won, payout);
+    }
+
+    /// @notice Return a stake in full when its attempt could not be evaluated. A stake the player already
+    /// reclaimed is left alone, so a late rejection still goes through.
+    function refund(uint256 stakeId) public onlyGame {
+        if (stakes[stakeId].status == StakeStatus.Pending) {
+            _refund(stakeId);
+        }
+    }
+
+    /// @notice Take back a stake the oracles did not settle by its deadline
+    function reclaimStake(uint256 stakeId) public {
+        Stake storage stake = stakes[stakeId];
+        require(stake.player == msg.sender, "Not stake owner");
+        require(
+            stake.status == StakeStatus.Pending || stake.status == StakeStatus.Settling,
+            "Stake already settled"
+        );
+        require(block.timestamp > stake.deadline, "Settlement not overdue");
+        _refund(stakeId);
+    }
+
+    /// @notice Add ETH to the pool that pays rewards on won stakes
+    function fundRewardPool() public payable {
+        require(msg.value > 0, "No value");
+        rewardPool += msg.value;
+        emit RewardPoolFunded(msg.sender, msg.value);
+    }
+
+    /// @notice Withdraw everything credited to the caller
+    function claim() public {
+        uint256 amount = claimable[msg.sender];
+        require(amount > 0, "Nothing to claim");
+
+        claimable[msg.sender] = 0;
+        totalClaimable -= amount;
+        emit Claimed(msg.sender, amount);
+
+        (bool sent, ) = payable(msg.sender).call{ value: amount }("");
+        require(sent, "Transfer failed");
+    }
+
+    /// @notice Set where forfeited stakes are credited; amounts already credited stay claimable
+    function setTreasury(address newTreasury) public onlyOwner {
+        require(newTreasury != address(0), "Invalid treasury");
+        treasury = newTreasury;
+        emit TreasuryUpdated(newTreasury);
+    }
+
+    /// @notice Set the reward on won stakes, in basis points of the stake. Stakes already placed keep
+    /// the reward reserved for them.
+    function setRewardBps(uint256 newRewardBps) public onlyOwner {
+        require(newRewardBps <= MAX_REWARD_BPS, "Invalid reward rate");
+        rewardBps = newRewardBps;
+        emit RewardRateUpdated(newRewardBps);
+    }
+
+    /// @notice Hand over the owner role
+    function transferOwnership(address newOwner) public onlyOwner {
+        require(newOwner != address(0), "Invalid owner");
+        emit OwnershipTransferred(owner, newOwner);
+        owner = newOwner;
+    }
+
+    /// @dev Release an open stake to its player and return its reserved reward to the pool
+    function _refund(uint256 stakeId) private {
+        Stake storage stake = stakes[stakeId];
+        stake.status = StakeStatus.Refunded;
+        escrowedStakes -= stake.amount + stake.reservedReward;
+        rewardPool += stake.reservedReward;
+        _credit(stake.player, stake.amount);
+        emit StakeRefunded(stakeId, stake.player, stake.amount);
+    }
+
+    /// @dev Make ETH withdrawable through `claim`
+    function _credit(address account, uint256 amount) private {
+        claimable[account] += amount;
+        totalClaimable += amount;
+    }
+}
@@ -0,0 +1,91 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { PlayerAccess } from "./PlayerAccess.sol";
+
+/// @notice Streaks and quests for challenge answers, derived from block timestamps.
+/// Which days a player answered on is public from their transactions, so streaks are kept in the clear
+/// and only scale the points of a correct answer. Quest progress counts correct answers, so it stays
+/// encrypted, and a completed quest pays its bonus without branching on it. The game only passes on a
+/// player's first correct answer to each challenge, so repeating a solved challenge advances no quest.
+/// Like PracticeScoring, the library is linked and runs in the game's context.
+library Engagement {
+    /// @dev A player's streak and quest progress. Quest counters belong to the day and week they were
+    /// last updated in, and count from zero again in a new one.
+    struct Progress {
+        euint32 dailyCorrect;
+        euint32 weeklyCorrect;
+        uint64 lastDay;
+        uint64 lastWeek;
+        uint32 streak;
+    }
+
+    uint32 internal constant POINTS_PER_CHALLENGE = 10;
+
+    /// @dev Each day of a streak after the first adds this much to a correct answer's points, up to the cap
+    uint32 internal constant STREAK_BONUS_PERCENT = 10;
+    uint32 internal constant MAX_STREAK_BONUS_PERCENT = 100;
+
+    // Daily quest: answer DAILY_QUEST_TARGET challenges correctly in a day
+    uint32 internal constant DAILY_QUEST_TARGET = 3;
+    uint32 internal constant DAILY_QUEST_BONUS = 15;
+    // Weekly quest: answer WEEKLY_QUEST_TARGET challenges correctly in a week
+    uint32 internal constant WEEKLY_QUEST_TARGET = 10;
+    uint32 internal constant WEEKLY_QUEST_BONUS = 50;
+
+    /// @dev Days start at 00:00 UTC. The Unix epoch was a Thursday, so shifting by three days starts
+    /// weeks on Monday.
+    uint256 internal constant WEEK_OFFSET = 3 days;
+
+    /// @notice Record an evaluated answer and return the points it earned: zero when wrong, otherwise
+    /// the challenge points scaled by the streak plus the bonus of any quest it completed
+    /// @param isCorrect Whether this is the player's first correct answer to the challenge
+    function recordAnswer(Progress storage progress, address player, ebool isCorrect) public returns (euint32) {
+        uint64 today = uint64(block.timestamp / 1 days);
+        uint64 week = uint64((block.timestamp + WEEK_OFFSET) / 1 weeks);
+
+        if (progress.lastDay != today) {
+            progress.streak = progress.lastDay + 1 == today ? progress.streak + 1 : 1;
+            progress.dailyCorrect = FHE.asEuint32(0);
+            progress.lastDay = today;
+        }
+        if (progress.lastWeek != week) {
+            progress.weeklyCorrect = FHE.asEuint32(0);
+            progress.lastWeek = week;
+        }
+
+        euint32 correct = FHE.select(isCorrect, FHE.asEuint32(1), FHE.asEuint32(0));
+        progress.dailyCorrect = PlayerAccess.grant(FHE.add(progress.dailyCorrect, correct), player);
+        progress.weeklyCorrect = PlayerAccess.grant(FHE.add(progress.weeklyCorrect, correct), player);
+
+        // A quest pays out on the correct answer that reaches its target, so once per day or week
+        euint32 points = FHE.select(isCorrect, FHE.asEuint32(streakPoints(progress.streak)), FHE.asEuint32(0));
+        points = FHE.add(
+            points,
+            FHE.select(
+                FHE.and(isCorrect, FHE.eq(progress.dailyCorrect, DAILY_QUEST_TARGET)),
+                FHE.asEuint32(DAILY_QUEST_BONUS),
+                FHE.asEuint32(0)
+            )
+        );
+        return
+            FHE.add(
+                points,
+                FHE.select(
+                    FHE.and(isCorrect, FHE.eq(progress.weeklyCorrect, WEEKLY_QUEST_TARGET)),
+                    FHE.asEuint32(WEEKLY_QUEST_BONUS),
+                    FHE.asEuint32(0)
+                )
+            );
+    }
+
+    /// @notice Points for a correct answer on the given day of a streak
+    function streakPoints(uint32 streak) public pure returns (uint32) {
+        uint32 bonusDays = streak > 1 ? streak - 1 : 0;
+        if (bonusDays > MAX_STREAK_BONUS_PERCENT / STREAK_BONUS_PERCENT) {
+            bonusDays = MAX_STREAK_BONUS_PERCENT / STREAK_BONUS_PERCENT;
+        }
+        return (POINTS_PER_CHALLENGE * (100 + bonusDays * STREAK_BONUS_PERCENT)) / 100;
+    }
+}
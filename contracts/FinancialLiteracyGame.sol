@@ -1,25 +1,70 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, ebool, eaddress, externalEuint32, externalEbool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { ChallengeStaking } from "./ChallengeStaking.sol";
+import { PracticeScoring } from "./PracticeScoring.sol";
+import { LiteracyRewards } from "./LiteracyRewards.sol";
+import { Engagement } from "./Engagement.sol";
+import { PlayerAccess } from "./PlayerAccess.sol";
 
+/// @notice Ciphertext access policy:
+///  - the contract may reuse every ciphertext it stores (`FHE.allowThis`);
+///  - a player may decrypt their own profile, savings goal, rating, score, progress and quest progress;
+///  - a data-sharing educator chosen by the player may decrypt that player's profile, savings goal,
+///    rating, score and progress. This is unrelated to the educator role, which manages the catalogue.
+///    ACL grants are permanent per handle, so changing educator only affects handles created afterwards;
+///  - the computation oracle may read the ciphertexts handed to it for a computation;
+///    players' submitted solutions are shared with nobody else;
+///  - nobody but the contract may read challenge parameters, answer keys or the leaderboard;
+///  - a player may publish their own leaderboard rank, which goes through the public decryption oracle;
+///  - holders of the educator role may decrypt per-category aggregates once enough distinct players
+///    contributed to them.
+///    Successive snapshots can still be compared, so the cohort threshold limits but does not rule out
+///    inferring one player's contribution.
+/// Answers only ever change ciphertexts: whether a solution was correct, and whether it moved the
+/// leaderboard, is never decrypted publicly, and correct and wrong answers emit the same events.
+/// The one exception is opt-in: ETH payouts are public, so the correctness of an attempt a player
+/// stakes ETH on is published through the decryption oracle to settle the stake (see ChallengeStaking).
+/// The rewards contract receives the reward each evaluated solution earned, which is zero when it was
+/// wrong, and only publishes totals a player chooses to redeem (see LiteracyRewards).
 contract FinancialLiteracyGame is SepoliaConfig {
     // Player profile with encrypted attributes
     struct PlayerProfile {
         euint32 encryptedKnowledgeLevel;
         euint32 encryptedRiskTolerance;
+        // Focus area, as the index of a question bank category
         euint32 encryptedFinancialGoals;
+        euint32 encryptedRating;
         uint256 lastPlayed;
         bool isRegistered;
     }
     
+    // Savings goal in whole currency units, all fields encrypted client-side
+    struct SavingsGoal {
+        euint32 targetAmount;
+        euint32 horizonMonths;
+        euint32 monthlyContribution;
+    }
+    
     // Game challenge structure
     struct GameChallenge {
         euint32 difficultyLevel;
         euint32 rewardAmount;
+        euint32 answerKey;
         string challengeType;
+        uint8 category;
         bool isActive;
+        bool isRetired;
+    }
+
+    /// @dev Encrypted totals over every evaluated solution in a category; the cohort size is public
+    struct CategoryStats {
+        euint32 attempts;
+        euint32 correctAnswers;
+        euint32 difficultyTotal;
+        uint32 cohortSize;
     }
     
     // Player game state
@@ -29,24 +74,161 @@ contract FinancialLiteracyGame is SepoliaConfig {
         uint256 lastChallengeCompleted;
     }
 
+    /// @dev A player's opt-in disclosure of their leaderboard rank; rank 0 means outside the leaderboard
+    struct RankReveal {
+        uint32 rank;
+        uint256 revealedAt;
+        bool isRevealed;
+    }
+
+    /// @dev Callback a pending request is waiting for; `None` once it has been fulfilled or rejected
+    enum RequestType {
+        None,
+        GenerateChallenge,
+        VerifySolution,
+        RevealRank
+    }
+
+    /// @dev Practice modes that run client-side and commit an encrypted outcome
+    enum PracticeMode {
+        Investing,
+        Budgeting,
+        Credit,
+        Taxes,
+        Savings
+    }
+
+    uint256 public constant LEADERBOARD_SIZE = 10;
+    uint256 public constant MAX_PSEUDONYM_LENGTH = 32;
+    uint32 private constant DEFAULT_MIN_COHORT_SIZE = 5;
+    
+    // Adaptive difficulty: knowledge levels share the 1-3 scale of challenge difficulty, and a challenge
+    // of difficulty d is rated d * RATING_PER_LEVEL
+    uint32 private constant MIN_LEVEL = 1;
+    uint32 private constant MAX_LEVEL = 3;
+    uint32 private constant RATING_PER_LEVEL = 400;
+    uint32 private constant MIN_RATING = MIN_LEVEL * RATING_PER_LEVEL;
+    uint32 private constant MAX_RATING = MAX_LEVEL * RATING_PER_LEVEL;
+    uint32 private constant RATING_MARGIN = 200;
+    uint32 private constant K_SMALL = 16;
+    uint32 private constant K_EVEN = 32;
+    uint32 private constant K_LARGE = 48;
+    
+    // Practice modes: outcomes are self-reported and scored by PracticeScoring
+    uint256 public constant PRACTICE_COOLDOWN = 1 days;
+    /// @dev Category of oracle-generated challenges, kept apart from the catalogue's categories
+    uint8 public constant PERSONALIZED_CATEGORY = type(uint8).max;
+    /// @dev Personalized challenges are typed by this prefix and the id of the bank question they ask
+    string private constant PERSONALIZED_TYPE_PREFIX = "Personalized:";
+
+    // Roles
+    address public owner;
+    mapping(address => bool) public educators;
+
     // Contract state
     mapping(address => PlayerProfile) private playerProfiles;
+    mapping(address => SavingsGoal) private savingsGoals;
     mapping(address => PlayerState) public playerStates;
+    mapping(address => address) public playerEducator;
     GameChallenge[] public challenges;
+    // Whether a player already solved a challenge, so only their first correct answer is credited
+    mapping(address => mapping(uint256 => ebool)) private solved;
+    uint256 public playerCount;
     
-    // Encrypted leaderboard
-    euint32 private encryptedTopScore;
-    address private topPlayer;
+    // Encrypted leaderboard, sorted by score with the highest first; empty slots hold address(0)
+    euint32[LEADERBOARD_SIZE] private leaderboardScores;
+    eaddress[LEADERBOARD_SIZE] private leaderboardPlayers;
+    mapping(address => RankReveal) public rankReveals;
+    mapping(address => string) public pseudonyms;
+    
+    // Encrypted per-category aggregates for educators
+    mapping(uint8 => CategoryStats) private categoryStats;
+    mapping(uint8 => mapping(address => bool)) private inCohort;
+    uint32 public minCohortSize = DEFAULT_MIN_COHORT_SIZE;
+    
+    mapping(address => mapping(PracticeMode => uint256)) public lastPracticeAt;
+
+    // Streaks and daily/weekly quests for challenge answers
+    mapping(address => Engagement.Progress) private engagement;
+    
+    // Optional ETH escrow for staked attempts, set once by the owner
+    ChallengeStaking public staking;
+    // Optional Literacy Point and badge rewards
+    LiteracyRewards public rewards;
     
     // Request tracking
     mapping(uint256 => address) private requestToPlayer;
-    mapping(uint256 => string) private requestType;
+    mapping(uint256 => RequestType) private requestType;
+    mapping(uint256 => uint256) private requestToChallenge;
+    mapping(uint256 => uint256) private requestToStake;
+
+    // Off-chain FHE computation engine
+    address public immutable computationOracle;
+    uint256 private computationCounter;
     
     // Events
     event PlayerRegistered(address indexed player);
-    event ChallengeCompleted(address indexed player, uint256 challengeId);
+    event SavingsGoalUpdated(address indexed player);
     event PersonalizedChallengeGenerated(address indexed player, uint256 challengeId);
+    event PersonalizedChallengeFulfilled(
+        address indexed player,
+        uint256 indexed requestId,
+        uint256 challengeId,
+        string challengeType
+    );
     event ScoreUpdated(address indexed player);
+    event SolutionEvaluated(address indexed player, uint256 challengeId);
+    event ComputationRequested(uint256 indexed requestId, bytes4 callbackSelector, bytes32[] ciphertexts);
+    event DataSharingEducatorUpdated(address indexed player, address indexed educator);
+    event RequestRejected(uint256 indexed requestId, address indexed player, RequestType requestType, string reason);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event EducatorRoleUpdated(address indexed account, bool granted);
+    event ChallengeAdded(uint256 indexed challengeId, string challengeType);
+    event ChallengeStatusChanged(uint256 indexed challengeId, bool isActive, bool isRetired);
+    event RankRevealed(address indexed player, uint32 rank);
+    event RankHidden(address indexed player);
+    event PseudonymUpdated(address indexed player, string pseudonym);
+    event CategoryStatsShared(address indexed educator, uint8[] categories);
+    event MinCohortSizeUpdated(uint32 minCohortSize);
+    event PracticeScored(address indexed player, PracticeMode indexed mode);
+    event StakingUpdated(address indexed staking);
+    event RewardsUpdated(address indexed rewards);
+
+    constructor(address oracle) {
+        require(oracle != address(0), "Invalid oracle");
+        computationOracle = oracle;
+        for (uint256 i = 0; i < LEADERBOARD_SIZE; i++) {
+            leaderboardScores[i] = FHE.allowThis(FHE.asEuint32(0));
+            leaderboardPlayers[i] = FHE.allowThis(FHE.asEaddress(address(0)));
+        }
+        _initCategoryStats(PERSONALIZED_CATEGORY);
+        owner = msg.sender;
+        emit OwnershipTransferred(address(0), msg.sender);
+    }
+
+    /// @dev Modifier to restrict role management to the owner
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Not owner");
+        _;
+    }
+
+    /// @dev Modifier to restrict catalogue management to the owner and educators
+    modifier onlyCatalogueManager() {
+        require(msg.sender == owner || educators[msg.sender], "Not authorized");
+        _;
+    }
+
+    /// @dev Modifier to restrict aggregate analytics to educators
+    modifier onlyEducator() {
+        require(educators[msg.sender], "Not educator");
+        _;
+    }
+
+    /// @dev Modifier to check that a challenge exists
+    modifier validChallenge(uint256 challengeId) {
+        require(challengeId < challenges.length, "Invalid challenge");
+        _;
+    }
 
     /// @dev Modifier to check if player is registered
     modifier onlyRegistered() {
@@ -54,28 +236,42 @@ contract FinancialLiteracyGame is SepoliaConfig {
         _;
     }
 
-    /// @notice Register player with encrypted attributes
+    /// @dev Modifier to restrict computation callbacks to the computation oracle
+    modifier onlyComputationOracle() {
+        require(msg.sender == computationOracle, "Unauthorized oracle");
+        _;
+    }
+
+    /// @notice Register player with attributes and savings goal encrypted client-side
     function registerPlayer(
-        euint32 knowledgeLevel,
-        euint32 riskTolerance,
-        euint32 financialGoals
+        externalEuint32 knowledgeLevel,
+        externalEuint32 riskTolerance,
+        externalEuint32 financialGoals,
+        externalEuint32 savingsTarget,
+        externalEuint32 savingsHorizonMonths,
+        externalEuint32 monthlyContribution,
+        bytes calldata inputProof
     ) public {
         require(!playerProfiles[msg.sender].isRegistered, "Already registered");
         
+        euint32 level = _clampLevel(FHE.fromExternal(knowledgeLevel, inputProof));
         playerProfiles[msg.sender] = PlayerProfile({
-            encryptedKnowledgeLevel: knowledgeLevel,
-            encryptedRiskTolerance: riskTolerance,
-            encryptedFinancialGoals: financialGoals,
+            encryptedKnowledgeLevel: _grantPlayerAccess(level, msg.sender),
+            encryptedRiskTolerance: _grantPlayerAccess(FHE.fromExternal(riskTolerance, inputProof), msg.sender),
+            encryptedFinancialGoals: _grantPlayerAccess(FHE.fromExternal(financialGoals, inputProof), msg.sender),
+            encryptedRating: _grantPlayerAccess(FHE.mul(level, RATING_PER_LEVEL), msg.sender),
             lastPlayed: 0,
             isRegistered: true
         });
         
         // Initialize game state
         playerStates[msg.sender] = PlayerState({
-            encryptedScore: FHE.asEuint32(0),
-            encryptedProgress: FHE.asEuint32(0),
+            encryptedScore: _grantPlayerAccess(FHE.asEuint32(0), msg.sender),
+            encryptedProgress: _grantPlayerAccess(FHE.asEuint32(0), msg.sender),
             lastChallengeCompleted: 0
         });
+        _setSavingsGoal(msg.sender, savingsTarget, savingsHorizonMonths, monthlyContribution, inputProof);
+        playerCount++;
         
         emit PlayerRegistered(msg.sender);
     }
@@ -91,57 +287,84 @@ contract FinancialLiteracyGame is SepoliaConfig {
         ciphertexts[2] = FHE.toBytes32(profile.encryptedFinancialGoals);
         
         // Request challenge generation
-        uint256 reqId = FHE.requestComputation(ciphertexts, this.generateChallenge.selector);
-        requestToPlayer[reqId] = msg.sender;
-        requestType[reqId] = "generate";
+        uint256 reqId = _requestComputation(ciphertexts, this.generateChallenge.selector);
+        _trackRequest(reqId, msg.sender, RequestType.GenerateChallenge);
         
         emit PersonalizedChallengeGenerated(msg.sender, reqId);
     }
 
-    /// @notice Callback for personalized challenge generation
+    /// @notice Callback for personalized challenge generation. The results are the id of the bank question
+    /// the oracle picked, which players are shown and which any answer key must match, and the encrypted
+    /// challenge parameters.
     function generateChallenge(
         uint256 requestId,
         bytes memory results,
         bytes memory proof
-    ) public {
-        address player = requestToPlayer[requestId];
-        require(player != address(0), "Invalid request");
-        require(keccak256(abi.encodePacked(requestType[requestId])) == keccak256(abi.encodePacked("generate")), "Invalid type");
+    ) public onlyComputationOracle {
+        address player = _consumeRequest(requestId, RequestType.GenerateChallenge);
         
-        // Verify computation proof
-        FHE.checkSignatures(requestId, results, proof);
+        // Process generated challenge parameters, verified against the oracle's input proof
+        (string memory questionId, externalEuint32[] memory challengeParams) = abi.decode(
+            results,
+            (string, externalEuint32[])
+        );
+        require(bytes(questionId).length > 0, "Missing question");
+        string memory challengeType = string.concat(PERSONALIZED_TYPE_PREFIX, questionId);
         
-        // Process generated challenge parameters
-        euint32[] memory challengeParams = abi.decode(results, (euint32[]));
-        
-        // Create new challenge
+        // Create new challenge; without an answer key its solutions are verified by the oracle
+        euint32 answerKey;
+        if (challengeParams.length > 2) {
+            answerKey = FHE.allowThis(FHE.fromExternal(challengeParams[2], proof));
+        }
         challenges.push(GameChallenge({
-            difficultyLevel: challengeParams[0],
-            rewardAmount: challengeParams[1],
-            challengeType: "Personalized",
-            isActive: true
+            difficultyLevel: FHE.allowThis(FHE.fromExternal(challengeParams[0], proof)),
+            rewardAmount: FHE.allowThis(FHE.fromExternal(challengeParams[1], proof)),
+            answerKey: answerKey,
+            challengeType: challengeType,
+            category: PERSONALIZED_CATEGORY,
+            isActive: true,
+            isRetired: false
         }));
         
         uint256 newChallengeId = challenges.length - 1;
         emit PersonalizedChallengeGenerated(player, newChallengeId);
+        emit PersonalizedChallengeFulfilled(player, requestId, newChallengeId, challengeType);
     }
 
-    /// @notice Submit challenge solution
+    /// @notice Submit challenge solution encrypted client-side. ETH sent along is staked on this attempt
+    /// through the staking escrow, which publishes whether the attempt was correct to settle it.
     function submitChallengeSolution(
         uint256 challengeId,
-        euint32 encryptedSolution
-    ) public onlyRegistered {
+        externalEuint32 encryptedSolution,
+        bytes calldata inputProof
+    ) public payable onlyRegistered {
         require(challengeId < challenges.length, "Invalid challenge");
-        require(challenges[challengeId].isActive, "Challenge not active");
+        GameChallenge storage challenge = challenges[challengeId];
+        require(challenge.isActive, "Challenge not active");
+        
+        euint32 solution = FHE.fromExternal(encryptedSolution, inputProof);
+        
+        // Multiple-choice challenges are checked against their answer key without leaving the chain.
+        // Their answers can be worked out from the question bank the client ships, so they take no stakes.
+        if (FHE.isInitialized(challenge.answerKey)) {
+            require(msg.value == 0, "Challenge takes no stakes");
+            _applySolution(msg.sender, challengeId, FHE.eq(solution, challenge.answerKey));
+            emit SolutionEvaluated(msg.sender, challengeId);
+            return;
+        }
         
         // Prepare data for solution verification
         bytes32[] memory ciphertexts = new bytes32[](1);
-        ciphertexts[0] = FHE.toBytes32(encryptedSolution);
+        ciphertexts[0] = FHE.toBytes32(solution);
         
         // Request solution verification
-        uint256 reqId = FHE.requestComputation(ciphertexts, this.verifySolution.selector);
-        requestToPlayer[reqId] = msg.sender;
-        requestType[reqId] = "verify";
+        uint256 reqId = _requestComputation(ciphertexts, this.verifySolution.selector);
+        _trackRequest(reqId, msg.sender, RequestType.VerifySolution);
+        requestToChallenge[reqId] = challengeId;
+        if (msg.value > 0) {
+            require(address(staking) != address(0), "Staking disabled");
+            requestToStake[reqId] = staking.placeStake{ value: msg.value }(msg.sender, challengeId);
+        }
     }
 
     /// @notice Callback for solution verification
@@ -149,38 +372,185 @@ contract FinancialLiteracyGame is SepoliaConfig {
         uint256 requestId,
         bytes memory results,
         bytes memory proof
-    ) public {
-        address player = requestToPlayer[requestId];
-        require(player != address(0), "Invalid request");
-        require(keccak256(abi.encodePacked(requestType[requestId])) == keccak256(abi.encodePacked("verify")), "Invalid type");
+    ) public onlyComputationOracle {
+        address player = _consumeRequest(requestId, RequestType.VerifySolution);
+        uint256 challengeId = requestToChallenge[requestId];
+        delete requestToChallenge[requestId];
         
-        // Verify computation proof
-        FHE.checkSignatures(requestId, results, proof);
+        // Process verification result, verified against the oracle's input proof
+        ebool isCorrect = FHE.fromExternal(abi.decode(results, (externalEbool)), proof);
         
-        // Process verification result
-        ebool isCorrect = abi.decode(results, (ebool));
+        _applySolution(player, challengeId, isCorrect);
+        emit SolutionEvaluated(player, challengeId);
         
-        if (FHE.decrypt(isCorrect)) {
-            // Update player progress
-            PlayerState storage state = playerStates[player];
-            state.encryptedScore = FHE.add(state.encryptedScore, FHE.asEuint32(10));
-            state.encryptedProgress = FHE.add(state.encryptedProgress, FHE.asEuint32(1));
-            
-            // Update leaderboard
-            ebool isHigher = FHE.gt(state.encryptedScore, encryptedTopScore);
-            if (FHE.decrypt(isHigher)) {
-                encryptedTopScore = state.encryptedScore;
-                topPlayer = player;
-            }
-            
-            emit ChallengeCompleted(player, requestId);
-            emit ScoreUpdated(player);
+        uint256 stakeId = requestToStake[requestId];
+        if (stakeId != 0) {
+            delete requestToStake[requestId];
+            _settleStake(stakeId, isCorrect);
         }
     }
 
-    /// @notice Update player knowledge level
-    function updateKnowledgeLevel(euint32 newLevel) public onlyRegistered {
-        playerProfiles[msg.sender].encryptedKnowledgeLevel = newLevel;
+    /// @notice Score a finished investing simulation against the player's encrypted risk tolerance and goal
+    /// @param portfolioRisk Average risk band of the allocations over the simulation, on the 1-3 risk scale
+    /// @param growthPercent Portfolio growth over the simulation in whole percent, 0 for a loss
+    function submitInvestingSimulation(
+        externalEuint32 portfolioRisk,
+        externalEuint32 growthPercent,
+        bytes calldata inputProof
+    ) public onlyRegistered {
+        _startPractice(PracticeMode.Investing);
+        PlayerProfile storage profile = playerProfiles[msg.sender];
+        
+        euint32 points = PracticeScoring.investing(
+            _clampLevel(FHE.fromExternal(portfolioRisk, inputProof)),
+            FHE.fromExternal(growthPercent, inputProof),
+            profile.encryptedRiskTolerance,
+            profile.encryptedFinancialGoals
+        );
+        _creditPracticePoints(msg.sender, points);
+        emit PracticeScored(msg.sender, PracticeMode.Investing);
+    }
+
+    /// @notice Score a budgeting run: the number of simulated months that met the savings target and
+    /// the percent of expenses categorized correctly as needs or wants. The ledger stays client-side.
+    function submitBudgetSummary(
+        externalEuint32 monthsOnTarget,
+        externalEuint32 categorizationAccuracy,
+        bytes calldata inputProof
+    ) public onlyRegistered {
+        _startPractice(PracticeMode.Budgeting);
+        
+        euint32 points = PracticeScoring.budgeting(
+            FHE.fromExternal(monthsOnTarget, inputProof),
+            FHE.fromExternal(categorizationAccuracy, inputProof),
+            playerProfiles[msg.sender].encryptedFinancialGoals
+        );
+        _creditPracticePoints(msg.sender, points);
+        emit PracticeScored(msg.sender, PracticeMode.Budgeting);
+    }
+
+    /// @notice Score a savings plan projected client-side towards the player's encrypted goal. A plan
+    /// only counts if its monthly contribution fits what the player said they can put aside.
+    function submitSavingsPlan(
+        externalEuint32 projectedAmount,
+        externalEuint32 planContribution,
+        bytes calldata inputProof
+    ) public onlyRegistered {
+        _startPractice(PracticeMode.Savings);
+        SavingsGoal storage goal = savingsGoals[msg.sender];
+        
+        euint32 points = PracticeScoring.savings(
+            FHE.fromExternal(projectedAmount, inputProof),
+            FHE.fromExternal(planContribution, inputProof),
+            goal.targetAmount,
+            goal.monthlyContribution,
+            playerProfiles[msg.sender].encryptedFinancialGoals
+        );
+        _creditPracticePoints(msg.sender, points);
+        emit PracticeScored(msg.sender, PracticeMode.Savings);
+    }
+
+    /// @notice Replace the savings goal with new values encrypted client-side
+    function updateSavingsGoal(
+        externalEuint32 savingsTarget,
+        externalEuint32 savingsHorizonMonths,
+        externalEuint32 monthlyContribution,
+        bytes calldata inputProof
+    ) public onlyRegistered {
+        _setSavingsGoal(msg.sender, savingsTarget, savingsHorizonMonths, monthlyContribution, inputProof);
+    }
+
+    /// @notice Score a credit simulation by the simulated credit score it ended with. Reaching a good
+    /// score also counts as a completed challenge in the player's progress.
+    function submitCreditSimulation(externalEuint32 creditScore, bytes calldata inputProof) public onlyRegistered {
+        _startPractice(PracticeMode.Credit);
+        PlayerState storage state = playerStates[msg.sender];
+        
+        (euint32 points, ebool isGood) = PracticeScoring.credit(
+            FHE.fromExternal(creditScore, inputProof),
+            playerProfiles[msg.sender].encryptedFinancialGoals
+        );
+        euint32 newProgress = FHE.select(
+            isGood,
+            FHE.add(state.encryptedProgress, FHE.asEuint32(1)),
+            state.encryptedProgress
+        );
+        state.encryptedProgress = _grantPlayerAccess(newProgress, msg.sender);
+        
+        _creditPracticePoints(msg.sender, points);
+        emit PracticeScored(msg.sender, PracticeMode.Credit);
+    }
+
+    /// @notice Score a tax practice round by the number of filing scenarios answered correctly
+    function submitTaxPractice(externalEuint32 correctAnswers, bytes calldata inputProof) public onlyRegistered {
+        _startPractice(PracticeMode.Taxes);
+        
+        euint32 points = PracticeScoring.taxes(
+            FHE.fromExternal(correctAnswers, inputProof),
+            playerProfiles[msg.sender].encryptedFinancialGoals
+        );
+        
+        _creditPracticePoints(msg.sender, points);
+        emit PracticeScored(msg.sender, PracticeMode.Taxes);
+    }
+
+    /// @notice Reset knowledge level to a self-assessed value encrypted client-side; the adaptive
+    /// engine carries on from the matching rating
+    function updateKnowledgeLevel(externalEuint32 newLevel, bytes calldata inputProof) public onlyRegistered {
+        PlayerProfile storage profile = playerProfiles[msg.sender];
+        euint32 level = _clampLevel(FHE.fromExternal(newLevel, inputProof));
+        profile.encryptedKnowledgeLevel = _grantPlayerAccess(level, msg.sender);
+        profile.encryptedRating = _grantPlayerAccess(FHE.mul(level, RATING_PER_LEVEL), msg.sender);
+    }
+
+    /// @notice Share profile, score and progress with an educator of the player's choosing, or stop
+    /// sharing with address(0). The educator needs no role in the game.
+    function setDataSharingEducator(address educator) public onlyRegistered {
+        playerEducator[msg.sender] = educator;
+        
+        if (educator != address(0)) {
+            PlayerProfile storage profile = playerProfiles[msg.sender];
+            PlayerState storage state = playerStates[msg.sender];
+            FHE.allow(profile.encryptedKnowledgeLevel, educator);
+            FHE.allow(profile.encryptedRiskTolerance, educator);
+            FHE.allow(profile.encryptedFinancialGoals, educator);
+            FHE.allow(profile.encryptedRating, educator);
+            SavingsGoal storage goal = savingsGoals[msg.sender];
+            FHE.allow(goal.targetAmount, educator);
+            FHE.allow(goal.horizonMonths, educator);
+            FHE.allow(goal.monthlyContribution, educator);
+            FHE.allow(state.encryptedScore, educator);
+            FHE.allow(state.encryptedProgress, educator);
+        }
+        
+        emit DataSharingEducatorUpdated(msg.sender, educator);
+    }
+
+    /// @notice Get encrypted savings goal: target amount, horizon in months and monthly contribution
+    function getEncryptedSavingsGoal(address player) public view returns (euint32, euint32, euint32) {
+        SavingsGoal storage goal = savingsGoals[player];
+        return (goal.targetAmount, goal.horizonMonths, goal.monthlyContribution);
+    }
+
+    /// @notice Get encrypted player profile
+    function getEncryptedProfile(address player) public view returns (euint32, euint32, euint32) {
+        PlayerProfile storage profile = playerProfiles[player];
+        return (profile.encryptedKnowledgeLevel, profile.encryptedRiskTolerance, profile.encryptedFinancialGoals);
+    }
+
+    /// @notice Get encrypted adaptive rating that knowledge level is derived from
+    function getEncryptedRating(address player) public view returns (euint32) {
+        return playerProfiles[player].encryptedRating;
+    }
+
+    /// @notice Get a player's streak and quest progress; the quest counters are decryptable by the player
+    function getEngagement(address player) public view returns (Engagement.Progress memory) {
+        return engagement[player];
+    }
+
+    /// @notice When the player last answered a challenge or scored a practice run
+    function getLastPlayed(address player) public view returns (uint256) {
+        return playerProfiles[player].lastPlayed;
     }
 
     /// @notice Get encrypted player score
@@ -188,47 +558,495 @@ contract FinancialLiteracyGame is SepoliaConfig {
         return playerStates[player].encryptedScore;
     }
 
-    /// @notice Request score decryption
-    function requestScoreDecryption() public onlyRegistered {
-        euint32 score = playerStates[msg.sender].encryptedScore;
+    /// @notice Get the encrypted top score and its holder; only the contract may decrypt them
+    function getEncryptedTopScore() public view returns (euint32, eaddress) {
+        return (leaderboardScores[0], leaderboardPlayers[0]);
+    }
+
+    /// @notice Get the encrypted leaderboard, highest score first; only the contract may decrypt it
+    function getEncryptedLeaderboard()
+        public
+        view
+        returns (euint32[LEADERBOARD_SIZE] memory scores, eaddress[LEADERBOARD_SIZE] memory players)
+    {
+        return (leaderboardScores, leaderboardPlayers);
+    }
+
+    /// @notice Get the encrypted aggregates of a category; only educators granted access may decrypt them
+    function getCategoryStats(uint8 category) public view returns (CategoryStats memory) {
+        return categoryStats[category];
+    }
+
+    /// @notice Get number of challenges in the catalogue
+    function getChallengeCount() public view returns (uint256) {
+        return challenges.length;
+    }
+
+    /// @notice Get up to `limit` challenges starting at index `offset`
+    function getChallengePage(uint256 offset, uint256 limit) public view returns (GameChallenge[] memory page) {
+        if (offset >= challenges.length) {
+            return page;
+        }
+        
+        uint256 end = offset + limit > challenges.length ? challenges.length : offset + limit;
+        page = new GameChallenge[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = challenges[i];
+        }
+    }
+
+    /// @notice Scan up to `limit` challenges from index `offset` for those of `challengeType`
+    /// @return ids Matching challenge ids
+    /// @return nextOffset Index to resume the scan from; equals the challenge count once the scan is complete
+    function getChallengeIdsByType(
+        string memory challengeType,
+        uint256 offset,
+        uint256 limit
+    ) public view returns (uint256[] memory ids, uint256 nextOffset) {
+        nextOffset = offset + limit > challenges.length ? challenges.length : offset + limit;
+        if (offset >= nextOffset) {
+            return (ids, challenges.length);
+        }
+        
+        bytes32 typeHash = keccak256(bytes(challengeType));
+        uint256[] memory matches = new uint256[](nextOffset - offset);
+        uint256 count = 0;
+        for (uint256 i = offset; i < nextOffset; i++) {
+            if (keccak256(bytes(challenges[i].challengeType)) == typeHash) {
+                matches[count++] = i;
+            }
+        }
+        
+        ids = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            ids[i] = matches[i];
+        }
+    }
+
+    /// @notice Publish your current leaderboard rank through the decryption oracle
+    function requestRankReveal() public onlyRegistered {
+        eaddress player = FHE.asEaddress(msg.sender);
+        euint32 rank = FHE.asEuint32(0);
+        for (uint256 i = 0; i < LEADERBOARD_SIZE; i++) {
+            rank = FHE.select(FHE.eq(leaderboardPlayers[i], player), FHE.asEuint32(uint32(i + 1)), rank);
+        }
         
         bytes32[] memory ciphertexts = new bytes32[](1);
-        ciphertexts[0] = FHE.toBytes32(score);
+        ciphertexts[0] = FHE.toBytes32(FHE.allowThis(rank));
         
-        uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptScore.selector);
-        requestToPlayer[reqId] = msg.sender;
-        requestType[reqId] = "decrypt";
+        uint256 reqId = FHE.requestDecryption(ciphertexts, this.revealRank.selector);
+        _trackRequest(reqId, msg.sender, RequestType.RevealRank);
     }
 
-    /// @notice Callback for decrypted score
-    function decryptScore(
+    /// @notice Callback for decrypted leaderboard rank
+    function revealRank(
         uint256 requestId,
         bytes memory cleartexts,
         bytes memory proof
     ) public {
-        address player = requestToPlayer[requestId];
-        require(player != address(0), "Invalid request");
-        require(keccak256(abi.encodePacked(requestType[requestId])) == keccak256(abi.encodePacked("decrypt")), "Invalid type");
+        address player = _consumeRequest(requestId, RequestType.RevealRank);
         
         // Verify decryption proof
         FHE.checkSignatures(requestId, cleartexts, proof);
         
-        // Process decrypted score
-        uint32 score = abi.decode(cleartexts, (uint32));
-        // Could emit event or store temporarily
+        uint32 rank = abi.decode(cleartexts, (uint32));
+        rankReveals[player] = RankReveal({ rank: rank, revealedAt: block.timestamp, isRevealed: true });
+        emit RankRevealed(player, rank);
+    }
+
+    /// @notice Withdraw a revealed rank from the leaderboard; past reveals remain in the chain history
+    function hideRank() public onlyRegistered {
+        require(rankReveals[msg.sender].isRevealed, "Rank not revealed");
+        delete rankReveals[msg.sender];
+        emit RankHidden(msg.sender);
+    }
+
+    /// @notice Set the name shown next to a revealed rank, or clear it with an empty string
+    function setPseudonym(string calldata pseudonym) public onlyRegistered {
+        require(bytes(pseudonym).length <= MAX_PSEUDONYM_LENGTH, "Pseudonym too long");
+        pseudonyms[msg.sender] = pseudonym;
+        emit PseudonymUpdated(msg.sender, pseudonym);
     }
 
-    /// @notice Add predefined challenge
+    /// @notice Let the computation oracle give up on a request it cannot fulfil
+    function rejectRequest(uint256 requestId, string calldata reason) public onlyComputationOracle {
+        RequestType rejectedType = requestType[requestId];
+        require(
+            rejectedType == RequestType.GenerateChallenge || rejectedType == RequestType.VerifySolution,
+            "Not a computation request"
+        );
+        
+        address player = _consumeRequest(requestId, rejectedType);
+        delete requestToChallenge[requestId];
+        
+        // A stake on an attempt that was never evaluated goes back to the player
+        uint256 stakeId = requestToStake[requestId];
+        if (stakeId != 0) {
+            delete requestToStake[requestId];
+            staking.refund(stakeId);
+        }
+        
+        emit RequestRejected(requestId, player, rejectedType, reason);
+    }
+
+    /// @notice Add predefined challenge with parameters and answer key encrypted client-side
     function addPredefinedChallenge(
-        euint32 difficulty,
-        euint32 reward,
-        string memory challengeType
-    ) public {
+        externalEuint32 difficulty,
+        externalEuint32 reward,
+        externalEuint32 answerKey,
+        bytes calldata inputProof,
+        string memory challengeType,
+        uint8 category
+    ) public onlyCatalogueManager {
+        require(category != PERSONALIZED_CATEGORY, "Reserved category");
+        _initCategoryStats(category);
         challenges.push(GameChallenge({
-            difficultyLevel: difficulty,
-            rewardAmount: reward,
+            difficultyLevel: FHE.allowThis(FHE.fromExternal(difficulty, inputProof)),
+            rewardAmount: FHE.allowThis(FHE.fromExternal(reward, inputProof)),
+            answerKey: FHE.allowThis(FHE.fromExternal(answerKey, inputProof)),
             challengeType: challengeType,
-            isActive: true
+            category: category,
+            isActive: true,
+            isRetired: false
         }));
+        
+        emit ChallengeAdded(challenges.length - 1, challengeType);
+    }
+
+    /// @notice Hide a challenge from players until it is reactivated
+    function deactivateChallenge(uint256 challengeId) public onlyCatalogueManager validChallenge(challengeId) {
+        GameChallenge storage challenge = challenges[challengeId];
+        require(challenge.isActive, "Challenge not active");
+        
+        challenge.isActive = false;
+        emit ChallengeStatusChanged(challengeId, false, false);
+    }
+
+    /// @notice Make a deactivated challenge playable again
+    function reactivateChallenge(uint256 challengeId) public onlyCatalogueManager validChallenge(challengeId) {
+        GameChallenge storage challenge = challenges[challengeId];
+        require(!challenge.isRetired, "Challenge retired");
+        require(!challenge.isActive, "Challenge already active");
+        
+        challenge.isActive = true;
+        emit ChallengeStatusChanged(challengeId, true, false);
+    }
+
+    /// @notice Permanently withdraw a challenge; retired challenges cannot be reactivated
+    function retireChallenge(uint256 challengeId) public onlyCatalogueManager validChallenge(challengeId) {
+        GameChallenge storage challenge = challenges[challengeId];
+        require(!challenge.isRetired, "Challenge retired");
+        
+        challenge.isActive = false;
+        challenge.isRetired = true;
+        emit ChallengeStatusChanged(challengeId, false, true);
+    }
+
+    /// @notice Grant or revoke the educator role, which allows managing the challenge catalogue
+    function setEducatorRole(address account, bool granted) public onlyOwner {
+        require(account != address(0), "Invalid account");
+        educators[account] = granted;
+        emit EducatorRoleUpdated(account, granted);
+    }
+
+    /// @notice Set how many distinct players a category needs before educators may decrypt its aggregates
+    function setMinCohortSize(uint32 newMinCohortSize) public onlyOwner {
+        require(newMinCohortSize > 0, "Invalid cohort size");
+        minCohortSize = newMinCohortSize;
+        emit MinCohortSizeUpdated(newMinCohortSize);
+    }
+
+    /// @notice Let the calling educator decrypt the current aggregates of categories with a large enough cohort
+    function shareCategoryStats(uint8[] calldata categories) public onlyEducator {
+        for (uint256 i = 0; i < categories.length; i++) {
+            CategoryStats storage stats = categoryStats[categories[i]];
+            require(stats.cohortSize >= minCohortSize, "Cohort too small");
+            
+            FHE.allow(stats.attempts, msg.sender);
+            FHE.allow(stats.correctAnswers, msg.sender);
+            FHE.allow(stats.difficultyTotal, msg.sender);
+        }
+        
+        emit CategoryStatsShared(msg.sender, categories);
+    }
+
+    /// @notice Connect the staking escrow. It can only be set once, so pending stakes always settle
+    /// against the escrow that holds them.
+    function setStaking(ChallengeStaking newStaking) public onlyOwner {
+        require(address(staking) == address(0), "Staking already set");
+        require(newStaking.game() == address(this), "Invalid staking");
+        staking = newStaking;
+        emit StakingUpdated(address(newStaking));
+    }
+
+    /// @notice Connect the rewards contract; it records every solution evaluated from then on
+    function setRewards(LiteracyRewards newRewards) public onlyOwner {
+        require(address(rewards) == address(0), "Rewards already set");
+        require(newRewards.game() == address(this), "Invalid rewards");
+        rewards = newRewards;
+        emit RewardsUpdated(address(newRewards));
+    }
+
+    /// @notice Hand over the owner role
+    function transferOwnership(address newOwner) public onlyOwner {
+        require(newOwner != address(0), "Invalid owner");
+        emit OwnershipTransferred(owner, newOwner);
+        owner = newOwner;
+    }
+
+    /// @dev Credit a correct answer without branching on it, so the transaction reveals nothing about correctness.
+    /// Only the first correct answer to a challenge is credited, and whether it was solved before stays encrypted.
+    function _applySolution(address player, uint256 challengeId, ebool isCorrect) private {
+        PlayerState storage state = playerStates[player];
+        state.lastChallengeCompleted = block.timestamp;
+        playerProfiles[player].lastPlayed = block.timestamp;
+        
+        ebool solvedBefore = solved[player][challengeId];
+        if (!FHE.isInitialized(solvedBefore)) {
+            solvedBefore = FHE.asEbool(false);
+        }
+        ebool firstCorrect = FHE.and(isCorrect, FHE.not(solvedBefore));
+        solved[player][challengeId] = FHE.allowThis(FHE.or(solvedBefore, isCorrect));
+        
+        euint32 newScore = FHE.add(
+            state.encryptedScore,
+            Engagement.recordAnswer(engagement[player], player, firstCorrect)
+        );
+        euint32 newProgress = FHE.select(
+            firstCorrect,
+            FHE.add(state.encryptedProgress, FHE.asEuint32(1)),
+            state.encryptedProgress
+        );
+        state.encryptedScore = _grantPlayerAccess(newScore, player);
+        state.encryptedProgress = _grantPlayerAccess(newProgress, player);
+        
+        _updateLeaderboard(player, newScore);
+        _recordAttempt(player, challenges[challengeId], firstCorrect);
+        _adaptKnowledgeLevel(player, challenges[challengeId], isCorrect, solvedBefore);
+        if (address(rewards) != address(0)) {
+            _recordReward(player, challengeId, isCorrect);
+        }
+        
+        emit ScoreUpdated(player);
+    }
+
+    /// @dev Hand a solution and the challenge's reward to the rewards contract, for correct and wrong answers alike
+    function _recordReward(address player, uint256 challengeId, ebool isCorrect) private {
+        GameChallenge storage challenge = challenges[challengeId];
+        FHE.allowTransient(challenge.rewardAmount, address(rewards));
+        FHE.allowTransient(isCorrect, address(rewards));
+        rewards.recordSolution(
+            player,
+            challengeId,
+            challenge.category,
+            challenge.rewardAmount,
+            isCorrect,
+            engagement[player].streak
+        );
+    }
+
+    /// @dev Hand the outcome of a staked attempt to the escrow, which has it publicly decrypted
+    function _settleStake(uint256 stakeId, ebool isCorrect) private {
+        FHE.allow(isCorrect, address(staking));
+        staking.settle(stakeId, isCorrect);
+    }
+
+    /// @dev Add an evaluated solution to its category's aggregates. Who attempted what is already
+    /// public from the transaction, so only the correctness and difficulty totals need encrypting.
+    function _recordAttempt(address player, GameChallenge storage challenge, ebool isCorrect) private {
+        CategoryStats storage stats = categoryStats[challenge.category];
+        if (!inCohort[challenge.category][player]) {
+            inCohort[challenge.category][player] = true;
+            stats.cohortSize++;
+        }
+        
+        stats.attempts = FHE.allowThis(FHE.add(stats.attempts, FHE.asEuint32(1)));
+        stats.correctAnswers = FHE.allowThis(
+            FHE.add(stats.correctAnswers, FHE.select(isCorrect, FHE.asEuint32(1), FHE.asEuint32(0)))
+        );
+        stats.difficultyTotal = FHE.allowThis(FHE.add(stats.difficultyTotal, challenge.difficultyLevel));
+    }
+
+    /// @dev Move a player to their new score on the leaderboard using only encrypted comparisons.
+    /// Scores never decrease, so the player's entry is updated in place, or takes the last slot if it
+    /// beats it, and a single pass from the bottom bubbles it up. Ties keep the earlier entry ahead.
+    function _updateLeaderboard(address player, euint32 newScore) private {
+        euint32[LEADERBOARD_SIZE] memory scores = leaderboardScores;
+        eaddress[LEADERBOARD_SIZE] memory players = leaderboardPlayers;
+        eaddress encryptedPlayer = FHE.asEaddress(player);
+        
+        ebool isListed = FHE.asEbool(false);
+        for (uint256 i = 0; i < LEADERBOARD_SIZE; i++) {
+            ebool isPlayer = FHE.eq(players[i], encryptedPlayer);
+            isListed = FHE.or(isListed, isPlayer);
+            scores[i] = FHE.select(isPlayer, newScore, scores[i]);
+        }
+        
+        uint256 last = LEADERBOARD_SIZE - 1;
+        ebool entersBoard = FHE.and(FHE.not(isListed), FHE.gt(newScore, scores[last]));
+        scores[last] = FHE.select(entersBoard, newScore, scores[last]);
+        players[last] = FHE.select(entersBoard, encryptedPlayer, players[last]);
+        
+        for (uint256 i = last; i > 0; i--) {
+            ebool moveUp = FHE.gt(scores[i], scores[i - 1]);
+            (scores[i - 1], scores[i]) = (
+                FHE.select(moveUp, scores[i], scores[i - 1]),
+                FHE.select(moveUp, scores[i - 1], scores[i])
+            );
+            (players[i - 1], players[i]) = (
+                FHE.select(moveUp, players[i], players[i - 1]),
+                FHE.select(moveUp, players[i - 1], players[i])
+            );
+        }
+        
+        for (uint256 i = 0; i < LEADERBOARD_SIZE; i++) {
+            leaderboardScores[i] = FHE.allowThis(scores[i]);
+            leaderboardPlayers[i] = FHE.allowThis(players[i]);
+        }
+    }
+
+    /// @dev Amounts are capped so scoring can scale them without overflowing
+    function _setSavingsGoal(
+        address player,
+        externalEuint32 savingsTarget,
+        externalEuint32 savingsHorizonMonths,
+        externalEuint32 monthlyContribution,
+        bytes calldata inputProof
+    ) private {
+        SavingsGoal storage goal = savingsGoals[player];
+        goal.targetAmount = _grantPlayerAccess(
+            FHE.min(FHE.fromExternal(savingsTarget, inputProof), PracticeScoring.MAX_SAVINGS_AMOUNT),
+            player
+        );
+        goal.horizonMonths = _grantPlayerAccess(FHE.fromExternal(savingsHorizonMonths, inputProof), player);
+        goal.monthlyContribution = _grantPlayerAccess(
+            FHE.min(FHE.fromExternal(monthlyContribution, inputProof), PracticeScoring.MAX_SAVINGS_AMOUNT),
+            player
+        );
+        
+        emit SavingsGoalUpdated(player);
+    }
+
+    /// @dev Allow one scored run of a practice mode per cooldown, since its outcome cannot be verified
+    function _startPractice(PracticeMode mode) private {
+        uint256 last = lastPracticeAt[msg.sender][mode];
+        require(last == 0 || block.timestamp >= last + PRACTICE_COOLDOWN, "Practice cooldown");
+        lastPracticeAt[msg.sender][mode] = block.timestamp;
+        playerProfiles[msg.sender].lastPlayed = block.timestamp;
+    }
+
+    /// @dev Add practice points to the player's score and leaderboard entry. Modes that count towards
+    /// progress update it themselves.
+    function _creditPracticePoints(address player, euint32 points) private {
+        PlayerState storage state = playerStates[player];
+        euint32 newScore = FHE.add(state.encryptedScore, points);
+        state.encryptedScore = _grantPlayerAccess(newScore, player);
+        _updateLeaderboard(player, newScore);
+        
+        emit ScoreUpdated(player);
+    }
+
+    /// @dev Elo-style rating update against the challenge's rating, followed by the knowledge level
+    /// (the difficulty band of the next personalized challenge). Elo's expected score is approximated
+    /// in three steps, so beating a clearly harder challenge earns the most and failing a clearly
+    /// easier one costs the most. Ratings are clamped to the range of the difficulty scale. Answers to a
+    /// challenge the player already solved say nothing new about them and leave the rating unchanged.
+    function _adaptKnowledgeLevel(
+        address player,
+        GameChallenge storage challenge,
+        ebool isCorrect,
+        ebool solvedBefore
+    ) private {
+        PlayerProfile storage profile = playerProfiles[player];
+        euint32 rating = profile.encryptedRating;
+        euint32 challengeRating = FHE.mul(challenge.difficultyLevel, RATING_PER_LEVEL);
+        
+        ebool isFavourite = FHE.ge(rating, FHE.add(challengeRating, RATING_MARGIN));
+        ebool isUnderdog = FHE.le(FHE.add(rating, RATING_MARGIN), challengeRating);
+        euint32 gain = FHE.select(
+            isFavourite,
+            FHE.asEuint32(K_SMALL),
+            FHE.select(isUnderdog, FHE.asEuint32(K_LARGE), FHE.asEuint32(K_EVEN))
+        );
+        euint32 loss = FHE.select(
+            isFavourite,
+            FHE.asEuint32(K_LARGE),
+            FHE.select(isUnderdog, FHE.asEuint32(K_SMALL), FHE.asEuint32(K_EVEN))
+        );
+        
+        // Raising the floor before subtracting keeps the unsigned rating from wrapping around
+        euint32 raised = FHE.min(FHE.add(rating, gain), MAX_RATING);
+        euint32 lowered = FHE.sub(FHE.max(rating, FHE.add(loss, MIN_RATING)), loss);
+        rating = FHE.select(solvedBefore, rating, FHE.select(isCorrect, raised, lowered));
+        
+        profile.encryptedRating = _grantPlayerAccess(rating, player);
+        profile.encryptedKnowledgeLevel = _grantPlayerAccess(_levelOf(rating), player);
+    }
+
+    /// @dev Knowledge level whose challenge rating is nearest to `rating`
+    function _levelOf(euint32 rating) private returns (euint32 level) {
+        level = FHE.asEuint32(MIN_LEVEL);
+        for (uint32 l = MIN_LEVEL + 1; l <= MAX_LEVEL; l++) {
+            ebool reached = FHE.ge(rating, l * RATING_PER_LEVEL - RATING_PER_LEVEL / 2);
+            level = FHE.select(reached, FHE.asEuint32(l), level);
+        }
+    }
+
+    /// @dev Bring a client-supplied knowledge level onto the difficulty scale
+    function _clampLevel(euint32 level) private returns (euint32) {
+        return FHE.min(FHE.max(level, MIN_LEVEL), MAX_LEVEL);
+    }
+
+    /// @dev Start a category's aggregates at zero before its first challenge can be answered, so the
+    /// first answer in a category does not stand out
+    function _initCategoryStats(uint8 category) private {
+        CategoryStats storage stats = categoryStats[category];
+        if (!FHE.isInitialized(stats.attempts)) {
+            stats.attempts = FHE.allowThis(FHE.asEuint32(0));
+            stats.correctAnswers = FHE.allowThis(FHE.asEuint32(0));
+            stats.difficultyTotal = FHE.allowThis(FHE.asEuint32(0));
+        }
+    }
+
+    /// @dev Record a pending request; each one can be fulfilled or rejected exactly once
+    function _trackRequest(uint256 requestId, address player, RequestType expectedType) private {
+        requestToPlayer[requestId] = player;
+        requestType[requestId] = expectedType;
+    }
+
+    /// @dev Check a callback against its pending request and clear it so it cannot be replayed
+    function _consumeRequest(uint256 requestId, RequestType expectedType) private returns (address player) {
+        player = requestToPlayer[requestId];
+        require(player != address(0), "Invalid request");
+        require(requestType[requestId] == expectedType, "Invalid type");
+        
+        delete requestToPlayer[requestId];
+        delete requestType[requestId];
+    }
+
+    /// @dev Let the contract, the player and the player's data-sharing educator read a player-owned ciphertext
+    function _grantPlayerAccess(euint32 value, address player) private returns (euint32) {
+        PlayerAccess.grant(value, player);
+        
+        address educator = playerEducator[player];
+        if (educator != address(0)) {
+            FHE.allow(value, educator);
+        }
+        return value;
+    }
+
+    /// @dev Hand ciphertexts to the off-chain computation engine, which answers through `callbackSelector`
+    function _requestComputation(bytes32[] memory ciphertexts, bytes4 callbackSelector) private returns (uint256) {
+        // Every computation input in this contract is a euint32
+        for (uint256 i = 0; i < ciphertexts.length; i++) {
+            euint32 input = euint32.wrap(ciphertexts[i]);
+            FHE.allowThis(input);
+            FHE.allow(input, computationOracle);
+        }
+        
+        // Hashed so computation ids never collide with decryption oracle request ids
+        uint256 reqId = uint256(keccak256(abi.encode(address(this), ++computationCounter)));
+        emit ComputationRequested(reqId, callbackSelector, ciphertexts);
+        return reqId;
     }
 }
\ No newline at end of file
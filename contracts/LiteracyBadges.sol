@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { ERC1155 } from "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
+
+/// @notice ERC-1155 collection of milestone badges. Badges record what a player achieved, so they are
+/// soulbound: they can be minted by the rewards contract that deployed the collection, and never
+/// transferred. Each badge id is awarded at most once per player.
+contract LiteracyBadges is ERC1155 {
+    address public immutable minter;
+
+    constructor(string memory uri_) ERC1155(uri_) {
+        minter = msg.sender;
+    }
+
+    /// @notice Award a badge to a player
+    function mint(address to, uint256 badgeId) public {
+        require(msg.sender == minter, "Not minter");
+        require(balanceOf(to, badgeId) == 0, "Badge already awarded");
+        _mint(to, badgeId, 1, "");
+    }
+
+    /// @dev Only minting moves badges
+    function _update(
+        address from,
+        address to,
+        uint256[] memory ids,
+        uint256[] memory values
+    ) internal override {
+        require(from == address(0), "Badges are non-transferable");
+        super._update(from, to, ids, values);
+    }
+}
@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { ERC20 } from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// @notice ERC-20 "Literacy Point" earned on verified challenge completions. Points are whole units, so
+/// the token has no decimals. Only the rewards contract that deployed it can mint.
+contract LiteracyPoint is ERC20 {
+    address public immutable minter;
+
+    constructor() ERC20("Literacy Point", "LIT") {
+        minter = msg.sender;
+    }
+
+    /// @notice Mint points redeemed by a player
+    function mint(address to, uint256 amount) public {
+        require(msg.sender == minter, "Not minter");
+        _mint(to, amount);
+    }
+
+    function decimals() public pure override returns (uint8) {
+        return 0;
+    }
+}
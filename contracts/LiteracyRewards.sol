@@ -0,0 +1,216 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { LiteracyPoint } from "./LiteracyPoint.sol";
+import { LiteracyBadges } from "./LiteracyBadges.sol";
+import { PlayerAccess } from "./PlayerAccess.sol";
+
+/// @notice Redeemable rewards for FinancialLiteracyGame: the Literacy Point token and milestone badges.
+/// The game hands over every evaluated solution, correct or not, together with the challenge's reward,
+/// so recording rewards leaves the same trace for every answer. Only the first correct solution of a
+/// challenge earns its reward and counts as a completion, and which challenges a player has solved stays
+/// encrypted. Earned points and per-category correct answers accumulate encrypted and are readable by
+/// the player only.
+/// Tokens are public, so turning them into tokens is opt-in: redeeming publishes the amount redeemed,
+/// and claiming a badge publishes whether the player was eligible, both through the decryption oracle.
+/// Streaks are already public, so the streak badge is awarded without decrypting anything.
+contract LiteracyRewards is SepoliaConfig {
+    /// @dev A pending decryption, for a point redemption (badge id 0) or a badge claim
+    struct PendingRequest {
+        address player;
+        uint256 badgeId;
+    }
+
+    // Badge ids in the LiteracyBadges collection
+    uint256 public constant FIRST_COMPLETION = 1;
+    uint256 public constant CATEGORY_MASTERY = 2;
+    uint256 public constant WEEK_STREAK = 3;
+
+    /// @dev Category mastery asks for this many correct answers in each of this many categories
+    uint256 public constant MASTERY_CATEGORIES = 5;
+    uint32 public constant MASTERY_CORRECT_ANSWERS = 3;
+    uint32 public constant STREAK_BADGE_DAYS = 7;
+    /// @dev Same as FinancialLiteracyGame.PERSONALIZED_CATEGORY; personalized challenges are not a
+    /// topic, so they count towards completions but not mastery
+    uint8 private constant PERSONALIZED_CATEGORY = type(uint8).max;
+
+    address public immutable game;
+    LiteracyPoint public immutable points;
+    LiteracyBadges public immutable badges;
+
+    mapping(address => euint32) private pendingPoints;
+    mapping(address => euint32) private completions;
+    mapping(address => mapping(uint8 => euint32)) private correctByCategory;
+    // Whether the player already solved a challenge, so repeating it earns nothing
+    mapping(address => mapping(uint256 => ebool)) private solved;
+    // Longest run of consecutive days with an answer
+    mapping(address => uint32) public bestStreak;
+    mapping(address => mapping(uint256 => bool)) public badgeClaimPending;
+
+    mapping(uint256 => PendingRequest) private requests;
+
+    event SolutionRecorded(address indexed player);
+    event RedemptionRequested(address indexed player, uint256 indexed requestId);
+    event PointsRedeemed(address indexed player, uint256 amount);
+    event BadgeClaimRequested(address indexed player, uint256 indexed badgeId, uint256 indexed requestId);
+    event BadgeClaimSettled(address indexed player, uint256 indexed badgeId, bool awarded);
+
+    constructor(address gameAddress, string memory badgeUri) {
+        require(gameAddress != address(0), "Invalid game");
+        game = gameAddress;
+        points = new LiteracyPoint();
+        badges = new LiteracyBadges(badgeUri);
+    }
+
+    /// @dev Modifier to restrict recording to the game
+    modifier onlyGame() {
+        require(msg.sender == game, "Not game");
+        _;
+    }
+
+    /// @notice Record an evaluated solution
+    /// @param reward The challenge's reward, earned by the player's first correct solution only
+    /// @param streak The player's current streak of days with an answer, including this one
+    function recordSolution(
+        address player,
+        uint256 challengeId,
+        uint8 category,
+        euint32 reward,
+        ebool isCorrect,
+        uint32 streak
+    ) public onlyGame {
+        ebool solvedBefore = solved[player][challengeId];
+        if (!FHE.isInitialized(solvedBefore)) {
+            solvedBefore = FHE.asEbool(false);
+        }
+        ebool firstCorrect = FHE.and(isCorrect, FHE.not(solvedBefore));
+        solved[player][challengeId] = FHE.allowThis(FHE.or(solvedBefore, isCorrect));
+
+        euint32 earned = FHE.select(firstCorrect, reward, FHE.asEuint32(0));
+        pendingPoints[player] = PlayerAccess.grant(FHE.add(pendingPoints[player], earned), player);
+
+        euint32 correct = FHE.select(firstCorrect, FHE.asEuint32(1), FHE.asEuint32(0));
+        completions[player] = PlayerAccess.grant(FHE.add(completions[player], correct), player);
+        if (category != PERSONALIZED_CATEGORY) {
+            correctByCategory[player][category] = PlayerAccess.grant(
+                FHE.add(correctByCategory[player][category], correct),
+                player
+            );
+        }
+
+        if (streak > bestStreak[player]) {
+            bestStreak[player] = streak;
+        }
+
+        emit SolutionRecorded(player);
+    }
+
+    /// @notice Mint every point earned so far as Literacy Point tokens. The amount is published to mint it.
+    function redeemPoints() public {
+        euint32 amount = pendingPoints[msg.sender];
+        require(FHE.isInitialized(amount), "Nothing to redeem");
+
+        // Points earned while the redemption is being decrypted belong to the next one
+        pendingPoints[msg.sender] = PlayerAccess.grant(FHE.asEuint32(0), msg.sender);
+
+        bytes32[] memory ciphertexts = new bytes32[](1);
+        ciphertexts[0] = FHE.toBytes32(amount);
+
+        uint256 reqId = FHE.requestDecryption(ciphertexts, this.mintPoints.selector);
+        requests[reqId] = PendingRequest({ player: msg.sender, badgeId: 0 });
+        emit RedemptionRequested(msg.sender, reqId);
+    }
+
+    /// @notice Callback for the decrypted amount of a redemption
+    function mintPoints(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        PendingRequest memory request = _consumeRequest(requestId);
+        require(request.badgeId == 0, "Invalid request");
+
+        // Verify decryption proof
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        uint32 amount = abi.decode(cleartexts, (uint32));
+        if (amount > 0) {
+            points.mint(request.player, amount);
+        }
+        emit PointsRedeemed(request.player, amount);
+    }
+
+    /// @notice Claim a milestone badge. Whether the caller qualifies is published to award it.
+    /// @param categories For category mastery, the MASTERY_CATEGORIES categories claimed, in increasing
+    /// order; ignored for other badges
+    function claimBadge(uint256 badgeId, uint8[] calldata categories) public {
+        require(badges.balanceOf(msg.sender, badgeId) == 0, "Badge already awarded");
+        require(!badgeClaimPending[msg.sender][badgeId], "Badge claim pending");
+
+        if (badgeId == WEEK_STREAK) {
+            require(bestStreak[msg.sender] >= STREAK_BADGE_DAYS, "Streak too short");
+            badges.mint(msg.sender, badgeId);
+            emit BadgeClaimSettled(msg.sender, badgeId, true);
+            return;
+        }
+
+        ebool isEligible;
+        if (badgeId == FIRST_COMPLETION) {
+            isEligible = FHE.ge(completions[msg.sender], 1);
+        } else if (badgeId == CATEGORY_MASTERY) {
+            isEligible = _hasMastered(msg.sender, categories);
+        } else {
+            revert("Unknown badge");
+        }
+
+        badgeClaimPending[msg.sender][badgeId] = true;
+
+        bytes32[] memory ciphertexts = new bytes32[](1);
+        ciphertexts[0] = FHE.toBytes32(isEligible);
+
+        uint256 reqId = FHE.requestDecryption(ciphertexts, this.awardBadge.selector);
+        requests[reqId] = PendingRequest({ player: msg.sender, badgeId: badgeId });
+        emit BadgeClaimRequested(msg.sender, badgeId, reqId);
+    }
+
+    /// @notice Callback for the decrypted eligibility of a badge claim
+    function awardBadge(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        PendingRequest memory request = _consumeRequest(requestId);
+        require(request.badgeId != 0, "Invalid request");
+
+        // Verify decryption proof
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        bool awarded = abi.decode(cleartexts, (bool));
+        badgeClaimPending[request.player][request.badgeId] = false;
+        if (awarded) {
+            badges.mint(request.player, request.badgeId);
+        }
+        emit BadgeClaimSettled(request.player, request.badgeId, awarded);
+    }
+
+    /// @notice Points earned but not redeemed yet, decryptable by the player
+    function getEncryptedPendingPoints(address player) public view returns (euint32) {
+        return pendingPoints[player];
+    }
+
+    /// @notice Correct answers overall and in a category, decryptable by the player
+    function getEncryptedCorrectAnswers(address player, uint8 category) public view returns (euint32, euint32) {
+        return (completions[player], correctByCategory[player][category]);
+    }
+
+    /// @dev Whether the player answered enough correctly in each of the distinct categories given
+    function _hasMastered(address player, uint8[] calldata categories) private returns (ebool mastered) {
+        require(categories.length == MASTERY_CATEGORIES, "Invalid categories");
+
+        mastered = FHE.asEbool(true);
+        for (uint256 i = 0; i < categories.length; i++) {
+            require(i == 0 || categories[i] > categories[i - 1], "Invalid categories");
+            mastered = FHE.and(mastered, FHE.ge(correctByCategory[player][categories[i]], MASTERY_CORRECT_ANSWERS));
+        }
+    }
+
+    function _consumeRequest(uint256 requestId) private returns (PendingRequest memory request) {
+        request = requests[requestId];
+        require(request.player != address(0), "Invalid request");
+        delete requests[requestId];
+    }
+}
@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint32 } from "@fhevm/solidity/lib/FHE.sol";
+
+/// @notice Access to player-owned ciphertexts, shared by the game and the contracts and libraries around it.
+/// The function is internal, so it is compiled into each caller and runs in its context: in a linked
+/// library such as Engagement, the contract kept able to use the ciphertext is the game.
+library PlayerAccess {
+    /// @dev Keep a ciphertext usable by the calling contract and decryptable by the player
+    function grant(euint32 value, address player) internal returns (euint32) {
+        FHE.allowThis(value);
+        FHE.allow(value, player);
+        return value;
+    }
+}
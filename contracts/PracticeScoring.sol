@@ -0,0 +1,127 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+
+/// @notice Scoring rules of the practice modes, computed on encrypted values.
+/// Practice outcomes are self-reported, so every rule caps what a submission can earn. The functions
+/// are public so the library is deployed once and linked: they run through DELEGATECALL in the game's
+/// context, which keeps the game under the contract size limit without changing whose ciphertexts these are.
+library PracticeScoring {
+    /// @dev Goals are stored as a question bank category index: 0 "Budgeting", 1 "Investing", 2 "Credit",
+    /// 3 "Taxes", 4 "Savings"
+    uint32 internal constant BUDGETING_GOAL = 0;
+    uint32 internal constant INVESTING_GOAL = 1;
+    uint32 internal constant CREDIT_GOAL = 2;
+    uint32 internal constant TAXES_GOAL = 3;
+    uint32 internal constant SAVINGS_GOAL = 4;
+    /// @dev Keeps goal arithmetic (3/4 of the target) well inside euint32
+    uint32 internal constant MAX_SAVINGS_AMOUNT = 100_000_000;
+
+    uint32 private constant MAX_GROWTH_PERCENT = 50;
+    uint32 private constant GROWTH_PERCENT_PER_POINT = 5;
+    uint32 private constant RISK_MATCH_POINTS = 20;
+    uint32 private constant RISK_NEAR_POINTS = 10;
+    uint32 private constant BUDGET_MONTHS = 3;
+    uint32 private constant POINTS_PER_MONTH_ON_TARGET = 5;
+    uint32 private constant MAX_ACCURACY_PERCENT = 100;
+    uint32 private constant ACCURACY_PERCENT_PER_POINT = 10;
+    /// @dev Simulated credit scores use the common 300-850 range; points start above a fair score
+    uint32 private constant MIN_SCORED_CREDIT = 550;
+    uint32 private constant MAX_CREDIT_SCORE = 850;
+    uint32 private constant CREDIT_SCORE_PER_POINT = 10;
+    uint32 private constant GOOD_CREDIT_SCORE = 700;
+    uint32 private constant GOOD_CREDIT_GOAL_BONUS = 10;
+    uint32 private constant TAX_SCENARIOS = 5;
+    uint32 private constant POINTS_PER_TAX_ANSWER = 4;
+    uint32 private constant SAVINGS_REACHED_POINTS = 30;
+    uint32 private constant SAVINGS_NEAR_POINTS = 15;
+    uint32 private constant SAVINGS_GOAL_BONUS = 10;
+
+    /// @notice Points for an investing simulation: suitability of the portfolio for the player's risk
+    /// tolerance, plus growth, which counts double for players whose goal is growing their money
+    /// @param risk Average risk band of the allocations, already clamped to the 1-3 risk scale
+    function investing(
+        euint32 risk,
+        euint32 growthPercent,
+        euint32 riskTolerance,
+        euint32 goal
+    ) public returns (euint32) {
+        euint32 distance = FHE.select(
+            FHE.ge(risk, riskTolerance),
+            FHE.sub(risk, riskTolerance),
+            FHE.sub(riskTolerance, risk)
+        );
+        euint32 fitPoints = FHE.select(
+            FHE.eq(distance, 0),
+            FHE.asEuint32(RISK_MATCH_POINTS),
+            FHE.select(FHE.eq(distance, 1), FHE.asEuint32(RISK_NEAR_POINTS), FHE.asEuint32(0))
+        );
+
+        euint32 growth = FHE.min(growthPercent, MAX_GROWTH_PERCENT);
+        euint32 growthPoints = _doubleForGoal(FHE.div(growth, GROWTH_PERCENT_PER_POINT), goal, INVESTING_GOAL);
+        return FHE.add(fitPoints, growthPoints);
+    }
+
+    /// @notice Points for a budgeting run. Hitting the savings target counts double for players whose
+    /// goal is budgeting.
+    function budgeting(euint32 monthsOnTarget, euint32 categorizationAccuracy, euint32 goal) public returns (euint32) {
+        euint32 months = FHE.min(monthsOnTarget, BUDGET_MONTHS);
+        euint32 targetPoints = _doubleForGoal(FHE.mul(months, POINTS_PER_MONTH_ON_TARGET), goal, BUDGETING_GOAL);
+
+        euint32 accuracy = FHE.min(categorizationAccuracy, MAX_ACCURACY_PERCENT);
+        return FHE.add(targetPoints, FHE.div(accuracy, ACCURACY_PERCENT_PER_POINT));
+    }
+
+    /// @notice Points for a credit simulation by the score it ended with, and whether that score is good.
+    /// A good score earns a bonus for players whose goal is credit.
+    function credit(euint32 creditScore, euint32 goal) public returns (euint32 points, ebool isGood) {
+        euint32 finalScore = FHE.max(FHE.min(creditScore, MAX_CREDIT_SCORE), MIN_SCORED_CREDIT);
+        points = FHE.div(FHE.sub(finalScore, MIN_SCORED_CREDIT), CREDIT_SCORE_PER_POINT);
+
+        isGood = FHE.ge(finalScore, GOOD_CREDIT_SCORE);
+        points = FHE.select(
+            FHE.and(isGood, FHE.eq(goal, CREDIT_GOAL)),
+            FHE.add(points, GOOD_CREDIT_GOAL_BONUS),
+            points
+        );
+    }
+
+    /// @notice Points for a tax practice round. Correct answers count double for players whose goal is taxes.
+    function taxes(euint32 correctAnswers, euint32 goal) public returns (euint32) {
+        euint32 correct = FHE.min(correctAnswers, TAX_SCENARIOS);
+        return _doubleForGoal(FHE.mul(correct, POINTS_PER_TAX_ANSWER), goal, TAXES_GOAL);
+    }
+
+    /// @notice Points for a savings plan projected towards the player's goal. A plan only counts if its
+    /// monthly contribution fits what the player said they can put aside.
+    function savings(
+        euint32 projectedAmount,
+        euint32 planContribution,
+        euint32 targetAmount,
+        euint32 monthlyContribution,
+        euint32 goal
+    ) public returns (euint32 points) {
+        euint32 projected = FHE.min(projectedAmount, MAX_SAVINGS_AMOUNT);
+        ebool isAffordable = FHE.le(planContribution, monthlyContribution);
+        ebool isReached = FHE.and(isAffordable, FHE.ge(projected, targetAmount));
+        // Within a quarter of the target: projected >= 3/4 target, without dividing ciphertexts
+        ebool isNear = FHE.and(isAffordable, FHE.ge(FHE.mul(projected, 4), FHE.mul(targetAmount, 3)));
+
+        points = FHE.select(
+            isReached,
+            FHE.asEuint32(SAVINGS_REACHED_POINTS),
+            FHE.select(isNear, FHE.asEuint32(SAVINGS_NEAR_POINTS), FHE.asEuint32(0))
+        );
+        points = FHE.select(
+            FHE.and(isReached, FHE.eq(goal, SAVINGS_GOAL)),
+            FHE.add(points, SAVINGS_GOAL_BONUS),
+            points
+        );
+    }
+
+    /// @dev Double points for players whose goal is the topic being practised
+    function _doubleForGoal(euint32 points, euint32 goal, uint32 topic) private returns (euint32) {
+        return FHE.select(FHE.eq(goal, topic), FHE.add(points, points), points);
+    }
+}
@@ -3,7 +3,12 @@ import fs from "fs";
 import path from "path";
 import readline from "readline";
 import { ethers as hardhatEthers } from "hardhat";
-import { Wallet, JsonRpcProvider } from "ethers";
+import { Wallet, JsonRpcProvider, parseEther } from "ethers";
+import {
+  ChallengeStaking__factory,
+  FinancialLiteracyGame__factory,
+  LiteracyRewards__factory,
+} from "../types";
 
 
 const WORD_LIBRARY = [
@@ -342,9 +347,64 @@ async function main() {
   const factory = await UniversalAdapterFactory.deploy();
   await factory.waitForDeployment();
 
-  const deployedAddress = (factory as any).target || (factory as any).address;
+  const deployedAddress = await factory.getAddress();
   console.log("UniversalAdapter contract deployed at:", deployedAddress);
 
+  // Deploy the FinancialLiteracyGame contract, wired to the off-chain FHE computation engine
+  const oracle = (await ask("Enter the computation oracle address (press Enter to use the deployer): ")) || wallet.address;
+  const ScoringFactory = await hardhatEthers.getContractFactory("PracticeScoring", wallet);
+  const scoring = await ScoringFactory.deploy();
+  await scoring.waitForDeployment();
+  console.log("PracticeScoring library deployed at:", await scoring.getAddress());
+
+  const EngagementFactory = await hardhatEthers.getContractFactory("Engagement", wallet);
+  const engagement = await EngagementFactory.deploy();
+  await engagement.waitForDeployment();
+  console.log("Engagement library deployed at:", await engagement.getAddress());
+
+  const GameFactory = new FinancialLiteracyGame__factory(
+    {
+      "contracts/PracticeScoring.sol:PracticeScoring": await scoring.getAddress(),
+      "contracts/Engagement.sol:Engagement": await engagement.getAddress(),
+    },
+    wallet
+  );
+  const game = await GameFactory.deploy(oracle);
+  await game.waitForDeployment();
+
+  const gameAddress = await game.getAddress();
+  // The frontend indexes game events from this block instead of scanning the whole chain
+  const gameDeploymentBlock = (await game.deploymentTransaction()?.wait())?.blockNumber ?? 0;
+  console.log("FinancialLiteracyGame contract deployed at:", gameAddress);
+
+  // Deploy the staking escrow and connect it to the game; forfeited stakes go to the deployer until a
+  // treasury is set
+  const staking = await new ChallengeStaking__factory(wallet).deploy(gameAddress);
+  await staking.waitForDeployment();
+
+  const stakingAddress = await staking.getAddress();
+  await (await game.setStaking(stakingAddress)).wait();
+  console.log("ChallengeStaking contract deployed at:", stakingAddress);
+
+  // Every stake reserves its reward from the pool, so stakes are refused until the pool is funded. It can
+  // be topped up later by anyone, for instance from the Claims page.
+  const poolFunding = await ask("Enter the ETH to fund the staking reward pool with (press Enter to skip): ");
+  if (poolFunding) {
+    await (await staking.fundRewardPool({ value: parseEther(poolFunding) })).wait();
+    console.log("Funded the staking reward pool with", poolFunding, "ETH");
+  } else {
+    console.warn("The staking reward pool is empty: stakes will be refused until it is funded");
+  }
+
+  // Deploy the rewards contract, which deploys the Literacy Point token and badge collection it mints
+  const badgeUri = await ask("Enter the badge metadata URI, with {id} for the badge id (press Enter to leave it empty): ");
+  const rewards = await new LiteracyRewards__factory(wallet).deploy(gameAddress, badgeUri);
+  await rewards.waitForDeployment();
+
+  const rewardsAddress = await rewards.getAddress();
+  await (await game.setRewards(rewardsAddress)).wait();
+  console.log("LiteracyRewards contract deployed at:", rewardsAddress);
+
   // Write config for the frontend
   const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
   if (!fs.existsSync(frontendConfigDir)) {
@@ -353,6 +413,10 @@ async function main() {
     const config = {
       network: rpc,
       contractAddress: deployedAddress,
+      gameContractAddress: gameAddress,
+      stakingContractAddress: stakingAddress,
+      rewardsContractAddress: rewardsAddress,
+      gameDeploymentBlock,
       deployer: wallet.address,
     };
     fs.writeFileSync(
@@ -361,25 +425,28 @@ async function main() {
     );
     console.log("Wrote frontend config: frontend/web/src/config.json");
 
-    // Copy ABI to the frontend
-    try {
-      const artifactPath = path.join(
-        __dirname,
-        "..",
-        "artifacts",
-        "contracts",
-        "UniversalAdapter.sol",
-        "UniversalAdapter.json"
-      );
-      const targetAbiPath = path.join(frontendConfigDir, "abi");
-      if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
-      fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalAdapter.json"));
-      console.log("Copied ABI to frontend/web/src/abi/UniversalAdapter.json");
-    } catch (e) {
-      console.warn(
-        "Failed to copy ABI automatically. Please copy artifacts/.../UniversalAdapter.json manually to frontend/web/src/abi/UniversalAdapter.json",
-        e
-      );
+    // Copy ABIs to the frontend
+    const targetAbiPath = path.join(frontendConfigDir, "abi");
+    if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
+    const frontendContracts = [
+      "UniversalAdapter",
+      "FinancialLiteracyGame",
+      "ChallengeStaking",
+      "LiteracyRewards",
+      "LiteracyPoint",
+      "LiteracyBadges",
+    ];
+    for (const name of frontendContracts) {
+      try {
+        const artifactPath = path.join(__dirname, "..", "artifacts", "contracts", `${name}.sol`, `${name}.json`);
+        fs.copyFileSync(artifactPath, path.join(targetAbiPath, `${name}.json`));
+        console.log(`Copied ABI to frontend/web/src/abi/${name}.json`);
+      } catch (e) {
+        console.warn(
+          `Failed to copy ABI automatically. Please copy artifacts/.../${name}.json manually to frontend/web/src/abi/${name}.json`,
+          e
+        );
+      }
     }
   }
 }
@@ -1,19 +1,45 @@
 // App.tsx
 import React, { useEffect, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { PRACTICE_MODES, PlayerProfileInput, PracticeMode, getGameClientReadOnly, getGameClientWithSigner } from "./gameClient";
+import {
+  CHALLENGE_CATEGORIES,
+  DIFFICULTY_LABELS,
+  categoryId,
+  categoryOfChallenge,
+  decodeAnswer,
+  getQuestion,
+  questionsInCategory
+} from "./questionBank";
+import { config } from "./contract";
+import { loadSolutionOutcomes } from "./solutionResults";
+import { IndexedChallenge, loadCachedChallenges, syncChallenges } from "./challengeIndex";
 import WalletManager from "./components/WalletManager";
 import WalletSelector from "./components/WalletSelector";
+import OnboardingWizard from "./components/OnboardingWizard";
+import ChallengeRequestTracker from "./components/ChallengeRequestTracker";
+import AnswerModal from "./components/AnswerModal";
+import MyProgressPanel from "./components/MyProgressPanel";
+import QuestBoard from "./components/QuestBoard";
+import LeaderboardPanel from "./components/LeaderboardPanel";
+import PracticeModesPanel from "./components/PracticeModesPanel";
+import InvestingSimulator from "./components/InvestingSimulator";
+import BudgetingGame from "./components/BudgetingGame";
+import CreditSimulator from "./components/CreditSimulator";
+import TaxPractice from "./components/TaxPractice";
+import SavingsPlanner from "./components/SavingsPlanner";
+import CatalogueAdmin from "./components/CatalogueAdmin";
+import EducatorDashboard from "./components/EducatorDashboard";
+import ClaimsPage from "./components/ClaimsPage";
+import ProfilePage from "./components/ProfilePage";
 import "./App.css";
 
 interface GameChallenge {
-  id: string;
-  encryptedScore: string;
-  timestamp: number;
-  player: string;
+  id: number;
+  challengeType: string;
   category: string;
-  status: "pending" | "completed" | "failed";
-  reward: number;
+  completedAt?: number;
+  status: "pending" | "completed" | "failed" | "inactive";
 }
 
 const App: React.FC = () => {
@@ -36,6 +62,19 @@ const App: React.FC = () => {
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
+  const [registered, setRegistered] = useState(false);
+  const [registering, setRegistering] = useState(false);
+  const [showOnboarding, setShowOnboarding] = useState(false);
+  const [canManageCatalogue, setCanManageCatalogue] = useState(false);
+  const [showCatalogueAdmin, setShowCatalogueAdmin] = useState(false);
+  const [isEducator, setIsEducator] = useState(false);
+  const [showEducatorDashboard, setShowEducatorDashboard] = useState(false);
+  const [showClaims, setShowClaims] = useState(false);
+  const [showProfile, setShowProfile] = useState(false);
+  const [practiceMode, setPracticeMode] = useState<PracticeMode | null>(null);
+  const [practiceRefreshKey, setPracticeRefreshKey] = useState(0);
+  const [questRefreshKey, setQuestRefreshKey] = useState(0);
+  const [answeringChallenge, setAnsweringChallenge] = useState<GameChallenge | null>(null);
   const [walletSelectorOpen, setWalletSelectorOpen] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{
     visible: boolean;
@@ -44,8 +83,8 @@ const App: React.FC = () => {
   }>({ visible: false, status: "pending", message: "" });
   const [newChallengeData, setNewChallengeData] = useState({
     category: "",
-    difficulty: "1",
-    stakeAmount: "0"
+    questionId: "",
+    rewardPoints: "10"
   });
   const [searchTerm, setSearchTerm] = useState("");
   const [filterCategory, setFilterCategory] = useState("all");
@@ -53,12 +92,15 @@ const App: React.FC = () => {
   // Calculate statistics
   const completedCount = challenges.filter(c => c.status === "completed").length;
   const pendingCount = challenges.filter(c => c.status === "pending").length;
-  const failedCount = challenges.filter(c => c.status === "failed").length;
-  const totalRewards = challenges.reduce((sum, c) => sum + (c.status === "completed" ? c.reward : 0), 0);
+  const inactiveCount = challenges.filter(c => c.status === "inactive").length;
 
   useEffect(() => {
     loadChallenges().finally(() => setLoading(false));
-  }, []);
+    if (account) {
+      checkRegistration();
+      checkCatalogueRole();
+    }
+  }, [account]);
 
   const onWalletSelect = async (wallet: any) => {
     if (!wallet.provider) return;
@@ -82,150 +124,75 @@ const App: React.FC = () => {
   const onDisconnect = () => {
     setAccount("");
     setProvider(null);
+    setRegistered(false);
+    setShowOnboarding(false);
+    setCanManageCatalogue(false);
+    setShowCatalogueAdmin(false);
+    setIsEducator(false);
+    setShowEducatorDashboard(false);
   };
 
-  const loadChallenges = async () => {
-    setIsRefreshing(true);
+  const checkCatalogueRole = async () => {
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      // Check contract availability using FHE
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) {
-        console.error("Contract is not available");
-        return;
-      }
-      
-      const keysBytes = await contract.getData("challenge_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing challenge keys:", e);
-        }
-      }
-      
-      const list: GameChallenge[] = [];
+      const client = await getGameClientReadOnly();
+      if (!client) return;
+      setCanManageCatalogue(await client.isCatalogueManager(account));
+      setIsEducator(await client.isEducator(account));
+    } catch (e) {
+      console.error("Error checking catalogue role:", e);
+      setCanManageCatalogue(false);
+      setIsEducator(false);
+    }
+  };
+
+  const checkRegistration = async () => {
+    try {
+      const client = await getGameClientReadOnly();
+      if (!client) return;
       
-      for (const key of keys) {
-        try {
-          const challengeBytes = await contract.getData(`challenge_${key}`);
-          if (challengeBytes.length > 0) {
-            try {
-              const challengeData = JSON.parse(ethers.toUtf8String(challengeBytes));
-              list.push({
-                id: key,
-                encryptedScore: challengeData.score,
-                timestamp: challengeData.timestamp,
-                player: challengeData.player,
-                category: challengeData.category,
-                status: challengeData.status || "pending",
-                reward: challengeData.reward || 0
-              });
-            } catch (e) {
-              console.error(`Error parsing challenge data for ${key}:`, e);
-            }
-          }
-        } catch (e) {
-          console.error(`Error loading challenge ${key}:`, e);
-        }
-      }
+      const events = await client.getPlayerRegisteredEvents(account);
+      const isRegistered = events.length > 0;
+      setRegistered(isRegistered);
       
-      list.sort((a, b) => b.timestamp - a.timestamp);
-      setChallenges(list);
+      // Returning players already have an encrypted profile and skip onboarding
+      setShowOnboarding(!isRegistered);
     } catch (e) {
-      console.error("Error loading challenges:", e);
-    } finally {
-      setIsRefreshing(false);
-      setLoading(false);
+      console.error("Error checking registration:", e);
     }
   };
 
-  const submitChallenge = async () => {
-    if (!provider) { 
-      alert("Please connect wallet first"); 
-      return; 
+  const registerPlayer = async (profile: PlayerProfileInput) => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
     }
     
-    setCreating(true);
+    setRegistering(true);
     setTransactionStatus({
       visible: true,
       status: "pending",
-      message: "Encrypting financial data with FHE..."
+      message: "Encrypting player profile with FHE..."
     });
     
     try {
-      // Simulate FHE encryption
-      const encryptedScore = `FHE-${btoa(JSON.stringify({
-        category: newChallengeData.category,
-        difficulty: newChallengeData.difficulty,
-        stakeAmount: newChallengeData.stakeAmount
-      }))}`;
-      
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
-      
-      const challengeId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-
-      const challengeData = {
-        score: encryptedScore,
-        timestamp: Math.floor(Date.now() / 1000),
-        player: account,
-        category: newChallengeData.category,
-        status: "pending",
-        reward: parseInt(newChallengeData.stakeAmount) * parseInt(newChallengeData.difficulty)
-      };
-      
-      // Store encrypted data on-chain using FHE
-      await contract.setData(
-        `challenge_${challengeId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(challengeData))
-      );
-      
-      const keysBytes = await contract.getData("challenge_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing keys:", e);
-        }
-      }
-      
-      keys.push(challengeId);
-      
-      await contract.setData(
-        "challenge_keys", 
-        ethers.toUtf8Bytes(JSON.stringify(keys))
-      );
+      const client = await getGameClientWithSigner();
+      await client.registerPlayer(profile);
+      setRegistered(true);
       
       setTransactionStatus({
         visible: true,
         status: "success",
-        message: "FHE challenge created successfully!"
+        message: "Encrypted profile registered!"
       });
       
-      await loadChallenges();
-      
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
-        setShowCreateModal(false);
-        setNewChallengeData({
-          category: "",
-          difficulty: "1",
-          stakeAmount: "0"
-        });
+        setShowOnboarding(false);
       }, 2000);
     } catch (e: any) {
       const errorMessage = e.message.includes("user rejected transaction")
         ? "Transaction rejected by user"
-        : "Submission failed: " + (e.message || "Unknown error");
+        : "Registration failed: " + (e.message || "Unknown error");
       
       setTransactionStatus({
         visible: true,
@@ -237,137 +204,136 @@ const App: React.FC = () => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 3000);
     } finally {
-      setCreating(false);
+      setRegistering(false);
     }
   };
 
-  const completeChallenge = async (challengeId: string) => {
-    if (!provider) {
-      alert("Please connect wallet first");
-      return;
-    }
-
-    setTransactionStatus({
-      visible: true,
-      status: "pending",
-      message: "Processing FHE challenge..."
-    });
-
+  const loadChallenges = async () => {
+    setIsRefreshing(true);
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
+      const client = await getGameClientReadOnly();
+      if (!client) return;
       
-      const challengeBytes = await contract.getData(`challenge_${challengeId}`);
-      if (challengeBytes.length === 0) {
-        throw new Error("Challenge not found");
+      // Show the cached catalogue straight away, then catch up on events since it was saved
+      const cached = await loadCachedChallenges();
+      if (cached.length > 0) {
+        setChallenges(toGameChallenges(cached));
       }
-      
-      const challengeData = JSON.parse(ethers.toUtf8String(challengeBytes));
-      
-      const updatedChallenge = {
-        ...challengeData,
-        status: "completed"
-      };
-      
-      await contract.setData(
-        `challenge_${challengeId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedChallenge))
-      );
-      
-      setTransactionStatus({
-        visible: true,
-        status: "success",
-        message: "Challenge completed with FHE!"
-      });
-      
-      await loadChallenges();
-      
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 2000);
-    } catch (e: any) {
-      setTransactionStatus({
-        visible: true,
-        status: "error",
-        message: "Completion failed: " + (e.message || "Unknown error")
-      });
-      
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-      }, 3000);
+      setChallenges(toGameChallenges(await syncChallenges(client)));
+    } catch (e) {
+      console.error("Error loading challenges:", e);
+    } finally {
+      setIsRefreshing(false);
+      setLoading(false);
     }
   };
 
-  const failChallenge = async (challengeId: string) => {
-    if (!provider) {
-      alert("Please connect wallet first");
-      return;
-    }
+  const toGameChallenges = (indexed: IndexedChallenge[]): GameChallenge[] => {
+    // Outcomes are private: only results this player decrypted in this browser are known
+    const outcomes = account ? loadSolutionOutcomes(account) : {};
+    
+    // Retired challenges are withdrawn from the catalogue for good
+    const list: GameChallenge[] = indexed.filter(challenge => !challenge.isRetired).map(challenge => {
+      const outcome = outcomes[challenge.id];
+      const completed = outcome?.result === "correct";
+      return {
+        id: challenge.id,
+        challengeType: challenge.challengeType,
+        category: categoryOfChallenge(challenge.challengeType),
+        completedAt: completed ? Math.floor(outcome.answeredAt / 1000) : undefined,
+        status: completed
+          ? "completed"
+          : !challenge.isActive
+            ? "inactive"
+            : outcome?.result === "incorrect" ? "failed" : "pending"
+      };
+    });
+    
+    list.sort((a, b) => b.id - a.id);
+    return list;
+  };
 
+  const submitChallenge = async () => {
+    if (!provider) { 
+      alert("Please connect wallet first"); 
+      return; 
+    }
+    
+    setCreating(true);
     setTransactionStatus({
       visible: true,
       status: "pending",
-      message: "Processing FHE challenge..."
+      message: "Encrypting financial data with FHE..."
     });
-
+    
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
-      
-      const challengeBytes = await contract.getData(`challenge_${challengeId}`);
-      if (challengeBytes.length === 0) {
-        throw new Error("Challenge not found");
-      }
-      
-      const challengeData = JSON.parse(ethers.toUtf8String(challengeBytes));
-      
-      const updatedChallenge = {
-        ...challengeData,
-        status: "failed"
-      };
-      
-      await contract.setData(
-        `challenge_${challengeId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedChallenge))
+      const client = await getGameClientWithSigner();
+      const question = getQuestion(newChallengeData.questionId);
+      if (!question) throw new Error("Unknown question");
+      const rewardPoints = Math.max(0, Math.round(Number(newChallengeData.rewardPoints) || 0));
+      
+      // The question id is stored as the challenge type so players are shown the same question
+      await client.addPredefinedChallenge(
+        question.difficulty,
+        rewardPoints * question.difficulty,
+        decodeAnswer(question),
+        question.id,
+        categoryId(question.category)
       );
       
       setTransactionStatus({
         visible: true,
         status: "success",
-        message: "Challenge marked as failed!"
+        message: "FHE challenge created successfully!"
       });
       
       await loadChallenges();
       
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
+        setShowCreateModal(false);
+        setNewChallengeData({
+          category: "",
+          questionId: "",
+          rewardPoints: "10"
+        });
       }, 2000);
     } catch (e: any) {
+      const errorMessage = e.message.includes("user rejected transaction")
+        ? "Transaction rejected by user"
+        : "Submission failed: " + (e.message || "Unknown error");
+      
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: "Operation failed: " + (e.message || "Unknown error")
+        message: errorMessage
       });
       
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 3000);
+    } finally {
+      setCreating(false);
     }
   };
 
-  const isPlayer = (address: string) => {
-    return account.toLowerCase() === address.toLowerCase();
+  const openAnswer = (challenge: GameChallenge) => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+    if (!registered) {
+      setShowOnboarding(true);
+      return;
+    }
+    setAnsweringChallenge(challenge);
   };
 
   const renderPieChart = () => {
     const total = challenges.length || 1;
     const completedPercentage = (completedCount / total) * 100;
     const pendingPercentage = (pendingCount / total) * 100;
-    const failedPercentage = (failedCount / total) * 100;
+    const inactivePercentage = (inactiveCount / total) * 100;
 
     return (
       <div className="pie-chart-container">
@@ -381,8 +347,8 @@ const App: React.FC = () => {
             style={{ transform: `rotate(${(completedPercentage + pendingPercentage) * 3.6}deg)` }}
           ></div>
           <div 
-            className="pie-segment failed" 
-            style={{ transform: `rotate(${(completedPercentage + pendingPercentage + failedPercentage) * 3.6}deg)` }}
+            className="pie-segment inactive" 
+            style={{ transform: `rotate(${(completedPercentage + pendingPercentage + inactivePercentage) * 3.6}deg)` }}
           ></div>
           <div className="pie-center">
             <div className="pie-value">{challenges.length}</div>
@@ -399,8 +365,8 @@ const App: React.FC = () => {
             <span>Pending: {pendingCount}</span>
           </div>
           <div className="legend-item">
-            <div className="color-box failed"></div>
-            <span>Failed: {failedCount}</span>
+            <div className="color-box inactive"></div>
+            <span>Inactive: {inactiveCount}</span>
           </div>
         </div>
       </div>
@@ -408,7 +374,7 @@ const App: React.FC = () => {
   };
 
   const filteredChallenges = challenges.filter(challenge => {
-    const matchesSearch = challenge.id.toLowerCase().includes(searchTerm.toLowerCase()) || 
+    const matchesSearch = challenge.id.toString().includes(searchTerm) || 
                          challenge.category.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesCategory = filterCategory === "all" || challenge.category === filterCategory;
     return matchesSearch && matchesCategory;
@@ -434,13 +400,55 @@ const App: React.FC = () => {
         </div>
         
         <div className="header-actions">
-          <button 
-            onClick={() => setShowCreateModal(true)} 
-            className="create-challenge-btn cyber-button"
-          >
-            <div className="add-icon"></div>
-            New Challenge
-          </button>
+          {account && !registered && (
+            <button 
+              onClick={() => setShowOnboarding(true)} 
+              className="cyber-button primary"
+            >
+              Get Started
+            </button>
+          )}
+          {account && config.rewardsContractAddress && (
+            <button 
+              onClick={() => setShowProfile(true)} 
+              className="cyber-button"
+            >
+              Profile
+            </button>
+          )}
+          {account && config.stakingContractAddress && (
+            <button 
+              onClick={() => setShowClaims(true)} 
+              className="cyber-button"
+            >
+              Claims
+            </button>
+          )}
+          {isEducator && (
+            <button 
+              onClick={() => setShowEducatorDashboard(true)} 
+              className="cyber-button"
+            >
+              Educator Dashboard
+            </button>
+          )}
+          {canManageCatalogue && (
+            <button 
+              onClick={() => setShowCatalogueAdmin(true)} 
+              className="cyber-button"
+            >
+              Manage Catalogue
+            </button>
+          )}
+          {canManageCatalogue && (
+            <button 
+              onClick={() => setShowCreateModal(true)} 
+              className="create-challenge-btn cyber-button"
+            >
+              <div className="add-icon"></div>
+              New Challenge
+            </button>
+          )}
           <WalletManager account={account} onConnect={onConnect} onDisconnect={onDisconnect} />
         </div>
       </header>
@@ -478,8 +486,8 @@ const App: React.FC = () => {
                 <div className="stat-label">Pending</div>
               </div>
               <div className="stat-item">
-                <div className="stat-value">{totalRewards}</div>
-                <div className="stat-label">Total Rewards</div>
+                <div className="stat-value">{inactiveCount}</div>
+                <div className="stat-label">Inactive</div>
               </div>
             </div>
           </div>
@@ -488,8 +496,50 @@ const App: React.FC = () => {
             <h3>Challenge Distribution</h3>
             {renderPieChart()}
           </div>
+          
+          {account && (
+            <MyProgressPanel
+              account={account}
+              registered={registered}
+              onRequireOnboarding={() => setShowOnboarding(true)}
+            />
+          )}
+          
+          {account && (
+            <QuestBoard
+              account={account}
+              registered={registered}
+              onRequireOnboarding={() => setShowOnboarding(true)}
+              refreshKey={questRefreshKey}
+            />
+          )}
+          
+          <LeaderboardPanel
+            account={account}
+            registered={registered}
+            onRequireOnboarding={() => setShowOnboarding(true)}
+          />
+          
+          {account && (
+            <PracticeModesPanel
+              account={account}
+              registered={registered}
+              onRequireOnboarding={() => setShowOnboarding(true)}
+              onStart={setPracticeMode}
+              refreshKey={practiceRefreshKey}
+            />
+          )}
         </div>
         
+        {account && (
+          <ChallengeRequestTracker
+            account={account}
+            registered={registered}
+            onRequireOnboarding={() => setShowOnboarding(true)}
+            onFulfilled={() => loadChallenges()}
+          />
+        )}
+        
         <div className="challenges-section">
           <div className="section-header">
             <h2>Financial Challenges</h2>
@@ -527,9 +577,9 @@ const App: React.FC = () => {
             <div className="table-header">
               <div className="header-cell">ID</div>
               <div className="header-cell">Category</div>
-              <div className="header-cell">Player</div>
-              <div className="header-cell">Date</div>
+              <div className="header-cell">Difficulty</div>
               <div className="header-cell">Reward</div>
+              <div className="header-cell">Completed</div>
               <div className="header-cell">Status</div>
               <div className="header-cell">Actions</div>
             </div>
@@ -538,44 +588,38 @@ const App: React.FC = () => {
               <div className="no-challenges">
                 <div className="no-challenges-icon"></div>
                 <p>No financial challenges found</p>
-                <button 
-                  className="cyber-button primary"
-                  onClick={() => setShowCreateModal(true)}
-                >
-                  Create First Challenge
-                </button>
+                {canManageCatalogue && (
+                  <button 
+                    className="cyber-button primary"
+                    onClick={() => setShowCreateModal(true)}
+                  >
+                    Create First Challenge
+                  </button>
+                )}
               </div>
             ) : (
               filteredChallenges.map(challenge => (
                 <div className="challenge-row" key={challenge.id}>
-                  <div className="table-cell challenge-id">#{challenge.id.substring(0, 6)}</div>
+                  <div className="table-cell challenge-id">#{challenge.id}</div>
                   <div className="table-cell">{challenge.category}</div>
-                  <div className="table-cell">{challenge.player.substring(0, 6)}...{challenge.player.substring(38)}</div>
+                  <div className="table-cell">Encrypted</div>
+                  <div className="table-cell">Encrypted</div>
                   <div className="table-cell">
-                    {new Date(challenge.timestamp * 1000).toLocaleDateString()}
+                    {challenge.completedAt ? new Date(challenge.completedAt * 1000).toLocaleDateString() : "-"}
                   </div>
-                  <div className="table-cell">{challenge.reward}</div>
                   <div className="table-cell">
                     <span className={`status-badge ${challenge.status}`}>
                       {challenge.status}
                     </span>
                   </div>
                   <div className="table-cell actions">
-                    {isPlayer(challenge.player) && challenge.status === "pending" && (
-                      <>
-                        <button 
-                          className="action-btn cyber-button success"
-                          onClick={() => completeChallenge(challenge.id)}
-                        >
-                          Complete
-                        </button>
-                        <button 
-                          className="action-btn cyber-button danger"
-                          onClick={() => failChallenge(challenge.id)}
-                        >
-                          Fail
-                        </button>
-                      </>
+                    {account && (challenge.status === "pending" || challenge.status === "failed") && (
+                      <button 
+                        className="action-btn cyber-button success"
+                        onClick={() => openAnswer(challenge)}
+                      >
+                        {challenge.status === "failed" ? "Retry" : "Answer"}
+                      </button>
                     )}
                   </div>
                 </div>
@@ -595,6 +639,92 @@ const App: React.FC = () => {
         />
       )}
       
+      {showCatalogueAdmin && (
+        <CatalogueAdmin
+          account={account}
+          onClose={() => setShowCatalogueAdmin(false)}
+          onCreate={() => {
+            setShowCatalogueAdmin(false);
+            setShowCreateModal(true);
+          }}
+          onChanged={() => loadChallenges()}
+        />
+      )}
+      
+      {showEducatorDashboard && (
+        <EducatorDashboard onClose={() => setShowEducatorDashboard(false)} />
+      )}
+      
+      {showClaims && (
+        <ClaimsPage account={account} onClose={() => setShowClaims(false)} />
+      )}
+      
+      {showProfile && (
+        <ProfilePage account={account} onClose={() => setShowProfile(false)} />
+      )}
+      
+      {practiceMode === "Investing" && (
+        <InvestingSimulator
+          account={account}
+          onClose={() => setPracticeMode(null)}
+          onScored={() => setPracticeRefreshKey(key => key + 1)}
+        />
+      )}
+      
+      {practiceMode === "Budgeting" && (
+        <BudgetingGame
+          account={account}
+          onClose={() => setPracticeMode(null)}
+          onScored={() => setPracticeRefreshKey(key => key + 1)}
+        />
+      )}
+      
+      {practiceMode === "Credit" && (
+        <CreditSimulator
+          account={account}
+          onClose={() => setPracticeMode(null)}
+          onScored={() => setPracticeRefreshKey(key => key + 1)}
+        />
+      )}
+      
+      {practiceMode === "Taxes" && (
+        <TaxPractice
+          account={account}
+          onClose={() => setPracticeMode(null)}
+          onScored={() => setPracticeRefreshKey(key => key + 1)}
+        />
+      )}
+      
+      {practiceMode === "Savings" && (
+        <SavingsPlanner
+          account={account}
+          onClose={() => setPracticeMode(null)}
+          onScored={() => setPracticeRefreshKey(key => key + 1)}
+        />
+      )}
+      
+      {answeringChallenge && (
+        <AnswerModal 
+          account={account}
+          challengeId={answeringChallenge.id}
+          challengeType={answeringChallenge.challengeType}
+          category={answeringChallenge.category}
+          onClose={() => setAnsweringChallenge(null)}
+          onVerified={() => {
+            loadChallenges();
+            setQuestRefreshKey(key => key + 1);
+          }}
+        />
+      )}
+      
+      {showOnboarding && (
+        <OnboardingWizard 
+          registering={registering}
+          onRegister={registerPlayer}
+          onClose={() => setShowOnboarding(false)}
+        />
+      )}
+      
       {walletSelectorOpen && (
         <WalletSelector
           isOpen={walletSelectorOpen}
@@ -668,7 +798,9 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
     const { name, value } = e.target;
     setChallengeData({
       ...challengeData,
-      [name]: value
+      [name]: value,
+      // A new category invalidates the chosen question
+      ...(name === "category" ? { questionId: "" } : {})
     });
   };
 
@@ -677,10 +809,16 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
       alert("Please select a category");
       return;
     }
+    if (!challengeData.questionId) {
+      alert("Please select a question");
+      return;
+    }
     
     onSubmit();
   };
 
+  const selectedQuestion = getQuestion(challengeData.questionId);
+
   return (
     <div className="modal-overlay">
       <div className="create-modal cyber-card">
@@ -704,42 +842,60 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
                 className="cyber-select"
               >
                 <option value="">Select category</option>
-                <option value="Budgeting">Budgeting</option>
-                <option value="Investing">Investing</option>
-                <option value="Credit">Credit</option>
-                <option value="Taxes">Taxes</option>
-                <option value="Savings">Savings</option>
+                {CHALLENGE_CATEGORIES.map(category => (
+                  <option key={category} value={category}>{category}</option>
+                ))}
               </select>
             </div>
             
             <div className="form-group">
-              <label>Difficulty Level</label>
+              <label>Question *</label>
               <select 
-                name="difficulty"
-                value={challengeData.difficulty} 
+                name="questionId"
+                value={challengeData.questionId} 
                 onChange={handleChange}
                 className="cyber-select"
+                disabled={!challengeData.category}
               >
-                <option value="1">Beginner</option>
-                <option value="2">Intermediate</option>
-                <option value="3">Advanced</option>
+                <option value="">Select question</option>
+                {questionsInCategory(challengeData.category).map(question => (
+                  <option key={question.id} value={question.id}>
+                    [{DIFFICULTY_LABELS[question.difficulty]}] {question.prompt}
+                  </option>
+                ))}
               </select>
             </div>
             
             <div className="form-group">
-              <label>Stake Amount (ETH)</label>
+              <label>Difficulty Level</label>
+              <input 
+                type="text"
+                value={selectedQuestion ? DIFFICULTY_LABELS[selectedQuestion.difficulty] : "-"}
+                readOnly
+                className="cyber-input"
+              />
+            </div>
+            
+            <div className="form-group">
+              <label>Reward Points (per difficulty level)</label>
               <input 
                 type="number"
-                name="stakeAmount"
-                value={challengeData.stakeAmount} 
+                name="rewardPoints"
+                value={challengeData.rewardPoints} 
                 onChange={handleChange}
                 min="0"
-                step="0.01"
+                step="1"
                 className="cyber-input"
               />
             </div>
           </div>
           
+          {(PRACTICE_MODES as readonly string[]).includes(challengeData.category) && (
+            <p className="simulator-hint">
+              Players can also practise {challengeData.category} hands-on in its practice mode on the dashboard.
+            </p>
+          )}
+          
           <div className="privacy-notice">
             <div className="privacy-icon"></div> Your financial data remains encrypted during FHE processing
           </div>
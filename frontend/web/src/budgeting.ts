@@ -0,0 +1,151 @@
+// budgeting.ts
+import { randomInt, randomSeed, seededRandom, shuffled } from "./random";
+
+// Monthly budgeting game played client-side. Each month brings an income and a set of expenses; the
+// player labels every expense a need or a want and may cut wants to reach the savings target. The
+// ledger stays in the browser and only the scored summary is encrypted and sent to the contract.
+export const BUDGET_MONTHS = 3;
+// Share of income to save each month, the "20" of the 50/30/20 rule
+export const SAVINGS_TARGET_PERCENT = 20;
+// Skipping an essential bill does not make it go away
+export const LATE_FEE = 75;
+
+export type ExpenseKind = "need" | "want";
+
+interface ExpenseTemplate {
+  description: string;
+  kind: ExpenseKind;
+  min: number;
+  max: number;
+}
+
+const EXPENSE_TEMPLATES: ExpenseTemplate[] = [
+  { description: "Rent", kind: "need", min: 1100, max: 1500 },
+  { description: "Groceries", kind: "need", min: 300, max: 450 },
+  { description: "Electricity and water", kind: "need", min: 120, max: 200 },
+  { description: "Bus pass and fuel", kind: "need", min: 100, max: 250 },
+  { description: "Health insurance", kind: "need", min: 80, max: 150 },
+  { description: "Minimum loan payment", kind: "need", min: 100, max: 200 },
+  { description: "Phone plan", kind: "need", min: 30, max: 60 },
+  { description: "Dining out", kind: "want", min: 80, max: 250 },
+  { description: "Streaming subscriptions", kind: "want", min: 20, max: 50 },
+  { description: "Concert tickets", kind: "want", min: 60, max: 180 },
+  { description: "New gadget", kind: "want", min: 150, max: 400 },
+  { description: "Clothing haul", kind: "want", min: 60, max: 200 },
+  { description: "Weekend trip", kind: "want", min: 200, max: 500 },
+  { description: "Gym upgrade", kind: "want", min: 30, max: 80 }
+];
+
+const NEEDS_PER_MONTH = 5;
+const WANTS_PER_MONTH = 4;
+
+export interface LedgerEntry {
+  description: string;
+  amount: number;
+  kind: ExpenseKind;
+  // The player's choices
+  label: ExpenseKind | null;
+  cut: boolean;
+}
+
+export interface BudgetMonth {
+  income: number;
+  entries: LedgerEntry[];
+}
+
+export interface ClosedMonth extends BudgetMonth {
+  spent: number;
+  saved: number;
+  savingsPercent: number;
+  onTarget: boolean;
+}
+
+export interface BudgetGame {
+  seed: number;
+  months: BudgetMonth[];
+  closed: ClosedMonth[];
+}
+
+export interface BudgetSummary {
+  monthsOnTarget: number;
+  categorizationAccuracy: number;
+  totalSaved: number;
+}
+
+function generateMonths(seed: number, count: number): BudgetMonth[] {
+  const random = seededRandom(seed);
+  const needs = EXPENSE_TEMPLATES.filter(template => template.kind === "need");
+  const wants = EXPENSE_TEMPLATES.filter(template => template.kind === "want");
+
+  return Array.from({ length: count }, () => {
+    const picked = [
+      ...shuffled(random, needs).slice(0, NEEDS_PER_MONTH),
+      ...shuffled(random, wants).slice(0, WANTS_PER_MONTH)
+    ];
+    return {
+      income: randomInt(random, 32, 42) * 100,
+      entries: shuffled(random, picked).map(template => ({
+        description: template.description,
+        amount: randomInt(random, template.min, template.max),
+        kind: template.kind,
+        label: null,
+        cut: false
+      }))
+    };
+  });
+}
+
+export function newBudgetGame(seed = randomSeed(), months = BUDGET_MONTHS): BudgetGame {
+  return { seed, months: generateMonths(seed, months), closed: [] };
+}
+
+export function isFinished(game: BudgetGame) {
+  return game.closed.length >= game.months.length;
+}
+
+export function currentMonth(game: BudgetGame): BudgetMonth | null {
+  return isFinished(game) ? null : game.months[game.closed.length];
+}
+
+export function updateEntry(game: BudgetGame, index: number, change: Partial<Pick<LedgerEntry, "label" | "cut">>): BudgetGame {
+  const month = currentMonth(game);
+  if (!month) throw new Error("Budget is finished");
+  const entries = month.entries.map((entry, i) => (i === index ? { ...entry, ...change } : entry));
+  return { ...game, months: game.months.map(m => (m === month ? { ...month, entries } : m)) };
+}
+
+// A cut want is simply not bought; a cut need is paid anyway, with a late fee
+export function entryCost(entry: LedgerEntry) {
+  if (!entry.cut) return entry.amount;
+  return entry.kind === "need" ? entry.amount + LATE_FEE : 0;
+}
+
+export function monthTotals(month: BudgetMonth) {
+  const spent = month.entries.reduce((sum, entry) => sum + entryCost(entry), 0);
+  const saved = Math.max(0, month.income - spent);
+  const savingsPercent = Math.floor((saved / month.income) * 100);
+  return { spent, saved, savingsPercent, onTarget: savingsPercent >= SAVINGS_TARGET_PERCENT };
+}
+
+export function canCloseMonth(month: BudgetMonth) {
+  return month.entries.every(entry => entry.label !== null);
+}
+
+export function closeMonth(game: BudgetGame): BudgetGame {
+  const month = currentMonth(game);
+  if (!month) throw new Error("Budget is finished");
+  if (!canCloseMonth(month)) throw new Error("Label every expense as a need or a want first");
+  return { ...game, closed: [...game.closed, { ...month, ...monthTotals(month) }] };
+}
+
+export function summarizeBudget(game: BudgetGame): BudgetSummary {
+  if (!isFinished(game)) throw new Error("Budget is not finished");
+
+  const entries = game.closed.flatMap(month => month.entries);
+  const correct = entries.filter(entry => entry.label === entry.kind).length;
+  return {
+    monthsOnTarget: game.closed.filter(month => month.onTarget).length,
+    categorizationAccuracy: Math.floor((correct / entries.length) * 100),
+    totalSaved: game.closed.reduce((sum, month) => sum + month.saved, 0)
+  };
+}
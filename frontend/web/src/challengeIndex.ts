@@ -0,0 +1,169 @@
+// challengeIndex.ts
+import { ethers } from "ethers";
+import { LOG_BLOCK_RANGE, config } from "./contract";
+import { GameClient, OnChainChallenge } from "./gameClient";
+
+// The catalogue as rebuilt from game events; encrypted parameters are not needed to list challenges
+export type IndexedChallenge = Pick<OnChainChallenge, "id" | "challengeType" | "isActive" | "isRetired">;
+
+// Challenges indexed up to and including `lastBlock`, for one game deployment
+interface IndexSnapshot {
+  scope: string;
+  lastBlock: number;
+  challenges: IndexedChallenge[];
+}
+
+const DB_NAME = "finlit-index";
+const DB_VERSION = 2;
+const SNAPSHOT_STORE = "snapshots";
+
+// Blocks scanned again on every sync so a short reorg cannot leave stale statuses behind. Replaying
+// events is idempotent, and a challenge dropped by a reorg is caught by the count check.
+const REORG_DEPTH = 12;
+
+const scope = () => config.gameContractAddress.toLowerCase();
+
+const openDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      // Version 1 indexed personalized challenge requests as challenges, so its snapshots are rebuilt
+      if (db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+        db.deleteObjectStore(SNAPSHOT_STORE);
+      }
+      db.createObjectStore(SNAPSHOT_STORE, { keyPath: "scope" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// The cache is an optimisation: without IndexedDB (private browsing) every sync starts over
+async function readSnapshot(): Promise<IndexSnapshot | null> {
+  try {
+    const db = await openDb();
+    return await new Promise<IndexSnapshot | null>((resolve, reject) => {
+      const request = db.transaction(SNAPSHOT_STORE, "readonly").objectStore(SNAPSHOT_STORE).get(scope());
+      request.onsuccess = () => resolve((request.result as IndexSnapshot | undefined) ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  } catch (e) {
+    console.warn("Challenge index unavailable:", e);
+    return null;
+  }
+}
+
+async function writeSnapshot(snapshot: IndexSnapshot) {
+  try {
+    const db = await openDb();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(SNAPSHOT_STORE, "readwrite");
+      tx.objectStore(SNAPSHOT_STORE).put(snapshot);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } catch (e) {
+    console.warn("Failed to save challenge index:", e);
+  }
+}
+
+const sortById = (challenges: Iterable<IndexedChallenge>) => [...challenges].sort((a, b) => a.id - b.id);
+
+// Logs of one block range, in the order they were emitted
+async function queryRange(contract: ethers.Contract, fromBlock: number, toBlock: number) {
+  const filters = [
+    contract.filters.ChallengeAdded(),
+    // Not PersonalizedChallengeGenerated, which also announces requests by their request id
+    contract.filters.PersonalizedChallengeFulfilled(),
+    contract.filters.ChallengeStatusChanged()
+  ];
+  const logs = (await Promise.all(filters.map(filter => contract.queryFilter(filter, fromBlock, toBlock)))).flat();
+  return logs
+    .filter((log): log is ethers.EventLog => log instanceof ethers.EventLog)
+    .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+}
+
+function applyEvent(challenges: Map<number, IndexedChallenge>, log: ethers.EventLog) {
+  const id = Number(log.args.challengeId);
+  switch (log.eventName) {
+    case "ChallengeAdded":
+      challenges.set(id, { id, challengeType: log.args.challengeType, isActive: true, isRetired: false });
+      break;
+    case "PersonalizedChallengeFulfilled":
+      challenges.set(id, { id, challengeType: log.args.challengeType, isActive: true, isRetired: false });
+      break;
+    case "ChallengeStatusChanged": {
+      const challenge = challenges.get(id);
+      if (challenge) {
+        challenges.set(id, { ...challenge, isActive: log.args.isActive, isRetired: log.args.isRetired });
+      }
+      break;
+    }
+  }
+}
+
+// Cached challenges to show straight away, before the index catches up
+export async function loadCachedChallenges(): Promise<IndexedChallenge[]> {
+  if (!config.gameContractAddress) return [];
+  return (await readSnapshot())?.challenges ?? [];
+}
+
+async function sync(client: GameClient): Promise<IndexedChallenge[]> {
+  const contract = client.contract;
+  const provider = contract.runner?.provider;
+  if (!provider) {
+    throw new Error("Game contract has no provider");
+  }
+
+  const snapshot = (await readSnapshot()) ?? {
+    scope: scope(),
+    lastBlock: config.gameDeploymentBlock - 1,
+    challenges: []
+  };
+  const challenges = new Map(snapshot.challenges.map(challenge => [challenge.id, challenge]));
+  const latest = await provider.getBlockNumber();
+
+  // Progress is saved after every range, so an interrupted sync resumes where it stopped. A failed
+  // query throws before the cursor moves, so no event is skipped.
+  let from = Math.max(snapshot.lastBlock + 1 - REORG_DEPTH, config.gameDeploymentBlock);
+  while (from <= latest) {
+    const to = Math.min(from + LOG_BLOCK_RANGE - 1, latest);
+    for (const log of await queryRange(contract, from, to)) {
+      applyEvent(challenges, log);
+    }
+    snapshot.lastBlock = to;
+    snapshot.challenges = sortById(challenges.values());
+    await writeSnapshot(snapshot);
+    from = to + 1;
+  }
+
+  // Events only tell the whole story if none were missed, for instance with a start block after the
+  // deployment, so the catalogue is read in full whenever the counts disagree
+  if (challenges.size !== (await client.getChallengeCount())) {
+    console.warn("Challenge index incomplete, reloading the catalogue from the contract");
+    snapshot.challenges = sortById(
+      (await client.getChallenges()).map(({ id, challengeType, isActive, isRetired }) => ({
+        id,
+        challengeType,
+        isActive,
+        isRetired
+      }))
+    );
+    snapshot.lastBlock = latest;
+    await writeSnapshot(snapshot);
+  }
+  return snapshot.challenges;
+}
+
+// Concurrent callers share a single sync
+let pending: Promise<IndexedChallenge[]> | null = null;
+
+// Brings the index up to date from game events and returns every challenge, retired ones included
+export function syncChallenges(client: GameClient): Promise<IndexedChallenge[]> {
+  if (!pending) {
+    pending = sync(client).finally(() => {
+      pending = null;
+    });
+  }
+  return pending;
+}
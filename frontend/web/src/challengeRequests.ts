@@ -0,0 +1,85 @@
+// challengeRequests.ts
+import { ChallengeFulfilledEvent, RequestRejectedEvent } from "./gameClient";
+
+// The computation oracle normally answers within a few blocks; anything slower is treated as lost
+export const CHALLENGE_REQUEST_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface ChallengeRequest {
+  requestId: string;
+  requestedAt: number;
+  status: "pending" | "fulfilled" | "rejected" | "timedout";
+  challengeId?: number;
+  fulfilledAt?: number;
+  rejectionReason?: string;
+}
+
+const storageKey = (account: string) => `finlit_challenge_requests_${account.toLowerCase()}`;
+
+export function loadChallengeRequests(account: string): ChallengeRequest[] {
+  try {
+    const raw = localStorage.getItem(storageKey(account));
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.error("Error loading challenge requests:", e);
+    return [];
+  }
+}
+
+export function saveChallengeRequests(account: string, requests: ChallengeRequest[]) {
+  localStorage.setItem(storageKey(account), JSON.stringify(requests));
+}
+
+export function addChallengeRequest(requests: ChallengeRequest[], requestId: bigint, now = Date.now()): ChallengeRequest[] {
+  return [{ requestId: requestId.toString(), requestedAt: now, status: "pending" }, ...requests];
+}
+
+// Correlates a fulfilment with its request. Late fulfilments still resolve timed-out requests.
+export function applyFulfilment(
+  requests: ChallengeRequest[],
+  event: ChallengeFulfilledEvent,
+  fulfilledAt = Date.now()
+): ChallengeRequest[] {
+  const requestId = event.requestId.toString();
+  return requests.map(request =>
+    request.requestId === requestId && request.status !== "fulfilled"
+      ? { ...request, status: "fulfilled" as const, challengeId: Number(event.challengeId), fulfilledAt }
+      : request
+  );
+}
+
+// The oracle gave up on the request, so it will never be fulfilled
+export function applyRejection(requests: ChallengeRequest[], event: RequestRejectedEvent): ChallengeRequest[] {
+  const requestId = event.requestId.toString();
+  return requests.map(request =>
+    request.requestId === requestId && request.status !== "fulfilled"
+      ? { ...request, status: "rejected" as const, rejectionReason: event.reason }
+      : request
+  );
+}
+
+export function expireChallengeRequests(
+  requests: ChallengeRequest[],
+  now = Date.now(),
+  timeoutMs = CHALLENGE_REQUEST_TIMEOUT_MS
+): ChallengeRequest[] {
+  return requests.map(request =>
+    request.status === "pending" && now - request.requestedAt > timeoutMs
+      ? { ...request, status: "timedout" as const }
+      : request
+  );
+}
+
+export function requestLatency(request: ChallengeRequest, now = Date.now()) {
+  return (request.fulfilledAt ?? now) - request.requestedAt;
+}
+
+export function averageLatency(requests: ChallengeRequest[]) {
+  const fulfilled = requests.filter(request => request.status === "fulfilled");
+  if (fulfilled.length === 0) return null;
+  return fulfilled.reduce((sum, request) => sum + requestLatency(request), 0) / fulfilled.length;
+}
+
+export function formatLatency(ms: number) {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
@@ -0,0 +1,226 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { SolutionResult, getGameClientReadOnly, getGameClientWithSigner } from '../gameClient';
+import { getStakingClientReadOnly } from '../stakingClient';
+import { questionForChallenge } from '../questionBank';
+import { loadSolutionOutcomes, recordSolutionOutcome } from '../solutionResults';
+
+interface AnswerModalProps {
+  account: string;
+  challengeId: number;
+  challengeType: string;
+  category: string;
+  onClose: () => void;
+  onVerified: (result: SolutionResult) => void;
+}
+
+type Phase = "answering" | "submitting" | "verifying" | SolutionResult;
+
+const RESULT_MESSAGES: Record<SolutionResult, string> = {
+  correct: "Correct! Your encrypted score has been updated.",
+  incorrect: "Not quite. Your score is unchanged - try another challenge.",
+  rejected: "The verifier could not process your answer. Please submit it again.",
+  timeout: "Verification is taking longer than expected. Check back later."
+};
+
+const AnswerModal: React.FC<AnswerModalProps> = ({ account, challengeId, challengeType, category, onClose, onVerified }) => {
+  const [selected, setSelected] = useState<number | null>(null);
+  const [phase, setPhase] = useState<Phase>("answering");
+  const [error, setError] = useState("");
+  const [staking, setStaking] = useState<{ rewardBps: number; maxStake: bigint } | null>(null);
+  const [stakeEth, setStakeEth] = useState("");
+  const [staked, setStaked] = useState(false);
+
+  const question = questionForChallenge(challengeType, challengeId);
+  // Only the first correct answer to a challenge is credited, and progress is how a player learns the
+  // verdict, so a solved challenge cannot be answered again
+  const alreadySolved = loadSolutionOutcomes(account)[challengeId]?.result === "correct";
+  const canAnswer = question !== undefined && !alreadySolved;
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const [client, game] = await Promise.all([getStakingClientReadOnly(), getGameClientReadOnly()]);
+        if (!client || !game) return;
+        const [info, maxStake, challenge, alreadyStaked] = await Promise.all([
+          client.getInfo(),
+          client.getMaxStake(),
+          game.getChallenge(challengeId),
+          client.hasStaked(account, challengeId)
+        ]);
+        // Answer keys can be worked out from the question bank, so only oracle-verified challenges take
+        // stakes, and only one per player
+        if (challenge.hasAnswerKey || alreadyStaked) return;
+        setStaking({ rewardBps: info.rewardBps, maxStake });
+      } catch (e) {
+        console.error("Error loading staking:", e);
+      }
+    })();
+  }, []);
+
+  const parseStake = (): bigint | null => {
+    try {
+      const stake = ethers.parseEther(stakeEth.trim() || "0");
+      return stake >= 0n ? stake : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const submit = async () => {
+    if (selected === null) {
+      alert("Please choose an answer");
+      return;
+    }
+    const stake = parseStake();
+    if (stake === null) {
+      alert("Please enter a valid stake");
+      return;
+    }
+    if (staking && stake > staking.maxStake) {
+      alert(`The reward pool can cover stakes of up to ${ethers.formatEther(staking.maxStake)} ETH`);
+      return;
+    }
+
+    setError("");
+    setPhase("submitting");
+    try {
+      const client = await getGameClientWithSigner();
+      const before = await client.getPlayerState(account);
+      const { requestId, receipt } = await client.submitChallengeSolution(challengeId, selected, stake);
+      setStaked(stake > 0n);
+
+      // Answer-key challenges are settled in the submission itself; others wait for the oracle callback
+      setPhase("verifying");
+      const result = requestId === null
+        ? await client.decryptSolutionResult(before.encryptedProgress)
+        : await client.waitForSolutionResult(
+            account,
+            challengeId,
+            requestId,
+            before.encryptedProgress,
+            receipt.blockNumber
+          );
+      if (result === "correct" || result === "incorrect") {
+        recordSolutionOutcome(account, challengeId, result);
+      }
+      setPhase(result);
+      onVerified(result);
+    } catch (e: any) {
+      setError(
+        e.message?.includes("user rejected transaction")
+          ? "Transaction rejected by user"
+          : "Submission failed: " + (e.message || "Unknown error")
+      );
+      setPhase("answering");
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal cyber-card">
+        <div className="modal-header">
+          <h2>Challenge #{challengeId} - {category}</h2>
+          <button onClick={onClose} className="close-modal" disabled={phase === "submitting"}>&times;</button>
+        </div>
+
+        <div className="modal-body">
+          {question ? (
+            <div className="quiz-question">
+              <label>{question.prompt}</label>
+              <div className="quiz-options">
+                {question.options.map((option, index) => (
+                  <button
+                    key={option}
+                    className={`quiz-option cyber-button ${selected === index ? "selected" : ""}`}
+                    onClick={() => setSelected(index)}
+                    disabled={phase !== "answering"}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <p className="simulator-hint negative">
+              This challenge asks a question that is not in this version of the question bank, so it cannot be
+              answered here.
+            </p>
+          )}
+
+          {alreadySolved && phase === "answering" && (
+            <p className="simulator-hint">
+              You have already solved this challenge. Answering it again would earn nothing, so try another one.
+            </p>
+          )}
+          {staking && canAnswer && phase === "answering" && (
+            <div className="form-group stake-input">
+              <label>Stake ETH on this answer (optional)</label>
+              <input
+                type="number"
+                value={stakeEth}
+                onChange={(e) => setStakeEth(e.target.value)}
+                min="0"
+                step="0.001"
+                placeholder="0"
+                className="cyber-input"
+              />
+              <p className="simulator-hint">
+                A correct answer returns your stake plus {staking.rewardBps / 100}% from the reward pool; a wrong
+                answer forfeits it to the treasury. Up to {ethers.formatEther(staking.maxStake)} ETH can be staked.
+              </p>
+              {(parseStake() ?? 0n) > 0n && (
+                <p className="simulator-hint negative">
+                  Payouts are public, so staking publishes whether this answer was correct.
+                </p>
+              )}
+            </div>
+          )}
+          {phase === "answering" && (
+            <div className="fhe-notice-banner">
+              <div className="key-icon"></div> Your answer is encrypted in your browser before it is submitted
+            </div>
+          )}
+          {phase === "submitting" && <div className="answer-status pending">Encrypting and submitting your answer...</div>}
+          {phase === "verifying" && <div className="answer-status pending">Checking your encrypted result...</div>}
+          {(phase === "correct" || phase === "incorrect" || phase === "rejected" || phase === "timeout") && (
+            <div className={`answer-status ${phase}`}>{RESULT_MESSAGES[phase]}</div>
+          )}
+          {question && (phase === "correct" || phase === "incorrect") && (
+            <div className="question-explanation">
+              <p>{question.explanation}</p>
+              <div className="question-sources">
+                Learn more:{" "}
+                {question.sources.map(source => (
+                  <a key={source.url} href={source.url} target="_blank" rel="noopener noreferrer">
+                    {source.title}
+                  </a>
+                ))}
+              </div>
+            </div>
+          )}
+          {staked && phase !== "verifying" && phase !== "answering" && (
+            <p className="simulator-hint">
+              Your stake settles once its result is published. Collect payouts from Claims, where a stake that
+              is not settled within a day can be reclaimed.
+            </p>
+          )}
+          {error && <div className="answer-status incorrect">{error}</div>}
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={onClose} className="cancel-btn cyber-button" disabled={phase === "submitting"}>
+            {phase === "answering" ? "Cancel" : "Close"}
+          </button>
+          {phase === "answering" && canAnswer && (
+            <button onClick={submit} className="submit-btn cyber-button primary">
+              Submit Answer
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnswerModal;
@@ -0,0 +1,244 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { getWalletSigner } from '../contract';
+import { getGameClientWithSigner } from '../gameClient';
+import { loadEncrypted, removeEncrypted, saveEncrypted } from '../encryptedStorage';
+import {
+  BudgetGame,
+  ExpenseKind,
+  LATE_FEE,
+  SAVINGS_TARGET_PERCENT,
+  canCloseMonth,
+  closeMonth,
+  currentMonth,
+  isFinished,
+  monthTotals,
+  newBudgetGame,
+  summarizeBudget,
+  updateEntry
+} from '../budgeting';
+
+interface BudgetingGameProps {
+  account: string;
+  onClose: () => void;
+  onScored: () => void;
+}
+
+const LEDGER_NAME = "budget_ledger";
+
+const formatMoney = (value: number) => `$${Math.round(value).toLocaleString()}`;
+
+const BudgetingGame: React.FC<BudgetingGameProps> = ({ account, onClose, onScored }) => {
+  const [signer, setSigner] = useState<ethers.Signer | null>(null);
+  const [game, setGame] = useState<BudgetGame | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [pointsEarned, setPointsEarned] = useState<number | null>(null);
+
+  // Keep the encrypted ledger in step with every choice, so a run can be resumed later
+  useEffect(() => {
+    if (!signer || !game) return;
+    saveEncrypted(signer, LEDGER_NAME, game).catch(e => console.error("Error saving budget ledger:", e));
+  }, [signer, game]);
+
+  const unlock = async () => {
+    setUnlocking(true);
+    try {
+      const walletSigner = await getWalletSigner();
+      if ((await walletSigner.getAddress()).toLowerCase() !== account.toLowerCase()) {
+        throw new Error("Switch your wallet to the connected account");
+      }
+      setGame((await loadEncrypted<BudgetGame>(walletSigner, LEDGER_NAME)) ?? newBudgetGame());
+      setSigner(walletSigner);
+    } catch (e: any) {
+      alert(
+        e.message?.includes("user rejected")
+          ? "Signature rejected by user"
+          : "Could not unlock your ledger: " + (e.message || "Unknown error")
+      );
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const restart = () => {
+    if (game && game.closed.length > 0 && !isFinished(game) && !window.confirm("Discard this budget and start over?")) {
+      return;
+    }
+    setGame(newBudgetGame());
+    setPointsEarned(null);
+  };
+
+  const submit = async () => {
+    if (!game || !signer) return;
+
+    const summary = summarizeBudget(game);
+    setSubmitting(true);
+    try {
+      const client = await getGameClientWithSigner();
+      const before = await client.getPlayerState(account);
+      await client.submitBudgetSummary(summary.monthsOnTarget, summary.categorizationAccuracy);
+      setPointsEarned(await client.decryptScoreGain(before.encryptedScore));
+      await removeEncrypted(signer, LEDGER_NAME);
+      onScored();
+    } catch (e: any) {
+      alert(
+        e.message?.includes("user rejected transaction")
+          ? "Transaction rejected by user"
+          : e.message?.includes("Practice cooldown")
+            ? "You have already scored this mode today. Come back tomorrow."
+            : "Submission failed: " + (e.message || "Unknown error")
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderMonth = (activeGame: BudgetGame) => {
+    const month = currentMonth(activeGame);
+    if (!month) return null;
+    const totals = monthTotals(month);
+
+    return (
+      <>
+        <div className="simulator-status">
+          <span>Month {activeGame.closed.length + 1} of {activeGame.months.length}</span>
+          <span>Income: {formatMoney(month.income)}</span>
+          <span>Target: save {SAVINGS_TARGET_PERCENT}% ({formatMoney((month.income * SAVINGS_TARGET_PERCENT) / 100)})</span>
+        </div>
+
+        <div className="budget-ledger">
+          {month.entries.map((entry, index) => (
+            <div className="budget-row" key={index}>
+              <span className="budget-description">{entry.description}</span>
+              <span>{formatMoney(entry.amount)}</span>
+              <select
+                value={entry.label ?? ""}
+                onChange={(e) => setGame(updateEntry(activeGame, index, { label: e.target.value as ExpenseKind }))}
+                className="cyber-select"
+              >
+                <option value="" disabled>Need or want?</option>
+                <option value="need">Need</option>
+                <option value="want">Want</option>
+              </select>
+              <label className="budget-cut">
+                <input
+                  type="checkbox"
+                  checked={entry.cut}
+                  onChange={(e) => setGame(updateEntry(activeGame, index, { cut: e.target.checked }))}
+                />
+                Skip
+              </label>
+            </div>
+          ))}
+        </div>
+
+        <p className={totals.onTarget ? "simulator-hint" : "simulator-hint negative"}>
+          Spending {formatMoney(totals.spent)} · saving {formatMoney(totals.saved)} ({totals.savingsPercent}%).
+          Skipped essentials still come due with a {formatMoney(LATE_FEE)} late fee.
+        </p>
+      </>
+    );
+  };
+
+  const renderSummary = (finishedGame: BudgetGame) => {
+    const summary = summarizeBudget(finishedGame);
+    const mislabelled = finishedGame.closed.flatMap(month => month.entries).filter(entry => entry.label !== entry.kind);
+    return (
+      <div className="simulator-summary">
+        <table className="simulator-history">
+          <thead>
+            <tr>
+              <th>Month</th>
+              <th>Income</th>
+              <th>Spent</th>
+              <th>Saved</th>
+              <th>Target</th>
+            </tr>
+          </thead>
+          <tbody>
+            {finishedGame.closed.map((month, index) => (
+              <tr key={index}>
+                <td>{index + 1}</td>
+                <td>{formatMoney(month.income)}</td>
+                <td>{formatMoney(month.spent)}</td>
+                <td>{formatMoney(month.saved)} ({month.savingsPercent}%)</td>
+                <td className={month.onTarget ? "positive" : "negative"}>{month.onTarget ? "Met" : "Missed"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p>
+          You saved {formatMoney(summary.totalSaved)}, met the target in {summary.monthsOnTarget} of{" "}
+          {finishedGame.closed.length} months and sorted {summary.categorizationAccuracy}% of expenses correctly.
+        </p>
+        <p>Only these two numbers are encrypted and submitted. Your ledger never leaves this browser.</p>
+        {mislabelled.length > 0 && (
+          <ul className="budget-mistakes">
+            {mislabelled.map((entry, index) => (
+              <li key={index}>{entry.description} is usually a {entry.kind}.</li>
+            ))}
+          </ul>
+        )}
+        {pointsEarned !== null && (
+          <div className="answer-status correct">You earned {pointsEarned} points.</div>
+        )}
+      </div>
+    );
+  };
+
+  const month = game ? currentMonth(game) : null;
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal cyber-card budgeting-game">
+        <div className="modal-header">
+          <h2>Monthly Budget</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+
+        <div className="modal-body">
+          {!game ? (
+            <div className="privacy-notice">
+              <div className="privacy-icon"></div> Your ledger is encrypted in this browser with a key derived from
+              your signature. Sign once to start or resume a budget.
+            </div>
+          ) : month ? (
+            renderMonth(game)
+          ) : (
+            renderSummary(game)
+          )}
+        </div>
+
+        <div className="modal-footer">
+          {!game ? (
+            <button onClick={unlock} className="submit-btn cyber-button primary" disabled={unlocking}>
+              {unlocking ? "Waiting for signature..." : "Unlock Ledger"}
+            </button>
+          ) : (
+            <>
+              <button onClick={restart} className="cancel-btn cyber-button" disabled={submitting}>
+                New Budget
+              </button>
+              {month ? (
+                <button
+                  onClick={() => setGame(closeMonth(game))}
+                  className="submit-btn cyber-button primary"
+                  disabled={!canCloseMonth(month)}
+                >
+                  Close Month
+                </button>
+              ) : (
+                <button onClick={submit} className="submit-btn cyber-button primary" disabled={submitting || pointsEarned !== null}>
+                  {submitting ? "Encrypting and submitting..." : "Submit Encrypted Summary"}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BudgetingGame;
@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { OnChainChallenge, getGameClientReadOnly, getGameClientWithSigner } from '../gameClient';
+import { CHALLENGE_CATEGORIES, PERSONALIZED_CATEGORY, categoryOfChallenge, getQuestion } from '../questionBank';
+
+interface CatalogueAdminProps {
+  account: string;
+  onClose: () => void;
+  onCreate: () => void;
+  onChanged: () => void;
+}
+
+type ChallengeAction = "deactivate" | "reactivate" | "retire";
+
+const challengeStatus = (challenge: OnChainChallenge) =>
+  challenge.isRetired ? "retired" : challenge.isActive ? "active" : "inactive";
+
+const CatalogueAdmin: React.FC<CatalogueAdminProps> = ({ account, onClose, onCreate, onChanged }) => {
+  const [challenges, setChallenges] = useState<OnChainChallenge[]>([]);
+  const [isOwner, setIsOwner] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [category, setCategory] = useState(CHALLENGE_CATEGORIES[0]);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [educatorAddress, setEducatorAddress] = useState("");
+  const [updatingRole, setUpdatingRole] = useState(false);
+
+  const loadCatalogue = async () => {
+    setLoading(true);
+    try {
+      const client = await getGameClientReadOnly();
+      if (!client) return;
+      const [list, owner] = await Promise.all([client.getChallenges(), client.getOwner()]);
+      setChallenges(list);
+      setIsOwner(owner.toLowerCase() === account.toLowerCase());
+    } catch (e) {
+      console.error("Error loading catalogue:", e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCatalogue();
+  }, [account]);
+
+  // Oracle-generated challenges are managed alongside the question bank categories
+  const categories = [...CHALLENGE_CATEGORIES, PERSONALIZED_CATEGORY];
+  const inCategory = challenges.filter(c => categoryOfChallenge(c.challengeType) === category);
+
+  const runAction = async (challenge: OnChainChallenge, action: ChallengeAction) => {
+    if (action === "retire" && !window.confirm(`Retire challenge #${challenge.id}? This cannot be undone.`)) {
+      return;
+    }
+
+    setBusyId(challenge.id);
+    try {
+      const client = await getGameClientWithSigner();
+      if (action === "deactivate") await client.deactivateChallenge(challenge.id);
+      if (action === "reactivate") await client.reactivateChallenge(challenge.id);
+      if (action === "retire") await client.retireChallenge(challenge.id);
+      await loadCatalogue();
+      onChanged();
+    } catch (e: any) {
+      alert(
+        e.message?.includes("user rejected transaction")
+          ? "Transaction rejected by user"
+          : "Update failed: " + (e.message || "Unknown error")
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const updateEducatorRole = async (granted: boolean) => {
+    if (!ethers.isAddress(educatorAddress)) {
+      alert("Please enter a valid address");
+      return;
+    }
+
+    setUpdatingRole(true);
+    try {
+      const client = await getGameClientWithSigner();
+      await client.setEducatorRole(educatorAddress, granted);
+      alert(granted ? "Educator role granted" : "Educator role revoked");
+      setEducatorAddress("");
+    } catch (e: any) {
+      alert(
+        e.message?.includes("user rejected transaction")
+          ? "Transaction rejected by user"
+          : "Role update failed: " + (e.message || "Unknown error")
+      );
+    } finally {
+      setUpdatingRole(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal cyber-card catalogue-admin">
+        <div className="modal-header">
+          <h2>Manage Challenge Catalogue</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+
+        <div className="modal-body">
+          <div className="category-tabs">
+            {categories.map(name => (
+              <button
+                key={name}
+                className={`cyber-button ${name === category ? "primary" : ""}`}
+                onClick={() => setCategory(name)}
+              >
+                {name} ({challenges.filter(c => categoryOfChallenge(c.challengeType) === name).length})
+              </button>
+            ))}
+          </div>
+
+          {loading ? (
+            <div className="answer-status pending">Loading catalogue...</div>
+          ) : inCategory.length === 0 ? (
+            <div className="no-challenges">
+              <p>No {category} challenges yet</p>
+            </div>
+          ) : (
+            <div className="catalogue-list">
+              {inCategory.map(challenge => {
+                const status = challengeStatus(challenge);
+                const busy = busyId === challenge.id;
+                return (
+                  <div className="catalogue-row" key={challenge.id}>
+                    <span className="challenge-id">#{challenge.id}</span>
+                    <span className={`status-badge ${status === "active" ? "completed" : status}`}>{status}</span>
+                    <span className="catalogue-question">{getQuestion(challenge.challengeType)?.prompt ?? challenge.challengeType}</span>
+                    <div className="actions">
+                      {status === "active" && (
+                        <button className="action-btn cyber-button" disabled={busy} onClick={() => runAction(challenge, "deactivate")}>
+                          Deactivate
+                        </button>
+                      )}
+                      {status === "inactive" && (
+                        <button className="action-btn cyber-button success" disabled={busy} onClick={() => runAction(challenge, "reactivate")}>
+                          Reactivate
+                        </button>
+                      )}
+                      {status !== "retired" && (
+                        <button className="action-btn cyber-button" disabled={busy} onClick={() => runAction(challenge, "retire")}>
+                          Retire
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {isOwner && (
+            <div className="educator-roles">
+              <h3>Educators</h3>
+              <div className="form-group">
+                <label>Educators can add, deactivate and retire challenges</label>
+                <input
+                  type="text"
+                  value={educatorAddress}
+                  onChange={(e) => setEducatorAddress(e.target.value)}
+                  placeholder="0x..."
+                  className="cyber-input"
+                />
+              </div>
+              <div className="progress-actions">
+                <button className="cyber-button" disabled={updatingRole} onClick={() => updateEducatorRole(false)}>
+                  Revoke
+                </button>
+                <button className="cyber-button primary" disabled={updatingRole} onClick={() => updateEducatorRole(true)}>
+                  Grant
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={onClose} className="cancel-btn cyber-button">
+            Close
+          </button>
+          <button onClick={onCreate} className="submit-btn cyber-button primary">
+            New Challenge
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CatalogueAdmin;
@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { GameClient, getGameClientReadOnly, getGameClientWithSigner } from '../gameClient';
+import {
+  ChallengeRequest,
+  addChallengeRequest,
+  applyFulfilment,
+  applyRejection,
+  averageLatency,
+  expireChallengeRequests,
+  formatLatency,
+  loadChallengeRequests,
+  requestLatency,
+  saveChallengeRequests
+} from '../challengeRequests';
+
+interface ChallengeRequestTrackerProps {
+  account: string;
+  registered: boolean;
+  onRequireOnboarding: () => void;
+  onFulfilled: (challengeId: number) => void;
+}
+
+// Latency is measured between block timestamps so reloads do not skew it
+const blockTime = async (client: GameClient, blockNumber: number) => {
+  const block = await client.contract.runner?.provider?.getBlock(blockNumber);
+  return block ? block.timestamp * 1000 : Date.now();
+};
+
+const shortId = (requestId: string) => `0x${BigInt(requestId).toString(16).substring(0, 8)}`;
+
+const ChallengeRequestTracker: React.FC<ChallengeRequestTrackerProps> = ({
+  account,
+  registered,
+  onRequireOnboarding,
+  onFulfilled
+}) => {
+  const [requests, setRequests] = useState<ChallengeRequest[]>([]);
+  const [requesting, setRequesting] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const updateRequests = (update: (current: ChallengeRequest[]) => ChallengeRequest[]) => {
+    setRequests(current => {
+      const next = update(current);
+      saveChallengeRequests(account, next);
+      return next;
+    });
+  };
+
+  useEffect(() => {
+    if (!account) {
+      setRequests([]);
+      return;
+    }
+    setRequests(expireChallengeRequests(loadChallengeRequests(account)));
+
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const client = await getGameClientReadOnly();
+        if (!client || cancelled) return;
+
+        // Catch up on fulfilments and rejections that landed while the page was closed
+        const open = new Set(
+          loadChallengeRequests(account).filter(r => r.status !== "fulfilled").map(r => r.requestId)
+        );
+        if (open.size > 0) {
+          const events = await client.getChallengeFulfilledEvents(account);
+          for (const event of events) {
+            if (!open.has(event.requestId.toString())) continue;
+            const fulfilledAt = await blockTime(client, event.blockNumber);
+            updateRequests(current => applyFulfilment(current, event, fulfilledAt));
+          }
+          const rejections = await client.getRequestRejectedEvents(account);
+          updateRequests(current =>
+            rejections.filter(event => open.has(event.requestId.toString())).reduce(applyRejection, current)
+          );
+        }
+        if (cancelled) return;
+
+        const stopFulfilled = client.onChallengeFulfilled(account, async event => {
+          const fulfilledAt = await blockTime(client, event.blockNumber);
+          updateRequests(current => applyFulfilment(current, event, fulfilledAt));
+          onFulfilled(Number(event.challengeId));
+        });
+        const stopRejected = client.onRequestRejected(account, event => {
+          updateRequests(current => applyRejection(current, event));
+        });
+        unsubscribe = () => {
+          stopFulfilled();
+          stopRejected();
+        };
+      } catch (e) {
+        console.error("Error tracking challenge requests:", e);
+      }
+    })();
+
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      updateRequests(current => expireChallengeRequests(current));
+    }, 5000);
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+      if (unsubscribe) unsubscribe();
+    };
+  }, [account]);
+
+  const requestChallenge = async () => {
+    if (!registered) {
+      onRequireOnboarding();
+      return;
+    }
+
+    setRequesting(true);
+    try {
+      const client = await getGameClientWithSigner();
+      const { requestId, receipt } = await client.requestPersonalizedChallenge();
+      const requestedAt = await blockTime(client, receipt.blockNumber);
+      updateRequests(current => addChallengeRequest(current, requestId, requestedAt));
+    } catch (e: any) {
+      alert(
+        e.message?.includes("user rejected transaction")
+          ? "Transaction rejected by user"
+          : "Challenge request failed: " + (e.message || "Unknown error")
+      );
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  const average = averageLatency(requests);
+  const pendingCount = requests.filter(r => r.status === "pending").length;
+  const timedOutCount = requests.filter(r => r.status === "timedout" || r.status === "rejected").length;
+
+  return (
+    <div className="dashboard-card cyber-card request-tracker">
+      <div className="section-header">
+        <h3>Personalized Challenges</h3>
+        <button
+          className="cyber-button primary"
+          onClick={requestChallenge}
+          disabled={!account || requesting}
+        >
+          {requesting ? "Requesting..." : "Request a Challenge for Me"}
+        </button>
+      </div>
+
+      <div className="stats-grid">
+        <div className="stat-item">
+          <div className="stat-value">{pendingCount}</div>
+          <div className="stat-label">Pending</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-value">{timedOutCount}</div>
+          <div className="stat-label">Timed Out / Rejected</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-value">{average === null ? "-" : formatLatency(average)}</div>
+          <div className="stat-label">Avg Oracle Latency</div>
+        </div>
+      </div>
+
+      {requests.length > 0 && (
+        <div className="request-list">
+          {requests.slice(0, 5).map(request => (
+            <div className="request-row" key={request.requestId}>
+              <span className="challenge-id">{shortId(request.requestId)}</span>
+              <span className={`status-badge ${request.status === "fulfilled" ? "completed" : request.status === "pending" ? "pending" : "failed"}`}>
+                {request.status === "timedout" ? "timed out" : request.status}
+              </span>
+              <span>{formatLatency(requestLatency(request, now))}</span>
+              <span title={request.rejectionReason}>
+                {request.challengeId !== undefined ? `Challenge #${request.challengeId}` : request.rejectionReason || "-"}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChallengeRequestTracker;
@@ -0,0 +1,311 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import {
+  ClaimEvent,
+  StakeRecord,
+  StakeStatus,
+  StakingInfo,
+  getStakingClientReadOnly,
+  getStakingClientWithSigner
+} from '../stakingClient';
+
+interface ClaimsPageProps {
+  account: string;
+  onClose: () => void;
+}
+
+const STATUS_BADGES: Record<StakeStatus, string> = {
+  none: "inactive",
+  pending: "pending",
+  settling: "pending",
+  won: "completed",
+  forfeited: "failed",
+  refunded: "inactive"
+};
+
+const formatEth = (wei: bigint) => `${ethers.formatEther(wei)} ETH`;
+
+// Stakes the oracles have not settled by their deadline go back to the player on request
+const isOverdue = (stake: StakeRecord) =>
+  (stake.status === "pending" || stake.status === "settling") && Date.now() / 1000 > stake.deadline;
+
+const ClaimsPage: React.FC<ClaimsPageProps> = ({ account, onClose }) => {
+  const [info, setInfo] = useState<StakingInfo | null>(null);
+  const [claimable, setClaimable] = useState(0n);
+  const [stakes, setStakes] = useState<StakeRecord[]>([]);
+  const [claims, setClaims] = useState<ClaimEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [unavailable, setUnavailable] = useState(false);
+  const [claiming, setClaiming] = useState(false);
+  const [fundAmount, setFundAmount] = useState("");
+  const [treasuryAddress, setTreasuryAddress] = useState("");
+  const [rewardPercent, setRewardPercent] = useState("");
+  const [updating, setUpdating] = useState(false);
+
+  const loadClaims = async () => {
+    setLoading(true);
+    try {
+      const client = await getStakingClientReadOnly();
+      if (!client) {
+        setUnavailable(true);
+        return;
+      }
+      const [stakingInfo, balance, stakeList, claimList] = await Promise.all([
+        client.getInfo(),
+        client.getClaimable(account),
+        client.getStakes(account),
+        client.getClaimEvents(account)
+      ]);
+      setInfo(stakingInfo);
+      setClaimable(balance);
+      setStakes(stakeList);
+      setClaims(claimList);
+    } catch (e) {
+      console.error("Error loading claims:", e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadClaims();
+  }, [account]);
+
+  const isOwner = info?.owner.toLowerCase() === account.toLowerCase();
+  const isTreasury = info?.treasury.toLowerCase() === account.toLowerCase();
+
+  const runTransaction = async (action: () => Promise<unknown>, success: string) => {
+    setUpdating(true);
+    try {
+      await action();
+      alert(success);
+      await loadClaims();
+    } catch (e: any) {
+      alert(
+        e.message?.includes("user rejected transaction")
+          ? "Transaction rejected by user"
+          : "Transaction failed: " + (e.message || "Unknown error")
+      );
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const claim = async () => {
+    setClaiming(true);
+    try {
+      const client = await getStakingClientWithSigner();
+      await client.claim();
+      await loadClaims();
+    } catch (e: any) {
+      alert(
+        e.message?.includes("user rejected transaction")
+          ? "Transaction rejected by user"
+          : "Claim failed: " + (e.message || "Unknown error")
+      );
+    } finally {
+      setClaiming(false);
+    }
+  };
+
+  const fundPool = () => {
+    let amount: bigint;
+    try {
+      amount = ethers.parseEther(fundAmount.trim());
+    } catch {
+      amount = 0n;
+    }
+    if (amount <= 0n) {
+      alert("Please enter an amount to fund");
+      return;
+    }
+    runTransaction(async () => {
+      const client = await getStakingClientWithSigner();
+      await client.fundRewardPool(amount);
+      setFundAmount("");
+    }, "Reward pool funded");
+  };
+
+  const reclaim = (stakeId: number) => {
+    runTransaction(async () => {
+      const client = await getStakingClientWithSigner();
+      await client.reclaimStake(stakeId);
+    }, "Stake reclaimed. It is ready to claim.");
+  };
+
+  const updateTreasury = () => {
+    if (!ethers.isAddress(treasuryAddress)) {
+      alert("Please enter a valid address");
+      return;
+    }
+    runTransaction(async () => {
+      const client = await getStakingClientWithSigner();
+      await client.setTreasury(treasuryAddress);
+      setTreasuryAddress("");
+    }, "Treasury updated");
+  };
+
+  const updateRewardRate = () => {
+    const percent = Number(rewardPercent);
+    if (rewardPercent.trim() === "" || !Number.isFinite(percent) || percent < 0 || percent > 100) {
+      alert("Please enter a reward from 0 to 100%");
+      return;
+    }
+    runTransaction(async () => {
+      const client = await getStakingClientWithSigner();
+      await client.setRewardBps(Math.round(percent * 100));
+      setRewardPercent("");
+    }, "Reward rate updated");
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal cyber-card claims-page">
+        <div className="modal-header">
+          <h2>Stakes &amp; Claims</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+
+        <div className="modal-body">
+          {unavailable ? (
+            <div className="no-challenges">
+              <p>Staking is not available on this deployment</p>
+            </div>
+          ) : loading && !info ? (
+            <div className="answer-status pending">Loading stakes...</div>
+          ) : (
+            <>
+              <div className="stats-grid">
+                <div className="stat-item">
+                  <div className="stat-value">{formatEth(claimable)}</div>
+                  <div className="stat-label">Ready to Claim</div>
+                </div>
+                <div className="stat-item">
+                  <div className="stat-value">{info ? formatEth(info.rewardPool) : "-"}</div>
+                  <div className="stat-label">Reward Pool</div>
+                </div>
+                <div className="stat-item">
+                  <div className="stat-value">{info ? `${info.rewardBps / 100}%` : "-"}</div>
+                  <div className="stat-label">Reward on Wins</div>
+                </div>
+              </div>
+              {isTreasury && (
+                <p className="simulator-hint">This account is the treasury, so forfeited stakes are claimable here too.</p>
+              )}
+              <div className="progress-actions">
+                <button className="cyber-button primary" onClick={claim} disabled={claiming || claimable === 0n}>
+                  {claiming ? "Claiming..." : "Claim"}
+                </button>
+              </div>
+
+              <h3>My Stakes</h3>
+              {stakes.length === 0 ? (
+                <div className="no-challenges">
+                  <p>No stakes yet. Add ETH to an answer to stake on it.</p>
+                </div>
+              ) : (
+                <div className="catalogue-list">
+                  {stakes.map(stake => (
+                    <div className="catalogue-row stake-row" key={stake.id}>
+                      <span className="challenge-id">#{stake.challengeId}</span>
+                      <span className={`status-badge ${STATUS_BADGES[stake.status]}`}>{stake.status}</span>
+                      <span className="catalogue-question">
+                        Staked {formatEth(stake.amount)}, reward {formatEth(stake.reservedReward)}
+                      </span>
+                      {isOverdue(stake) ? (
+                        <button className="cyber-button" disabled={updating} onClick={() => reclaim(stake.id)}>
+                          Reclaim
+                        </button>
+                      ) : (
+                        <span className="stake-payout">{stake.payout > 0n ? `+${formatEth(stake.payout)}` : "-"}</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {claims.length > 0 && (
+                <>
+                  <h3>Claim History</h3>
+                  <div className="catalogue-list">
+                    {claims.map(event => (
+                      <div className="catalogue-row claim-row" key={event.transactionHash}>
+                        <span className="catalogue-question">Block {event.blockNumber}</span>
+                        <span>{formatEth(event.amount)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+
+              {isOwner && info && (
+                <div className="educator-roles">
+                  <h3>Pool Management</h3>
+                  <p className="simulator-hint">
+                    {formatEth(info.escrowedStakes)} escrowed for open stakes, {formatEth(info.totalClaimable)} awaiting claims.
+                    Treasury: {info.treasury}
+                  </p>
+                  <div className="form-group">
+                    <label>Fund reward pool (ETH)</label>
+                    <input
+                      type="number"
+                      value={fundAmount}
+                      onChange={(e) => setFundAmount(e.target.value)}
+                      min="0"
+                      step="0.01"
+                      className="cyber-input"
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label>Reward on wins (% of the stake)</label>
+                    <input
+                      type="number"
+                      value={rewardPercent}
+                      onChange={(e) => setRewardPercent(e.target.value)}
+                      min="0"
+                      max="100"
+                      placeholder={`${info.rewardBps / 100}`}
+                      className="cyber-input"
+                    />
+                  </div>
+                  <div className="form-group">
+                    <label>Treasury address</label>
+                    <input
+                      type="text"
+                      value={treasuryAddress}
+                      onChange={(e) => setTreasuryAddress(e.target.value)}
+                      placeholder="0x..."
+                      className="cyber-input"
+                    />
+                  </div>
+                  <div className="progress-actions">
+                    <button className="cyber-button" disabled={updating} onClick={updateTreasury}>
+                      Set Treasury
+                    </button>
+                    <button className="cyber-button" disabled={updating} onClick={updateRewardRate}>
+                      Set Reward
+                    </button>
+                    <button className="cyber-button primary" disabled={updating} onClick={fundPool}>
+                      Fund Pool
+                    </button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={onClose} className="cancel-btn cyber-button">
+            Close
+          </button>
+          <button onClick={loadClaims} className="submit-btn cyber-button" disabled={loading}>
+            Refresh
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ClaimsPage;
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { getGameClientWithSigner } from '../gameClient';
+import {
+  ACTION_LABELS,
+  CREDIT_FACTORS,
+  CreditAction,
+  CreditSimulation,
+  GOOD_CREDIT_SCORE,
+  PAYMENT_LABELS,
+  PaymentChoice,
+  creditLimit,
+  creditScore,
+  currentStatement,
+  isFinished,
+  minimumPayment,
+  newCreditSimulation,
+  playMonth,
+  utilization
+} from '../creditSimulator';
+
+interface CreditSimulatorProps {
+  account: string;
+  onClose: () => void;
+  onScored: () => void;
+}
+
+const formatMoney = (value: number) => `$${Math.round(value).toLocaleString()}`;
+const formatPoints = (points: number) => `${points > 0 ? "+" : ""}${points}`;
+
+const CreditSimulator: React.FC<CreditSimulatorProps> = ({ account, onClose, onScored }) => {
+  const [simulation, setSimulation] = useState<CreditSimulation>(() => newCreditSimulation());
+  const [payment, setPayment] = useState<PaymentChoice>("max");
+  const [action, setAction] = useState<CreditAction>("none");
+  const [submitting, setSubmitting] = useState(false);
+  const [pointsEarned, setPointsEarned] = useState<number | null>(null);
+
+  const { state } = simulation;
+  const score = creditScore(state);
+  const statement = currentStatement(simulation);
+  const lastMonth = simulation.history[simulation.history.length - 1];
+  const due = state.balance + (statement?.purchases ?? 0);
+
+  const advance = () => {
+    try {
+      setSimulation(playMonth(simulation, payment, action));
+      setAction("none");
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  const restart = () => {
+    setSimulation(newCreditSimulation());
+    setPayment("max");
+    setAction("none");
+    setPointsEarned(null);
+  };
+
+  const submit = async () => {
+    setSubmitting(true);
+    try {
+      const client = await getGameClientWithSigner();
+      const before = await client.getPlayerState(account);
+      await client.submitCreditSimulation(score);
+      setPointsEarned(await client.decryptScoreGain(before.encryptedScore));
+      onScored();
+    } catch (e: any) {
+      alert(
+        e.message?.includes("user rejected transaction")
+          ? "Transaction rejected by user"
+          : e.message?.includes("Practice cooldown")
+            ? "You have already scored this mode today. Come back tomorrow."
+            : "Submission failed: " + (e.message || "Unknown error")
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal cyber-card credit-simulator">
+        <div className="modal-header">
+          <h2>Credit Score Simulator</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+
+        <div className="modal-body">
+          <div className="simulator-status">
+            <span>{statement ? `Month ${simulation.history.length + 1} of ${simulation.statements.length}` : "Finished"}</span>
+            <span className={score >= GOOD_CREDIT_SCORE ? "credit-score positive" : "credit-score negative"}>Score {score}</span>
+            <span>
+              Balance {formatMoney(state.balance)} / {formatMoney(creditLimit(state))} ({Math.round(utilization(state) * 100)}% used)
+            </span>
+          </div>
+
+          {lastMonth && (
+            <div className="credit-changes">
+              <h4>
+                Last month: {lastMonth.scoreBefore} &rarr; {lastMonth.scoreAfter} ({formatPoints(lastMonth.scoreAfter - lastMonth.scoreBefore)})
+              </h4>
+              {lastMonth.changes.length === 0 ? (
+                <p className="simulator-hint">Nothing moved your score.</p>
+              ) : (
+                <ul>
+                  {lastMonth.changes.map(change => (
+                    <li key={change.factor}>
+                      <span className={change.points > 0 ? "positive" : "negative"}>{formatPoints(change.points)}</span>{" "}
+                      <strong>{CREDIT_FACTORS[change.factor].label}:</strong> {change.explanation}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {statement ? (
+            <div className="credit-statement">
+              <p>{statement.note}</p>
+              <p>
+                New purchases {formatMoney(statement.purchases)} · amount due {formatMoney(due)} · minimum{" "}
+                {formatMoney(minimumPayment(due))} · cash available {formatMoney(statement.cashAvailable)}
+              </p>
+              <div className="form-grid">
+                <div className="form-group">
+                  <label>Payment</label>
+                  <select value={payment} onChange={(e) => setPayment(e.target.value as PaymentChoice)} className="cyber-select">
+                    {(Object.keys(PAYMENT_LABELS) as PaymentChoice[]).map(choice => (
+                      <option key={choice} value={choice}>{PAYMENT_LABELS[choice]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="form-group">
+                  <label>Accounts</label>
+                  <select value={action} onChange={(e) => setAction(e.target.value as CreditAction)} className="cyber-select">
+                    {(Object.keys(ACTION_LABELS) as CreditAction[]).map(choice => (
+                      <option key={choice} value={choice}>{ACTION_LABELS[choice]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              {payment !== "skip" && statement.cashAvailable < minimumPayment(due) && (
+                <p className="simulator-hint negative">You cannot cover the minimum this month, so the payment will be late.</p>
+              )}
+            </div>
+          ) : (
+            <div className="simulator-summary">
+              <p>
+                You finished the year with a simulated score of {score}.{" "}
+                {score >= GOOD_CREDIT_SCORE
+                  ? "That is a good score and counts towards your progress."
+                  : `Reach ${GOOD_CREDIT_SCORE} to count this run towards your progress.`}
+              </p>
+              <p>Only the final score is encrypted and submitted. Your decisions stay in this browser.</p>
+              {pointsEarned !== null && (
+                <div className="answer-status correct">You earned {pointsEarned} points.</div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={restart} className="cancel-btn cyber-button" disabled={submitting}>
+            New Simulation
+          </button>
+          {statement ? (
+            <button onClick={advance} className="submit-btn cyber-button primary">
+              End Month
+            </button>
+          ) : (
+            <button onClick={submit} className="submit-btn cyber-button primary" disabled={submitting || pointsEarned !== null}>
+              {submitting ? "Encrypting and submitting..." : "Submit Encrypted Score"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CreditSimulator;
@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { BarElement, CategoryScale, Chart as ChartJS, Legend, LinearScale, Tooltip } from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+import { CategoryAggregate, CategoryCohort, getGameClientReadOnly, getGameClientWithSigner } from '../gameClient';
+import { CHALLENGE_CATEGORIES, PERSONALIZED_CATEGORY, categoryId, categoryName } from '../questionBank';
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip, Legend);
+
+interface EducatorDashboardProps {
+  onClose: () => void;
+}
+
+const CATEGORY_IDS = [...CHALLENGE_CATEGORIES, PERSONALIZED_CATEGORY].map(categoryId);
+
+const CHART_COLORS = {
+  attempts: "rgba(0, 240, 255, 0.6)",
+  correct: "rgba(0, 255, 136, 0.6)",
+  difficulty: "rgba(255, 0, 60, 0.6)"
+};
+
+const chartOptions = {
+  responsive: true,
+  plugins: { legend: { labels: { color: "#e0e0e0" } } },
+  scales: {
+    x: { ticks: { color: "#e0e0e0" } },
+    y: { ticks: { color: "#e0e0e0" }, beginAtZero: true }
+  }
+};
+
+const EducatorDashboard: React.FC<EducatorDashboardProps> = ({ onClose }) => {
+  const [cohorts, setCohorts] = useState<CategoryCohort[]>([]);
+  const [minCohortSize, setMinCohortSize] = useState(0);
+  const [aggregates, setAggregates] = useState<CategoryAggregate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [decrypting, setDecrypting] = useState(false);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const client = await getGameClientReadOnly();
+        if (!client) return;
+        const [list, threshold] = await Promise.all([client.getCategoryCohorts(CATEGORY_IDS), client.getMinCohortSize()]);
+        setCohorts(list);
+        setMinCohortSize(threshold);
+      } catch (e) {
+        console.error("Error loading cohorts:", e);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  // Categories below the threshold cannot be decrypted, so they are never requested
+  const eligible = cohorts.filter(cohort => cohort.cohortSize >= minCohortSize).map(cohort => cohort.category);
+
+  const decrypt = async () => {
+    setDecrypting(true);
+    try {
+      const client = await getGameClientWithSigner();
+      setAggregates(await client.decryptCategoryStats(eligible));
+    } catch (e: any) {
+      alert(
+        e.message?.includes("user rejected")
+          ? "Request rejected by user"
+          : "Decryption failed: " + (e.message || "Unknown error")
+      );
+    } finally {
+      setDecrypting(false);
+    }
+  };
+
+  const labels = aggregates.map(aggregate => categoryName(aggregate.category));
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal cyber-card educator-dashboard">
+        <div className="modal-header">
+          <h2>Educator Dashboard</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+
+        <div className="modal-body">
+          <div className="privacy-notice">
+            <div className="privacy-icon"></div> Only category totals are decrypted, and only for categories with at least {minCohortSize} distinct players.
+          </div>
+
+          {loading ? (
+            <div className="answer-status pending">Loading categories...</div>
+          ) : (
+            <div className="cohort-list">
+              {cohorts.map(cohort => (
+                <div className="catalogue-row cohort-row" key={cohort.category}>
+                  <span>{categoryName(cohort.category)}</span>
+                  <span>{cohort.cohortSize} players</span>
+                  <span className={`status-badge ${cohort.cohortSize >= minCohortSize ? "completed" : "inactive"}`}>
+                    {cohort.cohortSize >= minCohortSize ? "available" : "cohort too small"}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {aggregates.length > 0 && (
+            <div className="analytics-charts">
+              <Bar
+                options={chartOptions}
+                data={{
+                  labels,
+                  datasets: [
+                    { label: "Attempts", data: aggregates.map(a => a.attempts), backgroundColor: CHART_COLORS.attempts },
+                    { label: "Correct answers", data: aggregates.map(a => a.correctAnswers), backgroundColor: CHART_COLORS.correct }
+                  ]
+                }}
+              />
+              <Bar
+                options={chartOptions}
+                data={{
+                  labels,
+                  datasets: [
+                    {
+                      label: "Average difficulty",
+                      data: aggregates.map(a => Number(a.averageDifficulty.toFixed(2))),
+                      backgroundColor: CHART_COLORS.difficulty
+                    }
+                  ]
+                }}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={onClose} className="cancel-btn cyber-button">
+            Close
+          </button>
+          <button onClick={decrypt} className="submit-btn cyber-button primary" disabled={decrypting || eligible.length === 0}>
+            {decrypting ? "Decrypting..." : "Decrypt Aggregates"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EducatorDashboard;
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { getGameClientWithSigner } from '../gameClient';
+import { DIFFICULTY_LABELS } from '../questionBank';
+import {
+  ASSET_CLASSES,
+  Allocation,
+  InvestingSimulation,
+  STARTING_VALUE,
+  allocationRisk,
+  isFinished,
+  isValidAllocation,
+  newSimulation,
+  playYear,
+  summarizeSimulation
+} from '../investingSimulator';
+
+interface InvestingSimulatorProps {
+  account: string;
+  onClose: () => void;
+  onScored: () => void;
+}
+
+const DEFAULT_ALLOCATION: Allocation = [20, 40, 40];
+
+const formatMoney = (value: number) => `$${Math.round(value).toLocaleString()}`;
+const formatReturn = (percent: number) => `${percent > 0 ? "+" : ""}${percent.toFixed(1)}%`;
+
+const InvestingSimulator: React.FC<InvestingSimulatorProps> = ({ account, onClose, onScored }) => {
+  const [simulation, setSimulation] = useState<InvestingSimulation>(() => newSimulation());
+  const [allocation, setAllocation] = useState<Allocation>(DEFAULT_ALLOCATION);
+  const [submitting, setSubmitting] = useState(false);
+  const [pointsEarned, setPointsEarned] = useState<number | null>(null);
+
+  const finished = isFinished(simulation);
+  const outcome = finished ? summarizeSimulation(simulation) : null;
+  const allocated = allocation.reduce((sum, percent) => sum + percent, 0);
+
+  const updateAllocation = (index: number, value: string) => {
+    const percent = Math.max(0, Math.min(100, parseInt(value, 10) || 0));
+    setAllocation(allocation.map((current, i) => (i === index ? percent : current)));
+  };
+
+  const advance = () => {
+    if (!isValidAllocation(allocation)) {
+      alert("Allocations must add up to 100%");
+      return;
+    }
+    setSimulation(playYear(simulation, allocation));
+  };
+
+  const restart = () => {
+    setSimulation(newSimulation());
+    setAllocation(DEFAULT_ALLOCATION);
+    setPointsEarned(null);
+  };
+
+  const submit = async () => {
+    if (!outcome) return;
+
+    setSubmitting(true);
+    try {
+      const client = await getGameClientWithSigner();
+      const before = await client.getPlayerState(account);
+      await client.submitInvestingSimulation(outcome.portfolioRisk, outcome.growthPercent);
+      setPointsEarned(await client.decryptScoreGain(before.encryptedScore));
+      onScored();
+    } catch (e: any) {
+      alert(
+        e.message?.includes("user rejected transaction")
+          ? "Transaction rejected by user"
+          : e.message?.includes("Practice cooldown")
+            ? "You have already scored this mode today. Come back tomorrow."
+            : "Submission failed: " + (e.message || "Unknown error")
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal cyber-card investing-simulator">
+        <div className="modal-header">
+          <h2>Investing Simulator</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+
+        <div className="modal-body">
+          <div className="simulator-status">
+            <span>Market #{simulation.seed}</span>
+            <span>
+              {finished ? "Finished" : `Year ${simulation.history.length + 1} of ${simulation.marketReturns.length}`}
+            </span>
+            <span>Portfolio: {formatMoney(simulation.value)}</span>
+          </div>
+
+          {simulation.history.length > 0 && (
+            <table className="simulator-history">
+              <thead>
+                <tr>
+                  <th>Year</th>
+                  {ASSET_CLASSES.map(asset => <th key={asset.id}>{asset.label}</th>)}
+                  <th>Value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {simulation.history.map((year, index) => (
+                  <tr key={index}>
+                    <td>{index + 1}</td>
+                    {ASSET_CLASSES.map((asset, i) => (
+                      <td key={asset.id}>
+                        {year.allocation[i]}% <span className={year.returns[i] < 0 ? "negative" : "positive"}>{formatReturn(year.returns[i])}</span>
+                      </td>
+                    ))}
+                    <td>{formatMoney(year.endValue)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {!finished ? (
+            <div className="simulator-allocation">
+              {ASSET_CLASSES.map((asset, i) => (
+                <div className="form-group" key={asset.id}>
+                  <label>{asset.label} ({DIFFICULTY_LABELS[asset.risk]} risk) %</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={allocation[i]}
+                    onChange={(e) => updateAllocation(i, e.target.value)}
+                    className="cyber-input"
+                  />
+                </div>
+              ))}
+              <p className={allocated === 100 ? "simulator-hint" : "simulator-hint negative"}>
+                Allocated {allocated}% · portfolio risk {allocationRisk(allocation).toFixed(1)} of 3
+              </p>
+            </div>
+          ) : outcome && (
+            <div className="simulator-summary">
+              <p>
+                {formatMoney(STARTING_VALUE)} grew to {formatMoney(outcome.finalValue)} ({outcome.growthPercent}% growth,
+                {" "}{DIFFICULTY_LABELS[outcome.portfolioRisk]} risk).
+              </p>
+              <p>
+                Your result is scored on-chain against your encrypted risk tolerance and goals, so points reward a
+                portfolio that suits you, not only the highest return.
+              </p>
+              {pointsEarned !== null && (
+                <div className="answer-status correct">You earned {pointsEarned} points.</div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={restart} className="cancel-btn cyber-button" disabled={submitting}>
+            New Market
+          </button>
+          {!finished ? (
+            <button onClick={advance} className="submit-btn cyber-button primary">
+              Invest for a Year
+            </button>
+          ) : (
+            <button onClick={submit} className="submit-btn cyber-button primary" disabled={submitting || pointsEarned !== null}>
+              {submitting ? "Encrypting and submitting..." : "Submit Encrypted Result"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InvestingSimulator;
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { getGameClientReadOnly, getGameClientWithSigner } from '../gameClient';
+import { LeaderboardView, RevealedRank, displayName } from '../leaderboard';
+
+interface LeaderboardPanelProps {
+  account: string;
+  registered: boolean;
+  onRequireOnboarding: () => void;
+}
+
+const MAX_PSEUDONYM_LENGTH = 32;
+
+const LeaderboardPanel: React.FC<LeaderboardPanelProps> = ({ account, registered, onRequireOnboarding }) => {
+  const [leaderboard, setLeaderboard] = useState<LeaderboardView | null>(null);
+  const [myReveal, setMyReveal] = useState<RevealedRank | null>(null);
+  const [pseudonym, setPseudonym] = useState("");
+  const [busy, setBusy] = useState<"" | "reveal" | "hide" | "pseudonym">("");
+  const [status, setStatus] = useState("");
+
+  const loadLeaderboard = async () => {
+    try {
+      const client = await getGameClientReadOnly();
+      if (!client) return;
+      setLeaderboard(await client.getLeaderboard());
+      if (account) {
+        setMyReveal(await client.getRankReveal(account));
+        setPseudonym(await client.getPseudonym(account));
+      }
+    } catch (e) {
+      console.error("Error loading leaderboard:", e);
+    }
+  };
+
+  useEffect(() => {
+    setMyReveal(null);
+    setPseudonym("");
+    setStatus("");
+    loadLeaderboard();
+  }, [account]);
+
+  const run = async (action: "reveal" | "hide" | "pseudonym") => {
+    if (!registered) {
+      onRequireOnboarding();
+      return;
+    }
+    if (action === "reveal" && !window.confirm("Your current rank will be published on-chain. Continue?")) {
+      return;
+    }
+
+    setBusy(action);
+    setStatus("");
+    try {
+      const client = await getGameClientWithSigner();
+      if (action === "pseudonym") {
+        await client.setPseudonym(pseudonym.trim());
+      } else if (action === "hide") {
+        await client.hideRank();
+      } else {
+        const receipt = await client.requestRankReveal();
+        setStatus("Waiting for the decryption oracle...");
+        const revealed = await client.waitForRankReveal(account, receipt.blockNumber);
+        setStatus(
+          !revealed
+            ? "The reveal is taking longer than expected. Check back later."
+            : revealed.rank === 0
+              ? `You are not in the top ${leaderboard?.size ?? ""} yet.`
+              : `You are ranked #${revealed.rank}.`
+        );
+      }
+      await loadLeaderboard();
+    } catch (e: any) {
+      alert(
+        e.message?.includes("user rejected transaction")
+          ? "Transaction rejected by user"
+          : "Leaderboard update failed: " + (e.message || "Unknown error")
+      );
+    } finally {
+      setBusy("");
+    }
+  };
+
+  return (
+    <div className="dashboard-card cyber-card leaderboard-panel">
+      <h3>Leaderboard</h3>
+      {!leaderboard ? (
+        <div className="answer-status pending">Loading leaderboard...</div>
+      ) : (
+        <>
+          {leaderboard.entries.length === 0 ? (
+            <p>No player has revealed their rank yet.</p>
+          ) : (
+            <div className="leaderboard-list">
+              {leaderboard.entries.map(entry => (
+                <div className={`leaderboard-row ${entry.player.toLowerCase() === account.toLowerCase() ? "mine" : ""}`} key={entry.player}>
+                  <span className="leaderboard-rank">#{entry.rank}</span>
+                  <span>{displayName(entry)}</span>
+                  <span className="leaderboard-date">as of {new Date(entry.revealedAt * 1000).toLocaleDateString()}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          {leaderboard.hiddenCount > 0 && (
+            <div className="leaderboard-hidden">
+              Up to {leaderboard.hiddenCount} more of the top {leaderboard.size} are ranked privately
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="privacy-notice">
+        <div className="privacy-icon"></div> Scores and ranks stay encrypted. Revealing publishes only your rank, linked to your address.
+      </div>
+
+      {account && (
+        <div className="leaderboard-actions">
+          <input
+            type="text"
+            value={pseudonym}
+            maxLength={MAX_PSEUDONYM_LENGTH}
+            onChange={(e) => setPseudonym(e.target.value)}
+            placeholder="Pseudonym (optional)"
+            className="cyber-input"
+          />
+          <div className="progress-actions">
+            <button className="cyber-button" disabled={busy !== ""} onClick={() => run("pseudonym")}>
+              {busy === "pseudonym" ? "Saving..." : "Save Pseudonym"}
+            </button>
+            {myReveal && (
+              <button className="cyber-button" disabled={busy !== ""} onClick={() => run("hide")}>
+                {busy === "hide" ? "Hiding..." : "Hide My Rank"}
+              </button>
+            )}
+            <button className="cyber-button primary" disabled={busy !== ""} onClick={() => run("reveal")}>
+              {busy === "reveal" ? "Revealing..." : myReveal ? "Update My Rank" : "Reveal My Rank"}
+            </button>
+          </div>
+        </div>
+      )}
+      {status && <div className="answer-status pending">{status}</div>}
+    </div>
+  );
+};
+
+export default LeaderboardPanel;
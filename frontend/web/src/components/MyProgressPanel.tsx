@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { DecryptedProgress, getGameClientWithSigner } from '../gameClient';
+import { DIFFICULTY_LABELS } from '../questionBank';
+
+interface MyProgressPanelProps {
+  account: string;
+  registered: boolean;
+  onRequireOnboarding: () => void;
+}
+
+const MyProgressPanel: React.FC<MyProgressPanelProps> = ({ account, registered, onRequireOnboarding }) => {
+  const [decrypted, setDecrypted] = useState<DecryptedProgress | null>(null);
+  const [decrypting, setDecrypting] = useState(false);
+  const [error, setError] = useState("");
+
+  // Never keep another account's cleartexts on screen
+  useEffect(() => {
+    setDecrypted(null);
+    setError("");
+  }, [account]);
+
+  const decrypt = async () => {
+    if (!registered) {
+      onRequireOnboarding();
+      return;
+    }
+
+    setDecrypting(true);
+    setError("");
+    try {
+      const client = await getGameClientWithSigner();
+      setDecrypted(await client.decryptMyProgress());
+    } catch (e: any) {
+      setError(
+        e.message?.includes("user rejected")
+          ? "Signature rejected by user"
+          : "Decryption failed: " + (e.message || "Unknown error")
+      );
+    } finally {
+      setDecrypting(false);
+    }
+  };
+
+  return (
+    <div className="dashboard-card cyber-card my-progress">
+      <h3>My Progress</h3>
+      <div className="stats-grid">
+        <div className="stat-item">
+          <div className="stat-value">{decrypted ? decrypted.score : "***"}</div>
+          <div className="stat-label">Score</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-value">{decrypted ? decrypted.progress : "***"}</div>
+          <div className="stat-label">Challenges Solved</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-value">{decrypted ? DIFFICULTY_LABELS[decrypted.knowledgeLevel] ?? decrypted.knowledgeLevel : "***"}</div>
+          <div className="stat-label">Level</div>
+        </div>
+      </div>
+      {decrypted && (
+        <p className="recommended-band">
+          Your level adapts after every answer. Try {DIFFICULTY_LABELS[decrypted.knowledgeLevel] ?? "new"} challenges next.
+        </p>
+      )}
+
+      <div className="privacy-notice">
+        <div className="privacy-icon"></div> Decrypted only in your browser with a key you sign for. Nothing is published on-chain.
+      </div>
+
+      <div className="progress-actions">
+        {decrypted ? (
+          <button className="cyber-button" onClick={() => setDecrypted(null)}>
+            Hide
+          </button>
+        ) : (
+          <button className="cyber-button primary" onClick={decrypt} disabled={decrypting}>
+            {decrypting ? "Decrypting..." : "Decrypt My Progress"}
+          </button>
+        )}
+      </div>
+      {error && <div className="answer-status incorrect">{error}</div>}
+    </div>
+  );
+};
+
+export default MyProgressPanel;
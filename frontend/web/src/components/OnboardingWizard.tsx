@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { PlayerProfileInput } from '../gameClient';
+import { QUIZ_STEPS, QuizAnswers, isStepComplete, scoreAssessment } from '../onboarding';
+
+interface OnboardingWizardProps {
+  registering: boolean;
+  onRegister: (profile: PlayerProfileInput) => void;
+  onClose: () => void;
+}
+
+const OnboardingWizard: React.FC<OnboardingWizardProps> = ({ registering, onRegister, onClose }) => {
+  const [stepIndex, setStepIndex] = useState(0);
+  const [answers, setAnswers] = useState<QuizAnswers>({});
+
+  const isReview = stepIndex === QUIZ_STEPS.length;
+  const step = QUIZ_STEPS[stepIndex];
+
+  const selectAnswer = (questionId: string, optionIndex: number) => {
+    setAnswers({ ...answers, [questionId]: optionIndex });
+  };
+
+  const handleNext = () => {
+    if (!isStepComplete(step, answers)) {
+      alert("Please answer every question");
+      return;
+    }
+    setStepIndex(stepIndex + 1);
+  };
+
+  const handleRegister = () => {
+    onRegister(scoreAssessment(answers));
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal onboarding-modal cyber-card">
+        <div className="modal-header">
+          <h2>{isReview ? "Ready to Play" : step.title}</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+
+        <div className="modal-body">
+          <div className="wizard-progress">
+            {[...QUIZ_STEPS.map(s => s.title), "Review"].map((title, index) => (
+              <div
+                key={title}
+                className={`wizard-step ${index === stepIndex ? "active" : ""} ${index < stepIndex ? "done" : ""}`}
+              >
+                {index + 1}. {title}
+              </div>
+            ))}
+          </div>
+
+          {isReview ? (
+            <div className="fhe-notice-banner">
+              <div className="key-icon"></div> Your knowledge level, risk tolerance, focus and savings goal are encrypted in your browser before registration. Nobody, including the game, sees your answers.
+            </div>
+          ) : (
+            <>
+              <p className="wizard-description">{step.description}</p>
+              {step.questions.map(question => (
+                <div className="quiz-question" key={question.id}>
+                  <label>{question.prompt}</label>
+                  <div className="quiz-options">
+                    {question.options.map((option, optionIndex) => (
+                      <button
+                        key={option.label}
+                        className={`quiz-option cyber-button ${answers[question.id] === optionIndex ? "selected" : ""}`}
+                        onClick={() => selectAnswer(question.id, optionIndex)}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          <button
+            onClick={stepIndex === 0 ? onClose : () => setStepIndex(stepIndex - 1)}
+            className="cancel-btn cyber-button"
+            disabled={registering}
+          >
+            {stepIndex === 0 ? "Cancel" : "Back"}
+          </button>
+          {isReview ? (
+            <button
+              onClick={handleRegister}
+              disabled={registering}
+              className="submit-btn cyber-button primary"
+            >
+              {registering ? "Registering with FHE..." : "Encrypt & Register"}
+            </button>
+          ) : (
+            <button onClick={handleNext} className="submit-btn cyber-button primary">
+              Next
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OnboardingWizard;
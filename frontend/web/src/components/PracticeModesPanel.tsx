@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { PRACTICE_MODES, PracticeMode, getGameClientReadOnly } from '../gameClient';
+
+interface PracticeModesPanelProps {
+  account: string;
+  registered: boolean;
+  onRequireOnboarding: () => void;
+  onStart: (mode: PracticeMode) => void;
+  // Bumped by the parent after a practice run is scored, to refresh the cooldowns
+  refreshKey: number;
+}
+
+const MODE_DESCRIPTIONS: Record<PracticeMode, string> = {
+  Investing: "Allocate a portfolio across five simulated market years. Scored against your encrypted risk tolerance.",
+  Budgeting: "Sort three months of expenses into needs and wants and hit your savings target. Your ledger stays encrypted in this browser.",
+  Credit: "Manage a year of card payments and new accounts and watch each decision move a simulated credit score.",
+  Taxes: "Work out taxable income, deductions and brackets in filing scenarios built from real tax tables.",
+  Savings: "Project compound growth at different rates and build a plan that reaches your encrypted savings goal."
+};
+
+const formatCooldown = (nextAt: number) => {
+  const remaining = nextAt - Math.floor(Date.now() / 1000);
+  if (remaining <= 0) return "";
+  const hours = Math.floor(remaining / 3600);
+  const minutes = Math.ceil((remaining % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+const PracticeModesPanel: React.FC<PracticeModesPanelProps> = ({ account, registered, onRequireOnboarding, onStart, refreshKey }) => {
+  const [nextAt, setNextAt] = useState<Partial<Record<PracticeMode, number>>>({});
+
+  useEffect(() => {
+    setNextAt({});
+    if (!registered) return;
+    (async () => {
+      try {
+        const client = await getGameClientReadOnly();
+        if (!client) return;
+        const times = await Promise.all(PRACTICE_MODES.map(mode => client.getNextPracticeAt(account, mode)));
+        setNextAt(Object.fromEntries(PRACTICE_MODES.map((mode, i) => [mode, times[i]])));
+      } catch (e) {
+        console.error("Error loading practice cooldowns:", e);
+      }
+    })();
+  }, [account, registered, refreshKey]);
+
+  const start = (mode: PracticeMode) => {
+    if (!registered) {
+      onRequireOnboarding();
+      return;
+    }
+    onStart(mode);
+  };
+
+  return (
+    <div className="dashboard-card cyber-card practice-modes">
+      <h3>Practice Modes</h3>
+      <div className="practice-mode-list">
+        {PRACTICE_MODES.map(mode => {
+          const cooldown = formatCooldown(nextAt[mode] ?? 0);
+          return (
+            <div className="practice-mode-row" key={mode}>
+              <div>
+                <div className="practice-mode-name">{mode}</div>
+                <div className="practice-mode-description">{MODE_DESCRIPTIONS[mode]}</div>
+              </div>
+              <button className="cyber-button primary" onClick={() => start(mode)}>
+                {cooldown ? `Play (scored in ${cooldown})` : "Play"}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+      <div className="privacy-notice">
+        <div className="privacy-icon"></div> Runs are played in your browser. Only the encrypted result is submitted, once per day per mode.
+      </div>
+    </div>
+  );
+};
+
+export default PracticeModesPanel;
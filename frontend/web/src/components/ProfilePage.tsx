@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react';
+import {
+  CATEGORY_MASTERY_BADGE,
+  DecryptedRewards,
+  MASTERY_CATEGORIES,
+  MASTERY_CORRECT_ANSWERS,
+  RewardsSummary,
+  WEEK_STREAK_BADGE,
+  getRewardsClientReadOnly,
+  getRewardsClientWithSigner,
+  masteryCategories
+} from '../rewardsClient';
+import { CHALLENGE_CATEGORIES } from '../questionBank';
+
+interface ProfilePageProps {
+  account: string;
+  onClose: () => void;
+}
+
+const ProfilePage: React.FC<ProfilePageProps> = ({ account, onClose }) => {
+  const [summary, setSummary] = useState<RewardsSummary | null>(null);
+  const [decrypted, setDecrypted] = useState<DecryptedRewards | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [unavailable, setUnavailable] = useState(false);
+  const [decrypting, setDecrypting] = useState(false);
+  const [busy, setBusy] = useState("");
+
+  const loadProfile = async () => {
+    setLoading(true);
+    try {
+      const client = await getRewardsClientReadOnly();
+      if (!client) {
+        setUnavailable(true);
+        return;
+      }
+      setSummary(await client.getSummary(account));
+    } catch (e) {
+      console.error("Error loading profile:", e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Never keep another account's cleartexts on screen
+  useEffect(() => {
+    setDecrypted(null);
+    loadProfile();
+  }, [account]);
+
+  const decrypt = async () => {
+    setDecrypting(true);
+    try {
+      const client = await getRewardsClientWithSigner();
+      setDecrypted(await client.decryptMyRewards());
+    } catch (e: any) {
+      alert(
+        e.message?.includes("user rejected")
+          ? "Signature rejected by user"
+          : "Decryption failed: " + (e.message || "Unknown error")
+      );
+    } finally {
+      setDecrypting(false);
+    }
+  };
+
+  const runTransaction = async (label: string, action: () => Promise<string>) => {
+    setBusy(label);
+    try {
+      alert(await action());
+      setDecrypted(null);
+      await loadProfile();
+    } catch (e: any) {
+      alert(
+        e.message?.includes("user rejected transaction")
+          ? "Transaction rejected by user"
+          : "Transaction failed: " + (e.message || "Unknown error")
+      );
+    } finally {
+      setBusy("");
+    }
+  };
+
+  const redeem = () => {
+    if (!window.confirm("Redeeming publishes how many points you redeem. Continue?")) return;
+    runTransaction("redeem", async () => {
+      const client = await getRewardsClientWithSigner();
+      const receipt = await client.redeemPoints();
+      const amount = await client.waitForRedemption(account, receipt.blockNumber);
+      return amount === null
+        ? "Redemption submitted. Your tokens will appear once the amount is decrypted."
+        : `Redeemed ${amount} LIT`;
+    });
+  };
+
+  const claim = (badgeId: number, name: string) => {
+    let categories: number[] = [];
+    if (badgeId === CATEGORY_MASTERY_BADGE) {
+      const qualifying = decrypted && masteryCategories(decrypted.correctByCategory);
+      if (!qualifying) {
+        alert(
+          `Category Mastery needs ${MASTERY_CORRECT_ANSWERS} solved challenges in ${MASTERY_CATEGORIES} categories. ` +
+            "Decrypt your rewards to check your progress."
+        );
+        return;
+      }
+      categories = qualifying;
+    }
+    // Streaks are public already, so only the other badges publish anything new
+    if (
+      badgeId !== WEEK_STREAK_BADGE &&
+      !window.confirm(`Claiming publishes whether you qualify for ${name}. Continue?`)
+    ) {
+      return;
+    }
+
+    runTransaction(`badge-${badgeId}`, async () => {
+      const client = await getRewardsClientWithSigner();
+      const receipt = await client.claimBadge(badgeId, categories);
+      const result = await client.waitForBadgeClaim(account, badgeId, receipt.blockNumber);
+      if (!result) return "Claim submitted. The badge will appear once your eligibility is decrypted.";
+      return result.awarded ? `${name} awarded!` : `Not eligible for ${name} yet`;
+    });
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal cyber-card profile-page">
+        <div className="modal-header">
+          <h2>My Profile</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+
+        <div className="modal-body">
+          {unavailable ? (
+            <div className="no-challenges">
+              <p>Rewards are not available on this deployment</p>
+            </div>
+          ) : loading && !summary ? (
+            <div className="answer-status pending">Loading profile...</div>
+          ) : (
+            <>
+              <div className="stats-grid">
+                <div className="stat-item">
+                  <div className="stat-value">{summary ? `${summary.tokenBalance} LIT` : "-"}</div>
+                  <div className="stat-label">Literacy Points</div>
+                </div>
+                <div className="stat-item">
+                  <div className="stat-value">{decrypted ? decrypted.pendingPoints : "***"}</div>
+                  <div className="stat-label">Ready to Redeem</div>
+                </div>
+                <div className="stat-item">
+                  <div className="stat-value">{decrypted ? decrypted.correctAnswers : "***"}</div>
+                  <div className="stat-label">Challenges Solved</div>
+                </div>
+                <div className="stat-item">
+                  <div className="stat-value">{summary ? summary.bestStreak : "-"}</div>
+                  <div className="stat-label">Best Streak</div>
+                </div>
+              </div>
+
+              <div className="privacy-notice">
+                <div className="privacy-icon"></div> A challenge pays its reward the first time you solve it, and the
+                points stay encrypted until you redeem them.
+                Redeeming publishes the amount; claiming a badge publishes whether you qualify.
+              </div>
+
+              <div className="progress-actions">
+                {decrypted ? (
+                  <button className="cyber-button" onClick={() => setDecrypted(null)}>
+                    Hide
+                  </button>
+                ) : (
+                  <button className="cyber-button" onClick={decrypt} disabled={decrypting}>
+                    {decrypting ? "Decrypting..." : "Decrypt My Rewards"}
+                  </button>
+                )}
+                <button
+                  className="cyber-button primary"
+                  onClick={redeem}
+                  disabled={busy !== "" || decrypted?.pendingPoints === 0}
+                >
+                  {busy === "redeem" ? "Redeeming..." : "Redeem Points"}
+                </button>
+              </div>
+
+              {decrypted && (
+                <div className="catalogue-list">
+                  {CHALLENGE_CATEGORIES.map((category, index) => (
+                    <div className="catalogue-row mastery-row" key={category}>
+                      <span className="catalogue-question">{category}</span>
+                      <span className={decrypted.correctByCategory[index] >= MASTERY_CORRECT_ANSWERS ? "mastered" : ""}>
+                        {decrypted.correctByCategory[index]} / {MASTERY_CORRECT_ANSWERS}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <h3>Badges</h3>
+              <div className="badge-grid">
+                {summary?.badges.map(badge => (
+                  <div className={`badge-card ${badge.earned ? "earned" : ""}`} key={badge.id}>
+                    <div className="badge-name">{badge.name}</div>
+                    <div className="badge-description">{badge.description}</div>
+                    {badge.earned ? (
+                      <span className="status-badge completed">earned</span>
+                    ) : badge.claimPending ? (
+                      <span className="status-badge pending">checking</span>
+                    ) : (
+                      <button
+                        className="cyber-button"
+                        onClick={() => claim(badge.id, badge.name)}
+                        disabled={busy !== ""}
+                      >
+                        {busy === `badge-${badge.id}` ? "Claiming..." : "Claim"}
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={onClose} className="cancel-btn cyber-button">
+            Close
+          </button>
+          <button onClick={loadProfile} className="submit-btn cyber-button" disabled={loading}>
+            Refresh
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfilePage;
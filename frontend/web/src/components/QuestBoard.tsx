@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { Engagement, QuestCounts, getGameClientReadOnly, getGameClientWithSigner } from '../gameClient';
+import {
+  currentStreak,
+  formatCountdown,
+  nextAnswerPoints,
+  nowSeconds,
+  questStatuses,
+  streakBonusPercent
+} from '../quests';
+
+interface QuestBoardProps {
+  account: string;
+  registered: boolean;
+  onRequireOnboarding: () => void;
+  // Bumped by the parent after an answer is scored, to refresh the streak
+  refreshKey: number;
+}
+
+const QuestBoard: React.FC<QuestBoardProps> = ({ account, registered, onRequireOnboarding, refreshKey }) => {
+  const [engagement, setEngagement] = useState<Engagement | null>(null);
+  const [counts, setCounts] = useState<QuestCounts | null>(null);
+  const [decrypting, setDecrypting] = useState(false);
+  const [now, setNow] = useState(nowSeconds());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(nowSeconds()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Never keep another account's cleartexts on screen
+  useEffect(() => {
+    setCounts(null);
+  }, [account]);
+
+  useEffect(() => {
+    setEngagement(null);
+    if (!registered) return;
+    (async () => {
+      try {
+        const client = await getGameClientReadOnly();
+        if (!client) return;
+        setEngagement(await client.getEngagement(account));
+      } catch (e) {
+        console.error("Error loading quests:", e);
+      }
+    })();
+  }, [account, registered, refreshKey]);
+
+  const decrypt = async () => {
+    if (!registered) {
+      onRequireOnboarding();
+      return;
+    }
+
+    setDecrypting(true);
+    try {
+      const client = await getGameClientWithSigner();
+      const [latest, decrypted] = await Promise.all([client.getEngagement(account), client.decryptMyQuestCounts()]);
+      setEngagement(latest);
+      setCounts(decrypted);
+    } catch (e: any) {
+      alert(
+        e.message?.includes("user rejected")
+          ? "Signature rejected by user"
+          : "Decryption failed: " + (e.message || "Unknown error")
+      );
+    } finally {
+      setDecrypting(false);
+    }
+  };
+
+  const streak = engagement ? currentStreak(engagement, now) : 0;
+  const quests = engagement ? questStatuses(engagement, counts, now) : [];
+
+  return (
+    <div className="dashboard-card cyber-card quest-board">
+      <h3>Quests</h3>
+      <div className="stats-grid">
+        <div className="stat-item">
+          <div className="stat-value">{streak}</div>
+          <div className="stat-label">Day Streak</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-value">+{streakBonusPercent(streak)}%</div>
+          <div className="stat-label">Streak Bonus</div>
+        </div>
+        <div className="stat-item">
+          <div className="stat-value">{engagement ? nextAnswerPoints(engagement, now) : "-"}</div>
+          <div className="stat-label">Points per Answer</div>
+        </div>
+      </div>
+
+      {!registered ? (
+        <p className="simulator-hint">Register to start a streak and take on quests.</p>
+      ) : (
+        <div className="quest-list">
+          {quests.map(quest => (
+            <div className="quest-row" key={quest.period}>
+              <div className="quest-header">
+                <span className="quest-title">{quest.title}</span>
+                <span className="quest-bonus">+{quest.bonus} pts</span>
+              </div>
+              <div className="quest-progress-bar">
+                <div
+                  className="quest-progress-fill"
+                  style={{ width: `${((quest.progress ?? 0) / quest.target) * 100}%` }}
+                />
+              </div>
+              <div className="quest-footer">
+                <span>
+                  {quest.progress === null ? "***" : quest.progress} / {quest.target}
+                  {quest.progress === quest.target && " completed"}
+                </span>
+                <span>Resets in {formatCountdown(quest.resetsAt - now)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="privacy-notice">
+        <div className="privacy-icon"></div> Quest progress counts challenges you solve for the first time, so it stays encrypted. Streaks only count days you answered on.
+      </div>
+
+      <div className="progress-actions">
+        {counts ? (
+          <button className="cyber-button" onClick={() => setCounts(null)}>
+            Hide
+          </button>
+        ) : (
+          <button className="cyber-button primary" onClick={decrypt} disabled={decrypting}>
+            {decrypting ? "Decrypting..." : "Decrypt Quest Progress"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuestBoard;
@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from 'react';
+import { CategoryScale, Chart as ChartJS, Legend, LineElement, LinearScale, PointElement, Tooltip } from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { SavingsGoal, getGameClientWithSigner } from '../gameClient';
+import { SAVINGS_VEHICLES, evaluatePlan, projectSavings, requiredContribution } from '../savingsPlanner';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+interface SavingsPlannerProps {
+  account: string;
+  onClose: () => void;
+  onScored: () => void;
+}
+
+const formatMoney = (value: number) => `$${Math.round(value).toLocaleString()}`;
+
+const SavingsPlanner: React.FC<SavingsPlannerProps> = ({ account, onClose, onScored }) => {
+  const [goal, setGoal] = useState<SavingsGoal | null>(null);
+  const [goalDraft, setGoalDraft] = useState<SavingsGoal | null>(null);
+  const [contribution, setContribution] = useState(0);
+  const [vehicleId, setVehicleId] = useState(SAVINGS_VEHICLES[1].id);
+  const [busy, setBusy] = useState<"" | "decrypt" | "goal" | "submit">("");
+  const [pointsEarned, setPointsEarned] = useState<number | null>(null);
+
+  // Never keep another account's cleartexts on screen
+  useEffect(() => {
+    setGoal(null);
+    setGoalDraft(null);
+  }, [account]);
+
+  const reportError = (e: any, prefix: string) => {
+    alert(
+      e.message?.includes("user rejected")
+        ? "Request rejected by user"
+        : e.message?.includes("Practice cooldown")
+          ? "You have already scored this mode today. Come back tomorrow."
+          : `${prefix}: ` + (e.message || "Unknown error")
+    );
+  };
+
+  const decryptGoal = async () => {
+    setBusy("decrypt");
+    try {
+      const client = await getGameClientWithSigner();
+      const decrypted = await client.decryptMySavingsGoal();
+      setGoal(decrypted);
+      setContribution(decrypted.monthlyContribution);
+    } catch (e: any) {
+      reportError(e, "Decryption failed");
+    } finally {
+      setBusy("");
+    }
+  };
+
+  const saveGoal = async () => {
+    if (!goalDraft) return;
+    if (goalDraft.targetAmount <= 0 || goalDraft.horizonMonths <= 0 || goalDraft.monthlyContribution <= 0) {
+      alert("Target, horizon and monthly contribution must all be positive");
+      return;
+    }
+
+    setBusy("goal");
+    try {
+      const client = await getGameClientWithSigner();
+      await client.updateSavingsGoal(goalDraft);
+      setGoal(goalDraft);
+      setGoalDraft(null);
+      setContribution(goalDraft.monthlyContribution);
+    } catch (e: any) {
+      reportError(e, "Goal update failed");
+    } finally {
+      setBusy("");
+    }
+  };
+
+  const submit = async () => {
+    if (!goal) return;
+
+    const { projectedAmount } = evaluatePlan(goal, {
+      monthlyContribution: contribution,
+      annualRate: vehicle.annualRate,
+      months: goal.horizonMonths
+    });
+    setBusy("submit");
+    try {
+      const client = await getGameClientWithSigner();
+      const before = await client.getPlayerState(account);
+      await client.submitSavingsPlan(projectedAmount, contribution);
+      setPointsEarned(await client.decryptScoreGain(before.encryptedScore));
+      onScored();
+    } catch (e: any) {
+      reportError(e, "Submission failed");
+    } finally {
+      setBusy("");
+    }
+  };
+
+  const vehicle = SAVINGS_VEHICLES.find(candidate => candidate.id === vehicleId) ?? SAVINGS_VEHICLES[0];
+  const plan = goal && { monthlyContribution: contribution, annualRate: vehicle.annualRate, months: goal.horizonMonths };
+  const projection = plan && projectSavings(plan);
+  const evaluation = goal && plan && evaluatePlan(goal, plan);
+
+  const renderGoalEditor = (draft: SavingsGoal) => (
+    <div className="form-grid">
+      {([
+        ["targetAmount", "Target ($)"],
+        ["horizonMonths", "Horizon (months)"],
+        ["monthlyContribution", "Monthly budget ($)"]
+      ] as [keyof SavingsGoal, string][]).map(([field, label]) => (
+        <div className="form-group" key={field}>
+          <label>{label}</label>
+          <input
+            type="number"
+            min={1}
+            value={draft[field]}
+            onChange={(e) => setGoalDraft({ ...draft, [field]: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+            className="cyber-input"
+          />
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal cyber-card savings-planner">
+        <div className="modal-header">
+          <h2>Savings Planner</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+
+        <div className="modal-body">
+          {!goal ? (
+            <div className="privacy-notice">
+              <div className="privacy-icon"></div> Your savings goal is stored encrypted. Decrypt it in your browser
+              to plan how to reach it.
+            </div>
+          ) : goalDraft ? (
+            renderGoalEditor(goalDraft)
+          ) : (
+            <>
+              <div className="simulator-status">
+                <span>Goal: {formatMoney(goal.targetAmount)} in {goal.horizonMonths} months</span>
+                <span>Budget: {formatMoney(goal.monthlyContribution)}/month</span>
+                <button className="cyber-button" onClick={() => setGoalDraft(goal)}>Change Goal</button>
+              </div>
+
+              <div className="form-grid">
+                <div className="form-group">
+                  <label>Monthly contribution ($)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={contribution}
+                    onChange={(e) => setContribution(Math.max(0, parseInt(e.target.value, 10) || 0))}
+                    className="cyber-input"
+                  />
+                </div>
+                <div className="form-group">
+                  <label>Where to save</label>
+                  <select value={vehicleId} onChange={(e) => setVehicleId(e.target.value)} className="cyber-select">
+                    {SAVINGS_VEHICLES.map(candidate => (
+                      <option key={candidate.id} value={candidate.id}>
+                        {candidate.label} ({(candidate.annualRate * 100).toFixed(1)}%)
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <p className="simulator-hint">{vehicle.note}</p>
+
+              {projection && evaluation && (
+                <>
+                  <Line
+                    options={{ responsive: true, plugins: { legend: { display: true } } }}
+                    data={{
+                      labels: projection.balances.map((_, month) => `${month + 1}`),
+                      datasets: [
+                        { label: "Projected balance", data: projection.balances.map(Math.round), borderColor: "rgba(0, 240, 255, 0.8)" },
+                        { label: "Goal", data: projection.balances.map(() => goal.targetAmount), borderColor: "rgba(255, 0, 60, 0.6)" }
+                      ]
+                    }}
+                  />
+                  <p className={evaluation.isReached ? "simulator-hint" : "simulator-hint negative"}>
+                    Projected {formatMoney(projection.finalBalance)}: {formatMoney(projection.contributed)} saved plus{" "}
+                    {formatMoney(projection.interest)} interest.{" "}
+                    {!evaluation.isAffordable
+                      ? "This is more than you said you can set aside each month."
+                      : evaluation.isReached
+                        ? "This plan reaches your goal."
+                        : "This plan falls short of your goal."}
+                  </p>
+                </>
+              )}
+
+              <table className="simulator-history">
+                <thead>
+                  <tr>
+                    <th>Where to save</th>
+                    <th>Projected</th>
+                    <th>Needed per month</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {SAVINGS_VEHICLES.map(candidate => (
+                    <tr key={candidate.id}>
+                      <td>{candidate.label}</td>
+                      <td>{formatMoney(projectSavings({ monthlyContribution: contribution, annualRate: candidate.annualRate, months: goal.horizonMonths }).finalBalance)}</td>
+                      <td>{formatMoney(requiredContribution(goal.targetAmount, candidate.annualRate, goal.horizonMonths))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {pointsEarned !== null && (
+                <div className="answer-status correct">You earned {pointsEarned} points.</div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          {!goal ? (
+            <button onClick={decryptGoal} className="submit-btn cyber-button primary" disabled={busy !== ""}>
+              {busy === "decrypt" ? "Decrypting..." : "Decrypt My Goal"}
+            </button>
+          ) : goalDraft ? (
+            <>
+              <button onClick={() => setGoalDraft(null)} className="cancel-btn cyber-button" disabled={busy !== ""}>
+                Cancel
+              </button>
+              <button onClick={saveGoal} className="submit-btn cyber-button primary" disabled={busy !== ""}>
+                {busy === "goal" ? "Encrypting..." : "Save Encrypted Goal"}
+              </button>
+            </>
+          ) : (
+            <button onClick={submit} className="submit-btn cyber-button primary" disabled={busy !== "" || pointsEarned !== null}>
+              {busy === "submit" ? "Encrypting and submitting..." : "Submit Encrypted Plan"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SavingsPlanner;
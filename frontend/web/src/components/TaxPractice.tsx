@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { getGameClientWithSigner } from '../gameClient';
+import {
+  TaxPracticeRun,
+  answerScenario,
+  correctAnswers,
+  isCorrect,
+  isFinished,
+  newTaxPracticeRun,
+  rulesOf
+} from '../taxPractice';
+
+interface TaxPracticeProps {
+  account: string;
+  onClose: () => void;
+  onScored: () => void;
+}
+
+const formatRate = (rate: number) => `${Math.round(rate * 1000) / 10}%`;
+
+const TaxPractice: React.FC<TaxPracticeProps> = ({ account, onClose, onScored }) => {
+  const [run, setRun] = useState<TaxPracticeRun>(() => newTaxPracticeRun());
+  const [index, setIndex] = useState(0);
+  const [amount, setAmount] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [pointsEarned, setPointsEarned] = useState<number | null>(null);
+
+  const scenario = run.scenarios[index];
+  const answer = run.answers[index];
+  const { rules, status } = rulesOf(scenario);
+  const finished = isFinished(run) && index === run.scenarios.length - 1 && answer !== null;
+
+  const check = (value: number) => {
+    setRun(answerScenario(run, index, value));
+  };
+
+  const checkAmount = () => {
+    const value = parseFloat(amount.replace(/[^0-9.]/g, ""));
+    if (isNaN(value)) {
+      alert("Please enter an amount");
+      return;
+    }
+    check(value);
+  };
+
+  const next = () => {
+    setIndex(index + 1);
+    setAmount("");
+  };
+
+  const restart = () => {
+    setRun(newTaxPracticeRun());
+    setIndex(0);
+    setAmount("");
+    setPointsEarned(null);
+  };
+
+  const submit = async () => {
+    setSubmitting(true);
+    try {
+      const client = await getGameClientWithSigner();
+      const before = await client.getPlayerState(account);
+      await client.submitTaxPractice(correctAnswers(run));
+      setPointsEarned(await client.decryptScoreGain(before.encryptedScore));
+      onScored();
+    } catch (e: any) {
+      alert(
+        e.message?.includes("user rejected transaction")
+          ? "Transaction rejected by user"
+          : e.message?.includes("Practice cooldown")
+            ? "You have already scored this mode today. Come back tomorrow."
+            : "Submission failed: " + (e.message || "Unknown error")
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal cyber-card tax-practice">
+        <div className="modal-header">
+          <h2>Tax Filing Practice</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+
+        <div className="modal-body">
+          <div className="simulator-status">
+            <span>Scenario {index + 1} of {run.scenarios.length}</span>
+            <span>{correctAnswers(run)} correct</span>
+          </div>
+
+          <div className="tax-rules">
+            <h4>{rules.name} {rules.year} · {status.label}</h4>
+            <p>
+              Standard deduction {status.standardDeduction.toLocaleString()} {rules.currency}
+              {status.standardDeductionTaper &&
+                `, reduced by ${formatRate(status.standardDeductionTaper.rate)} of income above ${status.standardDeductionTaper.startsAt.toLocaleString()}`}
+            </p>
+            <table className="simulator-history">
+              <thead>
+                <tr>
+                  <th>Taxable income</th>
+                  <th>Rate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {status.brackets.map((bracket, i) => (
+                  <tr key={i}>
+                    <td>
+                      {i === 0 ? 0 : (status.brackets[i - 1].upTo as number).toLocaleString()} &ndash;{" "}
+                      {bracket.upTo === null ? "and above" : bracket.upTo.toLocaleString()}
+                    </td>
+                    <td>{formatRate(bracket.rate)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <a href={rules.source.url} target="_blank" rel="noopener noreferrer">{rules.source.title}</a>
+          </div>
+
+          <p className="tax-prompt">{scenario.prompt}</p>
+
+          {scenario.options ? (
+            <div className="quiz-options">
+              {scenario.options.map((option, i) => (
+                <button
+                  key={option}
+                  className={`quiz-option cyber-button ${answer === i ? "selected" : ""}`}
+                  disabled={answer !== null}
+                  onClick={() => check(i)}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <div className="form-group">
+              <input
+                type="text"
+                inputMode="decimal"
+                value={answer !== null ? answer.toLocaleString() : amount}
+                onChange={(e) => setAmount(e.target.value)}
+                disabled={answer !== null}
+                placeholder={`Amount in ${rules.currency}`}
+                className="cyber-input"
+              />
+            </div>
+          )}
+
+          {answer !== null && (
+            <div className={`answer-status ${isCorrect(scenario, answer) ? "correct" : "incorrect"}`}>
+              {isCorrect(scenario, answer) ? "Correct. " : "Not quite. "}
+              {scenario.explanation}
+            </div>
+          )}
+
+          {finished && (
+            <div className="simulator-summary">
+              <p>
+                You answered {correctAnswers(run)} of {run.scenarios.length} scenarios correctly. Only that number is
+                encrypted and submitted.
+              </p>
+              {pointsEarned !== null && (
+                <div className="answer-status correct">You earned {pointsEarned} points.</div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={restart} className="cancel-btn cyber-button" disabled={submitting}>
+            New Scenarios
+          </button>
+          {answer === null ? (
+            !scenario.options && (
+              <button onClick={checkAmount} className="submit-btn cyber-button primary">
+                Check Answer
+              </button>
+            )
+          ) : !finished ? (
+            <button onClick={next} className="submit-btn cyber-button primary">
+              Next Scenario
+            </button>
+          ) : (
+            <button onClick={submit} className="submit-btn cyber-button primary" disabled={submitting || pointsEarned !== null}>
+              {submitting ? "Encrypting and submitting..." : "Submit Encrypted Result"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TaxPractice;
@@ -1,9 +1,19 @@
 // contract.ts
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
+import gameAbiJson from "./abi/FinancialLiteracyGame.json";
+import stakingAbiJson from "./abi/ChallengeStaking.json";
+import rewardsAbiJson from "./abi/LiteracyRewards.json";
+import pointAbiJson from "./abi/LiteracyPoint.json";
+import badgesAbiJson from "./abi/LiteracyBadges.json";
 import configJson from "./config.json";
 
 export const ABI = (abiJson as any).abi || abiJson;
+export const GAME_ABI = (gameAbiJson as any).abi || gameAbiJson;
+export const STAKING_ABI = (stakingAbiJson as any).abi || stakingAbiJson;
+export const REWARDS_ABI = (rewardsAbiJson as any).abi || rewardsAbiJson;
+export const POINT_ABI = (pointAbiJson as any).abi || pointAbiJson;
+export const BADGES_ABI = (badgesAbiJson as any).abi || badgesAbiJson;
 export const config = configJson;
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
@@ -67,6 +77,52 @@ export async function getContractReadOnly() {
   }
 }
 
+// Read-only instance of a deployed contract, or null when it is not configured or not deployed on the network
+async function getDeployedContractReadOnly(address: string, abi: ethers.InterfaceAbi, name: string) {
+  if (!address) {
+    return null;
+  }
+  try {
+    const provider = await getTestnetProvider();
+    const contract = new ethers.Contract(address, abi, provider);
+    
+    const code = await retry(() => provider.getCode(address));
+    if (code === "0x") {
+      return null;
+    }
+    
+    return contract;
+  } catch (error) {
+    console.error(`Failed to create read-only ${name.toLowerCase()} contract:`, error);
+    return null;
+  }
+}
+
+async function getDeployedContractWithSigner(address: string, abi: ethers.InterfaceAbi, name: string) {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  if (!address) {
+    throw new Error(`${name} contract address not configured`);
+  }
+  try {
+    const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const signer = await provider.getSigner();
+    return new ethers.Contract(address, abi, signer);
+  } catch (error) {
+    console.error(`Failed to create ${name.toLowerCase()} contract with signer:`, error);
+    throw error;
+  }
+}
+
+export async function getGameContractReadOnly() {
+  if (!config.gameContractAddress) {
+    console.error("Game contract address not configured");
+    return null;
+  }
+  return getDeployedContractReadOnly(config.gameContractAddress, GAME_ABI, "Game");
+}
+
 export async function getContractWithSigner() {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
@@ -82,6 +138,88 @@ export async function getContractWithSigner() {
   }
 }
 
+// For signing that does not go through a contract, such as unlocking data kept in the browser
+export async function getWalletSigner(): Promise<ethers.Signer> {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  return provider.getSigner();
+}
+
+export async function getGameContractWithSigner() {
+  return getDeployedContractWithSigner(config.gameContractAddress, GAME_ABI, "Game");
+}
+
+export async function getStakingContractReadOnly() {
+  return getDeployedContractReadOnly(config.stakingContractAddress, STAKING_ABI, "Staking");
+}
+
+export async function getStakingContractWithSigner() {
+  return getDeployedContractWithSigner(config.stakingContractAddress, STAKING_ABI, "Staking");
+}
+
+export async function getRewardsContractReadOnly() {
+  return getDeployedContractReadOnly(config.rewardsContractAddress, REWARDS_ABI, "Rewards");
+}
+
+export async function getRewardsContractWithSigner() {
+  return getDeployedContractWithSigner(config.rewardsContractAddress, REWARDS_ABI, "Rewards");
+}
+
+// Public RPCs cap the block range of a log query
+export const LOG_BLOCK_RANGE = 5000;
+
+// Logs matching `filter` from `fromBlock` to the latest block, queried in ranges public RPCs accept.
+// Nothing this app reads was emitted before the game was deployed, so that is where queries start.
+export async function queryEventLogs(
+  contract: ethers.Contract,
+  filter: ethers.ContractEventName,
+  fromBlock: number = config.gameDeploymentBlock
+): Promise<ethers.EventLog[]> {
+  const provider = contract.runner?.provider;
+  if (!provider) {
+    throw new Error("Contract has no provider");
+  }
+  
+  const latest = await provider.getBlockNumber();
+  const logs: ethers.EventLog[] = [];
+  for (let from = fromBlock; from <= latest; from += LOG_BLOCK_RANGE) {
+    const range = await contract.queryFilter(filter, from, Math.min(from + LOG_BLOCK_RANGE - 1, latest));
+    logs.push(...range.filter((log): log is ethers.EventLog => log instanceof ethers.EventLog));
+  }
+  return logs;
+}
+
+// Oracle callbacks land in later transactions, so clients poll for their events
+export const EVENT_POLL_MS = 4000;
+// A single decryption oracle callback, such as a rank reveal or a badge claim
+export const DECRYPTION_TIMEOUT_MS = 5 * 60 * 1000;
+
+// The latest log matching `filter` from `fromBlock`, polled for until one arrives or the timeout passes
+export async function pollEventLog(
+  contract: ethers.Contract,
+  filter: ethers.ContractEventName,
+  fromBlock: number,
+  timeoutMs: number
+): Promise<ethers.EventLog | null> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const logs = await queryEventLogs(contract, filter, fromBlock);
+    if (logs.length > 0) return logs[logs.length - 1];
+    await new Promise(res => setTimeout(res, EVENT_POLL_MS));
+  }
+  return null;
+}
+
+export async function waitForReceipt(tx: ethers.ContractTransactionResponse) {
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new Error("Transaction was dropped");
+  }
+  return receipt;
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
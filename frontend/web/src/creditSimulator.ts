@@ -0,0 +1,281 @@
+// creditSimulator.ts
+import { randomInt, randomSeed, seededRandom } from "./random";
+
+// A year of credit decisions played client-side. The simulated score follows the published weights of
+// common scoring models, so every change can be explained factor by factor. Only the final score is
+// encrypted and sent to the contract.
+export const SIMULATION_MONTHS = 12;
+export const MIN_CREDIT_SCORE = 300;
+export const MAX_CREDIT_SCORE = 850;
+// Matches the contract's threshold for counting a run as progress
+export const GOOD_CREDIT_SCORE = 700;
+
+const MONTHLY_INTEREST = 0.02;
+const MINIMUM_PAYMENT_PERCENT = 0.05;
+const MINIMUM_PAYMENT_FLOOR = 25;
+const LATE_FEE = 35;
+const NEW_CARD_LIMIT = 1500;
+const INQUIRY_WINDOW_MONTHS = 12;
+const NEW_ACCOUNT_WINDOW_MONTHS = 6;
+// Account age at which the length-of-history factor is maxed out
+const MATURE_HISTORY_MONTHS = 120;
+
+export type CreditFactor = "payments" | "utilization" | "history" | "newCredit" | "mix";
+
+export const CREDIT_FACTORS: Record<CreditFactor, { label: string; weight: number }> = {
+  payments: { label: "Payment history", weight: 0.35 },
+  utilization: { label: "Credit utilization", weight: 0.3 },
+  history: { label: "Length of credit history", weight: 0.15 },
+  newCredit: { label: "New credit and inquiries", weight: 0.1 },
+  mix: { label: "Credit mix", weight: 0.1 }
+};
+
+export type PaymentChoice = "max" | "minimum" | "skip";
+export type CreditAction = "none" | "openCard" | "closeOldest" | "takeLoan";
+
+export const PAYMENT_LABELS: Record<PaymentChoice, string> = {
+  max: "Pay as much as I can",
+  minimum: "Pay the minimum",
+  skip: "Skip this payment"
+};
+
+export const ACTION_LABELS: Record<CreditAction, string> = {
+  none: "No changes",
+  openCard: "Open a new credit card",
+  closeOldest: "Close my oldest card",
+  takeLoan: "Take a small installment loan"
+};
+
+interface CreditAccount {
+  type: "card" | "loan";
+  // Month the account was opened, relative to the start of the simulation
+  openedMonth: number;
+  limit: number;
+  isClosed: boolean;
+}
+
+export interface MonthlyStatement {
+  purchases: number;
+  cashAvailable: number;
+  note: string;
+}
+
+export interface CreditState {
+  month: number;
+  accounts: CreditAccount[];
+  balance: number;
+  onTimePayments: number;
+  latePayments: number;
+  inquiryMonths: number[];
+}
+
+export interface FactorChange {
+  factor: CreditFactor;
+  points: number;
+  explanation: string;
+}
+
+export interface CreditMonthResult {
+  payment: PaymentChoice;
+  action: CreditAction;
+  paid: number;
+  scoreBefore: number;
+  scoreAfter: number;
+  changes: FactorChange[];
+}
+
+export interface CreditSimulation {
+  seed: number;
+  statements: MonthlyStatement[];
+  state: CreditState;
+  history: CreditMonthResult[];
+}
+
+const STATEMENT_NOTES = [
+  "A quiet month.",
+  "Your car needed repairs.",
+  "A friend's wedding is coming up.",
+  "Your hours were cut this month.",
+  "You received a small bonus."
+];
+
+function generateStatements(seed: number, months: number): MonthlyStatement[] {
+  const random = seededRandom(seed);
+  return Array.from({ length: months }, () => {
+    const noteIndex = randomInt(random, 0, STATEMENT_NOTES.length - 1);
+    const purchases = randomInt(random, 3, 9) * 50 + (noteIndex === 1 || noteIndex === 2 ? 400 : 0);
+    const cashAvailable = randomInt(random, 6, 14) * 50 + (noteIndex === 4 ? 300 : noteIndex === 3 ? -200 : 0);
+    return { purchases, cashAvailable: Math.max(100, cashAvailable), note: STATEMENT_NOTES[noteIndex] };
+  });
+}
+
+// Starts with one card opened two years earlier and a clean payment record
+export function newCreditSimulation(seed = randomSeed(), months = SIMULATION_MONTHS): CreditSimulation {
+  return {
+    seed,
+    statements: generateStatements(seed, months),
+    state: {
+      month: 0,
+      accounts: [{ type: "card", openedMonth: -24, limit: 2000, isClosed: false }],
+      balance: 0,
+      onTimePayments: 24,
+      latePayments: 0,
+      inquiryMonths: []
+    },
+    history: []
+  };
+}
+
+export function isFinished(simulation: CreditSimulation) {
+  return simulation.history.length >= simulation.statements.length;
+}
+
+export function currentStatement(simulation: CreditSimulation): MonthlyStatement | null {
+  return isFinished(simulation) ? null : simulation.statements[simulation.history.length];
+}
+
+const openAccounts = (state: CreditState) => state.accounts.filter(account => !account.isClosed);
+
+export function creditLimit(state: CreditState) {
+  return openAccounts(state)
+    .filter(account => account.type === "card")
+    .reduce((sum, account) => sum + account.limit, 0);
+}
+
+export function utilization(state: CreditState) {
+  const limit = creditLimit(state);
+  return limit === 0 ? 1 : state.balance / limit;
+}
+
+export function minimumPayment(balance: number) {
+  return Math.min(balance, Math.max(MINIMUM_PAYMENT_FLOOR, Math.ceil(balance * MINIMUM_PAYMENT_PERCENT)));
+}
+
+// Each factor is rated from 0 to 1
+function factorRatings(state: CreditState): Record<CreditFactor, number> {
+  const totalPayments = state.onTimePayments + state.latePayments;
+  const used = utilization(state);
+  const open = openAccounts(state);
+  const averageAge =
+    open.length === 0 ? 0 : open.reduce((sum, account) => sum + state.month - account.openedMonth, 0) / open.length;
+  const recentInquiries = state.inquiryMonths.filter(month => state.month - month < INQUIRY_WINDOW_MONTHS).length;
+  const recentAccounts = state.accounts.filter(account => state.month - account.openedMonth < NEW_ACCOUNT_WINDOW_MONTHS).length;
+
+  return {
+    // A single late payment should hurt far more than its share of the record
+    payments: totalPayments === 0 ? 0.8 : Math.pow(state.onTimePayments / totalPayments, 4),
+    utilization: used <= 0.1 ? 1 : used <= 0.3 ? 0.9 : used <= 0.5 ? 0.65 : used <= 0.75 ? 0.4 : 0.15,
+    history: Math.min(1, averageAge / MATURE_HISTORY_MONTHS),
+    newCredit: Math.max(0, 1 - 0.15 * recentInquiries - 0.1 * recentAccounts),
+    mix: new Set(open.map(account => account.type)).size > 1 ? 1 : 0.6
+  };
+}
+
+function factorPoints(state: CreditState): Record<CreditFactor, number> {
+  const ratings = factorRatings(state);
+  const range = MAX_CREDIT_SCORE - MIN_CREDIT_SCORE;
+  return Object.fromEntries(
+    (Object.keys(CREDIT_FACTORS) as CreditFactor[]).map(factor => [factor, ratings[factor] * CREDIT_FACTORS[factor].weight * range])
+  ) as Record<CreditFactor, number>;
+}
+
+export function creditScore(state: CreditState) {
+  const points = factorPoints(state);
+  return Math.round(MIN_CREDIT_SCORE + Object.values(points).reduce((sum, value) => sum + value, 0));
+}
+
+function explain(factor: CreditFactor, points: number, after: CreditState): string {
+  const rose = points > 0;
+  switch (factor) {
+    case "payments":
+      return rose
+        ? "Another on-time payment strengthens your record."
+        : "A missed payment is the most damaging event on a credit report and stays there for years.";
+    case "utilization":
+      return `You are using ${Math.round(utilization(after) * 100)}% of your available credit. ` +
+        (rose ? "Lower utilization signals you are not stretched." : "Keeping it under 30% protects your score.");
+    case "history":
+      return rose
+        ? "Your accounts are a month older, which lengthens your history."
+        : "A new or closed account lowered the average age of your accounts.";
+    case "newCredit":
+      return rose
+        ? "Older inquiries and accounts are weighing on your score less."
+        : "Applying for credit triggers a hard inquiry, and new accounts look risky for a while.";
+    case "mix":
+      return rose
+        ? "Having both revolving and installment credit shows you can handle different kinds of debt."
+        : "You now have only one kind of credit.";
+  }
+}
+
+function applyMonth(state: CreditState, statement: MonthlyStatement, payment: PaymentChoice, action: CreditAction) {
+  const month = state.month + 1;
+  let accounts = state.accounts;
+  const inquiryMonths = [...state.inquiryMonths];
+
+  if (action === "openCard" || action === "takeLoan") {
+    inquiryMonths.push(month);
+    accounts = [
+      ...accounts,
+      action === "openCard"
+        ? { type: "card", openedMonth: month, limit: NEW_CARD_LIMIT, isClosed: false }
+        : { type: "loan", openedMonth: month, limit: 0, isClosed: false }
+    ];
+  } else if (action === "closeOldest") {
+    const oldest = accounts.findIndex(account => account.type === "card" && !account.isClosed);
+    accounts = accounts.map((account, i) => (i === oldest ? { ...account, isClosed: true } : account));
+  }
+
+  const due = state.balance + statement.purchases;
+  const paid =
+    payment === "skip" ? 0 : Math.min(payment === "minimum" ? minimumPayment(due) : due, statement.cashAvailable);
+  const isOnTime = paid >= minimumPayment(due);
+  const carried = due - paid;
+  const balance = carried === 0 ? 0 : Math.round(carried * (1 + MONTHLY_INTEREST) + (isOnTime ? 0 : LATE_FEE));
+
+  return {
+    paid,
+    state: {
+      month,
+      accounts,
+      balance,
+      onTimePayments: state.onTimePayments + (isOnTime ? 1 : 0),
+      latePayments: state.latePayments + (isOnTime ? 0 : 1),
+      inquiryMonths
+    }
+  };
+}
+
+export function canAfford(simulation: CreditSimulation, payment: PaymentChoice) {
+  const statement = currentStatement(simulation);
+  if (!statement || payment === "skip") return true;
+  return statement.cashAvailable >= minimumPayment(simulation.state.balance + statement.purchases);
+}
+
+export function playMonth(simulation: CreditSimulation, payment: PaymentChoice, action: CreditAction): CreditSimulation {
+  const statement = currentStatement(simulation);
+  if (!statement) throw new Error("Simulation is finished");
+  if (action === "closeOldest" && !openAccounts(simulation.state).some(account => account.type === "card")) {
+    throw new Error("You have no open card to close");
+  }
+
+  const before = simulation.state;
+  const { paid, state: after } = applyMonth(before, statement, payment, action);
+  const pointsBefore = factorPoints(before);
+  const pointsAfter = factorPoints(after);
+  const changes = (Object.keys(CREDIT_FACTORS) as CreditFactor[])
+    .map(factor => ({ factor, points: Math.round(pointsAfter[factor] - pointsBefore[factor]) }))
+    .filter(change => change.points !== 0)
+    .sort((a, b) => Math.abs(b.points) - Math.abs(a.points))
+    .map(change => ({ ...change, explanation: explain(change.factor, change.points, after) }));
+
+  return {
+    ...simulation,
+    state: after,
+    history: [
+      ...simulation.history,
+      { payment, action, paid, scoreBefore: creditScore(before), scoreAfter: creditScore(after), changes }
+    ]
+  };
+}
@@ -0,0 +1,66 @@
+// encryptedStorage.ts
+import { ethers } from "ethers";
+
+// Practice data that never goes on-chain is still private, so it is stored AES-GCM encrypted under a
+// key derived from the player's signature of a fixed message. Wallets sign deterministically, so the
+// same account unlocks the same data in a later session without the key ever being stored.
+const UNLOCK_MESSAGE = "FinLitFHEGame: unlock my private practice data on this device.\n\nThis signature costs no gas.";
+
+interface EncryptedRecord {
+  iv: string;
+  data: string;
+}
+
+// One derived key per account for the session, so players sign once
+const keys = new Map<string, CryptoKey>();
+
+const storageKey = (account: string, name: string) => `finlit_${name}_${account.toLowerCase()}`;
+
+async function getKey(signer: ethers.Signer): Promise<CryptoKey> {
+  const account = (await signer.getAddress()).toLowerCase();
+  const cached = keys.get(account);
+  if (cached) return cached;
+
+  const signature = await signer.signMessage(UNLOCK_MESSAGE);
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new Uint8Array(ethers.getBytes(ethers.sha256(signature))),
+    "AES-GCM",
+    false,
+    ["encrypt", "decrypt"]
+  );
+  keys.set(account, key);
+  return key;
+}
+
+export async function saveEncrypted(signer: ethers.Signer, name: string, value: unknown) {
+  const key = await getKey(signer);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+  const record: EncryptedRecord = { iv: ethers.encodeBase64(iv), data: ethers.encodeBase64(new Uint8Array(data)) };
+  localStorage.setItem(storageKey(await signer.getAddress(), name), JSON.stringify(record));
+}
+
+// Returns null when nothing is stored or the data cannot be decrypted with this account's key
+export async function loadEncrypted<T>(signer: ethers.Signer, name: string): Promise<T | null> {
+  const raw = localStorage.getItem(storageKey(await signer.getAddress(), name));
+  if (!raw) return null;
+
+  const key = await getKey(signer);
+  try {
+    const record: EncryptedRecord = JSON.parse(raw);
+    const data = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: new Uint8Array(ethers.decodeBase64(record.iv)) },
+      key,
+      new Uint8Array(ethers.decodeBase64(record.data))
+    );
+    return JSON.parse(new TextDecoder().decode(data)) as T;
+  } catch (e) {
+    console.error(`Error loading encrypted ${name}:`, e);
+    return null;
+  }
+}
+
+export async function removeEncrypted(signer: ethers.Signer, name: string) {
+  localStorage.removeItem(storageKey(await signer.getAddress(), name));
+}
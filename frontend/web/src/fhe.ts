@@ -0,0 +1,114 @@
+// fhe.ts
+import { ethers } from "ethers";
+import { initSDK, createInstance, SepoliaConfig, FhevmInstance } from "@zama-fhe/relayer-sdk/web";
+
+const MAX_UINT32 = 2 ** 32 - 1;
+const DECRYPT_PERMIT_DAYS = 1;
+
+export interface EncryptedInputs {
+  handles: string[];
+  inputProof: string;
+}
+
+interface DecryptPermit {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+}
+
+let instancePromise: Promise<FhevmInstance> | null = null;
+
+// One signed keypair per user and contract for the session, so players sign once
+const decryptPermits = new Map<string, DecryptPermit>();
+
+export async function getFheInstance(): Promise<FhevmInstance> {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  if (!instancePromise) {
+    instancePromise = (async () => {
+      await initSDK();
+      return createInstance({ ...SepoliaConfig, network: (window as any).ethereum });
+    })();
+    // Allow a later call to retry after a failed relayer/WASM initialisation
+    instancePromise.catch(() => {
+      instancePromise = null;
+    });
+  }
+  return instancePromise;
+}
+
+// Encrypts values as euint32 inputs bound to `contractAddress` and `userAddress`,
+// returning one handle per value plus the shared input proof.
+export async function encryptUint32s(
+  contractAddress: string,
+  userAddress: string,
+  values: number[]
+): Promise<EncryptedInputs> {
+  for (const value of values) {
+    if (!Number.isInteger(value) || value < 0 || value > MAX_UINT32) {
+      throw new Error(`Value ${value} does not fit in euint32`);
+    }
+  }
+
+  const instance = await getFheInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  values.forEach(value => input.add32(value));
+
+  const { handles, inputProof } = await input.encrypt();
+  return {
+    handles: handles.map(handle => ethers.hexlify(handle)),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+const getDecryptPermit = async (instance: FhevmInstance, contractAddress: string, signer: ethers.Signer) => {
+  const userAddress = await signer.getAddress();
+  const key = `${userAddress.toLowerCase()}:${contractAddress.toLowerCase()}`;
+  const cached = decryptPermits.get(key);
+  const now = Math.floor(Date.now() / 1000);
+  if (cached && cached.startTimestamp + DECRYPT_PERMIT_DAYS * 86400 > now + 60) {
+    return cached;
+  }
+
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const eip712 = instance.createEIP712(publicKey, [contractAddress], now, DECRYPT_PERMIT_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const permit = { publicKey, privateKey, signature, startTimestamp: now };
+  decryptPermits.set(key, permit);
+  return permit;
+};
+
+// Re-encrypts `handles` under a throwaway keypair signed by the user and decrypts them
+// locally. Cleartexts never leave the browser. Unset handles decrypt to 0.
+export async function userDecryptUint32s(
+  contractAddress: string,
+  signer: ethers.Signer,
+  handles: string[]
+): Promise<bigint[]> {
+  const pending = handles.filter(handle => handle !== ethers.ZeroHash);
+  if (pending.length === 0) {
+    return handles.map(() => 0n);
+  }
+
+  const instance = await getFheInstance();
+  const permit = await getDecryptPermit(instance, contractAddress, signer);
+  const results = await instance.userDecrypt(
+    pending.map(handle => ({ handle, contractAddress })),
+    permit.privateKey,
+    permit.publicKey,
+    permit.signature.replace("0x", ""),
+    [contractAddress],
+    await signer.getAddress(),
+    permit.startTimestamp,
+    DECRYPT_PERMIT_DAYS
+  );
+
+  return handles.map(handle => (handle === ethers.ZeroHash ? 0n : BigInt(results[handle])));
+}
@@ -0,0 +1,663 @@
+// gameClient.ts
+import { ethers } from "ethers";
+import {
+  DECRYPTION_TIMEOUT_MS,
+  EVENT_POLL_MS,
+  config,
+  getGameContractReadOnly,
+  getGameContractWithSigner,
+  pollEventLog,
+  queryEventLogs,
+  waitForReceipt
+} from "./contract";
+import { encryptUint32s, userDecryptUint32s } from "./fhe";
+import type { FinancialLiteracyGame } from "../../../types";
+import type { TypedContractEvent, TypedDeferredTopicFilter, TypedEventLog } from "../../../types/common";
+import type * as GameEvents from "../../../types/contracts/FinancialLiteracyGame";
+import { LeaderboardView, RevealedRank, buildLeaderboard } from "./leaderboard";
+
+export interface PlayerState {
+  encryptedScore: string;
+  encryptedProgress: string;
+  lastChallengeCompleted: number;
+}
+
+export interface OnChainChallenge {
+  id: number;
+  difficultyHandle: string;
+  rewardHandle: string;
+  challengeType: string;
+  // Multiple-choice challenges are checked against an on-chain answer key; others by the oracle
+  hasAnswerKey: boolean;
+  isActive: boolean;
+  isRetired: boolean;
+}
+
+export interface GameEvent {
+  player: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface ChallengeEvent extends GameEvent {
+  challengeId: bigint;
+}
+
+export interface ChallengeFulfilledEvent extends ChallengeEvent {
+  requestId: bigint;
+}
+
+export interface RequestRejectedEvent extends GameEvent {
+  requestId: bigint;
+  reason: string;
+}
+
+export interface RankRevealedEvent extends GameEvent {
+  rank: number;
+}
+
+export interface CategoryCohort {
+  category: number;
+  cohortSize: number;
+}
+
+export interface CategoryAggregate extends CategoryCohort {
+  attempts: number;
+  correctAnswers: number;
+  averageDifficulty: number;
+}
+
+export interface DecryptedProgress {
+  score: number;
+  progress: number;
+  knowledgeLevel: number;
+}
+
+export type SolutionResult = "correct" | "incorrect" | "rejected" | "timeout";
+
+// Streak and quest state as stored on-chain; days and weeks are indexes as computed in quests.ts
+export interface Engagement {
+  streak: number;
+  lastDay: number;
+  lastWeek: number;
+  dailyCorrectHandle: string;
+  weeklyCorrectHandle: string;
+  lastPlayed: number;
+}
+
+// Correct answers in the day and week the counters were last updated in
+export interface QuestCounts {
+  dailyCorrect: number;
+  weeklyCorrect: number;
+}
+
+// Mirrors the contract's PracticeMode enum
+export const PRACTICE_MODES = ["Investing", "Budgeting", "Credit", "Taxes", "Savings"] as const;
+export type PracticeMode = (typeof PRACTICE_MODES)[number];
+
+// Whole currency units
+export interface SavingsGoal {
+  targetAmount: number;
+  horizonMonths: number;
+  monthlyContribution: number;
+}
+
+export interface PlayerProfileInput {
+  knowledgeLevel: number;
+  riskTolerance: number;
+  // Focus area, as a question bank category index
+  financialGoals: number;
+  savingsGoal: SavingsGoal;
+}
+
+export interface GameClient {
+  address: string;
+  contract: ethers.Contract;
+  isRegistered(player: string): Promise<boolean>;
+  getPlayerState(player: string): Promise<PlayerState>;
+  getEncryptedScore(player: string): Promise<string>;
+  getChallengeCount(): Promise<number>;
+  getChallenge(id: number): Promise<OnChainChallenge>;
+  getChallenges(): Promise<OnChainChallenge[]>;
+  getOwner(): Promise<string>;
+  isCatalogueManager(account: string): Promise<boolean>;
+  isEducator(account: string): Promise<boolean>;
+  getMinCohortSize(): Promise<number>;
+  getCategoryCohorts(categories: number[]): Promise<CategoryCohort[]>;
+  decryptCategoryStats(categories: number[]): Promise<CategoryAggregate[]>;
+  registerPlayer(profile: PlayerProfileInput): Promise<ethers.ContractTransactionReceipt>;
+  requestPersonalizedChallenge(): Promise<{ requestId: bigint; receipt: ethers.ContractTransactionReceipt }>;
+  // requestId is null when the challenge has an answer key and was evaluated on-chain. A non-zero
+  // stake is escrowed by the staking contract, which publishes the verdict to settle it.
+  submitChallengeSolution(
+    challengeId: number,
+    solution: number,
+    stakeWei?: bigint
+  ): Promise<{ requestId: bigint | null; receipt: ethers.ContractTransactionReceipt }>;
+  decryptSolutionResult(previousProgressHandle: string): Promise<SolutionResult>;
+  decryptMyProgress(): Promise<DecryptedProgress>;
+  decryptScoreGain(previousScoreHandle: string): Promise<number>;
+  getNextPracticeAt(player: string, mode: PracticeMode): Promise<number>;
+  submitInvestingSimulation(portfolioRisk: number, growthPercent: number): Promise<ethers.ContractTransactionReceipt>;
+  submitBudgetSummary(monthsOnTarget: number, categorizationAccuracy: number): Promise<ethers.ContractTransactionReceipt>;
+  submitCreditSimulation(creditScore: number): Promise<ethers.ContractTransactionReceipt>;
+  submitTaxPractice(correctAnswers: number): Promise<ethers.ContractTransactionReceipt>;
+  decryptMySavingsGoal(): Promise<SavingsGoal>;
+  getEngagement(player: string): Promise<Engagement>;
+  decryptMyQuestCounts(): Promise<QuestCounts>;
+  updateSavingsGoal(goal: SavingsGoal): Promise<ethers.ContractTransactionReceipt>;
+  submitSavingsPlan(projectedAmount: number, planContribution: number): Promise<ethers.ContractTransactionReceipt>;
+  addPredefinedChallenge(
+    difficulty: number,
+    reward: number,
+    answerKey: number,
+    challengeType: string,
+    category: number
+  ): Promise<ethers.ContractTransactionReceipt>;
+  deactivateChallenge(challengeId: number): Promise<ethers.ContractTransactionReceipt>;
+  reactivateChallenge(challengeId: number): Promise<ethers.ContractTransactionReceipt>;
+  retireChallenge(challengeId: number): Promise<ethers.ContractTransactionReceipt>;
+  setEducatorRole(account: string, granted: boolean): Promise<ethers.ContractTransactionReceipt>;
+  getLeaderboard(): Promise<LeaderboardView>;
+  getRankReveal(player: string): Promise<RevealedRank | null>;
+  getPseudonym(player: string): Promise<string>;
+  requestRankReveal(): Promise<ethers.ContractTransactionReceipt>;
+  hideRank(): Promise<ethers.ContractTransactionReceipt>;
+  setPseudonym(pseudonym: string): Promise<ethers.ContractTransactionReceipt>;
+  waitForRankReveal(player: string, fromBlock: number, timeoutMs?: number): Promise<RankRevealedEvent | null>;
+  getPlayerRegisteredEvents(player?: string, fromBlock?: number): Promise<GameEvent[]>;
+  getSolutionEvaluatedEvents(player?: string, fromBlock?: number): Promise<ChallengeEvent[]>;
+  getPersonalizedChallengeEvents(player?: string, fromBlock?: number): Promise<ChallengeEvent[]>;
+  getScoreUpdatedEvents(player?: string, fromBlock?: number): Promise<GameEvent[]>;
+  getChallengeFulfilledEvents(player?: string, fromBlock?: number): Promise<ChallengeFulfilledEvent[]>;
+  getRequestRejectedEvents(player?: string, fromBlock?: number): Promise<RequestRejectedEvent[]>;
+  getRankRevealedEvents(player?: string, fromBlock?: number): Promise<RankRevealedEvent[]>;
+  waitForSolutionResult(
+    player: string,
+    challengeId: number,
+    requestId: bigint,
+    previousProgressHandle: string,
+    fromBlock: number,
+    timeoutMs?: number
+  ): Promise<SolutionResult>;
+  onSolutionEvaluated(player: string, handler: (event: ChallengeEvent) => void): () => void;
+  onPersonalizedChallengeGenerated(player: string, handler: (event: ChallengeEvent) => void): () => void;
+  onScoreUpdated(player: string, handler: (event: GameEvent) => void): () => void;
+  onChallengeFulfilled(player: string, handler: (event: ChallengeFulfilledEvent) => void): () => void;
+  onRequestRejected(player: string, handler: (event: RequestRejectedEvent) => void): () => void;
+}
+
+type ChallengeEventLog =
+  | GameEvents.SolutionEvaluatedEvent.Log
+  | GameEvents.PersonalizedChallengeGeneratedEvent.Log
+  | GameEvents.PersonalizedChallengeFulfilledEvent.Log;
+
+type PlayerEventLog =
+  | ChallengeEventLog
+  | GameEvents.PlayerRegisteredEvent.Log
+  | GameEvents.ScoreUpdatedEvent.Log
+  | GameEvents.RequestRejectedEvent.Log
+  | GameEvents.RankRevealedEvent.Log;
+
+const toGameEvent = (log: PlayerEventLog): GameEvent => ({
+  player: log.args.player,
+  blockNumber: log.blockNumber,
+  transactionHash: log.transactionHash
+});
+
+const toChallengeEvent = (log: ChallengeEventLog): ChallengeEvent => ({
+  ...toGameEvent(log),
+  challengeId: log.args.challengeId
+});
+
+const toFulfilledEvent = (log: GameEvents.PersonalizedChallengeFulfilledEvent.Log): ChallengeFulfilledEvent => ({
+  ...toChallengeEvent(log),
+  requestId: log.args.requestId
+});
+
+const toRejectedEvent = (log: GameEvents.RequestRejectedEvent.Log): RequestRejectedEvent => ({
+  ...toGameEvent(log),
+  requestId: log.args.requestId,
+  reason: log.args.reason
+});
+
+const toRankRevealedEvent = (log: GameEvents.RankRevealedEvent.Log): RankRevealedEvent => ({
+  ...toGameEvent(log),
+  rank: Number(log.args.rank)
+});
+
+// Verification needs an oracle computation round-trip, so allow several minutes
+const SOLUTION_RESULT_TIMEOUT_MS = 5 * 60 * 1000;
+
+const CATALOGUE_PAGE_SIZE = 50;
+
+export function createGameClient(contract: ethers.Contract): GameClient {
+  const address = config.gameContractAddress;
+  // The Typechain view of the same contract, for its filters and struct outputs
+  const game = contract as unknown as FinancialLiteracyGame;
+
+  const getSigner = () => {
+    const runner = contract.runner as ethers.Signer | null;
+    if (!runner || typeof runner.getAddress !== "function") {
+      throw new Error("Game client is read-only");
+    }
+    return runner;
+  };
+
+  const signerAddress = async () => getSigner().getAddress();
+
+  // The logs are decoded with the game's ABI, so their arguments are those of the filter's event
+  const queryEvents = async <TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlock?: number
+  ) => (await queryEventLogs(contract, filter, fromBlock)) as unknown as TypedEventLog<TCEvent>[];
+
+  const pollEvent = async <TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlock: number,
+    timeoutMs: number
+  ) => (await pollEventLog(contract, filter, fromBlock, timeoutMs)) as unknown as TypedEventLog<TCEvent> | null;
+
+  const subscribe = <TCEvent extends TypedContractEvent, T>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    toEvent: (log: TypedEventLog<TCEvent>) => T,
+    handler: (event: T) => void
+  ) => {
+    // ethers passes the decoded arguments first and the event payload last
+    const listener = (...args: [...unknown[], ethers.ContractEventPayload]) => {
+      const payload = args[args.length - 1] as ethers.ContractEventPayload;
+      handler(toEvent(payload.log as unknown as TypedEventLog<TCEvent>));
+    };
+    contract.on(filter, listener);
+    return () => {
+      contract.off(filter, listener);
+    };
+  };
+
+  const getPlayerState = async (player: string): Promise<PlayerState> => {
+    const state = await contract.playerStates(player);
+    return {
+      encryptedScore: state.encryptedScore,
+      encryptedProgress: state.encryptedProgress,
+      lastChallengeCompleted: Number(state.lastChallengeCompleted)
+    };
+  };
+
+  // Correctness is never revealed publicly; only the player can tell by decrypting their progress
+  const decryptSolutionResult = async (previousProgressHandle: string): Promise<SolutionResult> => {
+    const signer = getSigner();
+    const state = await getPlayerState(await signer.getAddress());
+    const [before, after] = await userDecryptUint32s(address, signer, [
+      previousProgressHandle,
+      state.encryptedProgress
+    ]);
+    return after > before ? "correct" : "incorrect";
+  };
+
+  const toChallenge = (id: number, challenge: FinancialLiteracyGame.GameChallengeStructOutput): OnChainChallenge => ({
+    id,
+    difficultyHandle: challenge.difficultyLevel,
+    rewardHandle: challenge.rewardAmount,
+    challengeType: challenge.challengeType,
+    hasAnswerKey: challenge.answerKey !== ethers.ZeroHash,
+    isActive: challenge.isActive,
+    isRetired: challenge.isRetired
+  });
+
+  const getChallenge = async (id: number): Promise<OnChainChallenge> => toChallenge(id, await game.challenges(id));
+
+  const getChallengeCount = async () => Number(await contract.getChallengeCount());
+
+  const getRankReveal = async (player: string): Promise<RevealedRank | null> => {
+    const [reveal, pseudonym] = await Promise.all([contract.rankReveals(player), contract.pseudonyms(player)]);
+    if (!reveal.isRevealed) return null;
+    return { player, rank: Number(reveal.rank), pseudonym, revealedAt: Number(reveal.revealedAt) };
+  };
+
+  return {
+    address,
+    contract,
+
+    // Registration initialises the encrypted score, so an unset handle means "not registered"
+    isRegistered: async player => (await getPlayerState(player)).encryptedScore !== ethers.ZeroHash,
+    getPlayerState,
+    getEncryptedScore: player => contract.getEncryptedScore(player),
+    getChallengeCount,
+    getChallenge,
+    getChallenges: async () => {
+      const count = await getChallengeCount();
+      const list: OnChainChallenge[] = [];
+      for (let offset = 0; offset < count; offset += CATALOGUE_PAGE_SIZE) {
+        const page = await game.getChallengePage(offset, CATALOGUE_PAGE_SIZE);
+        page.forEach((challenge, index) => list.push(toChallenge(offset + index, challenge)));
+      }
+      return list;
+    },
+    getOwner: () => contract.owner(),
+    isCatalogueManager: async account => {
+      const [owner, isEducator] = await Promise.all([contract.owner(), contract.educators(account)]);
+      return owner.toLowerCase() === account.toLowerCase() || isEducator;
+    },
+    isEducator: account => contract.educators(account),
+    getMinCohortSize: async () => Number(await contract.minCohortSize()),
+    getCategoryCohorts: async categories =>
+      Promise.all(
+        categories.map(async category => ({
+          category,
+          cohortSize: Number((await contract.getCategoryStats(category)).cohortSize)
+        }))
+      ),
+
+    // Grants the educator access to the current aggregates, then decrypts them locally
+    decryptCategoryStats: async categories => {
+      if (categories.length === 0) return [];
+      await waitForReceipt(await contract.shareCategoryStats(categories));
+
+      const stats = await Promise.all(categories.map(category => contract.getCategoryStats(category)));
+      const cleartexts = await userDecryptUint32s(
+        address,
+        getSigner(),
+        stats.flatMap(s => [s.attempts, s.correctAnswers, s.difficultyTotal])
+      );
+      return categories.map((category, i) => {
+        const [attempts, correctAnswers, difficultyTotal] = cleartexts.slice(i * 3, i * 3 + 3).map(Number);
+        return {
+          category,
+          cohortSize: Number(stats[i].cohortSize),
+          attempts,
+          correctAnswers,
+          averageDifficulty: attempts > 0 ? difficultyTotal / attempts : 0
+        };
+      });
+    },
+
+    registerPlayer: async profile => {
+      const player = await signerAddress();
+      const encrypted = await encryptUint32s(address, player, [
+        profile.knowledgeLevel,
+        profile.riskTolerance,
+        profile.financialGoals,
+        profile.savingsGoal.targetAmount,
+        profile.savingsGoal.horizonMonths,
+        profile.savingsGoal.monthlyContribution
+      ]);
+      return waitForReceipt(
+        await contract.registerPlayer(
+          encrypted.handles[0],
+          encrypted.handles[1],
+          encrypted.handles[2],
+          encrypted.handles[3],
+          encrypted.handles[4],
+          encrypted.handles[5],
+          encrypted.inputProof
+        )
+      );
+    },
+
+    requestPersonalizedChallenge: async () => {
+      const receipt = await waitForReceipt(await contract.requestPersonalizedChallenge());
+      for (const log of receipt.logs) {
+        const parsed = contract.interface.parseLog(log);
+        if (parsed?.name === "PersonalizedChallengeGenerated") {
+          return { requestId: parsed.args.challengeId as bigint, receipt };
+        }
+      }
+      throw new Error("Challenge request was not acknowledged");
+    },
+
+    submitChallengeSolution: async (challengeId, solution, stakeWei = 0n) => {
+      const player = await signerAddress();
+      const encrypted = await encryptUint32s(address, player, [solution]);
+      const receipt = await waitForReceipt(
+        await contract.submitChallengeSolution(challengeId, encrypted.handles[0], encrypted.inputProof, {
+          value: stakeWei
+        })
+      );
+      for (const log of receipt.logs) {
+        const parsed = contract.interface.parseLog(log);
+        if (parsed?.name === "ComputationRequested") {
+          return { requestId: parsed.args.requestId as bigint, receipt };
+        }
+        if (parsed?.name === "SolutionEvaluated") {
+          return { requestId: null, receipt };
+        }
+      }
+      throw new Error("Solution was not accepted");
+    },
+
+    decryptSolutionResult,
+
+
+    decryptMyProgress: async () => {
+      const signer = getSigner();
+      const player = await signer.getAddress();
+      const [state, [knowledgeLevelHandle]] = await Promise.all([
+        getPlayerState(player),
+        contract.getEncryptedProfile(player)
+      ]);
+      const [score, progress, knowledgeLevel] = await userDecryptUint32s(address, signer, [
+        state.encryptedScore,
+        state.encryptedProgress,
+        knowledgeLevelHandle
+      ]);
+      return { score: Number(score), progress: Number(progress), knowledgeLevel: Number(knowledgeLevel) };
+    },
+
+    decryptScoreGain: async previousScoreHandle => {
+      const signer = getSigner();
+      const state = await getPlayerState(await signer.getAddress());
+      const [before, after] = await userDecryptUint32s(address, signer, [previousScoreHandle, state.encryptedScore]);
+      return Number(after - before);
+    },
+
+    // Unix time in seconds from which the mode can be scored again; 0 if it was never played
+    getNextPracticeAt: async (player, mode) => {
+      const [last, cooldown] = await Promise.all([
+        contract.lastPracticeAt(player, PRACTICE_MODES.indexOf(mode)),
+        contract.PRACTICE_COOLDOWN()
+      ]);
+      return last === 0n ? 0 : Number(last + cooldown);
+    },
+
+    submitInvestingSimulation: async (portfolioRisk, growthPercent) => {
+      const player = await signerAddress();
+      const encrypted = await encryptUint32s(address, player, [portfolioRisk, growthPercent]);
+      return waitForReceipt(
+        await contract.submitInvestingSimulation(encrypted.handles[0], encrypted.handles[1], encrypted.inputProof)
+      );
+    },
+
+    submitBudgetSummary: async (monthsOnTarget, categorizationAccuracy) => {
+      const player = await signerAddress();
+      const encrypted = await encryptUint32s(address, player, [monthsOnTarget, categorizationAccuracy]);
+      return waitForReceipt(
+        await contract.submitBudgetSummary(encrypted.handles[0], encrypted.handles[1], encrypted.inputProof)
+      );
+    },
+
+    submitCreditSimulation: async creditScore => {
+      const player = await signerAddress();
+      const encrypted = await encryptUint32s(address, player, [creditScore]);
+      return waitForReceipt(await contract.submitCreditSimulation(encrypted.handles[0], encrypted.inputProof));
+    },
+
+    submitTaxPractice: async correctAnswers => {
+      const player = await signerAddress();
+      const encrypted = await encryptUint32s(address, player, [correctAnswers]);
+      return waitForReceipt(await contract.submitTaxPractice(encrypted.handles[0], encrypted.inputProof));
+    },
+
+    getEngagement: async player => {
+      const [engagement, lastPlayed] = await Promise.all([
+        contract.getEngagement(player),
+        contract.getLastPlayed(player)
+      ]);
+      return {
+        streak: Number(engagement.streak),
+        lastDay: Number(engagement.lastDay),
+        lastWeek: Number(engagement.lastWeek),
+        dailyCorrectHandle: engagement.dailyCorrect,
+        weeklyCorrectHandle: engagement.weeklyCorrect,
+        lastPlayed: Number(lastPlayed)
+      };
+    },
+
+    decryptMyQuestCounts: async () => {
+      const signer = getSigner();
+      const engagement = await contract.getEngagement(await signer.getAddress());
+      const [dailyCorrect, weeklyCorrect] = await userDecryptUint32s(address, signer, [
+        engagement.dailyCorrect,
+        engagement.weeklyCorrect
+      ]);
+      return { dailyCorrect: Number(dailyCorrect), weeklyCorrect: Number(weeklyCorrect) };
+    },
+
+    decryptMySavingsGoal: async () => {
+      const signer = getSigner();
+      const [targetHandle, horizonHandle, contributionHandle] = await contract.getEncryptedSavingsGoal(
+        await signer.getAddress()
+      );
+      const [targetAmount, horizonMonths, monthlyContribution] = await userDecryptUint32s(address, signer, [
+        targetHandle,
+        horizonHandle,
+        contributionHandle
+      ]);
+      return {
+        targetAmount: Number(targetAmount),
+        horizonMonths: Number(horizonMonths),
+        monthlyContribution: Number(monthlyContribution)
+      };
+    },
+
+    updateSavingsGoal: async goal => {
+      const player = await signerAddress();
+      const encrypted = await encryptUint32s(address, player, [
+        goal.targetAmount,
+        goal.horizonMonths,
+        goal.monthlyContribution
+      ]);
+      return waitForReceipt(
+        await contract.updateSavingsGoal(
+          encrypted.handles[0],
+          encrypted.handles[1],
+          encrypted.handles[2],
+          encrypted.inputProof
+        )
+      );
+    },
+
+    submitSavingsPlan: async (projectedAmount, planContribution) => {
+      const player = await signerAddress();
+      const encrypted = await encryptUint32s(address, player, [projectedAmount, planContribution]);
+      return waitForReceipt(
+        await contract.submitSavingsPlan(encrypted.handles[0], encrypted.handles[1], encrypted.inputProof)
+      );
+    },
+
+    addPredefinedChallenge: async (difficulty, reward, answerKey, challengeType, category) => {
+      const player = await signerAddress();
+      const encrypted = await encryptUint32s(address, player, [difficulty, reward, answerKey]);
+      return waitForReceipt(
+        await contract.addPredefinedChallenge(
+          encrypted.handles[0],
+          encrypted.handles[1],
+          encrypted.handles[2],
+          encrypted.inputProof,
+          challengeType,
+          category
+        )
+      );
+    },
+
+    deactivateChallenge: async challengeId => waitForReceipt(await contract.deactivateChallenge(challengeId)),
+    reactivateChallenge: async challengeId => waitForReceipt(await contract.reactivateChallenge(challengeId)),
+    retireChallenge: async challengeId => waitForReceipt(await contract.retireChallenge(challengeId)),
+    setEducatorRole: async (account, granted) => waitForReceipt(await contract.setEducatorRole(account, granted)),
+
+    // Every player who ever revealed is a candidate; their current reveal decides whether they are listed
+    getLeaderboard: async () => {
+      const events = await queryEvents(game.filters.RankRevealed());
+      const players = [...new Set(events.map(event => event.args.player))];
+      const [size, playerCount, reveals] = await Promise.all([
+        contract.LEADERBOARD_SIZE(),
+        contract.playerCount(),
+        Promise.all(players.map(getRankReveal))
+      ]);
+      return buildLeaderboard(
+        Number(size),
+        Number(playerCount),
+        reveals.filter((reveal): reveal is RevealedRank => reveal !== null)
+      );
+    },
+    getRankReveal,
+    getPseudonym: async player => contract.pseudonyms(player),
+    requestRankReveal: async () => waitForReceipt(await contract.requestRankReveal()),
+    hideRank: async () => waitForReceipt(await contract.hideRank()),
+    setPseudonym: async pseudonym => waitForReceipt(await contract.setPseudonym(pseudonym)),
+
+    // The rank arrives in a later decryption oracle callback
+    waitForRankReveal: async (player, fromBlock, timeoutMs = DECRYPTION_TIMEOUT_MS) => {
+      const revealed = await pollEvent(game.filters.RankRevealed(player), fromBlock, timeoutMs);
+      return revealed ? toRankRevealedEvent(revealed) : null;
+    },
+
+    getPlayerRegisteredEvents: async (player, fromBlock) =>
+      (await queryEvents(game.filters.PlayerRegistered(player), fromBlock)).map(toGameEvent),
+    getSolutionEvaluatedEvents: async (player, fromBlock) =>
+      (await queryEvents(game.filters.SolutionEvaluated(player), fromBlock)).map(toChallengeEvent),
+    getPersonalizedChallengeEvents: async (player, fromBlock) =>
+      (await queryEvents(game.filters.PersonalizedChallengeGenerated(player), fromBlock)).map(toChallengeEvent),
+    getScoreUpdatedEvents: async (player, fromBlock) =>
+      (await queryEvents(game.filters.ScoreUpdated(player), fromBlock)).map(toGameEvent),
+    getChallengeFulfilledEvents: async (player, fromBlock) =>
+      (await queryEvents(game.filters.PersonalizedChallengeFulfilled(player), fromBlock)).map(toFulfilledEvent),
+    getRequestRejectedEvents: async (player, fromBlock) =>
+      (await queryEvents(game.filters.RequestRejected(undefined, player), fromBlock)).map(toRejectedEvent),
+    getRankRevealedEvents: async (player, fromBlock) =>
+      (await queryEvents(game.filters.RankRevealed(player), fromBlock)).map(toRankRevealedEvent),
+
+    // Polls for the evaluation instead of subscribing so results mined before the call are not missed.
+    // The event only says the answer was scored; the verdict itself is decrypted from the player's progress.
+    waitForSolutionResult: async (
+      player,
+      challengeId,
+      requestId,
+      previousProgressHandle,
+      fromBlock,
+      timeoutMs = SOLUTION_RESULT_TIMEOUT_MS
+    ) => {
+      const deadline = Date.now() + timeoutMs;
+      const matches = (event: ChallengeEvent) => Number(event.challengeId) === challengeId;
+      while (Date.now() < deadline) {
+        const evaluated = await queryEvents(game.filters.SolutionEvaluated(player), fromBlock);
+        if (evaluated.map(toChallengeEvent).some(matches)) {
+          return decryptSolutionResult(previousProgressHandle);
+        }
+        const rejected = await queryEvents(game.filters.RequestRejected(requestId, player), fromBlock);
+        if (rejected.length > 0) return "rejected";
+        await new Promise(res => setTimeout(res, EVENT_POLL_MS));
+      }
+      return "timeout";
+    },
+
+    onSolutionEvaluated: (player, handler) =>
+      subscribe(game.filters.SolutionEvaluated(player), toChallengeEvent, handler),
+    onPersonalizedChallengeGenerated: (player, handler) =>
+      subscribe(game.filters.PersonalizedChallengeGenerated(player), toChallengeEvent, handler),
+    onScoreUpdated: (player, handler) =>
+      subscribe(game.filters.ScoreUpdated(player), toGameEvent, handler),
+    onChallengeFulfilled: (player, handler) =>
+      subscribe(game.filters.PersonalizedChallengeFulfilled(player), toFulfilledEvent, handler),
+    onRequestRejected: (player, handler) =>
+      subscribe(game.filters.RequestRejected(undefined, player), toRejectedEvent, handler)
+  };
+}
+
+export async function getGameClientReadOnly(): Promise<GameClient | null> {
+  const contract = await getGameContractReadOnly();
+  return contract ? createGameClient(contract) : null;
+}
+
+export async function getGameClientWithSigner(): Promise<GameClient> {
+  return createGameClient(await getGameContractWithSigner());
+}
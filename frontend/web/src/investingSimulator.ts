@@ -0,0 +1,104 @@
+// investingSimulator.ts
+import { randomSeed, seededRandom } from "./random";
+
+// Multi-year portfolio simulation played client-side. Only the scored outcome is encrypted and sent
+// to the contract.
+export const SIMULATION_YEARS = 5;
+export const STARTING_VALUE = 10_000;
+
+export interface AssetClass {
+  id: string;
+  label: string;
+  // Same 1-3 scale as the risk tolerance collected at registration
+  risk: number;
+  meanReturn: number;
+  volatility: number;
+}
+
+export const ASSET_CLASSES: AssetClass[] = [
+  { id: "cash", label: "Cash", risk: 1, meanReturn: 2, volatility: 0.5 },
+  { id: "bonds", label: "Bonds", risk: 2, meanReturn: 4, volatility: 6 },
+  { id: "stocks", label: "Stocks", risk: 3, meanReturn: 8, volatility: 18 }
+];
+
+// Percent of the portfolio per asset class, in ASSET_CLASSES order
+export type Allocation = number[];
+
+export interface SimulatedYear {
+  allocation: Allocation;
+  returns: number[];
+  startValue: number;
+  endValue: number;
+}
+
+export interface InvestingSimulation {
+  seed: number;
+  marketReturns: number[][];
+  history: SimulatedYear[];
+  value: number;
+}
+
+export interface SimulationOutcome {
+  finalValue: number;
+  growthPercent: number;
+  portfolioRisk: number;
+}
+
+// Yearly returns in percent, rounded to one decimal. Summing uniforms approximates a normal distribution.
+export function generateMarketReturns(seed: number, years = SIMULATION_YEARS): number[][] {
+  const random = seededRandom(seed);
+  const normal = () => Array.from({ length: 6 }, random).reduce((sum, value) => sum + value, 0) - 3;
+  return Array.from({ length: years }, () =>
+    ASSET_CLASSES.map(asset => Math.round((asset.meanReturn + normal() * asset.volatility) * 10) / 10)
+  );
+}
+
+export function newSimulation(seed = randomSeed(), years = SIMULATION_YEARS): InvestingSimulation {
+  return { seed, marketReturns: generateMarketReturns(seed, years), history: [], value: STARTING_VALUE };
+}
+
+export function isValidAllocation(allocation: Allocation) {
+  return (
+    allocation.length === ASSET_CLASSES.length &&
+    allocation.every(percent => Number.isInteger(percent) && percent >= 0) &&
+    allocation.reduce((sum, percent) => sum + percent, 0) === 100
+  );
+}
+
+export function isFinished(simulation: InvestingSimulation) {
+  return simulation.history.length >= simulation.marketReturns.length;
+}
+
+export function playYear(simulation: InvestingSimulation, allocation: Allocation): InvestingSimulation {
+  if (isFinished(simulation)) throw new Error("Simulation is finished");
+  if (!isValidAllocation(allocation)) throw new Error("Allocation must be whole percents adding up to 100");
+
+  const returns = simulation.marketReturns[simulation.history.length];
+  const startValue = simulation.value;
+  const endValue = ASSET_CLASSES.reduce(
+    (sum, _, i) => sum + ((startValue * allocation[i]) / 100) * (1 + returns[i] / 100),
+    0
+  );
+  return {
+    ...simulation,
+    history: [...simulation.history, { allocation, returns, startValue, endValue }],
+    value: endValue
+  };
+}
+
+export function allocationRisk(allocation: Allocation) {
+  return ASSET_CLASSES.reduce((sum, asset, i) => sum + (asset.risk * allocation[i]) / 100, 0);
+}
+
+// Growth is floored at zero and risk rounded to a band, the form the contract scores
+export function summarizeSimulation(simulation: InvestingSimulation): SimulationOutcome {
+  if (!isFinished(simulation)) throw new Error("Simulation is not finished");
+
+  const averageRisk =
+    simulation.history.reduce((sum, year) => sum + allocationRisk(year.allocation), 0) / simulation.history.length;
+  return {
+    finalValue: simulation.value,
+    growthPercent: Math.max(0, Math.floor((simulation.value / STARTING_VALUE - 1) * 100)),
+    portfolioRisk: Math.min(3, Math.max(1, Math.round(averageRisk)))
+  };
+}
@@ -0,0 +1,39 @@
+// leaderboard.ts
+
+// The on-chain leaderboard is encrypted; only ranks that players chose to reveal are public
+export interface RevealedRank {
+  player: string;
+  rank: number;
+  pseudonym: string;
+  revealedAt: number;
+}
+
+export interface LeaderboardView {
+  size: number;
+  entries: RevealedRank[];
+  hiddenCount: number;
+}
+
+// Reveals are snapshots, so when two players have claimed the same rank the later reveal wins.
+// Hidden entries are an upper bound: registered players who never scored are not on the board.
+export function buildLeaderboard(size: number, playerCount: number, reveals: RevealedRank[]): LeaderboardView {
+  const byRank = new Map<number, RevealedRank>();
+  for (const reveal of reveals) {
+    if (reveal.rank < 1 || reveal.rank > size) continue;
+    const current = byRank.get(reveal.rank);
+    if (!current || reveal.revealedAt > current.revealedAt) {
+      byRank.set(reveal.rank, reveal);
+    }
+  }
+
+  const entries = [...byRank.values()].sort((a, b) => a.rank - b.rank);
+  return {
+    size,
+    entries,
+    hiddenCount: Math.max(0, Math.min(size, playerCount) - entries.length)
+  };
+}
+
+export function displayName(entry: Pick<RevealedRank, "player" | "pseudonym">) {
+  return entry.pseudonym || `${entry.player.substring(0, 6)}...${entry.player.substring(38)}`;
+}
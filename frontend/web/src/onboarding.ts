@@ -0,0 +1,175 @@
+// onboarding.ts
+import { PlayerProfileInput } from "./gameClient";
+import { CHALLENGE_CATEGORIES } from "./questionBank";
+
+export interface QuizOption {
+  label: string;
+  value: number;
+}
+
+export interface QuizQuestion {
+  id: string;
+  prompt: string;
+  options: QuizOption[];
+}
+
+export interface QuizStep {
+  title: string;
+  description: string;
+  questions: QuizQuestion[];
+}
+
+// Selected option index per question id
+export type QuizAnswers = Record<string, number>;
+
+// Knowledge questions score 1 for the correct option and 0 otherwise
+const KNOWLEDGE_QUESTIONS: QuizQuestion[] = [
+  {
+    id: "interest",
+    prompt: "You have $100 in savings earning 2% a year. After 5 years you will have:",
+    options: [
+      { label: "More than $102", value: 1 },
+      { label: "Exactly $102", value: 0 },
+      { label: "Less than $102", value: 0 }
+    ]
+  },
+  {
+    id: "inflation",
+    prompt: "Your savings earn 1% a year while inflation is 2%. After a year you can buy:",
+    options: [
+      { label: "More than today", value: 0 },
+      { label: "The same as today", value: 0 },
+      { label: "Less than today", value: 1 }
+    ]
+  },
+  {
+    id: "diversification",
+    prompt: "Buying a single company's stock is usually safer than a stock mutual fund.",
+    options: [
+      { label: "True", value: 0 },
+      { label: "False", value: 1 }
+    ]
+  }
+];
+
+// Risk questions score 1 (cautious) to 3 (aggressive)
+const RISK_QUESTIONS: QuizQuestion[] = [
+  {
+    id: "drawdown",
+    prompt: "Your investments drop 20% in a month. You would:",
+    options: [
+      { label: "Sell everything", value: 1 },
+      { label: "Wait it out", value: 2 },
+      { label: "Buy more", value: 3 }
+    ]
+  },
+  {
+    id: "windfall",
+    prompt: "You receive an unexpected $1,000. You would:",
+    options: [
+      { label: "Put it in a savings account", value: 1 },
+      { label: "Split it between savings and investments", value: 2 },
+      { label: "Invest it all for growth", value: 3 }
+    ]
+  }
+];
+
+// Goal options score the index of the matching challenge category
+const GOAL_QUESTIONS: QuizQuestion[] = [
+  {
+    id: "goal",
+    prompt: "What do you most want to get better at?",
+    options: [
+      { label: "Sticking to a budget", value: CHALLENGE_CATEGORIES.indexOf("Budgeting") },
+      { label: "Growing my money", value: CHALLENGE_CATEGORIES.indexOf("Investing") },
+      { label: "Managing debt and credit", value: CHALLENGE_CATEGORIES.indexOf("Credit") },
+      { label: "Understanding my taxes", value: CHALLENGE_CATEGORIES.indexOf("Taxes") },
+      { label: "Building an emergency fund", value: CHALLENGE_CATEGORIES.indexOf("Savings") }
+    ]
+  }
+];
+
+// Savings goal options score whole currency units and months
+const SAVINGS_QUESTIONS: QuizQuestion[] = [
+  {
+    id: "savingsTarget",
+    prompt: "How much would you like to save?",
+    options: [
+      { label: "$1,000", value: 1000 },
+      { label: "$5,000", value: 5000 },
+      { label: "$10,000", value: 10000 },
+      { label: "$25,000", value: 25000 }
+    ]
+  },
+  {
+    id: "savingsHorizon",
+    prompt: "By when?",
+    options: [
+      { label: "6 months", value: 6 },
+      { label: "1 year", value: 12 },
+      { label: "3 years", value: 36 },
+      { label: "5 years", value: 60 }
+    ]
+  },
+  {
+    id: "monthlyContribution",
+    prompt: "How much can you set aside each month?",
+    options: [
+      { label: "$50", value: 50 },
+      { label: "$150", value: 150 },
+      { label: "$300", value: 300 },
+      { label: "$600", value: 600 }
+    ]
+  }
+];
+
+export const QUIZ_STEPS: QuizStep[] = [
+  {
+    title: "Knowledge Check",
+    description: "Three quick questions to find your starting level.",
+    questions: KNOWLEDGE_QUESTIONS
+  },
+  {
+    title: "Risk Profile",
+    description: "How you react to ups and downs shapes the scenarios you get.",
+    questions: RISK_QUESTIONS
+  },
+  {
+    title: "Your Goal",
+    description: "Pick the area you want to focus on first.",
+    questions: GOAL_QUESTIONS
+  },
+  {
+    title: "Savings Goal",
+    description: "Set a savings target. The Savings practice mode plans how to reach it.",
+    questions: SAVINGS_QUESTIONS
+  }
+];
+
+export function isStepComplete(step: QuizStep, answers: QuizAnswers) {
+  return step.questions.every(question => answers[question.id] !== undefined);
+}
+
+// Maps quiz answers to the values encrypted at registration: knowledge level and risk tolerance on
+// the 1-3 difficulty scale, focus area as a category index, and the savings goal.
+export function scoreAssessment(answers: QuizAnswers): PlayerProfileInput {
+  const missing = QUIZ_STEPS.flatMap(step => step.questions).find(question => answers[question.id] === undefined);
+  if (missing) {
+    throw new Error(`Question "${missing.id}" has not been answered`);
+  }
+
+  const valueOf = (question: QuizQuestion) => question.options[answers[question.id]].value;
+  const correct = KNOWLEDGE_QUESTIONS.reduce((sum, question) => sum + valueOf(question), 0);
+  const riskTotal = RISK_QUESTIONS.reduce((sum, question) => sum + valueOf(question), 0);
+
+  return {
+    knowledgeLevel: Math.max(1, correct),
+    riskTolerance: Math.round(riskTotal / RISK_QUESTIONS.length),
+    financialGoals: valueOf(GOAL_QUESTIONS[0]),
+    savingsGoal: {
+      targetAmount: valueOf(SAVINGS_QUESTIONS[0]),
+      horizonMonths: valueOf(SAVINGS_QUESTIONS[1]),
+      monthlyContribution: valueOf(SAVINGS_QUESTIONS[2])
+    }
+  };
+}
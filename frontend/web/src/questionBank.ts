@@ -0,0 +1,223 @@
+// questionBank.ts
+import { ethers } from "ethers";
+import rawQuestionBank from "./questionBank.v1.json";
+
+export const QUESTION_BANK_VERSION = 1;
+export const ANSWER_ENCODING = "keccak256(id,uint32)";
+export const PERSONALIZED_CATEGORY = "Personalized";
+// Same as FinancialLiteracyGame.PERSONALIZED_TYPE_PREFIX: oracle-generated challenges are typed by this
+// prefix and the id of the bank question the oracle picked
+export const PERSONALIZED_TYPE_PREFIX = `${PERSONALIZED_CATEGORY}:`;
+
+const MIN_DIFFICULTY = 1;
+const MAX_DIFFICULTY = 3;
+
+// Knowledge levels share this scale, so a player's level is also the difficulty recommended next
+export const DIFFICULTY_LABELS: Record<number, string> = { 1: "Beginner", 2: "Intermediate", 3: "Advanced" };
+
+export interface QuestionSource {
+  title: string;
+  url: string;
+}
+
+export interface BankCategory {
+  id: string;
+  description: string;
+}
+
+export interface BankQuestion {
+  id: string;
+  category: string;
+  difficulty: number;
+  prompt: string;
+  options: string[];
+  encodedAnswer: string;
+  explanation: string;
+  sources: QuestionSource[];
+}
+
+export interface QuestionBank {
+  version: number;
+  answerEncoding: string;
+  categories: BankCategory[];
+  questions: BankQuestion[];
+}
+
+export class QuestionBankError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid question bank:\n${issues.join("\n")}`);
+    this.name = "QuestionBankError";
+  }
+}
+
+// Answers are stored as a commitment so the correct option is not readable in the bundle at a glance.
+// The commitment binds the question id, so answers cannot be copied between questions.
+export function encodeAnswer(questionId: string, optionIndex: number): string {
+  return ethers.solidityPackedKeccak256(["string", "uint32"], [questionId, optionIndex]);
+}
+
+// Returns the index of the correct option, or -1 when no option matches the commitment
+export function decodeAnswer(question: Pick<BankQuestion, "id" | "options" | "encodedAnswer">): number {
+  const encoded = question.encodedAnswer.toLowerCase();
+  return question.options.findIndex((_, index) => encodeAnswer(question.id, index) === encoded);
+}
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === "string" && value.trim().length > 0;
+
+const isHttpUrl = (value: unknown) => {
+  if (!isNonEmptyString(value)) return false;
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Validates untrusted JSON and reports every problem at once, so content authors can fix a file in one pass
+export function parseQuestionBank(raw: unknown): QuestionBank {
+  const issues: string[] = [];
+  const bank = raw as Partial<QuestionBank> | null;
+
+  if (!bank || typeof bank !== "object") {
+    throw new QuestionBankError(["root: expected an object"]);
+  }
+  if (bank.version !== QUESTION_BANK_VERSION) {
+    throw new QuestionBankError([`version: unsupported version ${String(bank.version)}, expected ${QUESTION_BANK_VERSION}`]);
+  }
+  if (bank.answerEncoding !== ANSWER_ENCODING) {
+    issues.push(`answerEncoding: expected "${ANSWER_ENCODING}"`);
+  }
+
+  const categoryIds = new Set<string>();
+  if (!Array.isArray(bank.categories) || bank.categories.length === 0) {
+    issues.push("categories: expected a non-empty array");
+  } else {
+    bank.categories.forEach((category, index) => {
+      const path = `categories[${index}]`;
+      if (!isNonEmptyString(category?.id)) {
+        issues.push(`${path}.id: expected a non-empty string`);
+      } else if (category.id === PERSONALIZED_CATEGORY) {
+        issues.push(`${path}.id: "${PERSONALIZED_CATEGORY}" is reserved for oracle-generated challenges`);
+      } else if (categoryIds.has(category.id)) {
+        issues.push(`${path}.id: duplicate category "${category.id}"`);
+      } else {
+        categoryIds.add(category.id);
+      }
+      if (!isNonEmptyString(category?.description)) {
+        issues.push(`${path}.description: expected a non-empty string`);
+      }
+    });
+  }
+
+  const questionIds = new Set<string>();
+  if (!Array.isArray(bank.questions) || bank.questions.length === 0) {
+    issues.push("questions: expected a non-empty array");
+  } else {
+    bank.questions.forEach((question, index) => {
+      const path = `questions[${index}]`;
+      if (!question || typeof question !== "object") {
+        issues.push(`${path}: expected an object`);
+        return;
+      }
+
+      if (!isNonEmptyString(question.id)) {
+        issues.push(`${path}.id: expected a non-empty string`);
+      } else if (questionIds.has(question.id)) {
+        issues.push(`${path}.id: duplicate question "${question.id}"`);
+      } else {
+        questionIds.add(question.id);
+      }
+      if (!categoryIds.has(question.category)) {
+        issues.push(`${path}.category: unknown category "${String(question.category)}"`);
+      }
+      if (
+        !Number.isInteger(question.difficulty) ||
+        question.difficulty < MIN_DIFFICULTY ||
+        question.difficulty > MAX_DIFFICULTY
+      ) {
+        issues.push(`${path}.difficulty: expected an integer from ${MIN_DIFFICULTY} to ${MAX_DIFFICULTY}`);
+      }
+      if (!isNonEmptyString(question.prompt)) {
+        issues.push(`${path}.prompt: expected a non-empty string`);
+      }
+
+      const options = question.options;
+      if (!Array.isArray(options) || options.length < 2 || !options.every(isNonEmptyString)) {
+        issues.push(`${path}.options: expected at least two non-empty strings`);
+      } else if (new Set(options).size !== options.length) {
+        issues.push(`${path}.options: options must be unique`);
+      } else if (!ethers.isHexString(question.encodedAnswer, 32)) {
+        issues.push(`${path}.encodedAnswer: expected a 32-byte hex string`);
+      } else if (isNonEmptyString(question.id) && decodeAnswer(question) < 0) {
+        issues.push(`${path}.encodedAnswer: does not match any option`);
+      }
+
+      if (!isNonEmptyString(question.explanation)) {
+        issues.push(`${path}.explanation: expected a non-empty string`);
+      }
+      if (!Array.isArray(question.sources) || question.sources.length === 0) {
+        issues.push(`${path}.sources: expected at least one source`);
+      } else {
+        question.sources.forEach((source, sourceIndex) => {
+          if (!isNonEmptyString(source?.title) || !isHttpUrl(source?.url)) {
+            issues.push(`${path}.sources[${sourceIndex}]: expected a title and an http(s) url`);
+          }
+        });
+      }
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new QuestionBankError(issues);
+  }
+  return bank as QuestionBank;
+}
+
+export const questionBank = parseQuestionBank(rawQuestionBank);
+
+// Category order is part of the on-chain format (registration encodes goals as a category index), so
+// new categories must only ever be appended to the bank.
+export const CHALLENGE_CATEGORIES = questionBank.categories.map(category => category.id);
+
+// Challenges carry their category as this id on-chain; oracle-generated challenges use a reserved id
+export const PERSONALIZED_CATEGORY_ID = 255;
+
+export function categoryId(category: string): number {
+  return category === PERSONALIZED_CATEGORY ? PERSONALIZED_CATEGORY_ID : CHALLENGE_CATEGORIES.indexOf(category);
+}
+
+export function categoryName(id: number): string {
+  return id === PERSONALIZED_CATEGORY_ID ? PERSONALIZED_CATEGORY : CHALLENGE_CATEGORIES[id] ?? `Category ${id}`;
+}
+
+const questionsById = new Map(questionBank.questions.map(question => [question.id, question]));
+
+export function getQuestion(questionId: string): BankQuestion | undefined {
+  return questionsById.get(questionId);
+}
+
+export function questionsInCategory(category: string): BankQuestion[] {
+  return questionBank.questions.filter(question => question.category === category);
+}
+
+// Catalogue challenges store the question id as their challengeType. Older challenges stored the category.
+export function categoryOfChallenge(challengeType: string): string {
+  if (challengeType.startsWith(PERSONALIZED_TYPE_PREFIX)) return PERSONALIZED_CATEGORY;
+  const question = getQuestion(challengeType);
+  if (question) return question.category;
+  return CHALLENGE_CATEGORIES.includes(challengeType) ? challengeType : PERSONALIZED_CATEGORY;
+}
+
+// The question a challenge asks, which its answer key or the verifying oracle checks. Older catalogue
+// challenges only stored their category and get a stable pick from it. Undefined when the question is
+// not in this bank, for instance a personalized challenge from before generated questions were recorded.
+export function questionForChallenge(challengeType: string, challengeId: number): BankQuestion | undefined {
+  if (challengeType.startsWith(PERSONALIZED_TYPE_PREFIX)) {
+    return getQuestion(challengeType.slice(PERSONALIZED_TYPE_PREFIX.length));
+  }
+  const question = getQuestion(challengeType);
+  if (question) return question;
+
+  const candidates = questionsInCategory(challengeType);
+  return candidates.length > 0 ? candidates[challengeId % candidates.length] : undefined;
+}
@@ -0,0 +1,81 @@
+// quests.ts
+// Streak and quest rules, mirroring the Engagement library
+import { Engagement, QuestCounts } from "./gameClient";
+
+const DAY_SECONDS = 24 * 60 * 60;
+const WEEK_SECONDS = 7 * DAY_SECONDS;
+// The Unix epoch was a Thursday, so shifting by three days starts weeks on Monday
+const WEEK_OFFSET_SECONDS = 3 * DAY_SECONDS;
+
+export const POINTS_PER_CHALLENGE = 10;
+export const STREAK_BONUS_PERCENT = 10;
+export const MAX_STREAK_BONUS_PERCENT = 100;
+
+export type QuestPeriod = "daily" | "weekly";
+
+export interface Quest {
+  period: QuestPeriod;
+  title: string;
+  target: number;
+  bonus: number;
+}
+
+export const QUESTS: Quest[] = [
+  { period: "daily", title: "Answer 3 challenges correctly today", target: 3, bonus: 15 },
+  { period: "weekly", title: "Answer 10 challenges correctly this week", target: 10, bonus: 50 }
+];
+
+export interface QuestStatus extends Quest {
+  // Null until the player decrypts their counters
+  progress: number | null;
+  resetsAt: number;
+}
+
+export const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+export const dayOf = (timestamp: number) => Math.floor(timestamp / DAY_SECONDS);
+export const weekOf = (timestamp: number) => Math.floor((timestamp + WEEK_OFFSET_SECONDS) / WEEK_SECONDS);
+
+export const nextDailyReset = (timestamp: number) => (dayOf(timestamp) + 1) * DAY_SECONDS;
+export const nextWeeklyReset = (timestamp: number) => (weekOf(timestamp) + 1) * WEEK_SECONDS - WEEK_OFFSET_SECONDS;
+
+// A streak is still alive if the player answered today or yesterday
+export function currentStreak(engagement: Engagement, now = nowSeconds()): number {
+  return engagement.lastDay >= dayOf(now) - 1 ? engagement.streak : 0;
+}
+
+export function streakBonusPercent(streak: number): number {
+  return Math.min(Math.max(streak - 1, 0) * STREAK_BONUS_PERCENT, MAX_STREAK_BONUS_PERCENT);
+}
+
+// Points the next correct answer earns: answering today continues the current streak, or starts one
+export function nextAnswerPoints(engagement: Engagement, now = nowSeconds()): number {
+  const today = dayOf(now);
+  const streak =
+    engagement.lastDay === today ? engagement.streak : engagement.lastDay === today - 1 ? engagement.streak + 1 : 1;
+  return Math.floor((POINTS_PER_CHALLENGE * (100 + streakBonusPercent(streak))) / 100);
+}
+
+// Counters left over from an earlier day or week count as zero; the contract resets them on the next answer
+export function questStatuses(engagement: Engagement, counts: QuestCounts | null, now = nowSeconds()): QuestStatus[] {
+  return QUESTS.map(quest => {
+    const isDaily = quest.period === "daily";
+    const isCurrent = isDaily ? engagement.lastDay === dayOf(now) : engagement.lastWeek === weekOf(now);
+    const count = isDaily ? counts?.dailyCorrect : counts?.weeklyCorrect;
+    return {
+      ...quest,
+      progress: !isCurrent ? 0 : count === undefined ? null : Math.min(count, quest.target),
+      resetsAt: isDaily ? nextDailyReset(now) : nextWeeklyReset(now)
+    };
+  });
+}
+
+export function formatCountdown(seconds: number): string {
+  if (seconds <= 0) return "now";
+  const days = Math.floor(seconds / DAY_SECONDS);
+  const hours = Math.floor((seconds % DAY_SECONDS) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  if (days > 0) return `${days}d ${hours}h ${minutes}m`;
+  return `${hours}h ${String(minutes).padStart(2, "0")}m ${String(secs).padStart(2, "0")}s`;
+}
@@ -0,0 +1,33 @@
+// random.ts
+
+// mulberry32: small, fast and good enough for game randomness. Practice modes derive their
+// scenarios from a seed, so a run can be replayed exactly.
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomSeed() {
+  return crypto.getRandomValues(new Uint32Array(1))[0];
+}
+
+// Inclusive on both ends
+export function randomInt(random: () => number, min: number, max: number) {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+// Fisher-Yates on a copy
+export function shuffled<T>(random: () => number, items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
@@ -0,0 +1,175 @@
+// rewardsClient.ts
+import { ethers } from "ethers";
+import {
+  BADGES_ABI,
+  DECRYPTION_TIMEOUT_MS,
+  POINT_ABI,
+  config,
+  getRewardsContractReadOnly,
+  getRewardsContractWithSigner,
+  pollEventLog,
+  waitForReceipt
+} from "./contract";
+import { userDecryptUint32s } from "./fhe";
+import { CHALLENGE_CATEGORIES } from "./questionBank";
+
+export interface BadgeInfo {
+  id: number;
+  name: string;
+  description: string;
+}
+
+// Same ids as LiteracyRewards
+export const BADGES: BadgeInfo[] = [
+  { id: 1, name: "First Completion", description: "Answer a challenge correctly" },
+  {
+    id: 2,
+    name: "Category Mastery",
+    description: "Answer 3 challenges correctly in each of 5 categories"
+  },
+  { id: 3, name: "Week Streak", description: "Answer challenges 7 days in a row" }
+];
+export const FIRST_COMPLETION_BADGE = 1;
+export const CATEGORY_MASTERY_BADGE = 2;
+export const WEEK_STREAK_BADGE = 3;
+export const MASTERY_CATEGORIES = 5;
+export const MASTERY_CORRECT_ANSWERS = 3;
+
+export interface BadgeStatus extends BadgeInfo {
+  earned: boolean;
+  claimPending: boolean;
+}
+
+export interface RewardsSummary {
+  tokenBalance: bigint;
+  bestStreak: number;
+  badges: BadgeStatus[];
+}
+
+export interface DecryptedRewards {
+  pendingPoints: number;
+  correctAnswers: number;
+  // Indexed like CHALLENGE_CATEGORIES
+  correctByCategory: number[];
+}
+
+export interface BadgeClaimResult {
+  badgeId: number;
+  awarded: boolean;
+}
+
+export interface RewardsClient {
+  address: string;
+  contract: ethers.Contract;
+  getSummary(player: string): Promise<RewardsSummary>;
+  decryptMyRewards(): Promise<DecryptedRewards>;
+  redeemPoints(): Promise<ethers.ContractTransactionReceipt>;
+  claimBadge(badgeId: number, categories?: number[]): Promise<ethers.ContractTransactionReceipt>;
+  waitForRedemption(player: string, fromBlock: number, timeoutMs?: number): Promise<bigint | null>;
+  waitForBadgeClaim(
+    player: string,
+    badgeId: number,
+    fromBlock: number,
+    timeoutMs?: number
+  ): Promise<BadgeClaimResult | null>;
+}
+
+// Categories to claim mastery with: the first MASTERY_CATEGORIES that qualify, in increasing order,
+// or null when too few do
+export function masteryCategories(correctByCategory: number[]): number[] | null {
+  const qualifying = correctByCategory
+    .map((correct, category) => ({ correct, category }))
+    .filter(({ correct }) => correct >= MASTERY_CORRECT_ANSWERS)
+    .map(({ category }) => category);
+  return qualifying.length >= MASTERY_CATEGORIES ? qualifying.slice(0, MASTERY_CATEGORIES) : null;
+}
+
+export function createRewardsClient(contract: ethers.Contract): RewardsClient {
+  const address = config.rewardsContractAddress;
+
+  const getSigner = () => {
+    const runner = contract.runner as ethers.Signer | null;
+    if (!runner || typeof runner.getAddress !== "function") {
+      throw new Error("Rewards client is read-only");
+    }
+    return runner;
+  };
+
+  // The token and badge collection are deployed by the rewards contract
+  const getTokens = async () => {
+    const [pointAddress, badgesAddress] = await Promise.all([contract.points(), contract.badges()]);
+    return {
+      points: new ethers.Contract(pointAddress, POINT_ABI, contract.runner),
+      badges: new ethers.Contract(badgesAddress, BADGES_ABI, contract.runner)
+    };
+  };
+
+  return {
+    address,
+    contract,
+
+    getSummary: async player => {
+      const { points, badges } = await getTokens();
+      const [tokenBalance, bestStreak, statuses] = await Promise.all([
+        points.balanceOf(player) as Promise<bigint>,
+        contract.bestStreak(player),
+        Promise.all(
+          BADGES.map(async (badge): Promise<BadgeStatus> => {
+            const [balance, claimPending] = await Promise.all([
+              badges.balanceOf(player, badge.id) as Promise<bigint>,
+              contract.badgeClaimPending(player, badge.id) as Promise<boolean>
+            ]);
+            return { ...badge, earned: balance > 0n, claimPending };
+          })
+        )
+      ]);
+      return { tokenBalance, bestStreak: Number(bestStreak), badges: statuses };
+    },
+
+    decryptMyRewards: async () => {
+      const signer = getSigner();
+      const player = await signer.getAddress();
+      const [pendingHandle, categoryHandles] = await Promise.all([
+        contract.getEncryptedPendingPoints(player) as Promise<string>,
+        Promise.all(
+          CHALLENGE_CATEGORIES.map((_, category) => contract.getEncryptedCorrectAnswers(player, category))
+        )
+      ]);
+      // Each category lookup also returns the overall count of correct answers
+      const [pendingPoints, correctAnswers, ...correctByCategory] = await userDecryptUint32s(address, signer, [
+        pendingHandle,
+        categoryHandles[0][0],
+        ...categoryHandles.map(([, correct]) => correct)
+      ]);
+      return {
+        pendingPoints: Number(pendingPoints),
+        correctAnswers: Number(correctAnswers),
+        correctByCategory: correctByCategory.map(Number)
+      };
+    },
+
+    redeemPoints: async () => waitForReceipt(await contract.redeemPoints()),
+    claimBadge: async (badgeId, categories = []) => waitForReceipt(await contract.claimBadge(badgeId, categories)),
+
+    // The redeemed amount arrives in a later decryption oracle callback
+    waitForRedemption: async (player, fromBlock, timeoutMs = DECRYPTION_TIMEOUT_MS) => {
+      const log = await pollEventLog(contract, contract.filters.PointsRedeemed(player), fromBlock, timeoutMs);
+      return log ? (log.args.amount as bigint) : null;
+    },
+
+    waitForBadgeClaim: async (player, badgeId, fromBlock, timeoutMs = DECRYPTION_TIMEOUT_MS) => {
+      const log = await pollEventLog(contract, contract.filters.BadgeClaimSettled(player, badgeId), fromBlock, timeoutMs);
+      return log ? { badgeId, awarded: log.args.awarded as boolean } : null;
+    }
+  };
+}
+
+// Rewards are optional: null when no rewards contract is configured or deployed
+export async function getRewardsClientReadOnly(): Promise<RewardsClient | null> {
+  const contract = await getRewardsContractReadOnly();
+  return contract ? createRewardsClient(contract) : null;
+}
+
+export async function getRewardsClientWithSigner(): Promise<RewardsClient> {
+  return createRewardsClient(await getRewardsContractWithSigner());
+}
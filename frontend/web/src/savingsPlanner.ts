@@ -0,0 +1,74 @@
+// savingsPlanner.ts
+import { SavingsGoal } from "./gameClient";
+
+// Compound-interest projections for the Savings practice mode. Projections run in the browser against
+// the player's decrypted goal; only the projected amount and planned contribution are encrypted and
+// sent to the contract, which scores them against the encrypted goal.
+export interface SavingsVehicle {
+  id: string;
+  label: string;
+  // Expected annual return; only the savings account rate is close to guaranteed
+  annualRate: number;
+  note: string;
+}
+
+export const SAVINGS_VEHICLES: SavingsVehicle[] = [
+  { id: "cash", label: "Current account", annualRate: 0, note: "No interest, always available." },
+  { id: "savings", label: "High-yield savings", annualRate: 0.04, note: "Low risk, rate can change." },
+  { id: "bonds", label: "Bond fund", annualRate: 0.05, note: "Small ups and downs." },
+  { id: "stocks", label: "Stock index fund", annualRate: 0.08, note: "Expected return only; can fall in any year." }
+];
+
+export interface SavingsPlan {
+  monthlyContribution: number;
+  annualRate: number;
+  months: number;
+}
+
+export interface Projection {
+  // Balance at the end of each month
+  balances: number[];
+  finalBalance: number;
+  contributed: number;
+  interest: number;
+}
+
+// Deposits at the end of each month, interest compounded monthly
+export function projectSavings(plan: SavingsPlan, startingBalance = 0): Projection {
+  const monthlyRate = plan.annualRate / 12;
+  const balances: number[] = [];
+  let balance = startingBalance;
+  for (let month = 0; month < plan.months; month++) {
+    balance = balance * (1 + monthlyRate) + plan.monthlyContribution;
+    balances.push(balance);
+  }
+  const contributed = startingBalance + plan.monthlyContribution * plan.months;
+  return { balances, finalBalance: balance, contributed, interest: balance - contributed };
+}
+
+// Smallest whole monthly contribution that reaches `target`, from the future value of an annuity
+export function requiredContribution(target: number, annualRate: number, months: number) {
+  if (months <= 0) return target;
+  const monthlyRate = annualRate / 12;
+  const perUnit = monthlyRate === 0 ? months : (Math.pow(1 + monthlyRate, months) - 1) / monthlyRate;
+  return Math.ceil(target / perUnit);
+}
+
+export interface PlanEvaluation {
+  projectedAmount: number;
+  isAffordable: boolean;
+  isReached: boolean;
+  // Within a quarter of the target, matching the contract's partial credit
+  isNear: boolean;
+}
+
+export function evaluatePlan(goal: SavingsGoal, plan: SavingsPlan): PlanEvaluation {
+  const projectedAmount = Math.floor(projectSavings(plan).finalBalance);
+  const isAffordable = plan.monthlyContribution <= goal.monthlyContribution;
+  return {
+    projectedAmount,
+    isAffordable,
+    isReached: isAffordable && projectedAmount >= goal.targetAmount,
+    isNear: isAffordable && projectedAmount * 4 >= goal.targetAmount * 3
+  };
+}
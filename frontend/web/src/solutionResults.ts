@@ -0,0 +1,33 @@
+// solutionResults.ts
+
+// Correctness is never published on-chain; a player learns it by decrypting their own progress,
+// so outcomes are remembered in this browser only
+export interface SolutionOutcome {
+  result: "correct" | "incorrect";
+  answeredAt: number;
+}
+
+const storageKey = (account: string) => `finlit_solution_results_${account.toLowerCase()}`;
+
+export function loadSolutionOutcomes(account: string): Record<number, SolutionOutcome> {
+  try {
+    const raw = localStorage.getItem(storageKey(account));
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    console.error("Error loading solution results:", e);
+    return {};
+  }
+}
+
+// A correct answer is never downgraded by a later wrong attempt at the same challenge
+export function recordSolutionOutcome(
+  account: string,
+  challengeId: number,
+  result: SolutionOutcome["result"],
+  answeredAt = Date.now()
+) {
+  const outcomes = loadSolutionOutcomes(account);
+  if (outcomes[challengeId]?.result === "correct") return;
+  outcomes[challengeId] = { result, answeredAt };
+  localStorage.setItem(storageKey(account), JSON.stringify(outcomes));
+}
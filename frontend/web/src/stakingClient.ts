@@ -0,0 +1,156 @@
+// stakingClient.ts
+import { ethers } from "ethers";
+import {
+  config,
+  getStakingContractReadOnly,
+  getStakingContractWithSigner,
+  queryEventLogs,
+  waitForReceipt
+} from "./contract";
+
+// Same order as ChallengeStaking.StakeStatus
+export const STAKE_STATUSES = ["none", "pending", "settling", "won", "forfeited", "refunded"] as const;
+export type StakeStatus = (typeof STAKE_STATUSES)[number];
+
+export interface StakeRecord {
+  id: number;
+  player: string;
+  challengeId: number;
+  amount: bigint;
+  reservedReward: bigint;
+  // Unix time after which an unsettled stake can be reclaimed
+  deadline: number;
+  status: StakeStatus;
+  // Credited to the player once settled or refunded; forfeited stakes credit the treasury instead
+  payout: bigint;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface StakingInfo {
+  owner: string;
+  treasury: string;
+  rewardPool: bigint;
+  rewardBps: number;
+  escrowedStakes: bigint;
+  totalClaimable: bigint;
+}
+
+export interface ClaimEvent {
+  account: string;
+  amount: bigint;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface StakingClient {
+  address: string;
+  contract: ethers.Contract;
+  getInfo(): Promise<StakingInfo>;
+  getMaxStake(): Promise<bigint>;
+  getClaimable(account: string): Promise<bigint>;
+  hasStaked(player: string, challengeId: number): Promise<boolean>;
+  getStakes(player: string, fromBlock?: number): Promise<StakeRecord[]>;
+  getClaimEvents(account: string, fromBlock?: number): Promise<ClaimEvent[]>;
+  claim(): Promise<ethers.ContractTransactionReceipt>;
+  reclaimStake(stakeId: number): Promise<ethers.ContractTransactionReceipt>;
+  fundRewardPool(amountWei: bigint): Promise<ethers.ContractTransactionReceipt>;
+  setTreasury(treasury: string): Promise<ethers.ContractTransactionReceipt>;
+  setRewardBps(rewardBps: number): Promise<ethers.ContractTransactionReceipt>;
+}
+
+const MAX_REWARD_BPS = 10_000n;
+
+export function stakeReward(stakeWei: bigint, rewardBps: number): bigint {
+  return (stakeWei * BigInt(rewardBps)) / MAX_REWARD_BPS;
+}
+
+export function createStakingClient(contract: ethers.Contract): StakingClient {
+  const address = config.stakingContractAddress;
+
+  // The staking contract is deployed after the game, so the default range from the game's deployment covers it
+  const queryEvents = (filter: ethers.ContractEventName, fromBlock?: number) =>
+    queryEventLogs(contract, filter, fromBlock);
+
+  const getInfo = async (): Promise<StakingInfo> => {
+    const [owner, treasury, rewardPool, rewardBps, escrowedStakes, totalClaimable] = await Promise.all([
+      contract.owner(),
+      contract.treasury(),
+      contract.rewardPool(),
+      contract.rewardBps(),
+      contract.escrowedStakes(),
+      contract.totalClaimable()
+    ]);
+    return { owner, treasury, rewardPool, rewardBps: Number(rewardBps), escrowedStakes, totalClaimable };
+  };
+
+  return {
+    address,
+    contract,
+
+    getInfo,
+
+    // The largest stake whose reward the pool can still reserve
+    getMaxStake: async () => {
+      const { rewardPool, rewardBps } = await getInfo();
+      return rewardBps === 0 ? ethers.MaxUint256 : (rewardPool * MAX_REWARD_BPS) / BigInt(rewardBps);
+    },
+
+    getClaimable: account => contract.claimable(account),
+    hasStaked: (player, challengeId) => contract.hasStaked(player, challengeId),
+
+    // Placed stakes come from events; their current status and payout from storage and settlement events
+    getStakes: async (player, fromBlock) => {
+      const [placed, settled] = await Promise.all([
+        queryEvents(contract.filters.StakePlaced(null, player), fromBlock),
+        queryEvents(contract.filters.StakeSettled(null, player), fromBlock)
+      ]);
+      const payouts = new Map(settled.map(log => [Number(log.args.stakeId), log.args.payout as bigint]));
+
+      const stakes = await Promise.all(
+        placed.map(async (log): Promise<StakeRecord> => {
+          const id = Number(log.args.stakeId);
+          const stake = await contract.stakes(id);
+          const status = STAKE_STATUSES[Number(stake.status)];
+          return {
+            id,
+            player: log.args.player,
+            challengeId: Number(log.args.challengeId),
+            amount: log.args.amount,
+            reservedReward: log.args.reservedReward,
+            deadline: Number(stake.deadline),
+            status,
+            payout: status === "refunded" ? (log.args.amount as bigint) : payouts.get(id) ?? 0n,
+            blockNumber: log.blockNumber,
+            transactionHash: log.transactionHash
+          };
+        })
+      );
+      return stakes.sort((a, b) => b.id - a.id);
+    },
+
+    getClaimEvents: async (account, fromBlock) =>
+      (await queryEvents(contract.filters.Claimed(account), fromBlock)).map(log => ({
+        account: log.args.account,
+        amount: log.args.amount,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash
+      })),
+
+    claim: async () => waitForReceipt(await contract.claim()),
+    reclaimStake: async stakeId => waitForReceipt(await contract.reclaimStake(stakeId)),
+    fundRewardPool: async amountWei => waitForReceipt(await contract.fundRewardPool({ value: amountWei })),
+    setTreasury: async treasury => waitForReceipt(await contract.setTreasury(treasury)),
+    setRewardBps: async rewardBps => waitForReceipt(await contract.setRewardBps(rewardBps))
+  };
+}
+
+// Staking is optional: null when no escrow is configured or deployed
+export async function getStakingClientReadOnly(): Promise<StakingClient | null> {
+  const contract = await getStakingContractReadOnly();
+  return contract ? createStakingClient(contract) : null;
+}
+
+export async function getStakingClientWithSigner(): Promise<StakingClient> {
+  return createStakingClient(await getStakingContractWithSigner());
+}
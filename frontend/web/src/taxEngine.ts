@@ -0,0 +1,225 @@
+// taxEngine.ts
+import us2024 from "./taxData/us-2024.json";
+import uk2024 from "./taxData/uk-2024.json";
+
+// Income tax rules are data: each jurisdiction and year is one file in ./taxData, validated on load.
+// Supporting a new year or country means adding a file here, not changing the engine.
+const RAW_TAX_RULES: unknown[] = [us2024, uk2024];
+
+export interface TaxBracket {
+  // Upper bound of taxable income taxed at this rate; null for the open-ended top bracket
+  upTo: number | null;
+  rate: number;
+}
+
+// Reduces the standard deduction by `rate` for each unit of income above `startsAt`
+export interface DeductionTaper {
+  startsAt: number;
+  rate: number;
+}
+
+export interface FilingStatusRules {
+  id: string;
+  label: string;
+  standardDeduction: number;
+  standardDeductionTaper?: DeductionTaper;
+  brackets: TaxBracket[];
+}
+
+export interface ItemizedDeductionRule {
+  id: string;
+  label: string;
+  cap?: number;
+}
+
+export interface TaxRules {
+  jurisdiction: string;
+  name: string;
+  year: number;
+  currency: string;
+  source: { title: string; url: string };
+  filingStatuses: FilingStatusRules[];
+  itemizedDeductions: ItemizedDeductionRule[];
+}
+
+export interface TaxReturn {
+  filingStatus: string;
+  grossIncome: number;
+  // Amounts per itemized deduction id; ignored when the standard deduction is larger
+  itemized?: Record<string, number>;
+}
+
+export interface BracketTax {
+  from: number;
+  to: number;
+  rate: number;
+  tax: number;
+}
+
+export interface TaxCalculation {
+  standardDeduction: number;
+  itemizedDeduction: number;
+  deductionType: "standard" | "itemized";
+  deduction: number;
+  taxableIncome: number;
+  bracketTaxes: BracketTax[];
+  tax: number;
+  marginalRate: number;
+  effectiveRate: number;
+}
+
+export class TaxRulesError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid tax rules:\n${issues.join("\n")}`);
+    this.name = "TaxRulesError";
+  }
+}
+
+const isNonNegative = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value) && value >= 0;
+const isRate = (value: unknown): value is number => isNonNegative(value) && value <= 1;
+const isNonEmptyString = (value: unknown): value is string => typeof value === "string" && value.trim().length > 0;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// Validates untrusted JSON and reports every problem at once, like the question bank
+export function parseTaxRules(raw: unknown): TaxRules {
+  const issues: string[] = [];
+  const rules = raw as Partial<TaxRules> | null;
+
+  if (!rules || typeof rules !== "object") {
+    throw new TaxRulesError(["root: expected an object"]);
+  }
+  const name = `${String(rules.jurisdiction)} ${String(rules.year)}`;
+
+  if (!isNonEmptyString(rules.jurisdiction)) issues.push(`${name} jurisdiction: expected a non-empty string`);
+  if (!Number.isInteger(rules.year)) issues.push(`${name} year: expected an integer`);
+  if (!isNonEmptyString(rules.name)) issues.push(`${name} name: expected a non-empty string`);
+  if (!isNonEmptyString(rules.currency)) issues.push(`${name} currency: expected a non-empty string`);
+  if (!isNonEmptyString(rules.source?.title) || !isNonEmptyString(rules.source?.url)) {
+    issues.push(`${name} source: expected a title and a url`);
+  }
+
+  if (!Array.isArray(rules.filingStatuses) || rules.filingStatuses.length === 0) {
+    issues.push(`${name} filingStatuses: expected a non-empty array`);
+  } else {
+    const ids = new Set<string>();
+    rules.filingStatuses.forEach((status, index) => {
+      const path = `${name} filingStatuses[${index}]`;
+      if (!isNonEmptyString(status?.id) || ids.has(status.id)) {
+        issues.push(`${path}.id: expected a unique non-empty string`);
+      } else {
+        ids.add(status.id);
+      }
+      if (!isNonEmptyString(status?.label)) issues.push(`${path}.label: expected a non-empty string`);
+      if (!isNonNegative(status?.standardDeduction)) issues.push(`${path}.standardDeduction: expected a non-negative number`);
+      const taper = status?.standardDeductionTaper;
+      if (taper !== undefined && (!isNonNegative(taper?.startsAt) || !isRate(taper?.rate))) {
+        issues.push(`${path}.standardDeductionTaper: expected startsAt and a rate from 0 to 1`);
+      }
+
+      const brackets = status?.brackets;
+      if (!Array.isArray(brackets) || brackets.length === 0) {
+        issues.push(`${path}.brackets: expected a non-empty array`);
+        return;
+      }
+      brackets.forEach((bracket, bracketIndex) => {
+        const isLast = bracketIndex === brackets.length - 1;
+        const previous = bracketIndex > 0 ? brackets[bracketIndex - 1]?.upTo : 0;
+        if (!isRate(bracket?.rate)) {
+          issues.push(`${path}.brackets[${bracketIndex}].rate: expected a rate from 0 to 1`);
+        }
+        if (isLast ? bracket?.upTo !== null : !isNonNegative(bracket?.upTo)) {
+          issues.push(`${path}.brackets[${bracketIndex}].upTo: ${isLast ? "the top bracket must be open-ended (null)" : "expected a non-negative number"}`);
+        } else if (!isLast && typeof previous === "number" && (bracket.upTo as number) <= previous) {
+          issues.push(`${path}.brackets[${bracketIndex}].upTo: brackets must be in increasing order`);
+        }
+      });
+    });
+  }
+
+  if (!Array.isArray(rules.itemizedDeductions)) {
+    issues.push(`${name} itemizedDeductions: expected an array`);
+  } else {
+    rules.itemizedDeductions.forEach((deduction, index) => {
+      const path = `${name} itemizedDeductions[${index}]`;
+      if (!isNonEmptyString(deduction?.id) || !isNonEmptyString(deduction?.label)) {
+        issues.push(`${path}: expected an id and a label`);
+      }
+      if (deduction?.cap !== undefined && !isNonNegative(deduction.cap)) {
+        issues.push(`${path}.cap: expected a non-negative number`);
+      }
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new TaxRulesError(issues);
+  }
+  return rules as TaxRules;
+}
+
+export const TAX_RULES = RAW_TAX_RULES.map(parseTaxRules);
+
+export function findTaxRules(jurisdiction: string, year: number): TaxRules | undefined {
+  return TAX_RULES.find(rules => rules.jurisdiction === jurisdiction && rules.year === year);
+}
+
+export function filingStatus(rules: TaxRules, id: string): FilingStatusRules {
+  const status = rules.filingStatuses.find(candidate => candidate.id === id);
+  if (!status) throw new Error(`Unknown filing status "${id}" for ${rules.jurisdiction} ${rules.year}`);
+  return status;
+}
+
+export function standardDeduction(status: FilingStatusRules, grossIncome: number) {
+  const taper = status.standardDeductionTaper;
+  if (!taper || grossIncome <= taper.startsAt) return status.standardDeduction;
+  return Math.max(0, roundCents(status.standardDeduction - (grossIncome - taper.startsAt) * taper.rate));
+}
+
+export function itemizedDeduction(rules: TaxRules, amounts: Record<string, number> = {}) {
+  return rules.itemizedDeductions.reduce((sum, rule) => {
+    const amount = Math.max(0, amounts[rule.id] ?? 0);
+    return sum + (rule.cap === undefined ? amount : Math.min(amount, rule.cap));
+  }, 0);
+}
+
+// Brackets are marginal: each rate applies only to the slice of taxable income inside its bracket
+export function taxByBracket(brackets: TaxBracket[], taxableIncome: number): BracketTax[] {
+  const slices: BracketTax[] = [];
+  let from = 0;
+  for (const bracket of brackets) {
+    if (taxableIncome <= from) break;
+    const to = bracket.upTo === null ? taxableIncome : Math.min(bracket.upTo, taxableIncome);
+    slices.push({ from, to, rate: bracket.rate, tax: roundCents((to - from) * bracket.rate) });
+    if (bracket.upTo === null) break;
+    from = bracket.upTo;
+  }
+  return slices;
+}
+
+export function marginalRate(brackets: TaxBracket[], taxableIncome: number) {
+  const bracket = brackets.find(candidate => candidate.upTo === null || taxableIncome < candidate.upTo);
+  return bracket ? bracket.rate : brackets[brackets.length - 1].rate;
+}
+
+export function calculateTax(rules: TaxRules, taxReturn: TaxReturn): TaxCalculation {
+  const status = filingStatus(rules, taxReturn.filingStatus);
+  const standard = standardDeduction(status, taxReturn.grossIncome);
+  const itemized = itemizedDeduction(rules, taxReturn.itemized);
+  const deductionType = itemized > standard ? "itemized" : "standard";
+  const deduction = Math.max(standard, itemized);
+  const taxableIncome = Math.max(0, roundCents(taxReturn.grossIncome - deduction));
+  const bracketTaxes = taxByBracket(status.brackets, taxableIncome);
+  const tax = roundCents(bracketTaxes.reduce((sum, slice) => sum + slice.tax, 0));
+
+  return {
+    standardDeduction: standard,
+    itemizedDeduction: itemized,
+    deductionType,
+    deduction,
+    taxableIncome,
+    bracketTaxes,
+    tax,
+    marginalRate: marginalRate(status.brackets, taxableIncome),
+    effectiveRate: taxReturn.grossIncome > 0 ? tax / taxReturn.grossIncome : 0
+  };
+}
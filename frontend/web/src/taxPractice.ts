@@ -0,0 +1,132 @@
+// taxPractice.ts
+import { randomInt, randomSeed, seededRandom, shuffled } from "./random";
+import { TAX_RULES, TaxRules, calculateTax, filingStatus } from "./taxEngine";
+
+// Tax filing scenarios generated from the rules engine, so every answer is computed from the same data
+// files the player is shown. Answers are checked in the browser; only the number correct is encrypted
+// and sent to the contract.
+export const TAX_SCENARIOS = 5;
+// Money answers are accepted to the nearest whole unit
+const MONEY_TOLERANCE = 1;
+
+export type ScenarioKind = "taxableIncome" | "deductionChoice" | "taxOwed" | "marginalRate";
+
+export interface TaxScenario {
+  kind: ScenarioKind;
+  jurisdiction: string;
+  year: number;
+  filingStatus: string;
+  prompt: string;
+  // Multiple-choice scenarios answer with an option index; the others with an amount
+  options?: string[];
+  answer: number;
+  explanation: string;
+}
+
+export interface TaxPracticeRun {
+  seed: number;
+  scenarios: TaxScenario[];
+  answers: (number | null)[];
+}
+
+const formatAmount = (rules: TaxRules, amount: number) =>
+  amount.toLocaleString(undefined, {
+    style: "currency",
+    currency: rules.currency,
+    minimumFractionDigits: Number.isInteger(amount) ? 0 : 2
+  });
+const formatRate = (rate: number) => `${Math.round(rate * 1000) / 10}%`;
+
+function scenario(kind: ScenarioKind, rules: TaxRules, random: () => number): TaxScenario {
+  const status = rules.filingStatuses[randomInt(random, 0, rules.filingStatuses.length - 1)];
+  const base = { kind, jurisdiction: rules.jurisdiction, year: rules.year, filingStatus: status.id };
+  const grossIncome = randomInt(random, 20, 160) * 1000;
+  const where = `${rules.name}, ${rules.year}, ${status.label.toLowerCase()}`;
+
+  switch (kind) {
+    case "taxableIncome": {
+      const result = calculateTax(rules, { filingStatus: status.id, grossIncome });
+      return {
+        ...base,
+        prompt: `${where}: gross income is ${formatAmount(rules, grossIncome)} and you take the standard deduction. What is your taxable income?`,
+        answer: result.taxableIncome,
+        explanation: `Taxable income is gross income minus the ${formatAmount(rules, result.standardDeduction)} standard deduction.`
+      };
+    }
+    case "deductionChoice": {
+      const itemized = Object.fromEntries(
+        rules.itemizedDeductions.map(rule => [rule.id, randomInt(random, 0, Math.ceil(status.standardDeduction / 2000)) * 1000])
+      );
+      const result = calculateTax(rules, { filingStatus: status.id, grossIncome, itemized });
+      const expenses = rules.itemizedDeductions
+        .map(rule => `${rule.label.toLowerCase()} ${formatAmount(rules, itemized[rule.id])}${rule.cap !== undefined ? ` (capped at ${formatAmount(rules, rule.cap)})` : ""}`)
+        .join(", ");
+      return {
+        ...base,
+        prompt: `${where}: you paid ${expenses}. Should you take the standard deduction or itemize?`,
+        options: ["Standard deduction", "Itemize"],
+        answer: result.deductionType === "itemized" ? 1 : 0,
+        explanation: `Itemized deductions total ${formatAmount(rules, result.itemizedDeduction)} against a standard deduction of ${formatAmount(rules, result.standardDeduction)}. Take whichever is larger.`
+      };
+    }
+    case "taxOwed": {
+      const result = calculateTax(rules, { filingStatus: status.id, grossIncome });
+      return {
+        ...base,
+        prompt: `${where}: your taxable income is ${formatAmount(rules, result.taxableIncome)}. How much income tax do you owe?`,
+        answer: result.tax,
+        explanation: result.bracketTaxes
+          .map(slice => `${formatRate(slice.rate)} of ${formatAmount(rules, slice.to - slice.from)} = ${formatAmount(rules, slice.tax)}`)
+          .join(" + ") + ` = ${formatAmount(rules, result.tax)}`
+      };
+    }
+    case "marginalRate": {
+      const result = calculateTax(rules, { filingStatus: status.id, grossIncome });
+      const rates = status.brackets.map(bracket => bracket.rate);
+      return {
+        ...base,
+        prompt: `${where}: your taxable income is ${formatAmount(rules, result.taxableIncome)}. At what rate is your next ${formatAmount(rules, 1)} taxed?`,
+        options: rates.map(formatRate),
+        answer: rates.indexOf(result.marginalRate),
+        explanation: `Your income reaches the ${formatRate(result.marginalRate)} bracket. Your effective rate on ${formatAmount(rules, grossIncome)} of gross income is only ${formatRate(result.effectiveRate)}, because lower slices are taxed at lower rates.`
+      };
+    }
+  }
+}
+
+export function newTaxPracticeRun(seed = randomSeed(), count = TAX_SCENARIOS): TaxPracticeRun {
+  const random = seededRandom(seed);
+  const kinds: ScenarioKind[] = ["taxableIncome", "deductionChoice", "taxOwed", "marginalRate"];
+  const withItemizing = TAX_RULES.filter(rules => rules.itemizedDeductions.length > 0);
+
+  const scenarios = Array.from({ length: count }, (_, index) => {
+    const kind = index < kinds.length ? kinds[index] : kinds[randomInt(random, 0, kinds.length - 1)];
+    const pool = kind === "deductionChoice" ? withItemizing : TAX_RULES;
+    return scenario(kind, shuffled(random, pool)[0], random);
+  });
+  return { seed, scenarios: shuffled(random, scenarios), answers: scenarios.map(() => null) };
+}
+
+export function rulesOf(scenario: TaxScenario) {
+  const rules = TAX_RULES.find(candidate => candidate.jurisdiction === scenario.jurisdiction && candidate.year === scenario.year);
+  if (!rules) throw new Error(`No tax rules for ${scenario.jurisdiction} ${scenario.year}`);
+  return { rules, status: filingStatus(rules, scenario.filingStatus) };
+}
+
+export function isCorrect(scenario: TaxScenario, answer: number | null) {
+  if (answer === null) return false;
+  return scenario.options ? answer === scenario.answer : Math.abs(answer - scenario.answer) <= MONEY_TOLERANCE;
+}
+
+export function answerScenario(run: TaxPracticeRun, index: number, answer: number): TaxPracticeRun {
+  if (run.answers[index] !== null) throw new Error("Scenario already answered");
+  return { ...run, answers: run.answers.map((current, i) => (i === index ? answer : current)) };
+}
+
+export function isFinished(run: TaxPracticeRun) {
+  return run.answers.every(answer => answer !== null);
+}
+
+export function correctAnswers(run: TaxPracticeRun) {
+  return run.scenarios.filter((scenario, i) => isCorrect(scenario, run.answers[i])).length;
+}
@@ -0,0 +1,2859 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ContractTransactionReceipt } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import {
+  ChallengeStaking,
+  FinancialLiteracyGame,
+  FinancialLiteracyGame__factory,
+  LiteracyBadges,
+  LiteracyPoint,
+  LiteracyRewards,
+} from "../types";
+import {
+  decodeAnswer,
+  questionBank,
+  questionForChallenge,
+} from "../frontend/web/src/questionBank";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  oracle: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  educator: HardhatEthersSigner;
+};
+
+type ComputationRequest = {
+  requestId: bigint;
+  ciphertexts: string[];
+};
+
+async function deployFixture(oracle: HardhatEthersSigner) {
+  const scoring = await (
+    await ethers.getContractFactory("PracticeScoring")
+  ).deploy();
+  const engagement = await (
+    await ethers.getContractFactory("Engagement")
+  ).deploy();
+  const factory = (await ethers.getContractFactory("FinancialLiteracyGame", {
+    libraries: {
+      PracticeScoring: await scoring.getAddress(),
+      Engagement: await engagement.getAddress(),
+    },
+  })) as FinancialLiteracyGame__factory;
+  const game = (await factory.deploy(oracle.address)) as FinancialLiteracyGame;
+  const gameAddress = await game.getAddress();
+
+  return { game, gameAddress };
+}
+
+function computationRequestOf(
+  game: FinancialLiteracyGame,
+  receipt: ContractTransactionReceipt | null,
+): ComputationRequest {
+  for (const log of receipt?.logs ?? []) {
+    const parsed = game.interface.parseLog(log);
+    if (parsed?.name === "ComputationRequested") {
+      return {
+        requestId: parsed.args.requestId,
+        ciphertexts: [...parsed.args.ciphertexts],
+      };
+    }
+  }
+  throw new Error("No ComputationRequested event in receipt");
+}
+
+const decryptionOracleInterface = new ethers.Interface([
+  "event DecryptionRequest(uint256 indexed counter, uint256 requestID, bytes32[] cts, address contractCaller, bytes4 callbackSelector)",
+]);
+
+function decryptionRequestIdOf(
+  receipt: ContractTransactionReceipt | null,
+): bigint {
+  for (const log of receipt?.logs ?? []) {
+    const parsed = decryptionOracleInterface.parseLog(log);
+    if (parsed?.name === "DecryptionRequest") {
+      return parsed.args.requestID;
+    }
+  }
+  throw new Error("No DecryptionRequest event in receipt");
+}
+
+describe("FinancialLiteracyGame", function () {
+  let signers: Signers;
+  let game: FinancialLiteracyGame;
+  let gameAddress: string;
+
+  async function register(
+    player: HardhatEthersSigner,
+    knowledgeLevel = 2,
+    riskTolerance = 3,
+    financialGoals = 1,
+    [savingsTarget, savingsHorizonMonths, monthlyContribution] = [
+      6000, 12, 500,
+    ],
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(gameAddress, player.address)
+      .add32(knowledgeLevel)
+      .add32(riskTolerance)
+      .add32(financialGoals)
+      .add32(savingsTarget)
+      .add32(savingsHorizonMonths)
+      .add32(monthlyContribution)
+      .encrypt();
+    const tx = await game
+      .connect(player)
+      .registerPlayer(
+        input.handles[0],
+        input.handles[1],
+        input.handles[2],
+        input.handles[3],
+        input.handles[4],
+        input.handles[5],
+        input.inputProof,
+      );
+    await tx.wait();
+  }
+
+  async function addChallenge(
+    difficulty = 3,
+    reward = 30,
+    challengeType = "Budgeting",
+    answerKey = 1,
+    category = 0,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(gameAddress, signers.deployer.address)
+      .add32(difficulty)
+      .add32(reward)
+      .add32(answerKey)
+      .encrypt();
+    const tx = await game.addPredefinedChallenge(
+      input.handles[0],
+      input.handles[1],
+      input.handles[2],
+      input.inputProof,
+      challengeType,
+      category,
+    );
+    await tx.wait();
+  }
+
+  // What the computation oracle reports for a generated challenge: the bank question it picked and the
+  // encrypted parameters
+  function challengeResults(
+    handles: Uint8Array[],
+    questionId = questionBank.questions[0].id,
+  ) {
+    return ethers.AbiCoder.defaultAbiCoder().encode(
+      ["string", "bytes32[]"],
+      [questionId, handles],
+    );
+  }
+
+  // Plays the computation oracle: generates a challenge for `player`, with an answer key when one is given
+  async function addPersonalizedChallenge(
+    player: HardhatEthersSigner,
+    answerKey?: number,
+    questionId?: string,
+  ) {
+    const tx = await game.connect(player).requestPersonalizedChallenge();
+    const { requestId } = computationRequestOf(game, await tx.wait());
+
+    const input = fhevm
+      .createEncryptedInput(gameAddress, signers.oracle.address)
+      .add32(3)
+      .add32(30);
+    if (answerKey !== undefined) {
+      input.add32(answerKey);
+    }
+    const { handles, inputProof } = await input.encrypt();
+    const results = challengeResults(handles, questionId);
+    await (
+      await game
+        .connect(signers.oracle)
+        .generateChallenge(requestId, results, inputProof)
+    ).wait();
+  }
+
+  async function answerChallenge(
+    player: HardhatEthersSigner,
+    challengeId: number,
+    answer: number,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(gameAddress, player.address)
+      .add32(answer)
+      .encrypt();
+    return game
+      .connect(player)
+      .submitChallengeSolution(challengeId, input.handles[0], input.inputProof);
+  }
+
+  async function submitSolution(
+    player: HardhatEthersSigner,
+    challengeId: number,
+    solution: number,
+  ) {
+    const input = await fhevm
+      .createEncryptedInput(gameAddress, player.address)
+      .add32(solution)
+      .encrypt();
+    const tx = await game
+      .connect(player)
+      .submitChallengeSolution(challengeId, input.handles[0], input.inputProof);
+    return computationRequestOf(game, await tx.wait());
+  }
+
+  // Plays the computation oracle: answers a verification request with an encrypted verdict
+  async function fulfilVerification(requestId: bigint, isCorrect: boolean) {
+    const input = await fhevm
+      .createEncryptedInput(gameAddress, signers.oracle.address)
+      .addBool(isCorrect)
+      .encrypt();
+    const results = ethers.AbiCoder.defaultAbiCoder().encode(
+      ["bytes32"],
+      [input.handles[0]],
+    );
+    const tx = await game
+      .connect(signers.oracle)
+      .verifySolution(requestId, results, input.inputProof);
+    return tx.wait();
+  }
+
+  // What any observer can see of a transaction: which contracts emitted which events
+  function publicTraceOf(receipt: ContractTransactionReceipt | null) {
+    return (receipt?.logs ?? []).map((log) => [log.address, log.topics[0]]);
+  }
+
+  async function decrypt(handle: string, user: HardhatEthersSigner) {
+    return fhevm.userDecryptEuint(FhevmType.euint32, handle, gameAddress, user);
+  }
+
+  async function expectDecryptionDenied(
+    handle: string,
+    user: HardhatEthersSigner,
+  ) {
+    let denied = false;
+    try {
+      await decrypt(handle, user);
+    } catch {
+      denied = true;
+    }
+    expect(
+      denied,
+      `${user.address} should not be able to decrypt ${handle}`,
+    ).to.eq(true);
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      oracle: ethSigners[1],
+      alice: ethSigners[2],
+      bob: ethSigners[3],
+      educator: ethSigners[4],
+    };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ game, gameAddress } = await deployFixture(signers.oracle));
+    await fhevm.assertCoprocessorInitialized(game, "FinancialLiteracyGame");
+  });
+
+  describe("registration", function () {
+    it("registers a player and emits PlayerRegistered", async function () {
+      await expect(register(signers.alice)).to.not.be.reverted;
+
+      const events = await game.queryFilter(
+        game.filters.PlayerRegistered(signers.alice.address),
+      );
+      expect(events.length).to.eq(1);
+      expect(await game.playerCount()).to.eq(1);
+
+      const state = await game.playerStates(signers.alice.address);
+      expect(state.lastChallengeCompleted).to.eq(0);
+      expect(await decrypt(state.encryptedScore, signers.alice)).to.eq(0);
+    });
+
+    it("rejects a second registration from the same account", async function () {
+      await register(signers.alice);
+
+      const input = await fhevm
+        .createEncryptedInput(gameAddress, signers.alice.address)
+        .add32(1)
+        .add32(1)
+        .add32(1)
+        .add32(1000)
+        .add32(6)
+        .add32(100)
+        .encrypt();
+      await expect(
+        game
+          .connect(signers.alice)
+          .registerPlayer(
+            input.handles[0],
+            input.handles[1],
+            input.handles[2],
+            input.handles[3],
+            input.handles[4],
+            input.handles[5],
+            input.inputProof,
+          ),
+      ).to.be.revertedWith("Already registered");
+    });
+
+    it("stores the savings goal encrypted for the player", async function () {
+      await register(signers.alice, 2, 3, 4, [12000, 24, 400]);
+
+      const goal = await game.getEncryptedSavingsGoal(signers.alice.address);
+      expect(await decrypt(goal[0], signers.alice)).to.eq(12000);
+      expect(await decrypt(goal[1], signers.alice)).to.eq(24);
+      expect(await decrypt(goal[2], signers.alice)).to.eq(400);
+      await expectDecryptionDenied(goal[0], signers.bob);
+    });
+
+    it("keeps each player's profile separate", async function () {
+      await register(signers.alice, 1, 1, 0);
+      await register(signers.bob, 3, 2, 4);
+
+      const [aliceLevel] = await game.getEncryptedProfile(
+        signers.alice.address,
+      );
+      const [bobLevel] = await game.getEncryptedProfile(signers.bob.address);
+      expect(await decrypt(aliceLevel, signers.alice)).to.eq(1);
+      expect(await decrypt(bobLevel, signers.bob)).to.eq(3);
+    });
+
+    it("restricts player actions to registered accounts", async function () {
+      await addChallenge();
+
+      const solution = await fhevm
+        .createEncryptedInput(gameAddress, signers.bob.address)
+        .add32(1)
+        .encrypt();
+      await expect(
+        game
+          .connect(signers.bob)
+          .submitChallengeSolution(0, solution.handles[0], solution.inputProof),
+      ).to.be.revertedWith("Player not registered");
+      await expect(
+        game.connect(signers.bob).requestPersonalizedChallenge(),
+      ).to.be.revertedWith("Player not registered");
+      await expect(
+        game.connect(signers.bob).requestRankReveal(),
+      ).to.be.revertedWith("Player not registered");
+
+      const level = await fhevm
+        .createEncryptedInput(gameAddress, signers.bob.address)
+        .add32(2)
+        .encrypt();
+      await expect(
+        game
+          .connect(signers.bob)
+          .updateKnowledgeLevel(level.handles[0], level.inputProof),
+      ).to.be.revertedWith("Player not registered");
+    });
+  });
+
+  describe("challenges", function () {
+    it("adds predefined challenges to the catalogue", async function () {
+      expect(await game.getChallengeCount()).to.eq(0);
+
+      await addChallenge(2, 20, "Budgeting");
+      await addChallenge(4, 40, "Investing");
+
+      expect(await game.getChallengeCount()).to.eq(2);
+      const challenge = await game.challenges(1);
+      expect(challenge.challengeType).to.eq("Investing");
+      expect(challenge.isActive).to.eq(true);
+    });
+
+    it("hands a registered player's profile to the oracle for a personalized challenge", async function () {
+      await register(signers.alice, 2, 3, 1);
+
+      const tx = await game
+        .connect(signers.alice)
+        .requestPersonalizedChallenge();
+      const { requestId, ciphertexts } = computationRequestOf(
+        game,
+        await tx.wait(),
+      );
+
+      expect(ciphertexts.length).to.eq(3);
+      expect(await decrypt(ciphertexts[0], signers.oracle)).to.eq(2);
+      expect(await decrypt(ciphertexts[1], signers.oracle)).to.eq(3);
+      expect(await decrypt(ciphertexts[2], signers.oracle)).to.eq(1);
+      await expect(tx)
+        .to.emit(game, "PersonalizedChallengeGenerated")
+        .withArgs(signers.alice.address, requestId);
+    });
+
+    it("creates the challenge when the oracle fulfils a personalized request", async function () {
+      await register(signers.alice);
+
+      const tx = await game
+        .connect(signers.alice)
+        .requestPersonalizedChallenge();
+      const { requestId } = computationRequestOf(game, await tx.wait());
+
+      const input = await fhevm
+        .createEncryptedInput(gameAddress, signers.oracle.address)
+        .add32(3)
+        .add32(30)
+        .encrypt();
+      const questionId = questionBank.questions[0].id;
+      await expect(
+        game
+          .connect(signers.oracle)
+          .generateChallenge(
+            requestId,
+            challengeResults(input.handles, ""),
+            input.inputProof,
+          ),
+      ).to.be.revertedWith("Missing question");
+      await expect(
+        game
+          .connect(signers.oracle)
+          .generateChallenge(
+            requestId,
+            challengeResults(input.handles, questionId),
+            input.inputProof,
+          ),
+      )
+        .to.emit(game, "PersonalizedChallengeFulfilled")
+        .withArgs(
+          signers.alice.address,
+          requestId,
+          0,
+          `Personalized:${questionId}`,
+        );
+
+      expect(await game.getChallengeCount()).to.eq(1);
+      const challenge = await game.challenges(0);
+      expect(challenge.challengeType).to.eq(`Personalized:${questionId}`);
+      expect(challenge.isActive).to.eq(true);
+    });
+
+    it("announces a personalized challenge by id only once the oracle fulfils it", async function () {
+      await register(signers.alice);
+      await register(signers.bob);
+      await addChallenge();
+
+      // Alice's request stays pending while Bob's is fulfilled
+      const tx = await game
+        .connect(signers.alice)
+        .requestPersonalizedChallenge();
+      const { requestId: pendingRequestId } = computationRequestOf(
+        game,
+        await tx.wait(),
+      );
+      await expect(tx).to.not.emit(game, "PersonalizedChallengeFulfilled");
+      await addPersonalizedChallenge(signers.bob);
+
+      expect(await game.getChallengeCount()).to.eq(2);
+      const fulfilled = await game.queryFilter(
+        game.filters.PersonalizedChallengeFulfilled(),
+      );
+      expect(fulfilled.length).to.eq(1);
+      expect(fulfilled[0].args.player).to.eq(signers.bob.address);
+      expect(fulfilled[0].args.requestId).to.not.eq(pendingRequestId);
+      expect(fulfilled[0].args.challengeId).to.eq(1);
+      expect(fulfilled[0].args.challengeType).to.eq(
+        (await game.challenges(1)).challengeType,
+      );
+    });
+
+    it("rejects solutions for challenges that do not exist", async function () {
+      await register(signers.alice);
+
+      const input = await fhevm
+        .createEncryptedInput(gameAddress, signers.alice.address)
+        .add32(1)
+        .encrypt();
+      await expect(
+        game
+          .connect(signers.alice)
+          .submitChallengeSolution(0, input.handles[0], input.inputProof),
+      ).to.be.revertedWith("Invalid challenge");
+    });
+  });
+
+  describe("solution verification", function () {
+    beforeEach(async function () {
+      await register(signers.alice);
+      await addPersonalizedChallenge(signers.alice);
+    });
+
+    it("requests verification of the encrypted solution", async function () {
+      const { requestId, ciphertexts } = await submitSolution(
+        signers.alice,
+        0,
+        2,
+      );
+
+      expect(requestId).to.not.eq(0n);
+      expect(ciphertexts.length).to.eq(1);
+      expect(await decrypt(ciphertexts[0], signers.oracle)).to.eq(2);
+    });
+
+    it("credits score and progress when the oracle reports a correct answer", async function () {
+      const { requestId } = await submitSolution(signers.alice, 0, 1);
+      const receipt = await fulfilVerification(requestId, true);
+
+      const evaluated = await game.queryFilter(
+        game.filters.SolutionEvaluated(signers.alice.address),
+      );
+      expect(evaluated.length).to.eq(1);
+      expect(evaluated[0].args.challengeId).to.eq(0);
+      expect(evaluated[0].transactionHash).to.eq(receipt?.hash);
+
+      const state = await game.playerStates(signers.alice.address);
+      expect(await decrypt(state.encryptedScore, signers.alice)).to.eq(10);
+      expect(await decrypt(state.encryptedProgress, signers.alice)).to.eq(1);
+    });
+
+    it("leaves score and progress unchanged when the oracle reports a wrong answer", async function () {
+      const { requestId } = await submitSolution(signers.alice, 0, 3);
+      await fulfilVerification(requestId, false);
+
+      expect(
+        (
+          await game.queryFilter(
+            game.filters.SolutionEvaluated(signers.alice.address),
+          )
+        ).length,
+      ).to.eq(1);
+      const state = await game.playerStates(signers.alice.address);
+      expect(await decrypt(state.encryptedScore, signers.alice)).to.eq(0);
+      expect(await decrypt(state.encryptedProgress, signers.alice)).to.eq(0);
+    });
+
+    it("accumulates score and progress over correct answers to different challenges", async function () {
+      await addPersonalizedChallenge(signers.alice);
+      for (const [challengeId, isCorrect] of [
+        [0, true],
+        [1, false],
+        [1, true],
+        [0, true],
+      ] as const) {
+        const { requestId } = await submitSolution(
+          signers.alice,
+          challengeId,
+          1,
+        );
+        await fulfilVerification(requestId, isCorrect);
+      }
+
+      const state = await game.playerStates(signers.alice.address);
+      expect(await decrypt(state.encryptedScore, signers.alice)).to.eq(20);
+      expect(await decrypt(state.encryptedProgress, signers.alice)).to.eq(2);
+      expect(await game.getEncryptedScore(signers.alice.address)).to.eq(
+        state.encryptedScore,
+      );
+    });
+
+    it("rejects callbacks for unknown requests", async function () {
+      const input = await fhevm
+        .createEncryptedInput(gameAddress, signers.oracle.address)
+        .addBool(true)
+        .encrypt();
+      const results = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["bytes32"],
+        [input.handles[0]],
+      );
+      await expect(
+        game
+          .connect(signers.oracle)
+          .verifySolution(12345, results, input.inputProof),
+      ).to.be.revertedWith("Invalid request");
+    });
+
+    it("rejects callbacks routed to the wrong handler", async function () {
+      const { requestId } = await submitSolution(signers.alice, 0, 1);
+
+      const input = await fhevm
+        .createEncryptedInput(gameAddress, signers.oracle.address)
+        .add32(3)
+        .add32(30)
+        .encrypt();
+      const results = challengeResults(input.handles);
+      await expect(
+        game
+          .connect(signers.oracle)
+          .generateChallenge(requestId, results, input.inputProof),
+      ).to.be.revertedWith("Invalid type");
+    });
+  });
+
+  describe("answer keys", function () {
+    beforeEach(async function () {
+      await register(signers.alice);
+      await addChallenge(2, 20, "Budgeting", 2);
+    });
+
+    async function decryptedState(player: HardhatEthersSigner) {
+      const state = await game.playerStates(player.address);
+      return {
+        score: await decrypt(state.encryptedScore, player),
+        progress: await decrypt(state.encryptedProgress, player),
+      };
+    }
+
+    it("credits a correct answer on-chain without an oracle round-trip", async function () {
+      const tx = await answerChallenge(signers.alice, 0, 2);
+      const receipt = await tx.wait();
+
+      await expect(tx)
+        .to.emit(game, "SolutionEvaluated")
+        .withArgs(signers.alice.address, 0);
+      await expect(tx)
+        .to.emit(game, "ScoreUpdated")
+        .withArgs(signers.alice.address);
+      expect(() => computationRequestOf(game, receipt)).to.throw();
+      expect(await decryptedState(signers.alice)).to.deep.eq({
+        score: 10n,
+        progress: 1n,
+      });
+    });
+
+    it("leaves score and progress unchanged on a wrong answer", async function () {
+      await (await answerChallenge(signers.alice, 0, 1)).wait();
+
+      expect(await decryptedState(signers.alice)).to.deep.eq({
+        score: 0n,
+        progress: 0n,
+      });
+    });
+
+    it("accumulates score over correct answers to different challenges", async function () {
+      await addChallenge(1, 10, "Credit", 0);
+      for (const [challengeId, answer] of [
+        [0, 2],
+        [1, 3],
+        [1, 0],
+      ]) {
+        await (
+          await answerChallenge(signers.alice, challengeId, answer)
+        ).wait();
+      }
+
+      expect(await decryptedState(signers.alice)).to.deep.eq({
+        score: 20n,
+        progress: 2n,
+      });
+    });
+
+    it("credits only the first correct answer to a challenge", async function () {
+      await (await answerChallenge(signers.alice, 0, 2)).wait();
+      const rating = await game.getEncryptedRating(signers.alice.address);
+
+      // Solving it again, or failing it after solving it, changes nothing
+      await (await answerChallenge(signers.alice, 0, 2)).wait();
+      await (await answerChallenge(signers.alice, 0, 1)).wait();
+
+      expect(await decryptedState(signers.alice)).to.deep.eq({
+        score: 10n,
+        progress: 1n,
+      });
+      const ratingAfter = await game.getEncryptedRating(signers.alice.address);
+      expect(await decrypt(ratingAfter, signers.alice)).to.eq(
+        await decrypt(rating, signers.alice),
+      );
+    });
+
+    it("keeps the answer key private", async function () {
+      const challenge = await game.challenges(0);
+      await expectDecryptionDenied(challenge.answerKey, signers.alice);
+      await expectDecryptionDenied(challenge.answerKey, signers.deployer);
+    });
+
+    it("verifies personalized challenges that come with an answer key", async function () {
+      await addPersonalizedChallenge(signers.alice, 4);
+
+      const tx = await answerChallenge(signers.alice, 1, 4);
+      await expect(tx)
+        .to.emit(game, "SolutionEvaluated")
+        .withArgs(signers.alice.address, 1);
+      expect((await decryptedState(signers.alice)).score).to.eq(10n);
+    });
+
+    it("shows players the bank question the oracle picked for a personalized challenge", async function () {
+      const question =
+        questionBank.questions[questionBank.questions.length - 1];
+      const correctOption = decodeAnswer(question);
+      await addPersonalizedChallenge(signers.alice, correctOption, question.id);
+
+      const { challengeType } = await game.challenges(1);
+      expect(questionForChallenge(challengeType, 1)).to.eq(question);
+
+      // The answer key is the displayed question's, so the option shown as correct is credited
+      const wrongOption = (correctOption + 1) % question.options.length;
+      await (await answerChallenge(signers.alice, 1, wrongOption)).wait();
+      expect((await decryptedState(signers.alice)).score).to.eq(0n);
+      await (await answerChallenge(signers.alice, 1, correctOption)).wait();
+      expect((await decryptedState(signers.alice)).score).to.eq(10n);
+    });
+
+    it("still sends personalized challenges without an answer key to the oracle", async function () {
+      await addPersonalizedChallenge(signers.alice);
+
+      const tx = await answerChallenge(signers.alice, 1, 4);
+      const { requestId } = computationRequestOf(game, await tx.wait());
+      expect(requestId).to.not.eq(0n);
+    });
+  });
+
+  describe("public traces", function () {
+    beforeEach(async function () {
+      await register(signers.alice);
+      await register(signers.bob);
+      await addChallenge(2, 20, "Budgeting", 2);
+    });
+
+    // Both players start from the same state, so their transactions are directly comparable
+    async function expectIdenticalTraces(
+      correct: ContractTransactionReceipt | null,
+      wrong: ContractTransactionReceipt | null,
+    ) {
+      expect(publicTraceOf(correct)).to.deep.eq(publicTraceOf(wrong));
+      expect(() => decryptionRequestIdOf(correct)).to.throw();
+      expect(() => decryptionRequestIdOf(wrong)).to.throw();
+
+      // Both attempts count as completed, whatever their outcome
+      for (const [player, receipt] of [
+        [signers.alice, correct],
+        [signers.bob, wrong],
+      ] as const) {
+        const block = await ethers.provider.getBlock(receipt!.blockNumber);
+        expect(
+          (await game.playerStates(player.address)).lastChallengeCompleted,
+        ).to.eq(block!.timestamp);
+      }
+    }
+
+    it("does not reveal correctness of answer-key solutions", async function () {
+      const correct = await (await answerChallenge(signers.alice, 0, 2)).wait();
+      const wrong = await (await answerChallenge(signers.bob, 0, 1)).wait();
+
+      await expectIdenticalTraces(correct, wrong);
+    });
+
+    it("does not reveal correctness of oracle-verified solutions", async function () {
+      await addPersonalizedChallenge(signers.alice);
+      const aliceRequest = await submitSolution(signers.alice, 1, 1);
+      const bobRequest = await submitSolution(signers.bob, 1, 3);
+
+      const correct = await fulfilVerification(aliceRequest.requestId, true);
+      const wrong = await fulfilVerification(bobRequest.requestId, false);
+
+      await expectIdenticalTraces(correct, wrong);
+      expect(
+        await fhevm.debugger.decryptEuint(
+          FhevmType.euint32,
+          (await game.playerStates(signers.alice.address)).encryptedScore,
+        ),
+      ).to.eq(10);
+    });
+
+    it("does not reveal whether an answer took the top score", async function () {
+      await addChallenge(2, 20, "Budgeting", 2);
+      await (await answerChallenge(signers.alice, 0, 2)).wait();
+      // Bob's first answers start his day's quests and his record of each challenge, so compare later ones
+      await (await answerChallenge(signers.bob, 0, 1)).wait();
+      await (await answerChallenge(signers.bob, 1, 1)).wait();
+      const tying = await (await answerChallenge(signers.bob, 0, 2)).wait();
+      const overtaking = await (
+        await answerChallenge(signers.bob, 1, 2)
+      ).wait();
+
+      expect(publicTraceOf(tying)).to.deep.eq(publicTraceOf(overtaking));
+    });
+  });
+
+  describe("top score", function () {
+    beforeEach(async function () {
+      await register(signers.alice);
+      await register(signers.bob);
+      await addPersonalizedChallenge(signers.alice);
+    });
+
+    async function solveCorrectly(
+      player: HardhatEthersSigner,
+      challengeId = 0,
+    ) {
+      const { requestId } = await submitSolution(player, challengeId, 1);
+      await fulfilVerification(requestId, true);
+    }
+
+    // Only the contract may decrypt the top score, so read it through the mock's debugger
+    async function topScore() {
+      const [score, player] = await game.getEncryptedTopScore();
+      return {
+        score: await fhevm.debugger.decryptEuint(FhevmType.euint32, score),
+        player: await fhevm.debugger.decryptEaddress(player),
+      };
+    }
+
+    it("records the first player to score as the top player", async function () {
+      await solveCorrectly(signers.alice);
+
+      expect(await topScore()).to.deep.eq({
+        score: 10n,
+        player: signers.alice.address,
+      });
+    });
+
+    it("keeps the top player when another player only ties", async function () {
+      await solveCorrectly(signers.alice);
+      await solveCorrectly(signers.bob);
+
+      expect(await topScore()).to.deep.eq({
+        score: 10n,
+        player: signers.alice.address,
+      });
+    });
+
+    it("moves the top score to a player who overtakes", async function () {
+      await addPersonalizedChallenge(signers.bob);
+      await solveCorrectly(signers.alice);
+      await solveCorrectly(signers.bob);
+      await solveCorrectly(signers.bob, 1);
+
+      expect(await topScore()).to.deep.eq({
+        score: 20n,
+        player: signers.bob.address,
+      });
+    });
+
+    it("does not touch the top score on a wrong answer", async function () {
+      const { requestId } = await submitSolution(signers.alice, 0, 3);
+      await fulfilVerification(requestId, false);
+
+      expect(await topScore()).to.deep.eq({
+        score: 0n,
+        player: ethers.ZeroAddress,
+      });
+    });
+
+    it("keeps the top score private", async function () {
+      await solveCorrectly(signers.alice);
+
+      const [score] = await game.getEncryptedTopScore();
+      await expectDecryptionDenied(score, signers.alice);
+      await expectDecryptionDenied(score, signers.deployer);
+    });
+  });
+
+  describe("leaderboard", function () {
+    beforeEach(async function () {
+      await register(signers.alice);
+      await register(signers.bob);
+      await addChallenge(2, 20, "Budgeting", 2);
+    });
+
+    // Only a player's first correct answer to a challenge is credited, so each one is to a new challenge
+    async function answerCorrectly(player: HardhatEthersSigner, times = 1) {
+      for (let i = 0; i < times; i++) {
+        await addChallenge(2, 20, "Budgeting", 2);
+        const challengeId = Number(await game.getChallengeCount()) - 1;
+        await (await answerChallenge(player, challengeId, 2)).wait();
+      }
+    }
+
+    // Only the contract may decrypt the leaderboard, so read it through the mock's debugger
+    async function leaderboard() {
+      const [scores, players] = await game.getEncryptedLeaderboard();
+      const entries = [];
+      for (let i = 0; i < scores.length; i++) {
+        const player = await fhevm.debugger.decryptEaddress(players[i]);
+        if (player === ethers.ZeroAddress) break;
+        entries.push({
+          player,
+          score: await fhevm.debugger.decryptEuint(
+            FhevmType.euint32,
+            scores[i],
+          ),
+        });
+      }
+      return entries;
+    }
+
+    async function revealRank(player: HardhatEthersSigner) {
+      await (await game.connect(player).requestRankReveal()).wait();
+      await fhevm.awaitDecryptionOracle();
+    }
+
+    it("ranks players by score with one entry each", async function () {
+      await answerCorrectly(signers.alice);
+      await answerCorrectly(signers.bob, 2);
+      await answerCorrectly(signers.alice, 2);
+
+      // Alice's third correct answer of the day also completes the daily quest
+      expect(await leaderboard()).to.deep.eq([
+        { player: signers.alice.address, score: 45n },
+        { player: signers.bob.address, score: 20n },
+      ]);
+    });
+
+    it("leaves players without points off the board", async function () {
+      await (await answerChallenge(signers.alice, 0, 1)).wait();
+
+      expect(await leaderboard()).to.deep.eq([]);
+    });
+
+    it("drops the lowest entry once the board is full", async function () {
+      const size = Number(await game.LEADERBOARD_SIZE());
+      const others = (await ethers.getSigners()).slice(5, 5 + size - 1);
+      for (const player of others) {
+        await register(player);
+        await answerCorrectly(player, 2);
+      }
+      await answerCorrectly(signers.alice);
+      await answerCorrectly(signers.bob, 3);
+
+      const board = await leaderboard();
+      expect(board.length).to.eq(size);
+      expect(board[0]).to.deep.eq({
+        player: signers.bob.address,
+        score: 45n,
+      });
+      expect(board.map((entry) => entry.player)).to.not.include(
+        signers.alice.address,
+      );
+    });
+
+    it("keeps the leaderboard private", async function () {
+      await answerCorrectly(signers.alice);
+
+      const [scores] = await game.getEncryptedLeaderboard();
+      await expectDecryptionDenied(scores[0], signers.alice);
+      await expectDecryptionDenied(scores[0], signers.deployer);
+    });
+
+    it("publishes a rank only when the player asks", async function () {
+      await answerCorrectly(signers.alice);
+      await answerCorrectly(signers.bob, 2);
+      expect((await game.rankReveals(signers.alice.address)).isRevealed).to.eq(
+        false,
+      );
+
+      await revealRank(signers.alice);
+
+      const [revealed] = await game.queryFilter(game.filters.RankRevealed());
+      expect(revealed.args.player).to.eq(signers.alice.address);
+      expect(revealed.args.rank).to.eq(2);
+      const reveal = await game.rankReveals(signers.alice.address);
+      expect(reveal.rank).to.eq(2);
+      expect(reveal.isRevealed).to.eq(true);
+      expect((await game.rankReveals(signers.bob.address)).isRevealed).to.eq(
+        false,
+      );
+    });
+
+    it("reveals rank 0 for players outside the leaderboard", async function () {
+      await revealRank(signers.alice);
+
+      const reveal = await game.rankReveals(signers.alice.address);
+      expect(reveal.rank).to.eq(0);
+      expect(reveal.isRevealed).to.eq(true);
+    });
+
+    it("lets a player hide a revealed rank", async function () {
+      await expect(game.connect(signers.alice).hideRank()).to.be.revertedWith(
+        "Rank not revealed",
+      );
+
+      await answerCorrectly(signers.alice);
+      await revealRank(signers.alice);
+      await expect(game.connect(signers.alice).hideRank())
+        .to.emit(game, "RankHidden")
+        .withArgs(signers.alice.address);
+      expect((await game.rankReveals(signers.alice.address)).isRevealed).to.eq(
+        false,
+      );
+    });
+
+    it("lets players choose a pseudonym", async function () {
+      await expect(game.connect(signers.alice).setPseudonym("Saver"))
+        .to.emit(game, "PseudonymUpdated")
+        .withArgs(signers.alice.address, "Saver");
+      expect(await game.pseudonyms(signers.alice.address)).to.eq("Saver");
+
+      await expect(
+        game.connect(signers.alice).setPseudonym("x".repeat(33)),
+      ).to.be.revertedWith("Pseudonym too long");
+      await expect(
+        game.connect(signers.educator).setPseudonym("Teacher"),
+      ).to.be.revertedWith("Player not registered");
+    });
+  });
+
+  describe("category analytics", function () {
+    const BUDGETING = 0;
+    const CREDIT = 2;
+
+    beforeEach(async function () {
+      await register(signers.alice);
+      await register(signers.bob);
+      await addChallenge(2, 20, "Budgeting", 2, BUDGETING);
+      await addChallenge(3, 30, "Credit", 1, CREDIT);
+      await (await game.setMinCohortSize(2)).wait();
+      await (await game.setEducatorRole(signers.educator.address, true)).wait();
+    });
+
+    async function sharedStats(category: number) {
+      await (
+        await game.connect(signers.educator).shareCategoryStats([category])
+      ).wait();
+      const stats = await game.getCategoryStats(category);
+      return {
+        attempts: await decrypt(stats.attempts, signers.educator),
+        correctAnswers: await decrypt(stats.correctAnswers, signers.educator),
+        difficultyTotal: await decrypt(stats.difficultyTotal, signers.educator),
+        cohortSize: stats.cohortSize,
+      };
+    }
+
+    it("aggregates attempts, correct answers and difficulty per category", async function () {
+      await (await answerChallenge(signers.alice, 0, 2)).wait();
+      await (await answerChallenge(signers.alice, 0, 1)).wait();
+      await (await answerChallenge(signers.bob, 0, 2)).wait();
+      await (await answerChallenge(signers.bob, 1, 1)).wait();
+
+      expect(await sharedStats(BUDGETING)).to.deep.eq({
+        attempts: 3n,
+        correctAnswers: 2n,
+        difficultyTotal: 6n,
+        cohortSize: 2n,
+      });
+      expect((await game.getCategoryStats(CREDIT)).cohortSize).to.eq(1);
+    });
+
+    it("aggregates oracle-verified solutions of personalized challenges", async function () {
+      await addPersonalizedChallenge(signers.alice);
+      const category = Number(await game.PERSONALIZED_CATEGORY());
+      expect((await game.challenges(2)).category).to.eq(category);
+
+      for (const [player, isCorrect] of [
+        [signers.alice, true],
+        [signers.bob, false],
+      ] as const) {
+        const { requestId } = await submitSolution(player, 2, 1);
+        await fulfilVerification(requestId, isCorrect);
+      }
+
+      expect(await sharedStats(category)).to.deep.eq({
+        attempts: 2n,
+        correctAnswers: 1n,
+        difficultyTotal: 6n,
+        cohortSize: 2n,
+      });
+    });
+
+    it("withholds aggregates until the cohort is large enough", async function () {
+      await (await answerChallenge(signers.alice, 0, 2)).wait();
+      await (await answerChallenge(signers.alice, 0, 2)).wait();
+
+      await expect(
+        game.connect(signers.educator).shareCategoryStats([BUDGETING]),
+      ).to.be.revertedWith("Cohort too small");
+      await expect(
+        game.connect(signers.educator).shareCategoryStats([CREDIT]),
+      ).to.be.revertedWith("Cohort too small");
+    });
+
+    it("only shares aggregates with educators", async function () {
+      await (await answerChallenge(signers.alice, 0, 2)).wait();
+      await (await answerChallenge(signers.bob, 0, 2)).wait();
+
+      await expect(
+        game.connect(signers.alice).shareCategoryStats([BUDGETING]),
+      ).to.be.revertedWith("Not educator");
+      await expect(game.shareCategoryStats([BUDGETING])).to.be.revertedWith(
+        "Not educator",
+      );
+
+      const stats = await game.getCategoryStats(BUDGETING);
+      await expectDecryptionDenied(stats.correctAnswers, signers.alice);
+      await expectDecryptionDenied(stats.correctAnswers, signers.educator);
+    });
+
+    it("lets only the owner change the cohort threshold", async function () {
+      await expect(game.setMinCohortSize(3))
+        .to.emit(game, "MinCohortSizeUpdated")
+        .withArgs(3);
+      expect(await game.minCohortSize()).to.eq(3);
+
+      await expect(game.setMinCohortSize(0)).to.be.revertedWith(
+        "Invalid cohort size",
+      );
+      await expect(
+        game.connect(signers.educator).setMinCohortSize(1),
+      ).to.be.revertedWith("Not owner");
+    });
+
+    it("reserves the personalized category for oracle-generated challenges", async function () {
+      await expect(addChallenge(1, 10, "Budgeting", 0, 255)).to.be.revertedWith(
+        "Reserved category",
+      );
+    });
+  });
+
+  describe("adaptive difficulty", function () {
+    async function levelAndRating(player: HardhatEthersSigner) {
+      const [knowledgeLevel] = await game.getEncryptedProfile(player.address);
+      return {
+        level: await decrypt(knowledgeLevel, player),
+        rating: await decrypt(
+          await game.getEncryptedRating(player.address),
+          player,
+        ),
+      };
+    }
+
+    // Answers a new challenge of the given difficulty with answer key 0, since answers to a challenge
+    // the player already solved leave their rating alone
+    async function answer(
+      player: HardhatEthersSigner,
+      difficulty: number,
+      isCorrect: boolean,
+    ) {
+      await addChallenge(difficulty, difficulty * 10, "Budgeting", 0);
+      const challengeId = Number(await game.getChallengeCount()) - 1;
+      await (
+        await answerChallenge(player, challengeId, isCorrect ? 0 : 1)
+      ).wait();
+    }
+
+    it("seeds the rating from the self-assessed knowledge level", async function () {
+      await register(signers.alice, 2);
+
+      expect(await levelAndRating(signers.alice)).to.deep.eq({
+        level: 2n,
+        rating: 800n,
+      });
+    });
+
+    it("clamps self-assessed knowledge levels to the difficulty scale", async function () {
+      await register(signers.alice, 0);
+      await register(signers.bob, 9);
+
+      expect(await levelAndRating(signers.alice)).to.deep.eq({
+        level: 1n,
+        rating: 400n,
+      });
+      expect(await levelAndRating(signers.bob)).to.deep.eq({
+        level: 3n,
+        rating: 1200n,
+      });
+    });
+
+    it("moves the rating evenly against a challenge at the player's level", async function () {
+      await register(signers.alice, 2);
+      await register(signers.bob, 2);
+
+      await answer(signers.alice, 2, true);
+      await answer(signers.bob, 2, false);
+
+      expect((await levelAndRating(signers.alice)).rating).to.eq(832n);
+      expect((await levelAndRating(signers.bob)).rating).to.eq(768n);
+    });
+
+    it("rewards beating a harder challenge more than failing it costs", async function () {
+      await register(signers.alice, 1);
+      await register(signers.bob, 1);
+
+      await answer(signers.alice, 3, true);
+      await answer(signers.bob, 3, false);
+
+      expect((await levelAndRating(signers.alice)).rating).to.eq(448n);
+      expect((await levelAndRating(signers.bob)).rating).to.eq(400n);
+    });
+
+    it("penalises failing an easier challenge more than beating it earns", async function () {
+      await register(signers.alice, 3);
+      await register(signers.bob, 2);
+
+      await answer(signers.alice, 1, false);
+      await answer(signers.bob, 1, true);
+
+      expect((await levelAndRating(signers.alice)).rating).to.eq(1152n);
+      expect((await levelAndRating(signers.bob)).rating).to.eq(816n);
+    });
+
+    it("clamps the rating to the difficulty scale", async function () {
+      await register(signers.alice, 3);
+      await register(signers.bob, 1);
+
+      await answer(signers.alice, 3, true);
+      await answer(signers.bob, 1, false);
+
+      expect(await levelAndRating(signers.alice)).to.deep.eq({
+        level: 3n,
+        rating: 1200n,
+      });
+      expect(await levelAndRating(signers.bob)).to.deep.eq({
+        level: 1n,
+        rating: 400n,
+      });
+    });
+
+    it("moves the player to the next difficulty band", async function () {
+      await register(signers.alice, 2);
+
+      for (let i = 0; i < 4; i++) {
+        await answer(signers.alice, 3, true);
+      }
+      expect(await levelAndRating(signers.alice)).to.deep.eq({
+        level: 2n,
+        rating: 992n,
+      });
+
+      await answer(signers.alice, 3, true);
+      expect(await levelAndRating(signers.alice)).to.deep.eq({
+        level: 3n,
+        rating: 1040n,
+      });
+    });
+
+    it("drops the player to a lower band after repeated mistakes", async function () {
+      await register(signers.alice, 2);
+
+      for (let i = 0; i < 7; i++) {
+        await answer(signers.alice, 2, false);
+      }
+      expect(await levelAndRating(signers.alice)).to.deep.eq({
+        level: 1n,
+        rating: 576n,
+      });
+    });
+
+    it("hands the adapted level to the oracle for personalized challenges", async function () {
+      await register(signers.alice, 2);
+      for (let i = 0; i < 5; i++) {
+        await answer(signers.alice, 3, true);
+      }
+
+      const tx = await game
+        .connect(signers.alice)
+        .requestPersonalizedChallenge();
+      const { ciphertexts } = computationRequestOf(game, await tx.wait());
+      expect(await decrypt(ciphertexts[0], signers.oracle)).to.eq(3);
+    });
+
+    it("reseeds the rating when the player resets their knowledge level", async function () {
+      await register(signers.alice, 2);
+      await answer(signers.alice, 2, true);
+
+      const input = await fhevm
+        .createEncryptedInput(gameAddress, signers.alice.address)
+        .add32(1)
+        .encrypt();
+      await (
+        await game
+          .connect(signers.alice)
+          .updateKnowledgeLevel(input.handles[0], input.inputProof)
+      ).wait();
+
+      expect(await levelAndRating(signers.alice)).to.deep.eq({
+        level: 1n,
+        rating: 400n,
+      });
+    });
+
+    it("keeps the rating private to the player", async function () {
+      await register(signers.alice, 2);
+      await answer(signers.alice, 2, true);
+
+      await expectDecryptionDenied(
+        await game.getEncryptedRating(signers.alice.address),
+        signers.bob,
+      );
+    });
+  });
+
+  describe("streaks and quests", function () {
+    const DAY = 24 * 60 * 60;
+
+    beforeEach(async function () {
+      await register(signers.alice);
+      await addChallenge(2, 20, "Budgeting", 2);
+    });
+
+    // Only a player's first correct answer to a challenge is credited, so each one is to a new challenge.
+    // Wrong answers go to challenge 0.
+    async function answerCorrectly(player: HardhatEthersSigner, times = 1) {
+      for (let i = 0; i < times; i++) {
+        await addChallenge(2, 20, "Budgeting", 2);
+        const challengeId = Number(await game.getChallengeCount()) - 1;
+        await (await answerChallenge(player, challengeId, 2)).wait();
+      }
+    }
+
+    async function scoreOf(player: HardhatEthersSigner) {
+      return decrypt(await game.getEncryptedScore(player.address), player);
+    }
+
+    it("extends the streak on consecutive days and restarts it after a missed day", async function () {
+      await answerCorrectly(signers.alice);
+      expect((await game.getEngagement(signers.alice.address)).streak).to.eq(1);
+
+      await answerCorrectly(signers.alice);
+      expect((await game.getEngagement(signers.alice.address)).streak).to.eq(1);
+
+      await time.increase(DAY);
+      await (await answerChallenge(signers.alice, 0, 1)).wait();
+      expect((await game.getEngagement(signers.alice.address)).streak).to.eq(2);
+
+      await time.increase(2 * DAY);
+      await answerCorrectly(signers.alice);
+      expect((await game.getEngagement(signers.alice.address)).streak).to.eq(1);
+    });
+
+    it("scales the points of correct answers by the streak", async function () {
+      await answerCorrectly(signers.alice);
+      expect(await scoreOf(signers.alice)).to.eq(10);
+
+      await time.increase(DAY);
+      await answerCorrectly(signers.alice);
+      expect(await scoreOf(signers.alice)).to.eq(21);
+
+      // A wrong answer keeps the streak going but earns nothing
+      await time.increase(DAY);
+      await (await answerChallenge(signers.alice, 0, 1)).wait();
+      expect(await scoreOf(signers.alice)).to.eq(21);
+      expect((await game.getEngagement(signers.alice.address)).streak).to.eq(3);
+    });
+
+    it("pays the daily quest bonus once a day", async function () {
+      await answerCorrectly(signers.alice, 2);
+      await (await answerChallenge(signers.alice, 0, 1)).wait();
+      expect(await scoreOf(signers.alice)).to.eq(20);
+
+      await answerCorrectly(signers.alice, 2);
+      expect(await scoreOf(signers.alice)).to.eq(55);
+
+      const { dailyCorrect, weeklyCorrect } = await game.getEngagement(
+        signers.alice.address,
+      );
+      expect(await decrypt(dailyCorrect, signers.alice)).to.eq(4);
+      expect(await decrypt(weeklyCorrect, signers.alice)).to.eq(4);
+      await expectDecryptionDenied(dailyCorrect, signers.bob);
+    });
+
+    it("only counts the first correct answer to each challenge towards quests", async function () {
+      await answerCorrectly(signers.alice, 2);
+      // Challenges 1 and 2 were just solved
+      await (await answerChallenge(signers.alice, 1, 2)).wait();
+      await (await answerChallenge(signers.alice, 2, 2)).wait();
+      expect(await scoreOf(signers.alice)).to.eq(20);
+      const { dailyCorrect, weeklyCorrect } = await game.getEngagement(
+        signers.alice.address,
+      );
+      expect(await decrypt(dailyCorrect, signers.alice)).to.eq(2);
+      expect(await decrypt(weeklyCorrect, signers.alice)).to.eq(2);
+
+      await answerCorrectly(signers.alice);
+      expect(await scoreOf(signers.alice)).to.eq(30 + 15);
+    });
+
+    it("counts quests from zero in a new day and week", async function () {
+      await answerCorrectly(signers.alice, 2);
+      await time.increase(7 * DAY);
+      await answerCorrectly(signers.alice);
+
+      const { dailyCorrect, weeklyCorrect } = await game.getEngagement(
+        signers.alice.address,
+      );
+      expect(await decrypt(dailyCorrect, signers.alice)).to.eq(1);
+      expect(await decrypt(weeklyCorrect, signers.alice)).to.eq(1);
+    });
+
+    it("pays the weekly quest bonus on the tenth correct answer of the week", async function () {
+      await answerCorrectly(signers.alice, 10);
+
+      // Ten distinct challenges, the daily quest and the weekly quest
+      expect(await scoreOf(signers.alice)).to.eq(100 + 15 + 50);
+    });
+
+    it("records when players last played", async function () {
+      expect(await game.getLastPlayed(signers.alice.address)).to.eq(0);
+
+      const answer = await (await answerChallenge(signers.alice, 0, 1)).wait();
+      const answeredAt = (await ethers.provider.getBlock(answer!.blockNumber))!
+        .timestamp;
+      expect(await game.getLastPlayed(signers.alice.address)).to.eq(answeredAt);
+
+      await time.increase(DAY);
+      const input = await fhevm
+        .createEncryptedInput(gameAddress, signers.alice.address)
+        .add32(3)
+        .encrypt();
+      const practice = await (
+        await game
+          .connect(signers.alice)
+          .submitTaxPractice(input.handles[0], input.inputProof)
+      ).wait();
+      const practisedAt = (await ethers.provider.getBlock(
+        practice!.blockNumber,
+      ))!.timestamp;
+      expect(await game.getLastPlayed(signers.alice.address)).to.eq(
+        practisedAt,
+      );
+    });
+  });
+
+  describe("investing simulation", function () {
+    const INVESTING_GOAL = 1;
+    const BUDGETING_GOAL = 0;
+
+    async function submitSimulation(
+      player: HardhatEthersSigner,
+      portfolioRisk: number,
+      growthPercent: number,
+    ) {
+      const input = await fhevm
+        .createEncryptedInput(gameAddress, player.address)
+        .add32(portfolioRisk)
+        .add32(growthPercent)
+        .encrypt();
+      return game
+        .connect(player)
+        .submitInvestingSimulation(
+          input.handles[0],
+          input.handles[1],
+          input.inputProof,
+        );
+    }
+
+    async function scoreOf(player: HardhatEthersSigner) {
+      return decrypt(await game.getEncryptedScore(player.address), player);
+    }
+
+    it("rewards a portfolio that matches the player's risk tolerance", async function () {
+      await register(signers.alice, 2, 2, BUDGETING_GOAL);
+
+      const tx = await submitSimulation(signers.alice, 2, 20);
+      await expect(tx)
+        .to.emit(game, "PracticeScored")
+        .withArgs(signers.alice.address, 0);
+      await expect(tx)
+        .to.emit(game, "ScoreUpdated")
+        .withArgs(signers.alice.address);
+      expect(await scoreOf(signers.alice)).to.eq(20 + 4);
+    });
+
+    it("scores portfolios further from the risk tolerance lower", async function () {
+      await register(signers.alice, 2, 1, BUDGETING_GOAL);
+      await register(signers.bob, 2, 1, BUDGETING_GOAL);
+
+      await (await submitSimulation(signers.alice, 2, 20)).wait();
+      await (await submitSimulation(signers.bob, 3, 20)).wait();
+
+      expect(await scoreOf(signers.alice)).to.eq(10 + 4);
+      expect(await scoreOf(signers.bob)).to.eq(0 + 4);
+    });
+
+    it("doubles growth points for players whose goal is investing", async function () {
+      await register(signers.alice, 2, 2, INVESTING_GOAL);
+
+      await (await submitSimulation(signers.alice, 2, 20)).wait();
+
+      expect(await scoreOf(signers.alice)).to.eq(20 + 8);
+    });
+
+    it("caps self-reported outcomes", async function () {
+      await register(signers.alice, 2, 3, INVESTING_GOAL);
+
+      await (await submitSimulation(signers.alice, 9, 1000)).wait();
+
+      expect(await scoreOf(signers.alice)).to.eq(20 + 20);
+    });
+
+    it("does not change progress but updates the leaderboard", async function () {
+      await register(signers.alice, 2, 2, BUDGETING_GOAL);
+
+      await (await submitSimulation(signers.alice, 2, 0)).wait();
+
+      const state = await game.playerStates(signers.alice.address);
+      expect(await decrypt(state.encryptedProgress, signers.alice)).to.eq(0);
+      const [score, player] = await game.getEncryptedTopScore();
+      expect(await fhevm.debugger.decryptEuint(FhevmType.euint32, score)).to.eq(
+        20,
+      );
+      expect(await fhevm.debugger.decryptEaddress(player)).to.eq(
+        signers.alice.address,
+      );
+    });
+
+    it("allows one scored simulation per cooldown", async function () {
+      await register(signers.alice, 2, 2, BUDGETING_GOAL);
+      await (await submitSimulation(signers.alice, 2, 0)).wait();
+
+      await expect(submitSimulation(signers.alice, 2, 0)).to.be.revertedWith(
+        "Practice cooldown",
+      );
+
+      await time.increase(await game.PRACTICE_COOLDOWN());
+      await (await submitSimulation(signers.alice, 2, 0)).wait();
+      expect(await scoreOf(signers.alice)).to.eq(40);
+    });
+
+    it("only scores registered players", async function () {
+      await expect(submitSimulation(signers.bob, 2, 0)).to.be.revertedWith(
+        "Player not registered",
+      );
+    });
+  });
+
+  describe("budgeting summary", function () {
+    const BUDGETING_GOAL = 0;
+    const INVESTING_GOAL = 1;
+
+    async function submitSummary(
+      player: HardhatEthersSigner,
+      monthsOnTarget: number,
+      categorizationAccuracy: number,
+    ) {
+      const input = await fhevm
+        .createEncryptedInput(gameAddress, player.address)
+        .add32(monthsOnTarget)
+        .add32(categorizationAccuracy)
+        .encrypt();
+      return game
+        .connect(player)
+        .submitBudgetSummary(
+          input.handles[0],
+          input.handles[1],
+          input.inputProof,
+        );
+    }
+
+    async function scoreOf(player: HardhatEthersSigner) {
+      return decrypt(await game.getEncryptedScore(player.address), player);
+    }
+
+    it("scores months on target and categorization accuracy", async function () {
+      await register(signers.alice, 2, 2, INVESTING_GOAL);
+
+      const tx = await submitSummary(signers.alice, 2, 80);
+      await expect(tx)
+        .to.emit(game, "PracticeScored")
+        .withArgs(signers.alice.address, 1);
+      expect(await scoreOf(signers.alice)).to.eq(10 + 8);
+    });
+
+    it("doubles target points for players whose goal is budgeting", async function () {
+      await register(signers.alice, 2, 2, BUDGETING_GOAL);
+
+      await (await submitSummary(signers.alice, 2, 80)).wait();
+
+      expect(await scoreOf(signers.alice)).to.eq(20 + 8);
+    });
+
+    it("caps self-reported outcomes", async function () {
+      await register(signers.alice, 2, 2, BUDGETING_GOAL);
+
+      await (await submitSummary(signers.alice, 12, 1000)).wait();
+
+      expect(await scoreOf(signers.alice)).to.eq(30 + 10);
+    });
+
+    it("keeps a cooldown separate from other practice modes", async function () {
+      await register(signers.alice, 2, 2, INVESTING_GOAL);
+      const input = await fhevm
+        .createEncryptedInput(gameAddress, signers.alice.address)
+        .add32(2)
+        .add32(0)
+        .encrypt();
+      await (
+        await game
+          .connect(signers.alice)
+          .submitInvestingSimulation(
+            input.handles[0],
+            input.handles[1],
+            input.inputProof,
+          )
+      ).wait();
+
+      await (await submitSummary(signers.alice, 0, 0)).wait();
+      await expect(submitSummary(signers.alice, 0, 0)).to.be.revertedWith(
+        "Practice cooldown",
+      );
+    });
+
+    it("only scores registered players", async function () {
+      await expect(submitSummary(signers.bob, 3, 100)).to.be.revertedWith(
+        "Player not registered",
+      );
+    });
+  });
+
+  describe("credit simulation", function () {
+    const CREDIT_GOAL = 2;
+    const INVESTING_GOAL = 1;
+
+    async function submitCreditScore(
+      player: HardhatEthersSigner,
+      creditScore: number,
+    ) {
+      const input = await fhevm
+        .createEncryptedInput(gameAddress, player.address)
+        .add32(creditScore)
+        .encrypt();
+      return game
+        .connect(player)
+        .submitCreditSimulation(input.handles[0], input.inputProof);
+    }
+
+    async function scoreAndProgressOf(player: HardhatEthersSigner) {
+      const state = await game.playerStates(player.address);
+      return [
+        await decrypt(state.encryptedScore, player),
+        await decrypt(state.encryptedProgress, player),
+      ];
+    }
+
+    it("scores the final credit score and counts a good score as progress", async function () {
+      await register(signers.alice, 2, 2, INVESTING_GOAL);
+
+      const tx = await submitCreditScore(signers.alice, 742);
+      await expect(tx)
+        .to.emit(game, "PracticeScored")
+        .withArgs(signers.alice.address, 2);
+      expect(await scoreAndProgressOf(signers.alice)).to.deep.eq([19, 1]);
+    });
+
+    it("does not count a fair score as progress", async function () {
+      await register(signers.alice, 2, 2, INVESTING_GOAL);
+
+      await (await submitCreditScore(signers.alice, 640)).wait();
+
+      expect(await scoreAndProgressOf(signers.alice)).to.deep.eq([9, 0]);
+    });
+
+    it("adds a bonus for a good score when the player's goal is credit", async function () {
+      await register(signers.alice, 2, 2, CREDIT_GOAL);
+      await register(signers.bob, 2, 2, CREDIT_GOAL);
+
+      await (await submitCreditScore(signers.alice, 700)).wait();
+      await (await submitCreditScore(signers.bob, 690)).wait();
+
+      expect(await scoreAndProgressOf(signers.alice)).to.deep.eq([25, 1]);
+      expect(await scoreAndProgressOf(signers.bob)).to.deep.eq([14, 0]);
+    });
+
+    it("clamps self-reported scores to the credit score range", async function () {
+      await register(signers.alice, 2, 2, CREDIT_GOAL);
+      await register(signers.bob, 2, 2, CREDIT_GOAL);
+
+      await (await submitCreditScore(signers.alice, 5000)).wait();
+      await (await submitCreditScore(signers.bob, 120)).wait();
+
+      expect(await scoreAndProgressOf(signers.alice)).to.deep.eq([40, 1]);
+      expect(await scoreAndProgressOf(signers.bob)).to.deep.eq([0, 0]);
+    });
+
+    it("allows one scored simulation per cooldown", async function () {
+      await register(signers.alice);
+      await (await submitCreditScore(signers.alice, 700)).wait();
+
+      await expect(submitCreditScore(signers.alice, 700)).to.be.revertedWith(
+        "Practice cooldown",
+      );
+    });
+  });
+
+  describe("tax practice", function () {
+    const TAXES_GOAL = 3;
+
+    async function submitTaxPractice(
+      player: HardhatEthersSigner,
+      correctAnswers: number,
+    ) {
+      const input = await fhevm
+        .createEncryptedInput(gameAddress, player.address)
+        .add32(correctAnswers)
+        .encrypt();
+      return game
+        .connect(player)
+        .submitTaxPractice(input.handles[0], input.inputProof);
+    }
+
+    async function scoreOf(player: HardhatEthersSigner) {
+      return decrypt(await game.getEncryptedScore(player.address), player);
+    }
+
+    it("scores correct answers", async function () {
+      await register(signers.alice);
+
+      const tx = await submitTaxPractice(signers.alice, 3);
+      await expect(tx)
+        .to.emit(game, "PracticeScored")
+        .withArgs(signers.alice.address, 3);
+      expect(await scoreOf(signers.alice)).to.eq(12);
+    });
+
+    it("doubles points for players whose goal is taxes", async function () {
+      await register(signers.alice, 2, 2, TAXES_GOAL);
+
+      await (await submitTaxPractice(signers.alice, 3)).wait();
+
+      expect(await scoreOf(signers.alice)).to.eq(24);
+    });
+
+    it("caps the number of correct answers at the round size", async function () {
+      await register(signers.alice, 2, 2, TAXES_GOAL);
+
+      await (await submitTaxPractice(signers.alice, 50)).wait();
+
+      expect(await scoreOf(signers.alice)).to.eq(40);
+    });
+  });
+
+  describe("savings plan", function () {
+    const SAVINGS_GOAL = 4;
+    const INVESTING_GOAL = 1;
+    // Target 6000, 12 months, up to 500 a month
+    const goal: [number, number, number] = [6000, 12, 500];
+
+    async function submitPlan(
+      player: HardhatEthersSigner,
+      projectedAmount: number,
+      planContribution: number,
+    ) {
+      const input = await fhevm
+        .createEncryptedInput(gameAddress, player.address)
+        .add32(projectedAmount)
+        .add32(planContribution)
+        .encrypt();
+      return game
+        .connect(player)
+        .submitSavingsPlan(
+          input.handles[0],
+          input.handles[1],
+          input.inputProof,
+        );
+    }
+
+    async function scoreOf(player: HardhatEthersSigner) {
+      return decrypt(await game.getEncryptedScore(player.address), player);
+    }
+
+    it("rewards an affordable plan that reaches the goal", async function () {
+      await register(signers.alice, 2, 2, INVESTING_GOAL, goal);
+
+      const tx = await submitPlan(signers.alice, 6100, 500);
+      await expect(tx)
+        .to.emit(game, "PracticeScored")
+        .withArgs(signers.alice.address, 4);
+      expect(await scoreOf(signers.alice)).to.eq(30);
+    });
+
+    it("adds a bonus when the player's focus is saving", async function () {
+      await register(signers.alice, 2, 2, SAVINGS_GOAL, goal);
+
+      await (await submitPlan(signers.alice, 6000, 450)).wait();
+
+      expect(await scoreOf(signers.alice)).to.eq(40);
+    });
+
+    it("gives partial credit for a plan within a quarter of the goal", async function () {
+      await register(signers.alice, 2, 2, SAVINGS_GOAL, goal);
+      await register(signers.bob, 2, 2, SAVINGS_GOAL, goal);
+
+      await (await submitPlan(signers.alice, 4500, 400)).wait();
+      await (await submitPlan(signers.bob, 4499, 400)).wait();
+
+      expect(await scoreOf(signers.alice)).to.eq(15);
+      expect(await scoreOf(signers.bob)).to.eq(0);
+    });
+
+    it("does not score plans the player cannot afford", async function () {
+      await register(signers.alice, 2, 2, SAVINGS_GOAL, goal);
+
+      await (await submitPlan(signers.alice, 9000, 750)).wait();
+
+      expect(await scoreOf(signers.alice)).to.eq(0);
+    });
+
+    it("scores against an updated savings goal", async function () {
+      await register(signers.alice, 2, 2, INVESTING_GOAL, goal);
+      const input = await fhevm
+        .createEncryptedInput(gameAddress, signers.alice.address)
+        .add32(20000)
+        .add32(36)
+        .add32(600)
+        .encrypt();
+      await expect(
+        game
+          .connect(signers.alice)
+          .updateSavingsGoal(
+            input.handles[0],
+            input.handles[1],
+            input.handles[2],
+            input.inputProof,
+          ),
+      )
+        .to.emit(game, "SavingsGoalUpdated")
+        .withArgs(signers.alice.address);
+
+      await (await submitPlan(signers.alice, 6100, 500)).wait();
+
+      expect(await scoreOf(signers.alice)).to.eq(0);
+    });
+  });
+
+  describe("staking", function () {
+    const STAKE = ethers.parseEther("0.1");
+    const REWARD = ethers.parseEther("0.01");
+    const POOL = ethers.parseEther("1");
+    const Status = { Won: 3n, Forfeited: 4n, Refunded: 5n };
+    let staking: ChallengeStaking;
+
+    beforeEach(async function () {
+      staking = await (
+        await ethers.getContractFactory("ChallengeStaking")
+      ).deploy(gameAddress);
+      await (await game.setStaking(await staking.getAddress())).wait();
+      await (await staking.fundRewardPool({ value: POOL })).wait();
+      await register(signers.alice);
+      // Challenge 0 has an answer key; challenge 1 is verified by the oracle and takes stakes
+      await addChallenge();
+      await addPersonalizedChallenge(signers.alice);
+    });
+
+    async function stakeAnswer(
+      player: HardhatEthersSigner,
+      challengeId: number,
+      answer: number,
+      value: bigint,
+    ) {
+      const input = await fhevm
+        .createEncryptedInput(gameAddress, player.address)
+        .add32(answer)
+        .encrypt();
+      return game
+        .connect(player)
+        .submitChallengeSolution(
+          challengeId,
+          input.handles[0],
+          input.inputProof,
+          { value },
+        );
+    }
+
+    // Stakes on the oracle-verified challenge and returns its verification request
+    async function stakeOnChallenge(
+      player: HardhatEthersSigner,
+      value = STAKE,
+    ) {
+      const tx = await stakeAnswer(player, 1, 1, value);
+      return computationRequestOf(game, await tx.wait()).requestId;
+    }
+
+    // Plays the computation and decryption oracles for a staked attempt
+    async function settleAttempt(requestId: bigint, isCorrect: boolean) {
+      await fulfilVerification(requestId, isCorrect);
+      await fhevm.awaitDecryptionOracle();
+    }
+
+    async function expectEscrowBalanced() {
+      const balance = await ethers.provider.getBalance(
+        await staking.getAddress(),
+      );
+      const held =
+        (await staking.rewardPool()) +
+        (await staking.escrowedStakes()) +
+        (await staking.totalClaimable());
+      expect(balance).to.eq(held);
+    }
+
+    it("escrows a stake and reserves its reward from the pool", async function () {
+      await expect(stakeAnswer(signers.alice, 1, 1, STAKE))
+        .to.emit(staking, "StakePlaced")
+        .withArgs(1, signers.alice.address, 1, STAKE, REWARD);
+
+      expect(await staking.escrowedStakes()).to.eq(STAKE + REWARD);
+      expect(await staking.rewardPool()).to.eq(POOL - REWARD);
+      await expectEscrowBalanced();
+    });
+
+    it("pays a correct staked answer its stake plus the reward", async function () {
+      await settleAttempt(await stakeOnChallenge(signers.alice), true);
+
+      expect((await staking.stakes(1)).status).to.eq(Status.Won);
+      expect(await staking.claimable(signers.alice.address)).to.eq(
+        STAKE + REWARD,
+      );
+      expect(await staking.escrowedStakes()).to.eq(0);
+      await expectEscrowBalanced();
+
+      const events = await staking.queryFilter(staking.filters.StakeSettled(1));
+      expect(events[0].args.won).to.eq(true);
+      expect(events[0].args.payout).to.eq(STAKE + REWARD);
+
+      // The score is still credited as for any correct answer
+      const state = await game.playerStates(signers.alice.address);
+      expect(await decrypt(state.encryptedScore, signers.alice)).to.eq(10);
+    });
+
+    it("forfeits a wrong staked answer to the treasury", async function () {
+      await settleAttempt(await stakeOnChallenge(signers.alice), false);
+
+      expect((await staking.stakes(1)).status).to.eq(Status.Forfeited);
+      expect(await staking.claimable(signers.alice.address)).to.eq(0);
+      expect(await staking.claimable(signers.deployer.address)).to.eq(STAKE);
+      expect(await staking.rewardPool()).to.eq(POOL);
+      await expectEscrowBalanced();
+    });
+
+    it("settles stakes once the oracle has answered", async function () {
+      const requestId = await stakeOnChallenge(signers.alice);
+      await fhevm.awaitDecryptionOracle();
+      expect((await staking.stakes(1)).status).to.eq(1n);
+
+      await settleAttempt(requestId, true);
+
+      expect((await staking.stakes(1)).status).to.eq(Status.Won);
+      expect(await staking.claimable(signers.alice.address)).to.eq(
+        STAKE + REWARD,
+      );
+    });
+
+    it("takes no stakes on challenges with an answer key", async function () {
+      await expect(stakeAnswer(signers.alice, 0, 1, STAKE)).to.be.revertedWith(
+        "Challenge takes no stakes",
+      );
+      await addPersonalizedChallenge(signers.alice, 1);
+      await expect(stakeAnswer(signers.alice, 2, 1, STAKE)).to.be.revertedWith(
+        "Challenge takes no stakes",
+      );
+    });
+
+    it("allows a single staked attempt per player and challenge", async function () {
+      await settleAttempt(await stakeOnChallenge(signers.alice), true);
+      expect(await staking.hasStaked(signers.alice.address, 1)).to.eq(true);
+
+      await expect(stakeAnswer(signers.alice, 1, 1, STAKE)).to.be.revertedWith(
+        "Challenge already staked",
+      );
+      // Unstaked attempts and other players are not affected
+      await (await answerChallenge(signers.alice, 1, 1)).wait();
+      await register(signers.bob);
+      await expect(stakeAnswer(signers.bob, 1, 1, STAKE)).to.emit(
+        staking,
+        "StakePlaced",
+      );
+    });
+
+    it("refunds the stake when the oracle rejects the attempt", async function () {
+      const requestId = await stakeOnChallenge(signers.alice);
+
+      await expect(
+        game.connect(signers.oracle).rejectRequest(requestId, "Timed out"),
+      )
+        .to.emit(staking, "StakeRefunded")
+        .withArgs(1, signers.alice.address, STAKE);
+
+      expect((await staking.stakes(1)).status).to.eq(Status.Refunded);
+      expect(await staking.claimable(signers.alice.address)).to.eq(STAKE);
+      expect(await staking.rewardPool()).to.eq(POOL);
+      await expectEscrowBalanced();
+    });
+
+    it("lets the player reclaim a stake the oracle never verified", async function () {
+      const requestId = await stakeOnChallenge(signers.alice);
+      await expect(
+        staking.connect(signers.alice).reclaimStake(1),
+      ).to.be.revertedWith("Settlement not overdue");
+
+      await time.increase(Number(await staking.SETTLEMENT_TIMEOUT()) + 1);
+      await expect(
+        staking.connect(signers.bob).reclaimStake(1),
+      ).to.be.revertedWith("Not stake owner");
+      await expect(staking.connect(signers.alice).reclaimStake(1))
+        .to.emit(staking, "StakeRefunded")
+        .withArgs(1, signers.alice.address, STAKE);
+
+      expect((await staking.stakes(1)).status).to.eq(Status.Refunded);
+      expect(await staking.claimable(signers.alice.address)).to.eq(STAKE);
+      expect(await staking.rewardPool()).to.eq(POOL);
+      await expectEscrowBalanced();
+
+      // A late verdict still counts for the game but no longer moves the stake
+      await settleAttempt(requestId, true);
+      expect((await staking.stakes(1)).status).to.eq(Status.Refunded);
+      expect(await staking.claimable(signers.alice.address)).to.eq(STAKE);
+      await expectEscrowBalanced();
+      const state = await game.playerStates(signers.alice.address);
+      expect(await decrypt(state.encryptedScore, signers.alice)).to.eq(10);
+    });
+
+    it("lets the player reclaim a stake whose decryption is overdue", async function () {
+      await fulfilVerification(await stakeOnChallenge(signers.alice), false);
+      expect((await staking.stakes(1)).status).to.eq(2n);
+
+      await time.increase(Number(await staking.SETTLEMENT_TIMEOUT()) + 1);
+      await (await staking.connect(signers.alice).reclaimStake(1)).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      expect((await staking.stakes(1)).status).to.eq(Status.Refunded);
+      expect(await staking.claimable(signers.alice.address)).to.eq(STAKE);
+      expect(await staking.claimable(signers.deployer.address)).to.eq(0);
+      await expectEscrowBalanced();
+    });
+
+    it("does not reclaim settled stakes", async function () {
+      await settleAttempt(await stakeOnChallenge(signers.alice), true);
+      await time.increase(Number(await staking.SETTLEMENT_TIMEOUT()) + 1);
+
+      await expect(
+        staking.connect(signers.alice).reclaimStake(1),
+      ).to.be.revertedWith("Stake already settled");
+    });
+
+    it("pays out claims and clears them", async function () {
+      await settleAttempt(await stakeOnChallenge(signers.alice), true);
+
+      await expect(
+        staking.connect(signers.alice).claim(),
+      ).to.changeEtherBalances(
+        [signers.alice, staking],
+        [STAKE + REWARD, -(STAKE + REWARD)],
+      );
+      expect(await staking.claimable(signers.alice.address)).to.eq(0);
+      await expectEscrowBalanced();
+
+      await expect(staking.connect(signers.alice).claim()).to.be.revertedWith(
+        "Nothing to claim",
+      );
+    });
+
+    it("requires the reward pool to cover the reward", async function () {
+      await expect(
+        stakeAnswer(signers.alice, 1, 1, ethers.parseEther("20")),
+      ).to.be.revertedWith("Reward pool too low");
+    });
+
+    it("does not publish the outcome of unstaked attempts", async function () {
+      const receipt = await (await answerChallenge(signers.alice, 0, 1)).wait();
+      expect(() => decryptionRequestIdOf(receipt)).to.throw();
+      expect(await staking.stakeCount()).to.eq(0);
+    });
+
+    it("rejects stakes while no escrow is connected", async function () {
+      ({ game, gameAddress } = await deployFixture(signers.oracle));
+      await register(signers.alice);
+      await addPersonalizedChallenge(signers.alice);
+
+      await expect(stakeAnswer(signers.alice, 0, 1, STAKE)).to.be.revertedWith(
+        "Staking disabled",
+      );
+    });
+
+    it("only lets the game place, settle and refund stakes", async function () {
+      await expect(
+        staking.placeStake(signers.alice.address, 0, { value: STAKE }),
+      ).to.be.revertedWith("Not game");
+      await expect(staking.settle(1, ethers.ZeroHash)).to.be.revertedWith(
+        "Not game",
+      );
+      await expect(staking.refund(1)).to.be.revertedWith("Not game");
+      await expect(staking.settleStake(12345, "0x", "0x")).to.be.revertedWith(
+        "Invalid request",
+      );
+    });
+
+    it("connects the escrow once, and only one made for this game", async function () {
+      await expect(
+        game.setStaking(await staking.getAddress()),
+      ).to.be.revertedWith("Staking already set");
+
+      const { game: other } = await deployFixture(signers.oracle);
+      await expect(
+        other.setStaking(await staking.getAddress()),
+      ).to.be.revertedWith("Invalid staking");
+    });
+
+    it("lets the owner set the treasury and reward rate", async function () {
+      await expect(staking.setTreasury(signers.educator.address))
+        .to.emit(staking, "TreasuryUpdated")
+        .withArgs(signers.educator.address);
+      await expect(staking.setRewardBps(2_000))
+        .to.emit(staking, "RewardRateUpdated")
+        .withArgs(2_000);
+
+      await settleAttempt(await stakeOnChallenge(signers.alice), false);
+      expect(await staking.claimable(signers.educator.address)).to.eq(STAKE);
+
+      await expect(staking.setRewardBps(10_001)).to.be.revertedWith(
+        "Invalid reward rate",
+      );
+      await expect(staking.setTreasury(ethers.ZeroAddress)).to.be.revertedWith(
+        "Invalid treasury",
+      );
+      await expect(
+        staking.connect(signers.alice).setTreasury(signers.alice.address),
+      ).to.be.revertedWith("Not owner");
+    });
+  });
+
+  describe("rewards", function () {
+    const Badge = { FirstCompletion: 1, CategoryMastery: 2, WeekStreak: 3 };
+    let rewards: LiteracyRewards;
+    let rewardsAddress: string;
+    let points: LiteracyPoint;
+    let badges: LiteracyBadges;
+
+    beforeEach(async function () {
+      rewards = await (
+        await ethers.getContractFactory("LiteracyRewards")
+      ).deploy(gameAddress, "");
+      rewardsAddress = await rewards.getAddress();
+      await (await game.setRewards(rewardsAddress)).wait();
+      points = await ethers.getContractAt(
+        "LiteracyPoint",
+        await rewards.points(),
+      );
+      badges = await ethers.getContractAt(
+        "LiteracyBadges",
+        await rewards.badges(),
+      );
+      await register(signers.alice);
+      await addChallenge();
+    });
+
+    async function decryptReward(handle: string, user: HardhatEthersSigner) {
+      return fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        handle,
+        rewardsAddress,
+        user,
+      );
+    }
+
+    async function pendingPointsOf(player: HardhatEthersSigner) {
+      return decryptReward(
+        await rewards.getEncryptedPendingPoints(player.address),
+        player,
+      );
+    }
+
+    async function claimBadge(
+      player: HardhatEthersSigner,
+      badgeId: number,
+      categories: number[] = [],
+    ) {
+      await (
+        await rewards.connect(player).claimBadge(badgeId, categories)
+      ).wait();
+      await fhevm.awaitDecryptionOracle();
+    }
+
+    it("accumulates the rewards of correct answers for the player only", async function () {
+      await addChallenge(2, 20, "Investing", 3, 1);
+      await (await answerChallenge(signers.alice, 0, 1)).wait();
+      await (await answerChallenge(signers.alice, 1, 4)).wait();
+
+      expect(await pendingPointsOf(signers.alice)).to.eq(30);
+      const [completions, budgeting] = await rewards.getEncryptedCorrectAnswers(
+        signers.alice.address,
+        0,
+      );
+      expect(await decryptReward(completions, signers.alice)).to.eq(1);
+      expect(await decryptReward(budgeting, signers.alice)).to.eq(1);
+
+      let denied = false;
+      try {
+        await decryptReward(
+          await rewards.getEncryptedPendingPoints(signers.alice.address),
+          signers.bob,
+        );
+      } catch {
+        denied = true;
+      }
+      expect(denied).to.eq(true);
+    });
+
+    it("credits only the first correct solution of a challenge", async function () {
+      await (await answerChallenge(signers.alice, 0, 2)).wait();
+      await (await answerChallenge(signers.alice, 0, 1)).wait();
+      const repeat = await (await answerChallenge(signers.alice, 0, 1)).wait();
+
+      // Repeating a solved challenge still records the attempt, but earns nothing
+      expect(
+        repeat!.logs.some(
+          (log) =>
+            log.address === rewardsAddress &&
+            rewards.interface.parseLog(log)?.name === "SolutionRecorded",
+        ),
+      ).to.eq(true);
+      expect(await pendingPointsOf(signers.alice)).to.eq(30);
+      const [completions, budgeting] = await rewards.getEncryptedCorrectAnswers(
+        signers.alice.address,
+        0,
+      );
+      expect(await decryptReward(completions, signers.alice)).to.eq(1);
+      expect(await decryptReward(budgeting, signers.alice)).to.eq(1);
+    });
+
+    it("records oracle-verified answers", async function () {
+      await addPersonalizedChallenge(signers.alice);
+      const { requestId } = await submitSolution(signers.alice, 1, 7);
+      await fulfilVerification(requestId, true);
+
+      expect(await pendingPointsOf(signers.alice)).to.eq(30);
+      const [completions] = await rewards.getEncryptedCorrectAnswers(
+        signers.alice.address,
+        0,
+      );
+      expect(await decryptReward(completions, signers.alice)).to.eq(1);
+    });
+
+    it("leaves the same public trace for correct and wrong answers", async function () {
+      await register(signers.bob);
+      const correct = await (await answerChallenge(signers.alice, 0, 1)).wait();
+      const wrong = await (await answerChallenge(signers.bob, 0, 2)).wait();
+
+      expect(publicTraceOf(correct)).to.deep.eq(publicTraceOf(wrong));
+      expect(() => decryptionRequestIdOf(correct)).to.throw();
+    });
+
+    it("mints redeemed points as tokens and starts over", async function () {
+      await expect(
+        rewards.connect(signers.alice).redeemPoints(),
+      ).to.be.revertedWith("Nothing to redeem");
+
+      await (await answerChallenge(signers.alice, 0, 1)).wait();
+      await (await rewards.connect(signers.alice).redeemPoints()).wait();
+      expect(await pendingPointsOf(signers.alice)).to.eq(0);
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await points.balanceOf(signers.alice.address)).to.eq(30);
+      expect(await points.decimals()).to.eq(0);
+      const events = await rewards.queryFilter(
+        rewards.filters.PointsRedeemed(signers.alice.address),
+      );
+      expect(events[0].args.amount).to.eq(30);
+    });
+
+    it("awards the first completion badge once a challenge was answered correctly", async function () {
+      await (await answerChallenge(signers.alice, 0, 2)).wait();
+      await claimBadge(signers.alice, Badge.FirstCompletion);
+      expect(
+        await badges.balanceOf(signers.alice.address, Badge.FirstCompletion),
+      ).to.eq(0);
+      expect(
+        await rewards.badgeClaimPending(
+          signers.alice.address,
+          Badge.FirstCompletion,
+        ),
+      ).to.eq(false);
+
+      await (await answerChallenge(signers.alice, 0, 1)).wait();
+      await claimBadge(signers.alice, Badge.FirstCompletion);
+      expect(
+        await badges.balanceOf(signers.alice.address, Badge.FirstCompletion),
+      ).to.eq(1);
+
+      await expect(
+        rewards.connect(signers.alice).claimBadge(Badge.FirstCompletion, []),
+      ).to.be.revertedWith("Badge already awarded");
+    });
+
+    it("awards category mastery for enough correct answers in five categories", async function () {
+      // Three challenges per category, challenge 3 * category + i; challenge 0 already exists
+      const categories = [0, 1, 2, 3, 4];
+      for (const category of categories) {
+        for (let i = category === 0 ? 1 : 0; i < 3; i++) {
+          await addChallenge(3, 30, "Mixed", 1, category);
+        }
+      }
+      const lastChallenge = 3 * categories.length - 1;
+      for (let challengeId = 0; challengeId <= lastChallenge; challengeId++) {
+        // The last category is one correct answer short
+        const answer = challengeId === lastChallenge ? 2 : 1;
+        await (
+          await answerChallenge(signers.alice, challengeId, answer)
+        ).wait();
+      }
+      // Solving a challenge again does not count towards mastery
+      await (await answerChallenge(signers.alice, 12, 1)).wait();
+
+      await claimBadge(signers.alice, Badge.CategoryMastery, categories);
+      expect(
+        await badges.balanceOf(signers.alice.address, Badge.CategoryMastery),
+      ).to.eq(0);
+
+      await (await answerChallenge(signers.alice, lastChallenge, 1)).wait();
+      await claimBadge(signers.alice, Badge.CategoryMastery, categories);
+      expect(
+        await badges.balanceOf(signers.alice.address, Badge.CategoryMastery),
+      ).to.eq(1);
+    });
+
+    it("requires distinct categories in increasing order for mastery", async function () {
+      await expect(
+        rewards
+          .connect(signers.alice)
+          .claimBadge(Badge.CategoryMastery, [0, 1, 2, 3]),
+      ).to.be.revertedWith("Invalid categories");
+      await expect(
+        rewards
+          .connect(signers.alice)
+          .claimBadge(Badge.CategoryMastery, [0, 1, 1, 2, 3]),
+      ).to.be.revertedWith("Invalid categories");
+      await expect(
+        rewards.connect(signers.alice).claimBadge(99, []),
+      ).to.be.revertedWith("Unknown badge");
+    });
+
+    it("awards the streak badge after a week of consecutive days", async function () {
+      for (let day = 0; day < 6; day++) {
+        await (await answerChallenge(signers.alice, 0, 2)).wait();
+        await time.increase(24 * 60 * 60);
+      }
+      await expect(
+        rewards.connect(signers.alice).claimBadge(Badge.WeekStreak, []),
+      ).to.be.revertedWith("Streak too short");
+
+      // Any answer counts towards the streak, correct or not
+      await (await answerChallenge(signers.alice, 0, 2)).wait();
+      expect(await rewards.bestStreak(signers.alice.address)).to.eq(7);
+      await expect(
+        rewards.connect(signers.alice).claimBadge(Badge.WeekStreak, []),
+      )
+        .to.emit(rewards, "BadgeClaimSettled")
+        .withArgs(signers.alice.address, Badge.WeekStreak, true);
+      expect(
+        await badges.balanceOf(signers.alice.address, Badge.WeekStreak),
+      ).to.eq(1);
+    });
+
+    it("does not let badges change hands", async function () {
+      await (await answerChallenge(signers.alice, 0, 1)).wait();
+      await claimBadge(signers.alice, Badge.FirstCompletion);
+
+      await expect(
+        badges
+          .connect(signers.alice)
+          .safeTransferFrom(
+            signers.alice.address,
+            signers.bob.address,
+            Badge.FirstCompletion,
+            1,
+            "0x",
+          ),
+      ).to.be.revertedWith("Badges are non-transferable");
+    });
+
+    it("only lets the game record solutions and the rewards contract mint", async function () {
+      await expect(
+        rewards.recordSolution(
+          signers.alice.address,
+          0,
+          0,
+          ethers.ZeroHash,
+          ethers.ZeroHash,
+          1,
+        ),
+      ).to.be.revertedWith("Not game");
+      await expect(points.mint(signers.alice.address, 1)).to.be.revertedWith(
+        "Not minter",
+      );
+      await expect(badges.mint(signers.alice.address, 1)).to.be.revertedWith(
+        "Not minter",
+      );
+      await expect(rewards.mintPoints(12345, "0x", "0x")).to.be.revertedWith(
+        "Invalid request",
+      );
+    });
+
+    it("connects the rewards contract once, and only one made for this game", async function () {
+      await expect(game.setRewards(rewardsAddress)).to.be.revertedWith(
+        "Rewards already set",
+      );
+
+      const { game: other } = await deployFixture(signers.oracle);
+      await expect(other.setRewards(rewardsAddress)).to.be.revertedWith(
+        "Invalid rewards",
+      );
+      await expect(
+        game.connect(signers.alice).setRewards(rewardsAddress),
+      ).to.be.revertedWith("Not owner");
+    });
+  });
+
+  describe("catalogue management", function () {
+    async function encryptedChallengeParams(sender: HardhatEthersSigner) {
+      return fhevm
+        .createEncryptedInput(gameAddress, sender.address)
+        .add32(2)
+        .add32(20)
+        .add32(1)
+        .encrypt();
+    }
+
+    it("makes the deployer the owner", async function () {
+      expect(await game.owner()).to.eq(signers.deployer.address);
+    });
+
+    it("only lets the owner and educators add challenges", async function () {
+      const input = await encryptedChallengeParams(signers.bob);
+      await expect(
+        game
+          .connect(signers.bob)
+          .addPredefinedChallenge(
+            input.handles[0],
+            input.handles[1],
+            input.handles[2],
+            input.inputProof,
+            "Credit",
+            2,
+          ),
+      ).to.be.revertedWith("Not authorized");
+
+      await expect(game.setEducatorRole(signers.educator.address, true))
+        .to.emit(game, "EducatorRoleUpdated")
+        .withArgs(signers.educator.address, true);
+
+      const educatorInput = await encryptedChallengeParams(signers.educator);
+      await expect(
+        game
+          .connect(signers.educator)
+          .addPredefinedChallenge(
+            educatorInput.handles[0],
+            educatorInput.handles[1],
+            educatorInput.handles[2],
+            educatorInput.inputProof,
+            "Credit",
+            2,
+          ),
+      )
+        .to.emit(game, "ChallengeAdded")
+        .withArgs(0, "Credit");
+    });
+
+    it("only lets the owner manage roles", async function () {
+      await expect(
+        game.connect(signers.bob).setEducatorRole(signers.bob.address, true),
+      ).to.be.revertedWith("Not owner");
+      await expect(
+        game.connect(signers.bob).transferOwnership(signers.bob.address),
+      ).to.be.revertedWith("Not owner");
+    });
+
+    it("revokes catalogue access with the educator role", async function () {
+      await (await game.setEducatorRole(signers.educator.address, true)).wait();
+      await (
+        await game.setEducatorRole(signers.educator.address, false)
+      ).wait();
+      await addChallenge();
+
+      await expect(
+        game.connect(signers.educator).deactivateChallenge(0),
+      ).to.be.revertedWith("Not authorized");
+    });
+
+    it("hands catalogue control to a new owner", async function () {
+      await expect(game.transferOwnership(signers.alice.address))
+        .to.emit(game, "OwnershipTransferred")
+        .withArgs(signers.deployer.address, signers.alice.address);
+
+      expect(await game.owner()).to.eq(signers.alice.address);
+      const input = await encryptedChallengeParams(signers.deployer);
+      await expect(
+        game.addPredefinedChallenge(
+          input.handles[0],
+          input.handles[1],
+          input.handles[2],
+          input.inputProof,
+          "Credit",
+          2,
+        ),
+      ).to.be.revertedWith("Not authorized");
+    });
+
+    it("deactivates and reactivates challenges", async function () {
+      await register(signers.alice);
+      await addChallenge();
+
+      await expect(game.deactivateChallenge(0))
+        .to.emit(game, "ChallengeStatusChanged")
+        .withArgs(0, false, false);
+      await expect(answerChallenge(signers.alice, 0, 1)).to.be.revertedWith(
+        "Challenge not active",
+      );
+      await expect(game.deactivateChallenge(0)).to.be.revertedWith(
+        "Challenge not active",
+      );
+
+      await expect(game.reactivateChallenge(0))
+        .to.emit(game, "ChallengeStatusChanged")
+        .withArgs(0, true, false);
+      await expect(game.reactivateChallenge(0)).to.be.revertedWith(
+        "Challenge already active",
+      );
+      await expect(answerChallenge(signers.alice, 0, 1)).to.not.be.reverted;
+    });
+
+    it("retires challenges permanently", async function () {
+      await addChallenge();
+
+      await expect(game.retireChallenge(0))
+        .to.emit(game, "ChallengeStatusChanged")
+        .withArgs(0, false, true);
+
+      const challenge = await game.challenges(0);
+      expect(challenge.isActive).to.eq(false);
+      expect(challenge.isRetired).to.eq(true);
+      await expect(game.reactivateChallenge(0)).to.be.revertedWith(
+        "Challenge retired",
+      );
+      await expect(game.retireChallenge(0)).to.be.revertedWith(
+        "Challenge retired",
+      );
+    });
+
+    it("rejects status changes for unknown challenges", async function () {
+      await expect(game.deactivateChallenge(0)).to.be.revertedWith(
+        "Invalid challenge",
+      );
+      await expect(game.retireChallenge(0)).to.be.revertedWith(
+        "Invalid challenge",
+      );
+    });
+
+    it("pages through the catalogue", async function () {
+      for (const challengeType of ["Budgeting", "Credit", "Taxes"]) {
+        await addChallenge(1, 10, challengeType);
+      }
+
+      const firstPage = await game.getChallengePage(0, 2);
+      expect(firstPage.map((challenge) => challenge.challengeType)).to.deep.eq([
+        "Budgeting",
+        "Credit",
+      ]);
+      const lastPage = await game.getChallengePage(2, 2);
+      expect(lastPage.map((challenge) => challenge.challengeType)).to.deep.eq([
+        "Taxes",
+      ]);
+      expect((await game.getChallengePage(3, 2)).length).to.eq(0);
+    });
+
+    it("scans the catalogue by category", async function () {
+      for (const challengeType of ["Credit", "Taxes", "Credit", "Credit"]) {
+        await addChallenge(1, 10, challengeType);
+      }
+
+      const [firstIds, nextOffset] = await game.getChallengeIdsByType(
+        "Credit",
+        0,
+        3,
+      );
+      expect(firstIds).to.deep.eq([0n, 2n]);
+      expect(nextOffset).to.eq(3);
+
+      const [lastIds, end] = await game.getChallengeIdsByType(
+        "Credit",
+        nextOffset,
+        3,
+      );
+      expect(lastIds).to.deep.eq([3n]);
+      expect(end).to.eq(4);
+
+      const [noIds, done] = await game.getChallengeIdsByType("Credit", end, 3);
+      expect(noIds.length).to.eq(0);
+      expect(done).to.eq(4);
+    });
+  });
+
+  describe("callback authentication", function () {
+    beforeEach(async function () {
+      await register(signers.alice);
+      await addPersonalizedChallenge(signers.alice);
+    });
+
+    async function generationResults() {
+      const input = await fhevm
+        .createEncryptedInput(gameAddress, signers.oracle.address)
+        .add32(3)
+        .add32(30)
+        .encrypt();
+      const results = challengeResults(input.handles);
+      return { results, proof: input.inputProof };
+    }
+
+    async function verificationResults(isCorrect: boolean) {
+      const input = await fhevm
+        .createEncryptedInput(gameAddress, signers.oracle.address)
+        .addBool(isCorrect)
+        .encrypt();
+      const results = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["bytes32"],
+        [input.handles[0]],
+      );
+      return { results, proof: input.inputProof };
+    }
+
+    it("only accepts computation callbacks from the computation oracle", async function () {
+      const { requestId } = await submitSolution(signers.alice, 0, 1);
+      const { results, proof } = await verificationResults(true);
+
+      await expect(
+        game.connect(signers.alice).verifySolution(requestId, results, proof),
+      ).to.be.revertedWith("Unauthorized oracle");
+    });
+
+    it("rejects a replayed generation callback", async function () {
+      const tx = await game
+        .connect(signers.alice)
+        .requestPersonalizedChallenge();
+      const { requestId } = computationRequestOf(game, await tx.wait());
+      const { results, proof } = await generationResults();
+
+      await (
+        await game
+          .connect(signers.oracle)
+          .generateChallenge(requestId, results, proof)
+      ).wait();
+      await expect(
+        game
+          .connect(signers.oracle)
+          .generateChallenge(requestId, results, proof),
+      ).to.be.revertedWith("Invalid request");
+      expect(await game.getChallengeCount()).to.eq(2);
+    });
+
+    it("rejects a replayed verification callback", async function () {
+      const { requestId } = await submitSolution(signers.alice, 0, 1);
+      const { results, proof } = await verificationResults(true);
+
+      await (
+        await game
+          .connect(signers.oracle)
+          .verifySolution(requestId, results, proof)
+      ).wait();
+      await expect(
+        game.connect(signers.oracle).verifySolution(requestId, results, proof),
+      ).to.be.revertedWith("Invalid request");
+    });
+
+    it("rejects a replayed decryption callback", async function () {
+      await (await game.connect(signers.alice).requestRankReveal()).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      // Resend the relayer's fulfilment transaction verbatim, signatures included
+      const [decrypted] = await game.queryFilter(
+        game.filters.RankRevealed(signers.alice.address),
+      );
+      const fulfilment = await decrypted.getTransaction();
+      await expect(
+        signers.deployer.sendTransaction({
+          to: gameAddress,
+          data: fulfilment.data,
+        }),
+      ).to.be.revertedWith("Invalid request");
+    });
+
+    it("rejects a decryption callback routed to the wrong handler", async function () {
+      const tx = await game
+        .connect(signers.alice)
+        .requestPersonalizedChallenge();
+      const { requestId } = computationRequestOf(game, await tx.wait());
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint32"],
+        [10],
+      );
+
+      await expect(
+        game.revealRank(requestId, cleartexts, "0x"),
+      ).to.be.revertedWith("Invalid type");
+    });
+
+    it("lets the oracle reject a computation request exactly once", async function () {
+      const { requestId } = await submitSolution(signers.alice, 0, 1);
+
+      await expect(
+        game
+          .connect(signers.oracle)
+          .rejectRequest(requestId, "Malformed input"),
+      )
+        .to.emit(game, "RequestRejected")
+        .withArgs(requestId, signers.alice.address, 2, "Malformed input");
+
+      await expect(
+        game
+          .connect(signers.oracle)
+          .rejectRequest(requestId, "Malformed input"),
+      ).to.be.revertedWith("Not a computation request");
+
+      const { results, proof } = await verificationResults(true);
+      await expect(
+        game.connect(signers.oracle).verifySolution(requestId, results, proof),
+      ).to.be.revertedWith("Invalid request");
+    });
+
+    it("only lets the computation oracle reject computation requests", async function () {
+      const { requestId } = await submitSolution(signers.alice, 0, 1);
+      await expect(
+        game.connect(signers.alice).rejectRequest(requestId, "Giving up"),
+      ).to.be.revertedWith("Unauthorized oracle");
+
+      const tx = await game.connect(signers.alice).requestRankReveal();
+      const decryptionId = decryptionRequestIdOf(await tx.wait());
+      await expect(
+        game.connect(signers.oracle).rejectRequest(decryptionId, "Giving up"),
+      ).to.be.revertedWith("Not a computation request");
+    });
+  });
+
+  describe("access control", function () {
+    it("lets a player decrypt their own profile, score and progress", async function () {
+      await register(signers.alice, 2, 3, 1);
+
+      const [knowledgeLevel, riskTolerance, financialGoals] =
+        await game.getEncryptedProfile(signers.alice.address);
+      expect(await decrypt(knowledgeLevel, signers.alice)).to.eq(2);
+      expect(await decrypt(riskTolerance, signers.alice)).to.eq(3);
+      expect(await decrypt(financialGoals, signers.alice)).to.eq(1);
+
+      const state = await game.playerStates(signers.alice.address);
+      expect(await decrypt(state.encryptedScore, signers.alice)).to.eq(0);
+      expect(await decrypt(state.encryptedProgress, signers.alice)).to.eq(0);
+    });
+
+    it("keeps a player's ciphertexts private from other accounts", async function () {
+      await register(signers.alice);
+
+      const [knowledgeLevel, riskTolerance] = await game.getEncryptedProfile(
+        signers.alice.address,
+      );
+      await expectDecryptionDenied(knowledgeLevel, signers.bob);
+      await expectDecryptionDenied(riskTolerance, signers.educator);
+    });
+
+    it("grants the player access to updated score and progress", async function () {
+      await register(signers.alice);
+      await addPersonalizedChallenge(signers.alice);
+
+      const { requestId } = await submitSolution(signers.alice, 0, 1);
+      await fulfilVerification(requestId, true);
+
+      const state = await game.playerStates(signers.alice.address);
+      expect(await decrypt(state.encryptedScore, signers.alice)).to.eq(10);
+      expect(await decrypt(state.encryptedProgress, signers.alice)).to.eq(1);
+      // Handles computed from identical operands are shared across players, so check an account that never scored
+      await expectDecryptionDenied(state.encryptedScore, signers.deployer);
+    });
+
+    it("grants the player access to an updated knowledge level", async function () {
+      await register(signers.alice, 1);
+
+      const input = await fhevm
+        .createEncryptedInput(gameAddress, signers.alice.address)
+        .add32(3)
+        .encrypt();
+      await (
+        await game
+          .connect(signers.alice)
+          .updateKnowledgeLevel(input.handles[0], input.inputProof)
+      ).wait();
+
+      const [knowledgeLevel] = await game.getEncryptedProfile(
+        signers.alice.address,
+      );
+      expect(await decrypt(knowledgeLevel, signers.alice)).to.eq(3);
+      await expectDecryptionDenied(knowledgeLevel, signers.bob);
+    });
+
+    it("shares current and future ciphertexts with a designated educator", async function () {
+      await register(signers.alice, 2);
+      await addPersonalizedChallenge(signers.alice);
+
+      await expect(
+        game
+          .connect(signers.alice)
+          .setDataSharingEducator(signers.educator.address),
+      )
+        .to.emit(game, "DataSharingEducatorUpdated")
+        .withArgs(signers.alice.address, signers.educator.address);
+
+      const [knowledgeLevel] = await game.getEncryptedProfile(
+        signers.alice.address,
+      );
+      expect(await decrypt(knowledgeLevel, signers.educator)).to.eq(2);
+      const [savingsTarget] = await game.getEncryptedSavingsGoal(
+        signers.alice.address,
+      );
+      expect(await decrypt(savingsTarget, signers.educator)).to.eq(6000);
+
+      const { requestId } = await submitSolution(signers.alice, 0, 1);
+      await fulfilVerification(requestId, true);
+
+      const state = await game.playerStates(signers.alice.address);
+      expect(await decrypt(state.encryptedScore, signers.educator)).to.eq(10);
+      expect(await decrypt(state.encryptedProgress, signers.educator)).to.eq(1);
+    });
+
+    it("stops sharing new ciphertexts once the educator is removed", async function () {
+      await register(signers.alice);
+      await (
+        await game
+          .connect(signers.alice)
+          .setDataSharingEducator(signers.educator.address)
+      ).wait();
+      await (
+        await game
+          .connect(signers.alice)
+          .setDataSharingEducator(ethers.ZeroAddress)
+      ).wait();
+
+      const input = await fhevm
+        .createEncryptedInput(gameAddress, signers.alice.address)
+        .add32(3)
+        .encrypt();
+      await (
+        await game
+          .connect(signers.alice)
+          .updateKnowledgeLevel(input.handles[0], input.inputProof)
+      ).wait();
+
+      const [knowledgeLevel] = await game.getEncryptedProfile(
+        signers.alice.address,
+      );
+      expect(await decrypt(knowledgeLevel, signers.alice)).to.eq(3);
+      await expectDecryptionDenied(knowledgeLevel, signers.educator);
+    });
+
+    it("only lets registered players choose an educator", async function () {
+      await expect(
+        game
+          .connect(signers.bob)
+          .setDataSharingEducator(signers.educator.address),
+      ).to.be.revertedWith("Player not registered");
+    });
+
+    it("lets the computation oracle read the ciphertexts it is asked to compute on", async function () {
+      await register(signers.alice);
+      await addPersonalizedChallenge(signers.alice);
+
+      const { ciphertexts } = await submitSolution(signers.alice, 0, 2);
+      expect(await decrypt(ciphertexts[0], signers.oracle)).to.eq(2);
+      await expectDecryptionDenied(ciphertexts[0], signers.bob);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { expect } from "chai";
+import {
+  TaxRules,
+  TaxRulesError,
+  calculateTax,
+  findTaxRules,
+  parseTaxRules,
+  taxByBracket,
+} from "../frontend/web/src/taxEngine";
+
+describe("TaxEngine", function () {
+  const us2024 = findTaxRules("US", 2024) as TaxRules;
+  const uk2024 = findTaxRules("UK", 2024) as TaxRules;
+  const brackets = [
+    { upTo: 10000, rate: 0.1 },
+    { upTo: 40000, rate: 0.2 },
+    { upTo: null, rate: 0.4 },
+  ];
+
+  describe("bracket math", function () {
+    it("taxes each slice of income at its own rate", function () {
+      expect(taxByBracket(brackets, 50000)).to.deep.eq([
+        { from: 0, to: 10000, rate: 0.1, tax: 1000 },
+        { from: 10000, to: 40000, rate: 0.2, tax: 6000 },
+        { from: 40000, to: 50000, rate: 0.4, tax: 4000 },
+      ]);
+    });
+
+    it("stops at the bracket that contains the income", function () {
+      expect(taxByBracket(brackets, 25000)).to.deep.eq([
+        { from: 0, to: 10000, rate: 0.1, tax: 1000 },
+        { from: 10000, to: 25000, rate: 0.2, tax: 3000 },
+      ]);
+    });
+
+    it("fills a bracket exactly at its upper bound", function () {
+      expect(taxByBracket(brackets, 10000)).to.deep.eq([
+        { from: 0, to: 10000, rate: 0.1, tax: 1000 },
+      ]);
+    });
+
+    it("owes nothing on zero taxable income", function () {
+      expect(taxByBracket(brackets, 0)).to.deep.eq([]);
+    });
+
+    it("rounds each slice to cents", function () {
+      expect(taxByBracket([{ upTo: null, rate: 0.12 }], 100.05)).to.deep.eq([
+        { from: 0, to: 100.05, rate: 0.12, tax: 12.01 },
+      ]);
+    });
+  });
+
+  describe("US 2024", function () {
+    it("applies the standard deduction and brackets for a single filer", function () {
+      const result = calculateTax(us2024, {
+        filingStatus: "single",
+        grossIncome: 50000,
+      });
+      expect(result.deductionType).to.eq("standard");
+      expect(result.taxableIncome).to.eq(35400);
+      expect(result.tax).to.eq(4016);
+      expect(result.marginalRate).to.eq(0.12);
+    });
+
+    it("uses the married filing jointly schedule", function () {
+      const result = calculateTax(us2024, {
+        filingStatus: "married",
+        grossIncome: 129200,
+      });
+      expect(result.taxableIncome).to.eq(100000);
+      expect(result.tax).to.eq(12106);
+      expect(result.marginalRate).to.eq(0.22);
+    });
+
+    it("itemizes when capped itemized deductions beat the standard deduction", function () {
+      const result = calculateTax(us2024, {
+        filingStatus: "single",
+        grossIncome: 120000,
+        itemized: { stateAndLocalTaxes: 14000, mortgageInterest: 6000 },
+      });
+      expect(result.itemizedDeduction).to.eq(16000);
+      expect(result.deductionType).to.eq("itemized");
+      expect(result.taxableIncome).to.eq(104000);
+    });
+
+    it("keeps the standard deduction when itemizing is worth less", function () {
+      const result = calculateTax(us2024, {
+        filingStatus: "single",
+        grossIncome: 120000,
+        itemized: { stateAndLocalTaxes: 14000, charity: 2000 },
+      });
+      expect(result.itemizedDeduction).to.eq(12000);
+      expect(result.deductionType).to.eq("standard");
+      expect(result.deduction).to.eq(14600);
+    });
+
+    it("never makes taxable income negative", function () {
+      const result = calculateTax(us2024, {
+        filingStatus: "single",
+        grossIncome: 9000,
+      });
+      expect(result.taxableIncome).to.eq(0);
+      expect(result.tax).to.eq(0);
+      expect(result.effectiveRate).to.eq(0);
+    });
+  });
+
+  describe("UK 2024", function () {
+    it("applies the personal allowance and bands", function () {
+      const result = calculateTax(uk2024, {
+        filingStatus: "individual",
+        grossIncome: 60000,
+      });
+      expect(result.taxableIncome).to.eq(47430);
+      expect(result.tax).to.eq(11432);
+    });
+
+    it("tapers the personal allowance above 100,000", function () {
+      const result = calculateTax(uk2024, {
+        filingStatus: "individual",
+        grossIncome: 110000,
+      });
+      expect(result.standardDeduction).to.eq(7570);
+      expect(result.taxableIncome).to.eq(102430);
+    });
+
+    it("removes the personal allowance entirely at 125,140", function () {
+      const result = calculateTax(uk2024, {
+        filingStatus: "individual",
+        grossIncome: 150000,
+      });
+      expect(result.standardDeduction).to.eq(0);
+      expect(result.marginalRate).to.eq(0.45);
+    });
+  });
+
+  describe("rules validation", function () {
+    function rulesWith(brackets: unknown) {
+      return {
+        ...us2024,
+        filingStatuses: [{ ...us2024.filingStatuses[0], brackets }],
+      };
+    }
+
+    it("rejects brackets out of order", function () {
+      expect(() =>
+        parseTaxRules(
+          rulesWith([
+            { upTo: 20000, rate: 0.1 },
+            { upTo: 10000, rate: 0.2 },
+            { upTo: null, rate: 0.3 },
+          ]),
+        ),
+      ).to.throw(TaxRulesError, "increasing order");
+    });
+
+    it("requires an open-ended top bracket", function () {
+      expect(() =>
+        parseTaxRules(rulesWith([{ upTo: 20000, rate: 0.1 }])),
+      ).to.throw(TaxRulesError, "open-ended");
+    });
+
+    it("reports every issue at once", function () {
+      try {
+        parseTaxRules({
+          ...rulesWith([{ upTo: null, rate: 2 }]),
+          year: "2024",
+        });
+        expect.fail("expected a TaxRulesError");
+      } catch (e) {
+        expect((e as TaxRulesError).issues).to.have.length(2);
+      }
+    });
+  });
+});
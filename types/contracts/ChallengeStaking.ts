@@ -0,0 +1,758 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface ChallengeStakingInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_REWARD_BPS"
+      | "SETTLEMENT_TIMEOUT"
+      | "claim"
+      | "claimable"
+      | "escrowedStakes"
+      | "fundRewardPool"
+      | "game"
+      | "hasStaked"
+      | "owner"
+      | "placeStake"
+      | "protocolId"
+      | "reclaimStake"
+      | "refund"
+      | "rewardBps"
+      | "rewardPool"
+      | "setRewardBps"
+      | "setTreasury"
+      | "settle"
+      | "settleStake"
+      | "stakeCount"
+      | "stakes"
+      | "totalClaimable"
+      | "transferOwnership"
+      | "treasury"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "Claimed"
+      | "DecryptionFulfilled"
+      | "OwnershipTransferred"
+      | "RewardPoolFunded"
+      | "RewardRateUpdated"
+      | "StakePlaced"
+      | "StakeRefunded"
+      | "StakeSettled"
+      | "TreasuryUpdated"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_REWARD_BPS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "SETTLEMENT_TIMEOUT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "claim", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "claimable",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "escrowedStakes",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "fundRewardPool",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "game", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "hasStaked",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "placeStake",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reclaimStake",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "refund",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "rewardBps", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "rewardPool",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setRewardBps",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTreasury",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "settle",
+    values: [BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "settleStake",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "stakeCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "stakes",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalClaimable",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "treasury", values?: undefined): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_REWARD_BPS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "SETTLEMENT_TIMEOUT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "claim", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "claimable", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "escrowedStakes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "fundRewardPool",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "game", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasStaked", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "placeStake", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "reclaimStake",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "refund", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "rewardBps", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "rewardPool", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setRewardBps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTreasury",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "settle", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "settleStake",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "stakeCount", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "stakes", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "totalClaimable",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "treasury", data: BytesLike): Result;
+}
+
+export namespace ClaimedEvent {
+  export type InputTuple = [account: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [account: string, amount: bigint];
+  export interface OutputObject {
+    account: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RewardPoolFundedEvent {
+  export type InputTuple = [funder: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [funder: string, amount: bigint];
+  export interface OutputObject {
+    funder: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RewardRateUpdatedEvent {
+  export type InputTuple = [rewardBps: BigNumberish];
+  export type OutputTuple = [rewardBps: bigint];
+  export interface OutputObject {
+    rewardBps: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StakePlacedEvent {
+  export type InputTuple = [
+    stakeId: BigNumberish,
+    player: AddressLike,
+    challengeId: BigNumberish,
+    amount: BigNumberish,
+    reservedReward: BigNumberish
+  ];
+  export type OutputTuple = [
+    stakeId: bigint,
+    player: string,
+    challengeId: bigint,
+    amount: bigint,
+    reservedReward: bigint
+  ];
+  export interface OutputObject {
+    stakeId: bigint;
+    player: string;
+    challengeId: bigint;
+    amount: bigint;
+    reservedReward: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StakeRefundedEvent {
+  export type InputTuple = [
+    stakeId: BigNumberish,
+    player: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [stakeId: bigint, player: string, amount: bigint];
+  export interface OutputObject {
+    stakeId: bigint;
+    player: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StakeSettledEvent {
+  export type InputTuple = [
+    stakeId: BigNumberish,
+    player: AddressLike,
+    won: boolean,
+    payout: BigNumberish
+  ];
+  export type OutputTuple = [
+    stakeId: bigint,
+    player: string,
+    won: boolean,
+    payout: bigint
+  ];
+  export interface OutputObject {
+    stakeId: bigint;
+    player: string;
+    won: boolean;
+    payout: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TreasuryUpdatedEvent {
+  export type InputTuple = [treasury: AddressLike];
+  export type OutputTuple = [treasury: string];
+  export interface OutputObject {
+    treasury: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface ChallengeStaking extends BaseContract {
+  connect(runner?: ContractRunner | null): ChallengeStaking;
+  waitForDeployment(): Promise<this>;
+
+  interface: ChallengeStakingInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_REWARD_BPS: TypedContractMethod<[], [bigint], "view">;
+
+  SETTLEMENT_TIMEOUT: TypedContractMethod<[], [bigint], "view">;
+
+  claim: TypedContractMethod<[], [void], "nonpayable">;
+
+  claimable: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  escrowedStakes: TypedContractMethod<[], [bigint], "view">;
+
+  fundRewardPool: TypedContractMethod<[], [void], "payable">;
+
+  game: TypedContractMethod<[], [string], "view">;
+
+  hasStaked: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  placeStake: TypedContractMethod<
+    [player: AddressLike, challengeId: BigNumberish],
+    [bigint],
+    "payable"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  reclaimStake: TypedContractMethod<
+    [stakeId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  refund: TypedContractMethod<[stakeId: BigNumberish], [void], "nonpayable">;
+
+  rewardBps: TypedContractMethod<[], [bigint], "view">;
+
+  rewardPool: TypedContractMethod<[], [bigint], "view">;
+
+  setRewardBps: TypedContractMethod<
+    [newRewardBps: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setTreasury: TypedContractMethod<
+    [newTreasury: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  settle: TypedContractMethod<
+    [stakeId: BigNumberish, isCorrect: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  settleStake: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  stakeCount: TypedContractMethod<[], [bigint], "view">;
+
+  stakes: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, bigint, bigint] & {
+        player: string;
+        challengeId: bigint;
+        amount: bigint;
+        reservedReward: bigint;
+        deadline: bigint;
+        status: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  totalClaimable: TypedContractMethod<[], [bigint], "view">;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  treasury: TypedContractMethod<[], [string], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_REWARD_BPS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "SETTLEMENT_TIMEOUT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "claim"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimable"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "escrowedStakes"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "fundRewardPool"
+  ): TypedContractMethod<[], [void], "payable">;
+  getFunction(
+    nameOrSignature: "game"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "hasStaked"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "placeStake"
+  ): TypedContractMethod<
+    [player: AddressLike, challengeId: BigNumberish],
+    [bigint],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "reclaimStake"
+  ): TypedContractMethod<[stakeId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "refund"
+  ): TypedContractMethod<[stakeId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "rewardBps"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "rewardPool"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "setRewardBps"
+  ): TypedContractMethod<[newRewardBps: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setTreasury"
+  ): TypedContractMethod<[newTreasury: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "settle"
+  ): TypedContractMethod<
+    [stakeId: BigNumberish, isCorrect: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "settleStake"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "stakeCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "stakes"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, bigint, bigint] & {
+        player: string;
+        challengeId: bigint;
+        amount: bigint;
+        reservedReward: bigint;
+        deadline: bigint;
+        status: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "totalClaimable"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "treasury"
+  ): TypedContractMethod<[], [string], "view">;
+
+  getEvent(
+    key: "Claimed"
+  ): TypedContractEvent<
+    ClaimedEvent.InputTuple,
+    ClaimedEvent.OutputTuple,
+    ClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "RewardPoolFunded"
+  ): TypedContractEvent<
+    RewardPoolFundedEvent.InputTuple,
+    RewardPoolFundedEvent.OutputTuple,
+    RewardPoolFundedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RewardRateUpdated"
+  ): TypedContractEvent<
+    RewardRateUpdatedEvent.InputTuple,
+    RewardRateUpdatedEvent.OutputTuple,
+    RewardRateUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StakePlaced"
+  ): TypedContractEvent<
+    StakePlacedEvent.InputTuple,
+    StakePlacedEvent.OutputTuple,
+    StakePlacedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StakeRefunded"
+  ): TypedContractEvent<
+    StakeRefundedEvent.InputTuple,
+    StakeRefundedEvent.OutputTuple,
+    StakeRefundedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StakeSettled"
+  ): TypedContractEvent<
+    StakeSettledEvent.InputTuple,
+    StakeSettledEvent.OutputTuple,
+    StakeSettledEvent.OutputObject
+  >;
+  getEvent(
+    key: "TreasuryUpdated"
+  ): TypedContractEvent<
+    TreasuryUpdatedEvent.InputTuple,
+    TreasuryUpdatedEvent.OutputTuple,
+    TreasuryUpdatedEvent.OutputObject
+  >;
+
+  filters: {
+    "Claimed(address,uint256)": TypedContractEvent<
+      ClaimedEvent.InputTuple,
+      ClaimedEvent.OutputTuple,
+      ClaimedEvent.OutputObject
+    >;
+    Claimed: TypedContractEvent<
+      ClaimedEvent.InputTuple,
+      ClaimedEvent.OutputTuple,
+      ClaimedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "RewardPoolFunded(address,uint256)": TypedContractEvent<
+      RewardPoolFundedEvent.InputTuple,
+      RewardPoolFundedEvent.OutputTuple,
+      RewardPoolFundedEvent.OutputObject
+    >;
+    RewardPoolFunded: TypedContractEvent<
+      RewardPoolFundedEvent.InputTuple,
+      RewardPoolFundedEvent.OutputTuple,
+      RewardPoolFundedEvent.OutputObject
+    >;
+
+    "RewardRateUpdated(uint256)": TypedContractEvent<
+      RewardRateUpdatedEvent.InputTuple,
+      RewardRateUpdatedEvent.OutputTuple,
+      RewardRateUpdatedEvent.OutputObject
+    >;
+    RewardRateUpdated: TypedContractEvent<
+      RewardRateUpdatedEvent.InputTuple,
+      RewardRateUpdatedEvent.OutputTuple,
+      RewardRateUpdatedEvent.OutputObject
+    >;
+
+    "StakePlaced(uint256,address,uint256,uint256,uint256)": TypedContractEvent<
+      StakePlacedEvent.InputTuple,
+      StakePlacedEvent.OutputTuple,
+      StakePlacedEvent.OutputObject
+    >;
+    StakePlaced: TypedContractEvent<
+      StakePlacedEvent.InputTuple,
+      StakePlacedEvent.OutputTuple,
+      StakePlacedEvent.OutputObject
+    >;
+
+    "StakeRefunded(uint256,address,uint256)": TypedContractEvent<
+      StakeRefundedEvent.InputTuple,
+      StakeRefundedEvent.OutputTuple,
+      StakeRefundedEvent.OutputObject
+    >;
+    StakeRefunded: TypedContractEvent<
+      StakeRefundedEvent.InputTuple,
+      StakeRefundedEvent.OutputTuple,
+      StakeRefundedEvent.OutputObject
+    >;
+
+    "StakeSettled(uint256,address,bool,uint256)": TypedContractEvent<
+      StakeSettledEvent.InputTuple,
+      StakeSettledEvent.OutputTuple,
+      StakeSettledEvent.OutputObject
+    >;
+    StakeSettled: TypedContractEvent<
+      StakeSettledEvent.InputTuple,
+      StakeSettledEvent.OutputTuple,
+      StakeSettledEvent.OutputObject
+    >;
+
+    "TreasuryUpdated(address)": TypedContractEvent<
+      TreasuryUpdatedEvent.InputTuple,
+      TreasuryUpdatedEvent.OutputTuple,
+      TreasuryUpdatedEvent.OutputObject
+    >;
+    TreasuryUpdated: TypedContractEvent<
+      TreasuryUpdatedEvent.InputTuple,
+      TreasuryUpdatedEvent.OutputTuple,
+      TreasuryUpdatedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,2038 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace FinancialLiteracyGame {
+  export type CategoryStatsStruct = {
+    attempts: BytesLike;
+    correctAnswers: BytesLike;
+    difficultyTotal: BytesLike;
+    cohortSize: BigNumberish;
+  };
+
+  export type CategoryStatsStructOutput = [
+    attempts: string,
+    correctAnswers: string,
+    difficultyTotal: string,
+    cohortSize: bigint
+  ] & {
+    attempts: string;
+    correctAnswers: string;
+    difficultyTotal: string;
+    cohortSize: bigint;
+  };
+
+  export type GameChallengeStruct = {
+    difficultyLevel: BytesLike;
+    rewardAmount: BytesLike;
+    answerKey: BytesLike;
+    challengeType: string;
+    category: BigNumberish;
+    isActive: boolean;
+    isRetired: boolean;
+  };
+
+  export type GameChallengeStructOutput = [
+    difficultyLevel: string,
+    rewardAmount: string,
+    answerKey: string,
+    challengeType: string,
+    category: bigint,
+    isActive: boolean,
+    isRetired: boolean
+  ] & {
+    difficultyLevel: string;
+    rewardAmount: string;
+    answerKey: string;
+    challengeType: string;
+    category: bigint;
+    isActive: boolean;
+    isRetired: boolean;
+  };
+}
+
+export declare namespace Engagement {
+  export type ProgressStruct = {
+    dailyCorrect: BytesLike;
+    weeklyCorrect: BytesLike;
+    lastDay: BigNumberish;
+    lastWeek: BigNumberish;
+    streak: BigNumberish;
+  };
+
+  export type ProgressStructOutput = [
+    dailyCorrect: string,
+    weeklyCorrect: string,
+    lastDay: bigint,
+    lastWeek: bigint,
+    streak: bigint
+  ] & {
+    dailyCorrect: string;
+    weeklyCorrect: string;
+    lastDay: bigint;
+    lastWeek: bigint;
+    streak: bigint;
+  };
+}
+
+export interface FinancialLiteracyGameInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "LEADERBOARD_SIZE"
+      | "MAX_PSEUDONYM_LENGTH"
+      | "PERSONALIZED_CATEGORY"
+      | "PRACTICE_COOLDOWN"
+      | "addPredefinedChallenge"
+      | "challenges"
+      | "computationOracle"
+      | "deactivateChallenge"
+      | "educators"
+      | "generateChallenge"
+      | "getCategoryStats"
+      | "getChallengeCount"
+      | "getChallengeIdsByType"
+      | "getChallengePage"
+      | "getEncryptedLeaderboard"
+      | "getEncryptedProfile"
+      | "getEncryptedRating"
+      | "getEncryptedSavingsGoal"
+      | "getEncryptedScore"
+      | "getEncryptedTopScore"
+      | "getEngagement"
+      | "getLastPlayed"
+      | "hideRank"
+      | "lastPracticeAt"
+      | "minCohortSize"
+      | "owner"
+      | "playerCount"
+      | "playerEducator"
+      | "playerStates"
+      | "protocolId"
+      | "pseudonyms"
+      | "rankReveals"
+      | "reactivateChallenge"
+      | "registerPlayer"
+      | "rejectRequest"
+      | "requestPersonalizedChallenge"
+      | "requestRankReveal"
+      | "retireChallenge"
+      | "revealRank"
+      | "rewards"
+      | "setDataSharingEducator"
+      | "setEducatorRole"
+      | "setMinCohortSize"
+      | "setPseudonym"
+      | "setRewards"
+      | "setStaking"
+      | "shareCategoryStats"
+      | "staking"
+      | "submitBudgetSummary"
+      | "submitChallengeSolution"
+      | "submitCreditSimulation"
+      | "submitInvestingSimulation"
+      | "submitSavingsPlan"
+      | "submitTaxPractice"
+      | "transferOwnership"
+      | "updateKnowledgeLevel"
+      | "updateSavingsGoal"
+      | "verifySolution"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "CategoryStatsShared"
+      | "ChallengeAdded"
+      | "ChallengeStatusChanged"
+      | "ComputationRequested"
+      | "DataSharingEducatorUpdated"
+      | "DecryptionFulfilled"
+      | "EducatorRoleUpdated"
+      | "MinCohortSizeUpdated"
+      | "OwnershipTransferred"
+      | "PersonalizedChallengeFulfilled"
+      | "PersonalizedChallengeGenerated"
+      | "PlayerRegistered"
+      | "PracticeScored"
+      | "PseudonymUpdated"
+      | "RankHidden"
+      | "RankRevealed"
+      | "RequestRejected"
+      | "RewardsUpdated"
+      | "SavingsGoalUpdated"
+      | "ScoreUpdated"
+      | "SolutionEvaluated"
+      | "StakingUpdated"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "LEADERBOARD_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_PSEUDONYM_LENGTH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PERSONALIZED_CATEGORY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PRACTICE_COOLDOWN",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addPredefinedChallenge",
+    values: [BytesLike, BytesLike, BytesLike, BytesLike, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "challenges",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "computationOracle",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "deactivateChallenge",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "educators",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "generateChallenge",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCategoryStats",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getChallengeCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getChallengeIdsByType",
+    values: [string, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getChallengePage",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedLeaderboard",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedProfile",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedRating",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedSavingsGoal",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedScore",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedTopScore",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEngagement",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getLastPlayed",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "hideRank", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "lastPracticeAt",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "minCohortSize",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "playerCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "playerEducator",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "playerStates",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pseudonyms",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rankReveals",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reactivateChallenge",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerPlayer",
+    values: [
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "rejectRequest",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestPersonalizedChallenge",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestRankReveal",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "retireChallenge",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealRank",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "rewards", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "setDataSharingEducator",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setEducatorRole",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMinCohortSize",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPseudonym",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setRewards",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setStaking",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "shareCategoryStats",
+    values: [BigNumberish[]]
+  ): string;
+  encodeFunctionData(functionFragment: "staking", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "submitBudgetSummary",
+    values: [BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitChallengeSolution",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitCreditSimulation",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitInvestingSimulation",
+    values: [BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitSavingsPlan",
+    values: [BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitTaxPractice",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateKnowledgeLevel",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateSavingsGoal",
+    values: [BytesLike, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "verifySolution",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "LEADERBOARD_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_PSEUDONYM_LENGTH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PERSONALIZED_CATEGORY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PRACTICE_COOLDOWN",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addPredefinedChallenge",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "challenges", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "computationOracle",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "deactivateChallenge",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "educators", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "generateChallenge",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCategoryStats",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getChallengeCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getChallengeIdsByType",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getChallengePage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedLeaderboard",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedProfile",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedRating",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedSavingsGoal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedScore",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedTopScore",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEngagement",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getLastPlayed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hideRank", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "lastPracticeAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "minCohortSize",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "playerCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "playerEducator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "playerStates",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pseudonyms", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "rankReveals",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reactivateChallenge",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "registerPlayer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "rejectRequest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestPersonalizedChallenge",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestRankReveal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "retireChallenge",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revealRank", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "rewards", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setDataSharingEducator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setEducatorRole",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMinCohortSize",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPseudonym",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setRewards", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "setStaking", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "shareCategoryStats",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "staking", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "submitBudgetSummary",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitChallengeSolution",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitCreditSimulation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitInvestingSimulation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitSavingsPlan",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitTaxPractice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateKnowledgeLevel",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateSavingsGoal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "verifySolution",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace CategoryStatsSharedEvent {
+  export type InputTuple = [educator: AddressLike, categories: BigNumberish[]];
+  export type OutputTuple = [educator: string, categories: bigint[]];
+  export interface OutputObject {
+    educator: string;
+    categories: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ChallengeAddedEvent {
+  export type InputTuple = [challengeId: BigNumberish, challengeType: string];
+  export type OutputTuple = [challengeId: bigint, challengeType: string];
+  export interface OutputObject {
+    challengeId: bigint;
+    challengeType: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ChallengeStatusChangedEvent {
+  export type InputTuple = [
+    challengeId: BigNumberish,
+    isActive: boolean,
+    isRetired: boolean
+  ];
+  export type OutputTuple = [
+    challengeId: bigint,
+    isActive: boolean,
+    isRetired: boolean
+  ];
+  export interface OutputObject {
+    challengeId: bigint;
+    isActive: boolean;
+    isRetired: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ComputationRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    callbackSelector: BytesLike,
+    ciphertexts: BytesLike[]
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    callbackSelector: string,
+    ciphertexts: string[]
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    callbackSelector: string;
+    ciphertexts: string[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DataSharingEducatorUpdatedEvent {
+  export type InputTuple = [player: AddressLike, educator: AddressLike];
+  export type OutputTuple = [player: string, educator: string];
+  export interface OutputObject {
+    player: string;
+    educator: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EducatorRoleUpdatedEvent {
+  export type InputTuple = [account: AddressLike, granted: boolean];
+  export type OutputTuple = [account: string, granted: boolean];
+  export interface OutputObject {
+    account: string;
+    granted: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MinCohortSizeUpdatedEvent {
+  export type InputTuple = [minCohortSize: BigNumberish];
+  export type OutputTuple = [minCohortSize: bigint];
+  export interface OutputObject {
+    minCohortSize: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PersonalizedChallengeFulfilledEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    requestId: BigNumberish,
+    challengeId: BigNumberish,
+    challengeType: string
+  ];
+  export type OutputTuple = [
+    player: string,
+    requestId: bigint,
+    challengeId: bigint,
+    challengeType: string
+  ];
+  export interface OutputObject {
+    player: string;
+    requestId: bigint;
+    challengeId: bigint;
+    challengeType: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PersonalizedChallengeGeneratedEvent {
+  export type InputTuple = [player: AddressLike, challengeId: BigNumberish];
+  export type OutputTuple = [player: string, challengeId: bigint];
+  export interface OutputObject {
+    player: string;
+    challengeId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PlayerRegisteredEvent {
+  export type InputTuple = [player: AddressLike];
+  export type OutputTuple = [player: string];
+  export interface OutputObject {
+    player: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PracticeScoredEvent {
+  export type InputTuple = [player: AddressLike, mode: BigNumberish];
+  export type OutputTuple = [player: string, mode: bigint];
+  export interface OutputObject {
+    player: string;
+    mode: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PseudonymUpdatedEvent {
+  export type InputTuple = [player: AddressLike, pseudonym: string];
+  export type OutputTuple = [player: string, pseudonym: string];
+  export interface OutputObject {
+    player: string;
+    pseudonym: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RankHiddenEvent {
+  export type InputTuple = [player: AddressLike];
+  export type OutputTuple = [player: string];
+  export interface OutputObject {
+    player: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RankRevealedEvent {
+  export type InputTuple = [player: AddressLike, rank: BigNumberish];
+  export type OutputTuple = [player: string, rank: bigint];
+  export interface OutputObject {
+    player: string;
+    rank: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RequestRejectedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    player: AddressLike,
+    requestType: BigNumberish,
+    reason: string
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    player: string,
+    requestType: bigint,
+    reason: string
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    player: string;
+    requestType: bigint;
+    reason: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RewardsUpdatedEvent {
+  export type InputTuple = [rewards: AddressLike];
+  export type OutputTuple = [rewards: string];
+  export interface OutputObject {
+    rewards: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SavingsGoalUpdatedEvent {
+  export type InputTuple = [player: AddressLike];
+  export type OutputTuple = [player: string];
+  export interface OutputObject {
+    player: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ScoreUpdatedEvent {
+  export type InputTuple = [player: AddressLike];
+  export type OutputTuple = [player: string];
+  export interface OutputObject {
+    player: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SolutionEvaluatedEvent {
+  export type InputTuple = [player: AddressLike, challengeId: BigNumberish];
+  export type OutputTuple = [player: string, challengeId: bigint];
+  export interface OutputObject {
+    player: string;
+    challengeId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StakingUpdatedEvent {
+  export type InputTuple = [staking: AddressLike];
+  export type OutputTuple = [staking: string];
+  export interface OutputObject {
+    staking: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface FinancialLiteracyGame extends BaseContract {
+  connect(runner?: ContractRunner | null): FinancialLiteracyGame;
+  waitForDeployment(): Promise<this>;
+
+  interface: FinancialLiteracyGameInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  LEADERBOARD_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_PSEUDONYM_LENGTH: TypedContractMethod<[], [bigint], "view">;
+
+  PERSONALIZED_CATEGORY: TypedContractMethod<[], [bigint], "view">;
+
+  PRACTICE_COOLDOWN: TypedContractMethod<[], [bigint], "view">;
+
+  addPredefinedChallenge: TypedContractMethod<
+    [
+      difficulty: BytesLike,
+      reward: BytesLike,
+      answerKey: BytesLike,
+      inputProof: BytesLike,
+      challengeType: string,
+      category: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  challenges: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, string, string, bigint, boolean, boolean] & {
+        difficultyLevel: string;
+        rewardAmount: string;
+        answerKey: string;
+        challengeType: string;
+        category: bigint;
+        isActive: boolean;
+        isRetired: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  computationOracle: TypedContractMethod<[], [string], "view">;
+
+  deactivateChallenge: TypedContractMethod<
+    [challengeId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  educators: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  generateChallenge: TypedContractMethod<
+    [requestId: BigNumberish, results: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getCategoryStats: TypedContractMethod<
+    [category: BigNumberish],
+    [FinancialLiteracyGame.CategoryStatsStructOutput],
+    "view"
+  >;
+
+  getChallengeCount: TypedContractMethod<[], [bigint], "view">;
+
+  getChallengeIdsByType: TypedContractMethod<
+    [challengeType: string, offset: BigNumberish, limit: BigNumberish],
+    [[bigint[], bigint] & { ids: bigint[]; nextOffset: bigint }],
+    "view"
+  >;
+
+  getChallengePage: TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [FinancialLiteracyGame.GameChallengeStructOutput[]],
+    "view"
+  >;
+
+  getEncryptedLeaderboard: TypedContractMethod<
+    [],
+    [[string[], string[]] & { scores: string[]; players: string[] }],
+    "view"
+  >;
+
+  getEncryptedProfile: TypedContractMethod<
+    [player: AddressLike],
+    [[string, string, string]],
+    "view"
+  >;
+
+  getEncryptedRating: TypedContractMethod<
+    [player: AddressLike],
+    [string],
+    "view"
+  >;
+
+  getEncryptedSavingsGoal: TypedContractMethod<
+    [player: AddressLike],
+    [[string, string, string]],
+    "view"
+  >;
+
+  getEncryptedScore: TypedContractMethod<
+    [player: AddressLike],
+    [string],
+    "view"
+  >;
+
+  getEncryptedTopScore: TypedContractMethod<[], [[string, string]], "view">;
+
+  getEngagement: TypedContractMethod<
+    [player: AddressLike],
+    [Engagement.ProgressStructOutput],
+    "view"
+  >;
+
+  getLastPlayed: TypedContractMethod<[player: AddressLike], [bigint], "view">;
+
+  hideRank: TypedContractMethod<[], [void], "nonpayable">;
+
+  lastPracticeAt: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  minCohortSize: TypedContractMethod<[], [bigint], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  playerCount: TypedContractMethod<[], [bigint], "view">;
+
+  playerEducator: TypedContractMethod<[arg0: AddressLike], [string], "view">;
+
+  playerStates: TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [string, string, bigint] & {
+        encryptedScore: string;
+        encryptedProgress: string;
+        lastChallengeCompleted: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  pseudonyms: TypedContractMethod<[arg0: AddressLike], [string], "view">;
+
+  rankReveals: TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [bigint, bigint, boolean] & {
+        rank: bigint;
+        revealedAt: bigint;
+        isRevealed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  reactivateChallenge: TypedContractMethod<
+    [challengeId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  registerPlayer: TypedContractMethod<
+    [
+      knowledgeLevel: BytesLike,
+      riskTolerance: BytesLike,
+      financialGoals: BytesLike,
+      savingsTarget: BytesLike,
+      savingsHorizonMonths: BytesLike,
+      monthlyContribution: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  rejectRequest: TypedContractMethod<
+    [requestId: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+
+  requestPersonalizedChallenge: TypedContractMethod<[], [void], "nonpayable">;
+
+  requestRankReveal: TypedContractMethod<[], [void], "nonpayable">;
+
+  retireChallenge: TypedContractMethod<
+    [challengeId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  revealRank: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  rewards: TypedContractMethod<[], [string], "view">;
+
+  setDataSharingEducator: TypedContractMethod<
+    [educator: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setEducatorRole: TypedContractMethod<
+    [account: AddressLike, granted: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setMinCohortSize: TypedContractMethod<
+    [newMinCohortSize: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setPseudonym: TypedContractMethod<[pseudonym: string], [void], "nonpayable">;
+
+  setRewards: TypedContractMethod<
+    [newRewards: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setStaking: TypedContractMethod<
+    [newStaking: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  shareCategoryStats: TypedContractMethod<
+    [categories: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
+  staking: TypedContractMethod<[], [string], "view">;
+
+  submitBudgetSummary: TypedContractMethod<
+    [
+      monthsOnTarget: BytesLike,
+      categorizationAccuracy: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  submitChallengeSolution: TypedContractMethod<
+    [
+      challengeId: BigNumberish,
+      encryptedSolution: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "payable"
+  >;
+
+  submitCreditSimulation: TypedContractMethod<
+    [creditScore: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  submitInvestingSimulation: TypedContractMethod<
+    [portfolioRisk: BytesLike, growthPercent: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  submitSavingsPlan: TypedContractMethod<
+    [
+      projectedAmount: BytesLike,
+      planContribution: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  submitTaxPractice: TypedContractMethod<
+    [correctAnswers: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  updateKnowledgeLevel: TypedContractMethod<
+    [newLevel: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  updateSavingsGoal: TypedContractMethod<
+    [
+      savingsTarget: BytesLike,
+      savingsHorizonMonths: BytesLike,
+      monthlyContribution: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  verifySolution: TypedContractMethod<
+    [requestId: BigNumberish, results: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "LEADERBOARD_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_PSEUDONYM_LENGTH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PERSONALIZED_CATEGORY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PRACTICE_COOLDOWN"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addPredefinedChallenge"
+  ): TypedContractMethod<
+    [
+      difficulty: BytesLike,
+      reward: BytesLike,
+      answerKey: BytesLike,
+      inputProof: BytesLike,
+      challengeType: string,
+      category: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "challenges"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, string, string, bigint, boolean, boolean] & {
+        difficultyLevel: string;
+        rewardAmount: string;
+        answerKey: string;
+        challengeType: string;
+        category: bigint;
+        isActive: boolean;
+        isRetired: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "computationOracle"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "deactivateChallenge"
+  ): TypedContractMethod<[challengeId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "educators"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "generateChallenge"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, results: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getCategoryStats"
+  ): TypedContractMethod<
+    [category: BigNumberish],
+    [FinancialLiteracyGame.CategoryStatsStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getChallengeCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getChallengeIdsByType"
+  ): TypedContractMethod<
+    [challengeType: string, offset: BigNumberish, limit: BigNumberish],
+    [[bigint[], bigint] & { ids: bigint[]; nextOffset: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getChallengePage"
+  ): TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [FinancialLiteracyGame.GameChallengeStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedLeaderboard"
+  ): TypedContractMethod<
+    [],
+    [[string[], string[]] & { scores: string[]; players: string[] }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedProfile"
+  ): TypedContractMethod<
+    [player: AddressLike],
+    [[string, string, string]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedRating"
+  ): TypedContractMethod<[player: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "getEncryptedSavingsGoal"
+  ): TypedContractMethod<
+    [player: AddressLike],
+    [[string, string, string]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedScore"
+  ): TypedContractMethod<[player: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "getEncryptedTopScore"
+  ): TypedContractMethod<[], [[string, string]], "view">;
+  getFunction(
+    nameOrSignature: "getEngagement"
+  ): TypedContractMethod<
+    [player: AddressLike],
+    [Engagement.ProgressStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getLastPlayed"
+  ): TypedContractMethod<[player: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "hideRank"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "lastPracticeAt"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "minCohortSize"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "playerCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "playerEducator"
+  ): TypedContractMethod<[arg0: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "playerStates"
+  ): TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [string, string, bigint] & {
+        encryptedScore: string;
+        encryptedProgress: string;
+        lastChallengeCompleted: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pseudonyms"
+  ): TypedContractMethod<[arg0: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "rankReveals"
+  ): TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [bigint, bigint, boolean] & {
+        rank: bigint;
+        revealedAt: bigint;
+        isRevealed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "reactivateChallenge"
+  ): TypedContractMethod<[challengeId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "registerPlayer"
+  ): TypedContractMethod<
+    [
+      knowledgeLevel: BytesLike,
+      riskTolerance: BytesLike,
+      financialGoals: BytesLike,
+      savingsTarget: BytesLike,
+      savingsHorizonMonths: BytesLike,
+      monthlyContribution: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "rejectRequest"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requestPersonalizedChallenge"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestRankReveal"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "retireChallenge"
+  ): TypedContractMethod<[challengeId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revealRank"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "rewards"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "setDataSharingEducator"
+  ): TypedContractMethod<[educator: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setEducatorRole"
+  ): TypedContractMethod<
+    [account: AddressLike, granted: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setMinCohortSize"
+  ): TypedContractMethod<
+    [newMinCohortSize: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPseudonym"
+  ): TypedContractMethod<[pseudonym: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setRewards"
+  ): TypedContractMethod<[newRewards: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setStaking"
+  ): TypedContractMethod<[newStaking: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "shareCategoryStats"
+  ): TypedContractMethod<[categories: BigNumberish[]], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "staking"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "submitBudgetSummary"
+  ): TypedContractMethod<
+    [
+      monthsOnTarget: BytesLike,
+      categorizationAccuracy: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitChallengeSolution"
+  ): TypedContractMethod<
+    [
+      challengeId: BigNumberish,
+      encryptedSolution: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "submitCreditSimulation"
+  ): TypedContractMethod<
+    [creditScore: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitInvestingSimulation"
+  ): TypedContractMethod<
+    [portfolioRisk: BytesLike, growthPercent: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitSavingsPlan"
+  ): TypedContractMethod<
+    [
+      projectedAmount: BytesLike,
+      planContribution: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitTaxPractice"
+  ): TypedContractMethod<
+    [correctAnswers: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "updateKnowledgeLevel"
+  ): TypedContractMethod<
+    [newLevel: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateSavingsGoal"
+  ): TypedContractMethod<
+    [
+      savingsTarget: BytesLike,
+      savingsHorizonMonths: BytesLike,
+      monthlyContribution: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "verifySolution"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, results: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "CategoryStatsShared"
+  ): TypedContractEvent<
+    CategoryStatsSharedEvent.InputTuple,
+    CategoryStatsSharedEvent.OutputTuple,
+    CategoryStatsSharedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ChallengeAdded"
+  ): TypedContractEvent<
+    ChallengeAddedEvent.InputTuple,
+    ChallengeAddedEvent.OutputTuple,
+    ChallengeAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ChallengeStatusChanged"
+  ): TypedContractEvent<
+    ChallengeStatusChangedEvent.InputTuple,
+    ChallengeStatusChangedEvent.OutputTuple,
+    ChallengeStatusChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ComputationRequested"
+  ): TypedContractEvent<
+    ComputationRequestedEvent.InputTuple,
+    ComputationRequestedEvent.OutputTuple,
+    ComputationRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DataSharingEducatorUpdated"
+  ): TypedContractEvent<
+    DataSharingEducatorUpdatedEvent.InputTuple,
+    DataSharingEducatorUpdatedEvent.OutputTuple,
+    DataSharingEducatorUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "EducatorRoleUpdated"
+  ): TypedContractEvent<
+    EducatorRoleUpdatedEvent.InputTuple,
+    EducatorRoleUpdatedEvent.OutputTuple,
+    EducatorRoleUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MinCohortSizeUpdated"
+  ): TypedContractEvent<
+    MinCohortSizeUpdatedEvent.InputTuple,
+    MinCohortSizeUpdatedEvent.OutputTuple,
+    MinCohortSizeUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PersonalizedChallengeFulfilled"
+  ): TypedContractEvent<
+    PersonalizedChallengeFulfilledEvent.InputTuple,
+    PersonalizedChallengeFulfilledEvent.OutputTuple,
+    PersonalizedChallengeFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "PersonalizedChallengeGenerated"
+  ): TypedContractEvent<
+    PersonalizedChallengeGeneratedEvent.InputTuple,
+    PersonalizedChallengeGeneratedEvent.OutputTuple,
+    PersonalizedChallengeGeneratedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PlayerRegistered"
+  ): TypedContractEvent<
+    PlayerRegisteredEvent.InputTuple,
+    PlayerRegisteredEvent.OutputTuple,
+    PlayerRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PracticeScored"
+  ): TypedContractEvent<
+    PracticeScoredEvent.InputTuple,
+    PracticeScoredEvent.OutputTuple,
+    PracticeScoredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PseudonymUpdated"
+  ): TypedContractEvent<
+    PseudonymUpdatedEvent.InputTuple,
+    PseudonymUpdatedEvent.OutputTuple,
+    PseudonymUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RankHidden"
+  ): TypedContractEvent<
+    RankHiddenEvent.InputTuple,
+    RankHiddenEvent.OutputTuple,
+    RankHiddenEvent.OutputObject
+  >;
+  getEvent(
+    key: "RankRevealed"
+  ): TypedContractEvent<
+    RankRevealedEvent.InputTuple,
+    RankRevealedEvent.OutputTuple,
+    RankRevealedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RequestRejected"
+  ): TypedContractEvent<
+    RequestRejectedEvent.InputTuple,
+    RequestRejectedEvent.OutputTuple,
+    RequestRejectedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RewardsUpdated"
+  ): TypedContractEvent<
+    RewardsUpdatedEvent.InputTuple,
+    RewardsUpdatedEvent.OutputTuple,
+    RewardsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SavingsGoalUpdated"
+  ): TypedContractEvent<
+    SavingsGoalUpdatedEvent.InputTuple,
+    SavingsGoalUpdatedEvent.OutputTuple,
+    SavingsGoalUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ScoreUpdated"
+  ): TypedContractEvent<
+    ScoreUpdatedEvent.InputTuple,
+    ScoreUpdatedEvent.OutputTuple,
+    ScoreUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SolutionEvaluated"
+  ): TypedContractEvent<
+    SolutionEvaluatedEvent.InputTuple,
+    SolutionEvaluatedEvent.OutputTuple,
+    SolutionEvaluatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StakingUpdated"
+  ): TypedContractEvent<
+    StakingUpdatedEvent.InputTuple,
+    StakingUpdatedEvent.OutputTuple,
+    StakingUpdatedEvent.OutputObject
+  >;
+
+  filters: {
+    "CategoryStatsShared(address,uint8[])": TypedContractEvent<
+      CategoryStatsSharedEvent.InputTuple,
+      CategoryStatsSharedEvent.OutputTuple,
+      CategoryStatsSharedEvent.OutputObject
+    >;
+    CategoryStatsShared: TypedContractEvent<
+      CategoryStatsSharedEvent.InputTuple,
+      CategoryStatsSharedEvent.OutputTuple,
+      CategoryStatsSharedEvent.OutputObject
+    >;
+
+    "ChallengeAdded(uint256,string)": TypedContractEvent<
+      ChallengeAddedEvent.InputTuple,
+      ChallengeAddedEvent.OutputTuple,
+      ChallengeAddedEvent.OutputObject
+    >;
+    ChallengeAdded: TypedContractEvent<
+      ChallengeAddedEvent.InputTuple,
+      ChallengeAddedEvent.OutputTuple,
+      ChallengeAddedEvent.OutputObject
+    >;
+
+    "ChallengeStatusChanged(uint256,bool,bool)": TypedContractEvent<
+      ChallengeStatusChangedEvent.InputTuple,
+      ChallengeStatusChangedEvent.OutputTuple,
+      ChallengeStatusChangedEvent.OutputObject
+    >;
+    ChallengeStatusChanged: TypedContractEvent<
+      ChallengeStatusChangedEvent.InputTuple,
+      ChallengeStatusChangedEvent.OutputTuple,
+      ChallengeStatusChangedEvent.OutputObject
+    >;
+
+    "ComputationRequested(uint256,bytes4,bytes32[])": TypedContractEvent<
+      ComputationRequestedEvent.InputTuple,
+      ComputationRequestedEvent.OutputTuple,
+      ComputationRequestedEvent.OutputObject
+    >;
+    ComputationRequested: TypedContractEvent<
+      ComputationRequestedEvent.InputTuple,
+      ComputationRequestedEvent.OutputTuple,
+      ComputationRequestedEvent.OutputObject
+    >;
+
+    "DataSharingEducatorUpdated(address,address)": TypedContractEvent<
+      DataSharingEducatorUpdatedEvent.InputTuple,
+      DataSharingEducatorUpdatedEvent.OutputTuple,
+      DataSharingEducatorUpdatedEvent.OutputObject
+    >;
+    DataSharingEducatorUpdated: TypedContractEvent<
+      DataSharingEducatorUpdatedEvent.InputTuple,
+      DataSharingEducatorUpdatedEvent.OutputTuple,
+      DataSharingEducatorUpdatedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "EducatorRoleUpdated(address,bool)": TypedContractEvent<
+      EducatorRoleUpdatedEvent.InputTuple,
+      EducatorRoleUpdatedEvent.OutputTuple,
+      EducatorRoleUpdatedEvent.OutputObject
+    >;
+    EducatorRoleUpdated: TypedContractEvent<
+      EducatorRoleUpdatedEvent.InputTuple,
+      EducatorRoleUpdatedEvent.OutputTuple,
+      EducatorRoleUpdatedEvent.OutputObject
+    >;
+
+    "MinCohortSizeUpdated(uint32)": TypedContractEvent<
+      MinCohortSizeUpdatedEvent.InputTuple,
+      MinCohortSizeUpdatedEvent.OutputTuple,
+      MinCohortSizeUpdatedEvent.OutputObject
+    >;
+    MinCohortSizeUpdated: TypedContractEvent<
+      MinCohortSizeUpdatedEvent.InputTuple,
+      MinCohortSizeUpdatedEvent.OutputTuple,
+      MinCohortSizeUpdatedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "PersonalizedChallengeFulfilled(address,uint256,uint256,string)": TypedContractEvent<
+      PersonalizedChallengeFulfilledEvent.InputTuple,
+      PersonalizedChallengeFulfilledEvent.OutputTuple,
+      PersonalizedChallengeFulfilledEvent.OutputObject
+    >;
+    PersonalizedChallengeFulfilled: TypedContractEvent<
+      PersonalizedChallengeFulfilledEvent.InputTuple,
+      PersonalizedChallengeFulfilledEvent.OutputTuple,
+      PersonalizedChallengeFulfilledEvent.OutputObject
+    >;
+
+    "PersonalizedChallengeGenerated(address,uint256)": TypedContractEvent<
+      PersonalizedChallengeGeneratedEvent.InputTuple,
+      PersonalizedChallengeGeneratedEvent.OutputTuple,
+      PersonalizedChallengeGeneratedEvent.OutputObject
+    >;
+    PersonalizedChallengeGenerated: TypedContractEvent<
+      PersonalizedChallengeGeneratedEvent.InputTuple,
+      PersonalizedChallengeGeneratedEvent.OutputTuple,
+      PersonalizedChallengeGeneratedEvent.OutputObject
+    >;
+
+    "PlayerRegistered(address)": TypedContractEvent<
+      PlayerRegisteredEvent.InputTuple,
+      PlayerRegisteredEvent.OutputTuple,
+      PlayerRegisteredEvent.OutputObject
+    >;
+    PlayerRegistered: TypedContractEvent<
+      PlayerRegisteredEvent.InputTuple,
+      PlayerRegisteredEvent.OutputTuple,
+      PlayerRegisteredEvent.OutputObject
+    >;
+
+    "PracticeScored(address,uint8)": TypedContractEvent<
+      PracticeScoredEvent.InputTuple,
+      PracticeScoredEvent.OutputTuple,
+      PracticeScoredEvent.OutputObject
+    >;
+    PracticeScored: TypedContractEvent<
+      PracticeScoredEvent.InputTuple,
+      PracticeScoredEvent.OutputTuple,
+      PracticeScoredEvent.OutputObject
+    >;
+
+    "PseudonymUpdated(address,string)": TypedContractEvent<
+      PseudonymUpdatedEvent.InputTuple,
+      PseudonymUpdatedEvent.OutputTuple,
+      PseudonymUpdatedEvent.OutputObject
+    >;
+    PseudonymUpdated: TypedContractEvent<
+      PseudonymUpdatedEvent.InputTuple,
+      PseudonymUpdatedEvent.OutputTuple,
+      PseudonymUpdatedEvent.OutputObject
+    >;
+
+    "RankHidden(address)": TypedContractEvent<
+      RankHiddenEvent.InputTuple,
+      RankHiddenEvent.OutputTuple,
+      RankHiddenEvent.OutputObject
+    >;
+    RankHidden: TypedContractEvent<
+      RankHiddenEvent.InputTuple,
+      RankHiddenEvent.OutputTuple,
+      RankHiddenEvent.OutputObject
+    >;
+
+    "RankRevealed(address,uint32)": TypedContractEvent<
+      RankRevealedEvent.InputTuple,
+      RankRevealedEvent.OutputTuple,
+      RankRevealedEvent.OutputObject
+    >;
+    RankRevealed: TypedContractEvent<
+      RankRevealedEvent.InputTuple,
+      RankRevealedEvent.OutputTuple,
+      RankRevealedEvent.OutputObject
+    >;
+
+    "RequestRejected(uint256,address,uint8,string)": TypedContractEvent<
+      RequestRejectedEvent.InputTuple,
+      RequestRejectedEvent.OutputTuple,
+      RequestRejectedEvent.OutputObject
+    >;
+    RequestRejected: TypedContractEvent<
+      RequestRejectedEvent.InputTuple,
+      RequestRejectedEvent.OutputTuple,
+      RequestRejectedEvent.OutputObject
+    >;
+
+    "RewardsUpdated(address)": TypedContractEvent<
+      RewardsUpdatedEvent.InputTuple,
+      RewardsUpdatedEvent.OutputTuple,
+      RewardsUpdatedEvent.OutputObject
+    >;
+    RewardsUpdated: TypedContractEvent<
+      RewardsUpdatedEvent.InputTuple,
+      RewardsUpdatedEvent.OutputTuple,
+      RewardsUpdatedEvent.OutputObject
+    >;
+
+    "SavingsGoalUpdated(address)": TypedContractEvent<
+      SavingsGoalUpdatedEvent.InputTuple,
+      SavingsGoalUpdatedEvent.OutputTuple,
+      SavingsGoalUpdatedEvent.OutputObject
+    >;
+    SavingsGoalUpdated: TypedContractEvent<
+      SavingsGoalUpdatedEvent.InputTuple,
+      SavingsGoalUpdatedEvent.OutputTuple,
+      SavingsGoalUpdatedEvent.OutputObject
+    >;
+
+    "ScoreUpdated(address)": TypedContractEvent<
+      ScoreUpdatedEvent.InputTuple,
+      ScoreUpdatedEvent.OutputTuple,
+      ScoreUpdatedEvent.OutputObject
+    >;
+    ScoreUpdated: TypedContractEvent<
+      ScoreUpdatedEvent.InputTuple,
+      ScoreUpdatedEvent.OutputTuple,
+      ScoreUpdatedEvent.OutputObject
+    >;
+
+    "SolutionEvaluated(address,uint256)": TypedContractEvent<
+      SolutionEvaluatedEvent.InputTuple,
+      SolutionEvaluatedEvent.OutputTuple,
+      SolutionEvaluatedEvent.OutputObject
+    >;
+    SolutionEvaluated: TypedContractEvent<
+      SolutionEvaluatedEvent.InputTuple,
+      SolutionEvaluatedEvent.OutputTuple,
+      SolutionEvaluatedEvent.OutputObject
+    >;
+
+    "StakingUpdated(address)": TypedContractEvent<
+      StakingUpdatedEvent.InputTuple,
+      StakingUpdatedEvent.OutputTuple,
+      StakingUpdatedEvent.OutputObject
+    >;
+    StakingUpdated: TypedContractEvent<
+      StakingUpdatedEvent.InputTuple,
+      StakingUpdatedEvent.OutputTuple,
+      StakingUpdatedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,598 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface LiteracyRewardsInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "CATEGORY_MASTERY"
+      | "FIRST_COMPLETION"
+      | "MASTERY_CATEGORIES"
+      | "MASTERY_CORRECT_ANSWERS"
+      | "STREAK_BADGE_DAYS"
+      | "WEEK_STREAK"
+      | "awardBadge"
+      | "badgeClaimPending"
+      | "badges"
+      | "bestStreak"
+      | "claimBadge"
+      | "game"
+      | "getEncryptedCorrectAnswers"
+      | "getEncryptedPendingPoints"
+      | "mintPoints"
+      | "points"
+      | "protocolId"
+      | "recordSolution"
+      | "redeemPoints"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BadgeClaimRequested"
+      | "BadgeClaimSettled"
+      | "DecryptionFulfilled"
+      | "PointsRedeemed"
+      | "RedemptionRequested"
+      | "SolutionRecorded"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "CATEGORY_MASTERY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "FIRST_COMPLETION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MASTERY_CATEGORIES",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MASTERY_CORRECT_ANSWERS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "STREAK_BADGE_DAYS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "WEEK_STREAK",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "awardBadge",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "badgeClaimPending",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "badges", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "bestStreak",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimBadge",
+    values: [BigNumberish, BigNumberish[]]
+  ): string;
+  encodeFunctionData(functionFragment: "game", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedCorrectAnswers",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedPendingPoints",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "mintPoints",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "points", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordSolution",
+    values: [
+      AddressLike,
+      BigNumberish,
+      BigNumberish,
+      BytesLike,
+      BytesLike,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "redeemPoints",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "CATEGORY_MASTERY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "FIRST_COMPLETION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MASTERY_CATEGORIES",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MASTERY_CORRECT_ANSWERS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "STREAK_BADGE_DAYS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "WEEK_STREAK",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "awardBadge", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "badgeClaimPending",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "badges", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "bestStreak", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "claimBadge", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "game", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedCorrectAnswers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedPendingPoints",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "mintPoints", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "points", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "recordSolution",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "redeemPoints",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace BadgeClaimRequestedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    badgeId: BigNumberish,
+    requestId: BigNumberish
+  ];
+  export type OutputTuple = [
+    player: string,
+    badgeId: bigint,
+    requestId: bigint
+  ];
+  export interface OutputObject {
+    player: string;
+    badgeId: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BadgeClaimSettledEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    badgeId: BigNumberish,
+    awarded: boolean
+  ];
+  export type OutputTuple = [player: string, badgeId: bigint, awarded: boolean];
+  export interface OutputObject {
+    player: string;
+    badgeId: bigint;
+    awarded: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PointsRedeemedEvent {
+  export type InputTuple = [player: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [player: string, amount: bigint];
+  export interface OutputObject {
+    player: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RedemptionRequestedEvent {
+  export type InputTuple = [player: AddressLike, requestId: BigNumberish];
+  export type OutputTuple = [player: string, requestId: bigint];
+  export interface OutputObject {
+    player: string;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SolutionRecordedEvent {
+  export type InputTuple = [player: AddressLike];
+  export type OutputTuple = [player: string];
+  export interface OutputObject {
+    player: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface LiteracyRewards extends BaseContract {
+  connect(runner?: ContractRunner | null): LiteracyRewards;
+  waitForDeployment(): Promise<this>;
+
+  interface: LiteracyRewardsInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  CATEGORY_MASTERY: TypedContractMethod<[], [bigint], "view">;
+
+  FIRST_COMPLETION: TypedContractMethod<[], [bigint], "view">;
+
+  MASTERY_CATEGORIES: TypedContractMethod<[], [bigint], "view">;
+
+  MASTERY_CORRECT_ANSWERS: TypedContractMethod<[], [bigint], "view">;
+
+  STREAK_BADGE_DAYS: TypedContractMethod<[], [bigint], "view">;
+
+  WEEK_STREAK: TypedContractMethod<[], [bigint], "view">;
+
+  awardBadge: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  badgeClaimPending: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  badges: TypedContractMethod<[], [string], "view">;
+
+  bestStreak: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  claimBadge: TypedContractMethod<
+    [badgeId: BigNumberish, categories: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
+  game: TypedContractMethod<[], [string], "view">;
+
+  getEncryptedCorrectAnswers: TypedContractMethod<
+    [player: AddressLike, category: BigNumberish],
+    [[string, string]],
+    "view"
+  >;
+
+  getEncryptedPendingPoints: TypedContractMethod<
+    [player: AddressLike],
+    [string],
+    "view"
+  >;
+
+  mintPoints: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  points: TypedContractMethod<[], [string], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  recordSolution: TypedContractMethod<
+    [
+      player: AddressLike,
+      challengeId: BigNumberish,
+      category: BigNumberish,
+      reward: BytesLike,
+      isCorrect: BytesLike,
+      streak: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  redeemPoints: TypedContractMethod<[], [void], "nonpayable">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "CATEGORY_MASTERY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "FIRST_COMPLETION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MASTERY_CATEGORIES"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MASTERY_CORRECT_ANSWERS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "STREAK_BADGE_DAYS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "WEEK_STREAK"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "awardBadge"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "badgeClaimPending"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "badges"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "bestStreak"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "claimBadge"
+  ): TypedContractMethod<
+    [badgeId: BigNumberish, categories: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "game"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "getEncryptedCorrectAnswers"
+  ): TypedContractMethod<
+    [player: AddressLike, category: BigNumberish],
+    [[string, string]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedPendingPoints"
+  ): TypedContractMethod<[player: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "mintPoints"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "points"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "recordSolution"
+  ): TypedContractMethod<
+    [
+      player: AddressLike,
+      challengeId: BigNumberish,
+      category: BigNumberish,
+      reward: BytesLike,
+      isCorrect: BytesLike,
+      streak: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "redeemPoints"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+
+  getEvent(
+    key: "BadgeClaimRequested"
+  ): TypedContractEvent<
+    BadgeClaimRequestedEvent.InputTuple,
+    BadgeClaimRequestedEvent.OutputTuple,
+    BadgeClaimRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BadgeClaimSettled"
+  ): TypedContractEvent<
+    BadgeClaimSettledEvent.InputTuple,
+    BadgeClaimSettledEvent.OutputTuple,
+    BadgeClaimSettledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "PointsRedeemed"
+  ): TypedContractEvent<
+    PointsRedeemedEvent.InputTuple,
+    PointsRedeemedEvent.OutputTuple,
+    PointsRedeemedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RedemptionRequested"
+  ): TypedContractEvent<
+    RedemptionRequestedEvent.InputTuple,
+    RedemptionRequestedEvent.OutputTuple,
+    RedemptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SolutionRecorded"
+  ): TypedContractEvent<
+    SolutionRecordedEvent.InputTuple,
+    SolutionRecordedEvent.OutputTuple,
+    SolutionRecordedEvent.OutputObject
+  >;
+
+  filters: {
+    "BadgeClaimRequested(address,uint256,uint256)": TypedContractEvent<
+      BadgeClaimRequestedEvent.InputTuple,
+      BadgeClaimRequestedEvent.OutputTuple,
+      BadgeClaimRequestedEvent.OutputObject
+    >;
+    BadgeClaimRequested: TypedContractEvent<
+      BadgeClaimRequestedEvent.InputTuple,
+      BadgeClaimRequestedEvent.OutputTuple,
+      BadgeClaimRequestedEvent.OutputObject
+    >;
+
+    "BadgeClaimSettled(address,uint256,bool)": TypedContractEvent<
+      BadgeClaimSettledEvent.InputTuple,
+      BadgeClaimSettledEvent.OutputTuple,
+      BadgeClaimSettledEvent.OutputObject
+    >;
+    BadgeClaimSettled: TypedContractEvent<
+      BadgeClaimSettledEvent.InputTuple,
+      BadgeClaimSettledEvent.OutputTuple,
+      BadgeClaimSettledEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "PointsRedeemed(address,uint256)": TypedContractEvent<
+      PointsRedeemedEvent.InputTuple,
+      PointsRedeemedEvent.OutputTuple,
+      PointsRedeemedEvent.OutputObject
+    >;
+    PointsRedeemed: TypedContractEvent<
+      PointsRedeemedEvent.InputTuple,
+      PointsRedeemedEvent.OutputTuple,
+      PointsRedeemedEvent.OutputObject
+    >;
+
+    "RedemptionRequested(address,uint256)": TypedContractEvent<
+      RedemptionRequestedEvent.InputTuple,
+      RedemptionRequestedEvent.OutputTuple,
+      RedemptionRequestedEvent.OutputObject
+    >;
+    RedemptionRequested: TypedContractEvent<
+      RedemptionRequestedEvent.InputTuple,
+      RedemptionRequestedEvent.OutputTuple,
+      RedemptionRequestedEvent.OutputObject
+    >;
+
+    "SolutionRecorded(address)": TypedContractEvent<
+      SolutionRecordedEvent.InputTuple,
+      SolutionRecordedEvent.OutputTuple,
+      SolutionRecordedEvent.OutputObject
+    >;
+    SolutionRecorded: TypedContractEvent<
+      SolutionRecordedEvent.InputTuple,
+      SolutionRecordedEvent.OutputTuple,
+      SolutionRecordedEvent.OutputObject
+    >;
+  };
+}
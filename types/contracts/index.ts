@@ -1,5 +1,9 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { CsrFeedbackFHE } from "./CsrFeedbackFHE";
-export type { UniversalAdapter } from "./UniversalAdapter";
+export type { ChallengeStaking } from "./ChallengeStaking";
+export type { Engagement } from "./Engagement";
+export type { FinancialLiteracyGame } from "./FinancialLiteracyGame";
+export type { LiteracyBadges } from "./LiteracyBadges";
+export type { LiteracyPoint } from "./LiteracyPoint";
+export type { LiteracyRewards } from "./LiteracyRewards";
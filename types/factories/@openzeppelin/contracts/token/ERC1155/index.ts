@@ -0,0 +1,7 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export * as extensions from "./extensions";
+export { ERC1155__factory } from "./ERC1155__factory";
+export { IERC1155__factory } from "./IERC1155__factory";
+export { IERC1155Receiver__factory } from "./IERC1155Receiver__factory";
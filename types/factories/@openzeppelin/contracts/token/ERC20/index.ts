@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export * as extensions from "./extensions";
+export { ERC20__factory } from "./ERC20__factory";
+export { IERC20__factory } from "./IERC20__factory";
@@ -0,0 +1,665 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  ChallengeStaking,
+  ChallengeStakingInterface,
+} from "../../contracts/ChallengeStaking";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "gameAddress",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "Claimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "funder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "RewardPoolFunded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "rewardBps",
+        type: "uint256",
+      },
+    ],
+    name: "RewardRateUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "stakeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "challengeId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "reservedReward",
+        type: "uint256",
+      },
+    ],
+    name: "StakePlaced",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "stakeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "StakeRefunded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "stakeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "won",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "payout",
+        type: "uint256",
+      },
+    ],
+    name: "StakeSettled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "treasury",
+        type: "address",
+      },
+    ],
+    name: "TreasuryUpdated",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_REWARD_BPS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SETTLEMENT_TIMEOUT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "claim",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "claimable",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "escrowedStakes",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "fundRewardPool",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "game",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "hasStaked",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "challengeId",
+        type: "uint256",
+      },
+    ],
+    name: "placeStake",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "stakeId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "stakeId",
+        type: "uint256",
+      },
+    ],
+    name: "reclaimStake",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "stakeId",
+        type: "uint256",
+      },
+    ],
+    name: "refund",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "rewardBps",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "rewardPool",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newRewardBps",
+        type: "uint256",
+      },
+    ],
+    name: "setRewardBps",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newTreasury",
+        type: "address",
+      },
+    ],
+    name: "setTreasury",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "stakeId",
+        type: "uint256",
+      },
+      {
+        internalType: "ebool",
+        name: "isCorrect",
+        type: "bytes32",
+      },
+    ],
+    name: "settle",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "settleStake",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "stakeCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "stakes",
+    outputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "challengeId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "reservedReward",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "enum ChallengeStaking.StakeStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalClaimable",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "treasury",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a0604052346102ac57604051601f61184838819003918201601f19168301916001600160401b038311848410176102b0578084926020946040528339810103126102ac57516001600160a01b0381168082036102ac575f60606100616102c4565b8281528260208201528260408201520152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60606100916102c4565b7350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c28812604082015201527350157cffd6bbfa2dece204a89ec419c23ef5755d60018060a01b03197f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416177f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005573cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6960018060a01b03195f805160206118088339815191525416175f805160206118088339815191525573a02cda4ca3a71d7c46997716f4283aa851c2881260018060a01b03195f805160206118288339815191525416175f8051602061182883398151915255731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60018060a01b03195f805160206117e88339815191525416175f805160206117e8833981519152556103e860025515610278576080525f8054336001600160a01b031991821681178355600180549092168117909155604051917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08180a361150490816102e48239608051818181610384015281816103f4015281816104410152610a180152f35b60405162461bcd60e51b815260206004820152600c60248201526b496e76616c69642067616d6560a01b6044820152606490fd5b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b038111838210176102b05760405256fe6080806040526004361015610012575f80fd5b5f3560e01c90816306d64e8d14610bed575080630a542fa714610b5057806317f772fc14610af25780632082833914610a74578063278ecde1146109fe5780633c0a6e38146109e1578063402914f5146109a95780634838ed191461098c5780634e71d92d1461087557806361d027b31461084d57806366666aa914610830578063711616b71461081457806382328ffc146107f757806385c6ccca146106d15780638da5cb5b146106aa578063bb1622d214610423578063c3fe3e28146103df578063c4a9e116146103c2578063c54fc6561461036d578063d5a44f86146102e4578063da1f12ab146102c8578063da4b2e751461027f578063f0f44260146101d35763f2fde38b14610124575f80fd5b346101cf5760203660031901126101cf5761013d610c8b565b5f546001600160a01b03811691610155338414610ca1565b6001600160a01b031691821561019a5782907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e05f80a36001600160a01b031916175f55005b60405162461bcd60e51b815260206004820152600d60248201526c24b73b30b634b21037bbb732b960991b6044820152606490fd5b5f80fd5b346101cf5760203660031901126101cf576101ec610c8b565b61020060018060a01b035f54163314610ca1565b6001600160a01b0316801561024757600180546001600160a01b031916821790557f7dae230f18360d76a040c81f050aa14eb9d6dc7901b20fc5d855e2a20fe814d15f80a2005b60405162461bcd60e51b815260206004820152601060248201526f496e76616c696420747265617375727960801b6044820152606490fd5b346101cf5760403660031901126101cf576001600160a01b036102a0610c8b565b165f52600960205260405f206024355f52602052602060ff60405f2054166040519015158152f35b346101cf575f3660031901126101cf5760206040516127118152f35b346101cf5760203660031901126101cf576004355f52600760205260405f2060018060a01b03815416600182015491600281015460038201549060ff600560048501549401541694604051948552602085015260408401526060830152608082015260068210156103595760c09160a0820152f35b634e487b7160e01b5f52602160045260245ffd5b346101cf5760403660031901126101cf576103b2337f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03161461107f565b6103c06024356004356110c4565b005b346101cf575f3660031901126101cf576020600654604051908152f35b346101cf575f3660031901126101cf576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b60403660031901126101cf57610437610c8b565b6024359061046f337f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03161461107f565b60018060a01b0316805f52600960205260405f20825f5260205260ff60405f2054166106655760025480340290348204143415171561061657612710900491826003541061062a57815f52600960205260405f20815f5260205260405f20600160ff198254161790556104e483600354610cfe565b6003556104fc6104f48434610cf1565b600454610cf1565b60045561050a6006546110b6565b9182600655620151804201938442116106165760405160c081019080821067ffffffffffffffff8311176106025760059160405283815260208101968588526040820134815260608301908582526080840192835260a084019960018b52895f52600760205260405f209460018060a01b039051166bffffffffffffffffffffffff60a01b86541617855551600185015551600284015551600383015551600482015501945194600686101561035957604085927f96b242fbc94862e8671b4570592dc670d7ca512ee786e039d3743754be41fc7d9260209860ff8019835416911617905581519034825288820152a4604051908152f35b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b5f52601160045260245ffd5b60405162461bcd60e51b815260206004820152601360248201527252657761726420706f6f6c20746f6f206c6f7760681b6044820152606490fd5b60405162461bcd60e51b815260206004820152601860248201527f4368616c6c656e676520616c7265616479207374616b656400000000000000006044820152606490fd5b346101cf575f3660031901126101cf575f546040516001600160a01b039091168152602090f35b346101cf5760203660031901126101cf576004355f81815260076020526040902080546001600160a01b031633036107c05760ff600582015416600681101561035957600181149081156107b5575b5015610778576004015442111561073a576103c0906113e7565b60405162461bcd60e51b8152602060048201526016602482015275536574746c656d656e74206e6f74206f76657264756560501b6044820152606490fd5b60405162461bcd60e51b815260206004820152601560248201527414dd185ad948185b1c9958591e481cd95d1d1b1959605a1b6044820152606490fd5b600291501483610720565b60405162461bcd60e51b815260206004820152600f60248201526e2737ba1039ba30b5b29037bbb732b960891b6044820152606490fd5b346101cf575f3660031901126101cf576020600254604051908152f35b346101cf575f3660031901126101cf5760206040516127108152f35b346101cf575f3660031901126101cf576020600354604051908152f35b346101cf575f3660031901126101cf576001546040516001600160a01b039091168152602090f35b346101cf575f3660031901126101cf57335f52600860205260405f20548015610954575f8080809333825260086020528160408120556108b781600554610cfe565b6005556040518181527fd8138f8a3f377c5259ca548e70e4c2de94f129f5a11036a15b69513cba2b426a60203392a2335af13d1561094f573d6108f981610c29565b906109076040519283610c07565b81525f60203d92013e5b1561091857005b60405162461bcd60e51b815260206004820152600f60248201526e151c985b9cd9995c8819985a5b1959608a1b6044820152606490fd5b610911565b60405162461bcd60e51b815260206004820152601060248201526f4e6f7468696e6720746f20636c61696d60801b6044820152606490fd5b346101cf575f3660031901126101cf576020600554604051908152f35b346101cf5760203660031901126101cf576001600160a01b036109ca610c8b565b165f526008602052602060405f2054604051908152f35b346101cf575f3660031901126101cf576020604051620151808152f35b346101cf5760203660031901126101cf57600435610a46337f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03161461107f565b805f52600760205260ff600560405f20015416600681101561035957600114610a6b57005b6103c0906113e7565b5f3660031901126101cf573415610ac257610a9134600354610cf1565b6003556040513481527fd3c7d1587d8f93bae0fcfc5a820d2187e755a75ec28a06c20a9da047e1b01eb560203392a2005b60405162461bcd60e51b81526020600482015260086024820152674e6f2076616c756560c01b6044820152606490fd5b346101cf5760603660031901126101cf5760243567ffffffffffffffff81116101cf57610b23903690600401610c45565b6044359067ffffffffffffffff82116101cf57610b476103c0923690600401610c45565b90600435610d0b565b346101cf5760203660031901126101cf57600435610b7860018060a01b035f54163314610ca1565b6127108111610bb2576020817f41d466ebd06fb97e7786086ac8b69b7eb7da798592036251291d34e9791cde0192600255604051908152a1005b60405162461bcd60e51b8152602060048201526013602482015272496e76616c696420726577617264207261746560681b6044820152606490fd5b346101cf575f3660031901126101cf576020906004548152f35b90601f8019910116810190811067ffffffffffffffff82111761060257604052565b67ffffffffffffffff811161060257601f01601f191660200190565b81601f820112156101cf57803590610c5c82610c29565b92610c6a6040519485610c07565b828452602083830101116101cf57815f926020809301838601378301015290565b600435906001600160a01b03821682036101cf57565b15610ca857565b60405162461bcd60e51b81526020600482015260096024820152682737ba1037bbb732b960b91b6044820152606490fd5b908160209103126101cf575180151581036101cf5790565b9190820180921161061657565b9190820391821161061657565b90815f52600a60205260405f205491821561104857805f52600a6020525f6040812055805f525f805160206114d883398151915260205260405f20541561103957805f525f805160206114d883398151915260205260405f2093604051808660208298549384815201905f5260205f20925f5b818110611020575050610d9392500386610c07565b8251948560200195866020116106165760400180961161061657604051808551976020870198808a602085015e820190602082015203602001808252602001610ddc9082610c07565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703546040516378542ead60e01b815260606004820152936001600160a01b03909116928492839291610e32906064850190611480565b838103600319016024850152610e47916114b3565b828103600319016044840152610e5c916114b3565b03815a6020945f91f1908115611015575f91610fe6575b5015610fd7577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2815f52600760205260405f2090600582019360ff855416600681101561035957600203610fd057602082610ed49351010190610cd9565b9060028101805490610ef7610eef6003850193845490610cf1565b600454610cfe565b6004555f8415610f71575091610f357f9b62f748f4bef1eb27b5bc59eeb113bd7b5f1540bc0b093dfa141556f620db98949260409454905490610cf1565b865460ff19166003179096558054610f579087906001600160a01b03166113b5565b60018060a01b0390541694825191151582526020820152a3565b9560409391610fb47f9b62f748f4bef1eb27b5bc59eeb113bd7b5f1540bc0b093dfa141556f620db989694610fcb93600460ff1982541617905554600354610cf1565b6003556001549054906001600160a01b03166113b5565b610f57565b5050505050565b63cf6c44e960e01b5f5260045ffd5b611008915060203d60201161100e575b6110008183610c07565b810190610cd9565b5f610e73565b503d610ff6565b6040513d5f823e3d90fd5b845483526001948501948a945060209093019201610d7e565b63d66ca67560e01b5f5260045ffd5b60405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b6044820152606490fd5b1561108657565b60405162461bcd60e51b81526020600482015260086024820152674e6f742067616d6560c01b6044820152606490fd5b5f1981146106165760010190565b905f825f526007602052600560405f200160ff8154166006811015610359576001036113af57805460ff191660021790556040805190926111058483610c07565b600182526020820190601f19850136833782511561139b5781527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00547f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700549092906001600160a01b0316803b156101cf575f86518092637d6e912360e11b82526020600483015281838161119c6024820189611480565b03925af180156113915761137c575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702546001600160a01b0316803b15611378578486518092633263b83b60e01b82528660048301526060602483015281838161120a6064820189611480565b6305fddcbf60e21b604483015203925af1801561136e57908591611355575b508390525f805160206114d883398151915260205284842054611346578284525f805160206114d883398151915260205284842090519167ffffffffffffffff83116113325768010000000000000000831161133257815483835580841061130c575b5090845260208420845b8381106112f857505050506112cb7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00546110b6565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00558152600a6020522055565b600190602084519401938184015501611296565b828652836020872091820191015b818110611327575061128c565b86815560010161131a565b634e487b7160e01b85526041600452602485fd5b633f06d22b60e01b8452600484fd5b8161135f91610c07565b61136a57835f611229565b8380fd5b86513d87823e3d90fd5b8480fd5b6113899194505f90610c07565b5f925f6111ab565b86513d5f823e3d90fd5b634e487b7160e01b5f52603260045260245ffd5b50505050565b906113e29160018060a01b03165f52600860205260405f206113d8828254610cf1565b9055600554610cf1565b600555565b805f52600760205260405f209060058201600560ff198254161790557f181dd8e5abfdd7ea94bff7529391d477a29bf85df13abe63fb4f97017bbc8ba06020600284019361144f8554611443610eef6003850192835490610cf1565b60045554600354610cf1565b60035580548554611468916001600160a01b03166113b5565b5493546040519081526001600160a01b0390941693a3565b90602080835192838152019201905f5b81811061149d5750505090565b8251845260209384019390920191600101611490565b805180835260209291819084018484015e5f828201840152601f01601f191601019056fe878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01a164736f6c634300081a000a9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702";
+
+type ChallengeStakingConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ChallengeStakingConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ChallengeStaking__factory extends ContractFactory {
+  constructor(...args: ChallengeStakingConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    gameAddress: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(gameAddress, overrides || {});
+  }
+  override deploy(
+    gameAddress: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(gameAddress, overrides || {}) as Promise<
+      ChallengeStaking & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): ChallengeStaking__factory {
+    return super.connect(runner) as ChallengeStaking__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ChallengeStakingInterface {
+    return new Interface(_abi) as ChallengeStakingInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ChallengeStaking {
+    return new Contract(address, _abi, runner) as unknown as ChallengeStaking;
+  }
+}
@@ -0,0 +1,83 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  Engagement,
+  EngagementInterface,
+} from "../../contracts/Engagement";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "streak",
+        type: "uint32",
+      },
+    ],
+    name: "streakPoints",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60808060405234601b57610b51908161002082393081606b0152f35b5f80fdfe60806040526004361015610011575f80fd5b5f3560e01c8063d34d5dc1146100685763d4feb8c41461002f575f80fd5b60203660031901126100645760043563ffffffff8116810361006457610056602091610813565b63ffffffff60405191168152f35b5f80fd5b307f000000000000000000000000000000000000000000000000000000000000000014610064576060366003190112610064576024356004356001600160a01b03821682036100645760443567ffffffffffffffff62015180420416916203f48042018042116107f65762093a809004600282019081549467ffffffffffffffff8616818103610779575b50505f945067ffffffffffffffff811667ffffffffffffffff835460401c1603610741575b5060205f80516020610b2583398151915254604460405180978193639cd07acb60e01b8352600160048401526004602484015260018060a01b03165af193841561053a575f9461070d575b50602061016e610a02565b606460018060a01b035f80516020610b258339815191525416965f6040519889948593637702dcff60e01b85528a6004860152602485015260448401525af193841561053a575f946106d5575b5063ffffffff61021b8160209387986101d65f998854610893565b6101e03082610aa7565b6101ea8282610aa7565b875561020f6101fe600189019b8c54610893565b916102093084610aa7565b82610aa7565b89555460801c16610813565b1660445f80516020610b2583398151915254916040519687938492639cd07acb60e01b845260048401526004602484015260018060a01b03165af192831561053a575f936106a1575b50602061026f610a02565b606460018060a01b035f80516020610b258339815191525416955f6040519788948593637702dcff60e01b8552896004860152602485015260448401525af192831561053a575f9361066d575b50548015610659575b5f80516020610b258339815191525460405163f77f3f1d60e01b8152600481019290925260036024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af1801561053a575f90610625575b610329915082610946565b5f60205f80516020610b2583398151915254604460405180948193639cd07acb60e01b8352600f60048401526004602484015260018060a01b03165af1801561053a575f906105f2575b602091506064610381610a02565b5f80516020610b2583398151915254604051637702dcff60e01b8152600481019690965260248601939093526044850152839182905f906001600160a01b03165af190811561053a575f916105c0575b506103dd905f93610893565b925480156105ae575b5f80516020610b258339815191525460405163f77f3f1d60e01b81526004810192909252600a6024830152600160f81b6044830152909260209184916064918391906001600160a01b03165af190811561053a575f91610578575b61044b9250610946565b5f60205f80516020610b2583398151915254604460405180948193639cd07acb60e01b8352603260048401526004602484015260018060a01b03165af1801561053a575f90610545575b6020915060646104a3610a02565b5f80516020610b2583398151915254604051637702dcff60e01b8152600481019690965260248601939093526044850152839182905f906001600160a01b03165af190811561053a575f91610507575b60206104ff8385610893565b604051908152f35b90506020813d602011610532575b81610522602093836109cc565b81010312610064575160206104f3565b3d9150610515565b6040513d5f823e3d90fd5b506020813d602011610570575b8161055f602093836109cc565b810103126100645760209051610495565b3d9150610552565b90506020823d6020116105a6575b81610593602093836109cc565b810103126100645761044b915190610441565b3d9150610586565b5060206105b9610a02565b90506103e6565b90506020813d6020116105ea575b816105db602093836109cc565b8101031261006457515f6103d1565b3d91506105ce565b506020813d60201161061d575b8161060c602093836109cc565b810103126100645760209051610373565b3d91506105ff565b506020813d602011610651575b8161063f602093836109cc565b8101031261006457610329905161031e565b3d9150610632565b505f6020610665610a02565b9150506102c5565b9092506020813d602011610699575b81610689602093836109cc565b81010312610064575191846102bc565b3d915061067c565b9092506020813d6020116106cd575b816106bd602093836109cc565b8101031261006457519184610264565b3d91506106b0565b93506020843d602011610705575b816106f0602093836109cc565b810103126100645792519263ffffffff6101bb565b3d91506106e3565b9093506020813d602011610739575b81610729602093836109cc565b8101031261006457519285610163565b3d915061071c565b610749610a02565b600184015567ffffffffffffffff60401b82549160401b169067ffffffffffffffff60401b191617815585610118565b60010167ffffffffffffffff81116107f65767ffffffffffffffff16810361080a57600163ffffffff8760801c16019563ffffffff87116107f6575f965b63ffffffff60801b1990911660809190911b63ffffffff60801b161783556107dd610a02565b8455825467ffffffffffffffff191617825586806100f3565b634e487b7160e01b5f52601160045260245ffd5b5f9560016107b7565b63ffffffff16600181111561088c575f190163ffffffff81116107f6575b600a63ffffffff821611610884575b63ffffffff600a91160263ffffffff81169081036107f65760640163ffffffff81116107f65763ffffffff16600a0263ffffffff81169081036107f6576064900490565b50600a610840565b505f610831565b908115610936575b8015610924575b602090606460018060a01b035f80516020610b258339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af190811561053a575f916108f5575090565b90506020813d60201161091c575b81610910602093836109cc565b81010312610064575190565b3d9150610903565b50602061092f610a02565b90506108a2565b9050610940610a02565b9061089b565b9081156109bb575b80156109a8575b602090606460018060a01b035f80516020610b258339815191525416935f604051958694859363d99882d560e01b8552600485015260248401528160448401525af190811561053a575f916108f5575090565b5060206109b45f610a54565b9050610955565b90506109c65f610a54565b9061094e565b90601f8019910116810190811067ffffffffffffffff8211176109ee57604052565b634e487b7160e01b5f52604160045260245ffd5b5f80516020610b2583398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af190811561053a575f916108f5575090565b5f80516020610b2583398151915254604051639cd07acb60e01b815260048101929092525f6024830181905260209183916044918391906001600160a01b03165af190811561053a575f916108f5575090565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b1561006457604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af1801561053a57610b185750565b5f610b22916109cc565b56fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c634300081a000a";
+
+type EngagementConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: EngagementConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class Engagement__factory extends ContractFactory {
+  constructor(...args: EngagementConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      Engagement & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): Engagement__factory {
+    return super.connect(runner) as Engagement__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): EngagementInterface {
+    return new Interface(_abi) as EngagementInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): Engagement {
+    return new Contract(address, _abi, runner) as unknown as Engagement;
+  }
+}
@@ -0,0 +1,1743 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  FinancialLiteracyGame,
+  FinancialLiteracyGameInterface,
+} from "../../contracts/FinancialLiteracyGame";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "oracle",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "educator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint8[]",
+        name: "categories",
+        type: "uint8[]",
+      },
+    ],
+    name: "CategoryStatsShared",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "challengeId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "challengeType",
+        type: "string",
+      },
+    ],
+    name: "ChallengeAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "challengeId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "isActive",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "isRetired",
+        type: "bool",
+      },
+    ],
+    name: "ChallengeStatusChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes4",
+        name: "callbackSelector",
+        type: "bytes4",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32[]",
+        name: "ciphertexts",
+        type: "bytes32[]",
+      },
+    ],
+    name: "ComputationRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "educator",
+        type: "address",
+      },
+    ],
+    name: "DataSharingEducatorUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "granted",
+        type: "bool",
+      },
+    ],
+    name: "EducatorRoleUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "minCohortSize",
+        type: "uint32",
+      },
+    ],
+    name: "MinCohortSizeUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "challengeId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "challengeType",
+        type: "string",
+      },
+    ],
+    name: "PersonalizedChallengeFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "challengeId",
+        type: "uint256",
+      },
+    ],
+    name: "PersonalizedChallengeGenerated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "PlayerRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "enum FinancialLiteracyGame.PracticeMode",
+        name: "mode",
+        type: "uint8",
+      },
+    ],
+    name: "PracticeScored",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "pseudonym",
+        type: "string",
+      },
+    ],
+    name: "PseudonymUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "RankHidden",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "rank",
+        type: "uint32",
+      },
+    ],
+    name: "RankRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum FinancialLiteracyGame.RequestType",
+        name: "requestType",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "RequestRejected",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "rewards",
+        type: "address",
+      },
+    ],
+    name: "RewardsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "SavingsGoalUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "ScoreUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "challengeId",
+        type: "uint256",
+      },
+    ],
+    name: "SolutionEvaluated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "staking",
+        type: "address",
+      },
+    ],
+    name: "StakingUpdated",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "LEADERBOARD_SIZE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_PSEUDONYM_LENGTH",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PERSONALIZED_CATEGORY",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PRACTICE_COOLDOWN",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "difficulty",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "reward",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "answerKey",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "string",
+        name: "challengeType",
+        type: "string",
+      },
+      {
+        internalType: "uint8",
+        name: "category",
+        type: "uint8",
+      },
+    ],
+    name: "addPredefinedChallenge",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "challenges",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "difficultyLevel",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "rewardAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "answerKey",
+        type: "bytes32",
+      },
+      {
+        internalType: "string",
+        name: "challengeType",
+        type: "string",
+      },
+      {
+        internalType: "uint8",
+        name: "category",
+        type: "uint8",
+      },
+      {
+        internalType: "bool",
+        name: "isActive",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "isRetired",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "computationOracle",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "challengeId",
+        type: "uint256",
+      },
+    ],
+    name: "deactivateChallenge",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "educators",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "results",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "generateChallenge",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "category",
+        type: "uint8",
+      },
+    ],
+    name: "getCategoryStats",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "euint32",
+            name: "attempts",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "correctAnswers",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "difficultyTotal",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint32",
+            name: "cohortSize",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct FinancialLiteracyGame.CategoryStats",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getChallengeCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "challengeType",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getChallengeIdsByType",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256",
+        name: "nextOffset",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getChallengePage",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "euint32",
+            name: "difficultyLevel",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "rewardAmount",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "answerKey",
+            type: "bytes32",
+          },
+          {
+            internalType: "string",
+            name: "challengeType",
+            type: "string",
+          },
+          {
+            internalType: "uint8",
+            name: "category",
+            type: "uint8",
+          },
+          {
+            internalType: "bool",
+            name: "isActive",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "isRetired",
+            type: "bool",
+          },
+        ],
+        internalType: "struct FinancialLiteracyGame.GameChallenge[]",
+        name: "page",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getEncryptedLeaderboard",
+    outputs: [
+      {
+        internalType: "euint32[10]",
+        name: "scores",
+        type: "bytes32[10]",
+      },
+      {
+        internalType: "eaddress[10]",
+        name: "players",
+        type: "bytes32[10]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "getEncryptedProfile",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "getEncryptedRating",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "getEncryptedSavingsGoal",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "getEncryptedScore",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getEncryptedTopScore",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "eaddress",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "getEngagement",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "euint32",
+            name: "dailyCorrect",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "weeklyCorrect",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint64",
+            name: "lastDay",
+            type: "uint64",
+          },
+          {
+            internalType: "uint64",
+            name: "lastWeek",
+            type: "uint64",
+          },
+          {
+            internalType: "uint32",
+            name: "streak",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct Engagement.Progress",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "getLastPlayed",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "hideRank",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "enum FinancialLiteracyGame.PracticeMode",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    name: "lastPracticeAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minCohortSize",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "playerCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "playerEducator",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "playerStates",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "encryptedScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedProgress",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "lastChallengeCompleted",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "pseudonyms",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "rankReveals",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "rank",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "revealedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isRevealed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "challengeId",
+        type: "uint256",
+      },
+    ],
+    name: "reactivateChallenge",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "knowledgeLevel",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "riskTolerance",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "financialGoals",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "savingsTarget",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "savingsHorizonMonths",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "monthlyContribution",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "registerPlayer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "rejectRequest",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "requestPersonalizedChallenge",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "requestRankReveal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "challengeId",
+        type: "uint256",
+      },
+    ],
+    name: "retireChallenge",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "revealRank",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "rewards",
+    outputs: [
+      {
+        internalType: "contract LiteracyRewards",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "educator",
+        type: "address",
+      },
+    ],
+    name: "setDataSharingEducator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "granted",
+        type: "bool",
+      },
+    ],
+    name: "setEducatorRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint32",
+        name: "newMinCohortSize",
+        type: "uint32",
+      },
+    ],
+    name: "setMinCohortSize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "pseudonym",
+        type: "string",
+      },
+    ],
+    name: "setPseudonym",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "contract LiteracyRewards",
+        name: "newRewards",
+        type: "address",
+      },
+    ],
+    name: "setRewards",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "contract ChallengeStaking",
+        name: "newStaking",
+        type: "address",
+      },
+    ],
+    name: "setStaking",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8[]",
+        name: "categories",
+        type: "uint8[]",
+      },
+    ],
+    name: "shareCategoryStats",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "staking",
+    outputs: [
+      {
+        internalType: "contract ChallengeStaking",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "monthsOnTarget",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "categorizationAccuracy",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitBudgetSummary",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "challengeId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedSolution",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitChallengeSolution",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "creditScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitCreditSimulation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "portfolioRisk",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "growthPercent",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitInvestingSimulation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "projectedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "planContribution",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitSavingsPlan",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "correctAnswers",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitTaxPractice",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "newLevel",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "updateKnowledgeLevel",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "savingsTarget",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "savingsHorizonMonths",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "monthlyContribution",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "updateSavingsGoal",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "results",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "verifySolution",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a0806040523461028c5760208161617d803803809161001f82856103f5565b83398101031261028c57516001600160a01b03811680820361028c575f606060405161004a816103c6565b8281528260208201528260408201520152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac606060405161007e816103c6565b7350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c28812604082015201527350157cffd6bbfa2dece204a89ec419c23ef5755d60018060a01b03195f8051602061615d8339815191525416175f8051602061615d8339815191525573cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6960018060a01b03195f8051602061611d8339815191525416175f8051602061611d8339815191525573a02cda4ca3a71d7c46997716f4283aa851c2881260018060a01b03195f8051602061613d8339815191525416175f8051602061613d83398151915255731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60018060a01b03195f805160206160fd8339815191525416175f805160206160fd83398151915255600563ffffffff19602154161760215515610390576080525f5b600a8110156102a3575f906101ec610418565b6101f63082610499565b60098201555f8051602061611d83398151915254604051639cd07acb60e01b815260048101849052600760248201529260209184916044918391906001600160a01b03165af18015610298575f90610262575b600192506102573082610499565b8160130155016101d9565b506020823d8211610290575b8161027b602093836103f5565b8101031261028c5760019151610249565b5f80fd5b3d915061026e565b6040513d5f823e3d90fd5b60ff5f52601f6020527f84022d42094f73267bf3fdfa6e3f8c2ccd8a9dced0c2b63ab4277a3cc558a6dc805415610348575b5f80546001600160a01b031916339081178255604051917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08180a3615bf9908161050482396080518181816111ba015281816125d801528181612c2001528181612f1c01528181613145015261414d0152f35b610350610418565b61035a3082610499565b8155610364610418565b61036e3082610499565b6001820155600261037d610418565b916103883084610499565b0155806102d5565b60405162461bcd60e51b815260206004820152600e60248201526d496e76616c6964206f7261636c6560901b6044820152606490fd5b608081019081106001600160401b038211176103e157604052565b634e487b7160e01b5f52604160045260245ffd5b601f909101601f19168101906001600160401b038211908210176103e157604052565b5f8051602061611d83398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115610298575f9161046a575090565b90506020813d602011610491575b81610485602093836103f5565b8101031261028c575190565b3d9150610478565b5f8051602061615d833981519152546001600160a01b031691823b1561028c57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015610298576104f75750565b5f610501916103f5565b56fe60806040526004361015610011575f80fd5b5f803560e01c80630135d979146134c3578063090ffff4146134a95780630933f4671461348c57806309f454a0146131315780630a5505dd14612ee05780630c80c1b214612d695780630e97130a14612c4f578063150eb5b814612c0a5780631d59c7b7146128c257806324a573ca14612889578063262fdfee146125c157806327b00b1b146124f95780632d6d6b96146124275780632df7c23c146123e8578063302bcc57146123ca5780633193b074146121b0578063327cb7311461214f578063468a1d5714611d925780634cf088d914611d695780634e04804714611d4b5780634f085f4214611d2f5780634f2830be14611c2d5780634fcc2c8814611b8257806350982f451461195857806352900048146118995780637b6a8e441461187457806386cfb88a1461181a5780638a035002146116b65780638da5cb5b1461168f5780638ed5209c146116315780638f1d37761461158c5780638ff39099146114435780639198f0611461138e5780639ec5a894146113655780639fa0855d14611324578063a190847d146112f9578063a71b9d8f1461113b578063a97ee4ca146110df578063adf41ccd14611070578063ae4c91861461101f578063b0f4507e14610ffb578063b310c18c14610f5e578063b644682014610de8578063b94a422f14610dcc578063babed68114610c2e578063bc53599014610bf1578063c2fe26bb14610b3e578063c89d2e9b14610ab2578063d15e55b714610a61578063d53b9aec146109bd578063d8bc6204146108f3578063da1f12ab146108d6578063dc090b5f14610877578063ec38a86214610713578063eceb259814610565578063f2fde38b146104b8578063ff8baa9d146102f75763ffeb80b714610298575f80fd5b60603660031901126102f4576044356001600160401b0381116102f0576102c66102ed913690600401613698565b9033845260026020526102e260ff6005604087200154166139ac565b6024356004356140da565b80f35b5080fd5b80fd5b50346102f45760203660031901126102f457600435906001600160401b0382116102f457366023830112156102f4578160040135916001600160401b0383116102f0573660248460051b830101116102f057338252600160205260ff6040832054161561048457815b8381101561040d5760248160051b8301013560ff8116809103610409578352601f602052604083209063ffffffff60038301541663ffffffff60215416116103d1576103cb6001926103b333825461527d565b6103c0338583015461527d565b60023391015461527d565b01610360565b60405162461bcd60e51b815260206004820152601060248201526f10dbda1bdc9d081d1bdbc81cdb585b1b60821b6044820152606490fd5b8380fd5b5060408051602080825281018590529081019160240183855b80821061045b57505050807fa9d7da81fcb3fbd03e47226cd03534a4877547fbf9a44b3deb28ae46ff7864339133930390a280f35b90919384359060ff821680920361048057602081600193829352019501920190610426565b8680fd5b60405162461bcd60e51b815260206004820152600c60248201526b2737ba1032b23ab1b0ba37b960a11b6044820152606490fd5b50346102f45760203660031901126102f4576104d2613844565b81546001600160a01b038116916104ea338414613c8b565b6001600160a01b03169182156105305782907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08580a36001600160a01b03191617815580f35b60405162461bcd60e51b815260206004820152600d60248201526c24b73b30b634b21037bbb732b960991b6044820152606490fd5b50346102f45761057436613967565b919091338452600260205261059260ff6005604087200154166139ac565b33845260226020526105a8600360408620613996565b5480159081156106e7575b50156106ae576105f7926105f1913386526022602052426105d8600360408920613996565b553386526002602052426004604088200155369161376d565b90615179565b338252600260205260026040832001546040519163714b1fd560e01b83526004830152602482015260208160448173__$d072a259ce2e96508c3b92058a6d0d4c42$__5af480156106a357829061066b575b6106549150336143dc565b6003335f80516020615b6d8339815191528380a380f35b506020813d60201161069b575b8161068560209383613731565b81010312610697576106549051610649565b5f80fd5b3d9150610678565b6040513d84823e3d90fd5b60405162461bcd60e51b8152602060048201526011602482015270283930b1ba34b1b29031b7b7b63237bbb760791b6044820152606490fd5b90506201518081018091116106ff574210155f6105b3565b634e487b7160e01b85526011600452602485fd5b50346102f45760203660031901126102f4576004356001600160a01b038116908190036102f05761074e60018060a01b038354163314613c8b565b6025546001600160a01b03811661083c5760405163187fc7c560e31b8152602081600481865afa908115610831578491610802575b50306001600160a01b03909116036107cb576001600160a01b03191681176025557f05f3326e0527f309d4015dee3bc3f36e650b53fc823bab69c99847814acfafdf8280a280f35b60405162461bcd60e51b815260206004820152600f60248201526e496e76616c6964207265776172647360881b6044820152606490fd5b610824915060203d60201161082a575b61081c8183613731565b810190613f2e565b5f610783565b503d610812565b6040513d86823e3d90fd5b60405162461bcd60e51b815260206004820152601360248201527214995dd85c991cc8185b1c9958591e481cd95d606a1b6044820152606490fd5b50346102f45760803660031901126102f4576064356001600160401b0381116102f0576108ab6102ed913690600401613698565b9033845260026020526108c760ff6005604087200154166139ac565b60443560243560043533614fe4565b50346102f457806003193601126102f45760206040516127118152f35b50346102f45760203660031901126102f457604060a091610912613844565b816080845161092081613716565b82815282602082015282868201528260608201520152600180851b0316815260236020522063ffffffff6040519161095783613716565b6001600160401b0381549384815281600260018501549460208401958652015493604083019082861682528660806060860195858960401c168752019660801c168652604051978852516020880152511660408601525116606084015251166080820152f35b50346102f45760203660031901126102f45760043560ff81168091036102f05781604091608093606084516109f1816136fb565b828152826020820152828682015201528152601f6020522063ffffffff604051610a1a816136fb565b825492838252600181015460208301908152606084600360028501549460408701958652015416930192835260405194855251602085015251604084015251166060820152f35b50346102f45760203660031901126102f4576060906040906001600160a01b03610a89613844565b168152600460205220805490600260018201549101549060405192835260208301526040820152f35b50346102f45760603660031901126102f4576004356001600160401b0381116102f057610ae6610af39136906004016137a3565b6044359060243590613fed565b90604051916040830193604084528251809552602060608501930190945b808610610b2657505082935060208301520390f35b90926020806001928651815201940195019490610b11565b50346102f45760203660031901126102f45760043560018060a01b0382541633148015610bdb575b610b6f90613e20565b610b7c6006548210613e5d565b6004610b8782613937565b5001620100008154610b9f60ff8260101c1615613e9d565b62ffff0019161790557f85e851ff5c1a7a9f88f35f075379a9cb67976df99a0f8ab6555553c4e6b529296040805184815260016020820152a280f35b503382526001602052604082205460ff16610b66565b50346102f45760203660031901126102f4576020906003906040906001600160a01b03610c1c613844565b16815260028452200154604051908152f35b50346102f457610c3d36613967565b913384526002602052610c5960ff6005604087200154166139ac565b3384526022602052610c6f600260408620613996565b548015908115610db4575b50156106ae576105f1610cc492338652602260205242610c9e600260408920613996565b55338652600260205242600460408820015533865260046020526040862094369161376d565b3383526002602052600260408420015460405191636dd15e6d60e01b83526004830152602482015260408160448173__$d072a259ce2e96508c3b92058a6d0d4c42$__5af48015610da95783918491610d69575b50610d4a6001610d52940191610d45610d3a8454610d346155c5565b906150d7565b9133928554916157f9565b614f29565b9055336143dc565b6002335f80516020615b6d8339815191528380a380f35b9150506040813d604011610da1575b81610d8560409383613731565b81010312610d9d578051602090910151610d4a610d18565b8280fd5b3d9150610d78565b6040513d85823e3d90fd5b90506201518081018091116106ff574210155f610c7a565b50346102f457806003193601126102f457602060405160ff8152f35b50346102f457610df73661380e565b92913385526002602052610e1460ff6005604088200154166139ac565b3385526022602052610e2a600160408720613996565b548015908115610f32575b50156106ae576105f1610e8292610e7a6020953389526022875242610e5e600160408c20613996565b553389526002875242600460408b2001556105f136898561376d565b95369161376d565b3384526002808352604080862090910154905163ae0bbc5160e01b81526004810194909452602484019190915260448301528160648173__$d072a259ce2e96508c3b92058a6d0d4c42$__5af480156106a3578290610efe575b610ee79150336143dc565b6001335f80516020615b6d8339815191528380a380f35b506020813d602011610f2a575b81610f1860209383613731565b8101031261069757610ee79051610edc565b3d9150610f0b565b9050620151808101809111610f4a574210155f610e35565b634e487b7160e01b86526011600452602486fd5b50346102f457806003193601126102f4576101409081604051610f818282613731565b36903781604051610f928282613731565b369037610f9d613f4d565b91610fa6613f85565b90604051938484905b600a8210610fe45750505083019091905b600a8210610fce5761028084f35b6020806001928551815201930191019091610fc0565b825181526020928301926001929092019101610faf565b50346102f457806003193601126102f457602063ffffffff60215416604051908152f35b50346102f45760403660031901126102f457611039613844565b602435906005821015610d9d576001600160a01b031682526022602090815260409092206110679190613996565b54604051908152f35b50346102f4576105f160036110d96110c36110be61108d36613967565b969033895260026020526110aa60ff600560408c200154166139ac565b33895260026020526040892097369161376d565b614de1565b6110cd3382614f29565b8455610d453391614f6b565b91015580f35b50346102f45760203660031901126102f4576060906040906001600160a01b03611107613844565b168152601d6020522063ffffffff8154169060ff600260018301549201541690604051928352602083015215156040820152f35b50346102f457806003193601126102f457338152600260205261116760ff6005604084200154166139ac565b33815260026020526040812090600260405192611185608085613731565b600384526060366020860137805461119c85613ac8565b5260018101546111ab85613ad5565b5201546111b783613ab8565b527f000000000000000000000000000000000000000000000000000000000000000091815b815181101561120c5780611206856111f660019486613ae5565b51611201308261527d565b61527d565b016111dc565b50611292907fa3b7807a596de74011b1ebd7ccdd970f7326220c4a2b809e58c378a6f88c9d4961123d602a54613f20565b602a819055604080513060208201908152918101929092529061126d81606081015b03601f198101835282613731565b51902060408051624fa2a560e51b8152602081018290529194859483928301906150a4565b0390a280825260266020908152604080842080546001600160a01b0319163390811790915583855260278352818520805460ff191660011790559051928352917f0698d4846e88b935aac5dfae8295c4bf3e1102630ee2bd21ef4973bcacab02219190a280f35b50346102f45760203660031901126102f4576020906004906040906001600160a01b03610c1c613844565b50346102f45760203660031901126102f4576020906001600160a01b03611349613844565b16815260058252604060018060a01b0391205416604051908152f35b50346102f457806003193601126102f4576025546040516001600160a01b039091168152602090f35b50346102f45760203660031901126102f45760043563ffffffff81168091036102f0576113c560018060a01b038354163314613c8b565b8015611408576020817ff5aede77d54b40a4b1668bcd268985f888645f58cd299fe20a984397a630ac9b9263ffffffff196021541617602155604051908152a180f35b60405162461bcd60e51b8152602060048201526013602482015272496e76616c696420636f686f72742073697a6560681b6044820152606490fd5b50346102f45760203660031901126102f4576004356001600160a01b038116908190036102f05761147e60018060a01b038354163314613c8b565b6024546001600160a01b0381166115515760405163187fc7c560e31b8152602081600481865afa908115610831578491611532575b50306001600160a01b03909116036114fb576001600160a01b03191681176024557fe189a719dae2bf18df1013cfa028ecce01f9fafdbd456a862fa18e6d0143e3c28280a280f35b60405162461bcd60e51b815260206004820152600f60248201526e496e76616c6964207374616b696e6760881b6044820152606490fd5b61154b915060203d60201161082a5761081c8183613731565b5f6114b3565b60405162461bcd60e51b815260206004820152601360248201527214dd185ada5b99c8185b1c9958591e481cd95d606a1b6044820152606490fd5b50346102f45760203660031901126102f4576004356006548110156102f0576115b490613937565b50805460018201549160ff61160c6002830154926004604051916115e6836115df81600385016138b6565b0384613731565b01549360405196879687526020870152604086015260e0606086015260e085019061385a565b918181166080850152818160081c16151560a085015260101c16151560c08301520390f35b50346102f45760203660031901126102f4576040906001600160a01b03611656613844565b168152600360205220805461168b60026001840154930154604051938493846040919493926060820195825260208201520152565b0390f35b50346102f457806003193601126102f457546040516001600160a01b039091168152602090f35b50346102f4576116c53661380e565b929133855260026020526116e260ff6005604088200154166139ac565b33855260226020526116f78560408120613996565b548015908115611802575b50156106ae576105f1611755923387526022602052426117258860408120613996565b5533875260026020524260046040892001553387526002602052610e7a6110be60408920966105f1368a8661376d565b9060026001820154910154916040519363f29238d560e01b8552600485015260248401526044830152606482015260208160848173__$d072a259ce2e96508c3b92058a6d0d4c42$__5af480156106a35782906117ce575b6117b89150336143dc565b80335f80516020615b6d8339815191528280a380f35b506020813d6020116117fa575b816117e860209383613731565b81010312610697576117b890516117ad565b3d91506117db565b9050620151808101809111610f4a574210155f611702565b50346102f45760203660031901126102f4576040906001600160a01b0361183f613844565b168152600260205220805461168b60026001840154930154604051938493846040919493926060820195825260208201520152565b50346102f457806003193601126102f457604060095460135482519182526020820152f35b50346102f457806003193601126102f45733815260026020526118c560ff6005604084200154166139ac565b338152601d60205260ff6002604083200154161561191f57338152601d602052806002604082208281558260018201550155337fe0ed6c49893b7430d4fc9cc92a47fc2b9df83dd9f75103c2dd8bff3b051704d48280a280f35b60405162461bcd60e51b815260206004820152601160248201527014985b9ac81b9bdd081c995d99585b1959607a1b6044820152606490fd5b50346102f45760e03660031901126102f45760c4356001600160401b0381116102f057611989903690600401613698565b919091338252600260205260ff600560408420015416611b48576119bc6110be6119b436848761376d565b600435615179565b926119c73385614f29565b936119e233610d456119da36878761376d565b602435615179565b90611a0b611a0033610d456119f836898961376d565b604435615179565b91610d453391614f6b565b6040519660c088018881106001600160401b03821117611b345792600592611a9d9592611afe999a95604052855260208501928352604085019182526060850190815260808501918a835260a086019360018552338c52600260205260408c209651875551600187015551600286015551600385015551600484015551151591019060ff801983541691151516179055565b611aa933610d45615528565b6002611ab733610d45615528565b60405192611ac4846136e0565b8352602083019081526040830190878252338852600460205260408820935184555160018401555191015560a43560843560643533614fe4565b611b09600854613f20565b600855337f8cd3331e32cec677d80b82cf0f71496605e7ed6ff864a3ccedc7d5d11d838c838280a280f35b634e487b7160e01b88526041600452602488fd5b60405162461bcd60e51b8152602060048201526012602482015271105b1c9958591e481c9959da5cdd195c995960721b6044820152606490fd5b50346102f45760203660031901126102f45760043560018060a01b0382541633148015611c17575b611bb390613e20565b611bc06006548210613e5d565b6004611bcb82613937565b50018054611bde60ff8260081c16613edd565b61ff00191690557f85e851ff5c1a7a9f88f35f075379a9cb67976df99a0f8ab6555553c4e6b5292960408051848152846020820152a280f35b503382526001602052604082205460ff16611baa565b50346102f45760203660031901126102f45760043560018060a01b0382541633148015611d19575b611c5e90613e20565b611c6b6006548210613e5d565b6004611c7682613937565b50018054611c8a60ff8260101c1615613e9d565b60ff8160081c16611cd4576101009061ff0019161790557f85e851ff5c1a7a9f88f35f075379a9cb67976df99a0f8ab6555553c4e6b529296040805160018152846020820152a280f35b60405162461bcd60e51b815260206004820152601860248201527f4368616c6c656e676520616c72656164792061637469766500000000000000006044820152606490fd5b503382526001602052604082205460ff16611c55565b50346102f457806003193601126102f4576020604051600a8152f35b50346102f457806003193601126102f4576020604051620151808152f35b50346102f457806003193601126102f4576024546040516001600160a01b039091168152602090f35b50346102f457611da1366137c1565b828452602660205260408420546001600160a01b0316929190831561211857828552602760205260ff6040862054166004811015612104576003036120d0578285526026602052604085206001600160601b0360a01b815416905582855260276020526040852060ff1981541690558285525f80516020615b8d8339815191526020526040852054156120c1578285525f80516020615b8d83398151915260205260408520906040518083602082955493848152019089526020892092895b8181106120a8575050611e7592500383613731565b825191826020019283602011612094576040018093116120805760209392611f2c92611f1a898794611ec7868060405180988c80519e8f91019e8f8585015e8201908382015203018088520186613731565b611f3e60018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703541694604051988997889687956378542ead60e01b87526060600488015260648701906150a4565b8581036003190160248701529061385a565b8381036003190160448501529061385a565b03925af1908115612075578691612036575b501561202757602090604051937f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d8780a280518101031261040957519063ffffffff8216809203610409577f8124a0d3873ef4425a35b4b3092fb2ddd06cb281fab568cfe5bc3933e1bc74259161201d82611fcc6020946136e0565b8281526002848201428152604083019060018252888a52601d875263ffffffff8060408c209551161663ffffffff1985541617845551600184015551151591019060ff801983541691151516179055565b604051908152a280f35b63cf6c44e960e01b8552600485fd5b90506020813d60201161206d575b8161205160209383613731565b8101031261206957518015158103612069575f611f50565b8580fd5b3d9150612044565b6040513d88823e3d90fd5b634e487b7160e01b87526011600452602487fd5b634e487b7160e01b88526011600452602488fd5b8454835260019485019487945060209093019201611e60565b63d66ca67560e01b8552600485fd5b60405162461bcd60e51b815260206004820152600c60248201526b496e76616c6964207479706560a01b6044820152606490fd5b634e487b7160e01b86526021600452602486fd5b60405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b6044820152606490fd5b50346102f45760203660031901126102f45761168b906121959061219c906040906001600160a01b03612180613844565b168152601e60205220604051928380926138b6565b0382613731565b60405191829160208352602083019061385a565b50346102f45760c03660031901126102f4576064356001600160401b0381116102f0576121e1903690600401613698565b6084356001600160401b038111610409576122009036906004016137a3565b9160a43560ff81168091036123c65784546001600160a01b0316331480156123b0575b61222c90613e20565b60ff8114612377576122cd92818652601f6020526040862080541561232f575b5061228c6119f86122616119b436858861376d565b9461226c308761527d565b61227a6119da36868461376d565b93612285308661527d565b369161376d565b90612297308361527d565b604051936122a4856136c5565b8452602084015260408301528360608301526080820152600160a08201528360c0820152613af9565b6006545f1981019190821161231b576123157fc7357a97a542b30cc2f4c63984c88b6c9703509b96875e392ae3d8306fbe65c49160405191829160208352602083019061385a565b0390a280f35b634e487b7160e01b83526011600452602483fd5b612337615528565b612341308261527d565b815561234b615528565b612355308261527d565b60018201556002612364615528565b9161236f308461527d565b01555f61224c565b60405162461bcd60e51b815260206004820152601160248201527052657365727665642063617465676f727960781b6044820152606490fd5b503385526001602052604085205460ff16612223565b8480fd5b50346102f457806003193601126102f4576020600854604051908152f35b50346102f45760203660031901126102f45760209060ff906040906001600160a01b03612413613844565b168152600184522054166040519015158152f35b50346102f45760403660031901126102f457612447602435600435613cc3565b906040519182916020830160208452825180915260408401602060408360051b870101940192905b82821061247e57505050500390f35b919360019193955060208091603f198982030185528751908151815282820151838201526040820151604082015260c0806124c8606085015160e0606086015260e085019061385a565b9360ff608082015116608085015260a0810151151560a085015201511515910152960192019201859493919261246f565b50346102f45760403660031901126102f457612513613844565b60243590811515908183036104095761253660018060a01b038554163314613c8b565b6001600160a01b031691821561258a577fc960754d3a98bae9c27d6260991d236aae1e054df9987b8b4f141805f5f2ab599161201d60209285875260018452604087209060ff801983541691151516179055565b60405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081858d8dbdd5b9d608a1b6044820152606490fd5b50346102f4576125d0366137c1565b9091612606337f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031614613a5f565b808452602660205260408420546001600160a01b0316801561211857818552602760205260ff6040862054166004811015612104576002036120d05784938285526026602052604085206001600160601b0360a01b815416905582855260276020526040852060ff19815416905582855260286020526040852054908386526028602052856040812055602081805181010312612069576126ef9460208092015160018060a01b035f80516020615bad8339815191525416908860405180998195829463196d0b9b60e01b8452600484015233602484015260806044840152608483019061385a565b6126fc606483018461516c565b03925af193841561287e578594612847575b505f80516020615bcd833981519152546001600160a01b0316803b1561206957604051630f8e573b60e21b8152600481018690523360248201529086908290604490829084905af1908115612075578691612832575b5050602081612795867fca7909adaff9fffe9598be516fd5dfaf91f8fb6c4f9f6470b03543e8567625c69486614463565b604051908152a28083526029602052604083205490816127b457505050f35b83526029602052604083208390556024546127d8906001600160a01b03168361527d565b6024546001600160a01b031691823b1561282d57604484928360405195869485936362a7e32b60e11b8552600485015260248401525af180156106a35761281c5750f35b8161282691613731565b6102f45780f35b505050fd5b8161283c91613731565b6123c657845f612764565b945092506020843d602011612876575b8161286460209383613731565b8101031261069757849351925f61270e565b3d9150612857565b6040513d87823e3d90fd5b50346102f45760203660031901126102f4576020906040906001600160a01b036128b1613844565b168152600483522054604051908152f35b50346102f457806003193601126102f45733815260026020526128ee60ff6005604084200154166139ac565b6128f7336154d9565b6128ff615528565b82905b600a84101561295c5761291983856013015461443a565b6001850180861161294857916129409161293a63ffffffff60019516615576565b906157f9565b930192612902565b634e487b7160e01b84526011600452602484fd5b60409081519061296c8383613731565b600182526020820190601f198401368337612987308261527d565b61299083613ac8565b527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00545f80516020615bcd8339815191525490929085906001600160a01b0316803b156102f0578186518092637d6e912360e11b8252602060048301528183816129fd602482018a6150a4565b03925af18015612beb57612bf5575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702546001600160a01b0316803b156102f0578186518092633263b83b60e01b825287600483015260606024830152818381612a6b606482018a6150a4565b63468a1d5760e01b604483015203925af18015612beb57612bd6575b508390525f80516020615b8d83398151915260205283852054612bc7578285525f80516020615b8d8339815191526020528385209051916001600160401b038311612bb357600160401b8311612bb3578154838355808410612b8d575b5090855260208520855b838110612b795750505050612b237f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0054613f20565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00558083526026602090815282842080546001600160a01b03191633179055908352602790528120805460ff1916600317905580f35b600190602084519401938184015501612aee565b828752836020882091820191015b818110612ba85750612ae4565b878155600101612b9b565b634e487b7160e01b86526041600452602486fd5b633f06d22b60e01b8552600485fd5b81612be091613731565b6123c6578486612a87565b86513d84823e3d90fd5b81612bff91613731565b6123c6578486612a0c565b50346102f457806003193601126102f4576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b50346102f45760203660031901126102f457612c69613844565b3382526002602052612c8460ff6005604085200154166139ac565b33825260056020526040822080546001600160a01b0319166001600160a01b0383169081179091559081612cdc575b50337fbb8bcec842657d6ff893c211155a2c8554c3c2f7a32e467d4c23cbbe71b7c3838380a380f35b612d639033845260026020526001604085203386526004602052612d2e8360036040892093612d0c83825461527d565b612d19838783015461527d565b612d2783600283015461527d565b015461527d565b3386526003602052612d5883600260408920612d4b83825461527d565b612d27838783015461527d565b612d2783825461527d565b5f612cb3565b50346102f457612d783661380e565b92913385526002602052612d9560ff6005604088200154166139ac565b3385526022602052612dab600460408720613996565b548015908115612ec8575b50156106ae576105f1612e0792338752602260205242612dda600460408a20613996565b5533875260026020524260046040892001553387526003602052610e7a60408820956105f136898561376d565b906002815491015490338552600260205260026040862001549260405194630ceee62160e11b86526004860152602485015260448401526064830152608482015260208160a48173__$d072a259ce2e96508c3b92058a6d0d4c42$__5af480156106a3578290612e94575b612e7d9150336143dc565b6004335f80516020615b6d8339815191528380a380f35b506020813d602011612ec0575b81612eae60209383613731565b8101031261069757612e7d9051612e72565b3d9150612ea1565b9050620151808101809111610f4a574210155f612db6565b5034610697576040366003190112610697576004356024356001600160401b03811161069757612f14903690600401613698565b9190612f4a337f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031614613a5f565b815f52602760205260ff60405f205416906004821093841592836130cb57600181148015613124575b156130df575f858152602660205260409020546001600160a01b031695861561211857855f52602760205260ff60405f20541690156130cb5760048110156130cb5781036120d0575f85815260266020908152604080832080546001600160a01b031916905560278252808320805460ff191690556028825280832083905560299091529020548061305f575b506040519361304b5783928392613045927fd96ad78429d13be5e0719874b41348e513a4eb4436e8375b2b8e1a13149d87249652604060208501526040840191613a3f565b0390a380f35b634e487b7160e01b87526021600452602487fd5b5f868152602960205260408120556024546001600160a01b031690813b15610697575f9160248392604051948593849263278ecde160e01b845260048401525af180156130c05715613000576130b89197505f90613731565b5f955f613000565b6040513d5f823e3d90fd5b634e487b7160e01b5f52602160045260245ffd5b60405162461bcd60e51b815260206004820152601960248201527f4e6f74206120636f6d7075746174696f6e2072657175657374000000000000006044820152606490fd5b505f935060028114612f73565b346106975761313f366137c1565b613173337f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031614613a5f565b5f838152602660205260409020546001600160a01b031691821561211857835f52602760205260ff60405f20541660048110156130cb576001036120d057835f52602660205260405f206001600160601b0360a01b8154169055835f52602760205260405f2060ff1981541690558051810190604081602084019303126106975760208101516001600160401b0381116106975781019180603f840112156106975760208301519161322483613752565b926132326040519485613731565b8084526020840194604081830101841061069757815f92604060209301885e850101526040810151906001600160401b03821161069757019080603f8301121561069757602082015161328481613aa1565b926132926040519485613731565b8184526020808086019360051b8301010192831161069757604001905b82821061347c5750505081511561344457600d9361331f61339593602d604096602088516132dd8a82613731565b8a815201926c2832b939b7b730b634bd32b21d60991b84528851998a94602086015e828401905f8252519182915e8201015f815203601f198101875286613731565b5f906002835111613420575b8061333f6133456133559361333f87613ac8565b51615179565b94613350308761527d565b613ad5565b61335f308261527d565b84519261336b846136c5565b835260208301528382015283606082015260ff6080820152600160a08201525f60c0820152613af9565b6006545f19810190811161340c576134077f31437359f41922321320a0da7c51b051ec1d8185df35ae030a55ddb13a8caa6f93857f0698d4846e88b935aac5dfae8295c4bf3e1102630ee2bd21ef4973bcacab022160208651868152a28351938493845280602085015283019061385a565b0390a3005b634e487b7160e01b5f52601160045260245ffd5b90506133556134328261333f85613ab8565b61343c308261527d565b91905061332b565b60405162461bcd60e51b815260206004820152601060248201526f26b4b9b9b4b7339038bab2b9ba34b7b760811b6044820152606490fd5b81518152602091820191016132af565b34610697575f366003190112610697576020600654604051908152f35b34610697575f366003190112610697576020604051818152f35b34610697576020366003190112610697576004356001600160401b038111610697576134f3903690600401613698565b335f52600260205261350e60ff600560405f200154166139ac565b6020811161365e57335f52601e60205260405f20916001600160401b03821161364a576135458261353f855461387e565b856139f0565b5f92601f83116001146135c257906135b29161359984807f382f0ffefe6a286257791e79fd006d298b4057d2f47911e75c7da036a12c980f96975f916135b7575b508160011b915f199060031b1c19161790565b90555b6040519182916020835233956020840191613a3f565b0390a2005b905084013588613586565b601f198316815f5260205f20905f5b81811061363257509084957f382f0ffefe6a286257791e79fd006d298b4057d2f47911e75c7da036a12c980f956135b295949310613619575b5050600185811b01905561359c565b8301355f19600388901b60f8161c19169055858061360a565b848701358355602096870196600190930192016135d1565b634e487b7160e01b5f52604160045260245ffd5b60405162461bcd60e51b815260206004820152601260248201527150736575646f6e796d20746f6f206c6f6e6760701b6044820152606490fd5b9181601f84011215610697578235916001600160401b038311610697576020838186019501011161069757565b60e081019081106001600160401b0382111761364a57604052565b606081019081106001600160401b0382111761364a57604052565b608081019081106001600160401b0382111761364a57604052565b60a081019081106001600160401b0382111761364a57604052565b90601f801991011681019081106001600160401b0382111761364a57604052565b6001600160401b03811161364a57601f01601f191660200190565b92919261377982613752565b916137876040519384613731565b829481845281830111610697578281602093845f960137010152565b9080601f83011215610697578160206137be9335910161376d565b90565b606060031982011261069757600435916024356001600160401b03811161069757826137ef916004016137a3565b91604435906001600160401b038211610697576137be916004016137a3565b6060600319820112610697576004359160243591604435906001600160401b0382116106975761384091600401613698565b9091565b600435906001600160a01b038216820361069757565b805180835260209291819084018484015e5f828201840152601f01601f1916010190565b90600182811c921680156138ac575b602083101461389857565b634e487b7160e01b5f52602260045260245ffd5b91607f169161388d565b5f92918154916138c58361387e565b808352926001811690811561391a57506001146138e157505050565b5f9081526020812093945091925b838310613900575060209250010190565b6001816020929493945483858701015201910191906138ef565b915050602093945060ff929192191683830152151560051b010190565b6006548110156139535760065f52600560205f20910201905f90565b634e487b7160e01b5f52603260045260245ffd5b9060406003198301126106975760043591602435906001600160401b0382116106975761384091600401613698565b9060058110156130cb575f5260205260405f2090565b156139b357565b60405162461bcd60e51b8152602060048201526015602482015274141b185e595c881b9bdd081c9959da5cdd195c9959605a1b6044820152606490fd5b601f82116139fd57505050565b5f5260205f20906020601f840160051c83019310613a35575b601f0160051c01905b818110613a2a575050565b5f8155600101613a1f565b9091508190613a16565b908060209392818452848401375f828201840152601f01601f1916010190565b15613a6657565b60405162461bcd60e51b8152602060048201526013602482015272556e617574686f72697a6564206f7261636c6560681b6044820152606490fd5b6001600160401b03811161364a5760051b60200190565b8051600210156139535760600190565b8051156139535760200190565b8051600110156139535760400190565b80518210156139535760209160051b010190565b600654600160401b81101561364a57600181016006556006548110156139535760065f526005027ff652222313e28459528d920b65115c16c04f3efc82aaedc97be59f3f377c0d3f018151815560208201516001820155604082015160028201556003810160608301518051906001600160401b03821161364a57613b828261353f855461387e565b602090601f8311600114613c08578260c0959360049593613bb8935f92613bfd575b50508160011b915f199060031b1c19161790565b90555b60808401519101805460a0850151939094015162ff000090151560101b1661ff0093151560081b9390931660ff90921662ffffff199094169390931717179055565b015190505f80613ba4565b90601f19831691845f52815f20925f5b818110613c59575092600192859260c098966004989610613c41575b505050811b019055613bbb565b01515f1960f88460031b161c191690555f8080613c34565b92936020600181928786015181550195019301613c18565b9190820391821161340c57565b9190820180921161340c57565b15613c9257565b60405162461bcd60e51b81526020600482015260096024820152682737ba1037bbb732b960b91b6044820152606490fd5b91906006549081841015613e185781613cdc8286613c7e565b1115613e0857505b613cee8382613c71565b92613cf884613aa1565b93613d066040519586613731565b808552613d15601f1991613aa1565b015f5b818110613dc757505083815b838110613d315750505050565b80613dc0613d40600193613937565b50613d4b8684613c71565b9060ff600460405192613d5d846136c5565b8054845287810154602085015260028101546040850152604051613d888161219581600386016138b6565b606085015201548181166080840152818160081c16151560a084015260101c16151560c0820152613db98287613ae5565b5284613ae5565b5001613d24565b602090604051613dd6816136c5565b5f81525f838201525f60408201526060808201525f60808201525f60a08201525f60c082015282828901015201613d18565b613e13915083613c7e565b613ce4565b506060925050565b15613e2757565b60405162461bcd60e51b815260206004820152600e60248201526d139bdd08185d5d1a1bdc9a5e995960921b6044820152606490fd5b15613e6457565b60405162461bcd60e51b8152602060048201526011602482015270496e76616c6964206368616c6c656e676560781b6044820152606490fd5b15613ea457565b60405162461bcd60e51b815260206004820152601160248201527010da185b1b195b99d9481c995d1a5c9959607a1b6044820152606490fd5b15613ee457565b60405162461bcd60e51b81526020600482015260146024820152734368616c6c656e6765206e6f742061637469766560601b6044820152606490fd5b5f19811461340c5760010190565b9081602091031261069757516001600160a01b03811681036106975790565b6040519060095f835b600a8210613f6f57505050613f6d61014083613731565b565b6001602081928554815201930191019091613f56565b6040519060135f835b600a8210613fa557505050613f6d61014083613731565b6001602081928554815201930191019091613f8e565b90613fc582613aa1565b613fd26040519182613731565b8281528092613fe3601f1991613aa1565b0190602036910137565b929092613ffa8385613c7e565b926006548094115f146140ca5750825b838510156140c15750602081519101209261402d6140288285613c71565b613fbb565b935f915b84811061407157505061404381613fbb565b935f5b82811061405257505050565b8061405f60019284613ae5565b5161406a8289613ae5565b5201614046565b80826003614094614083600195613937565b5061219560405180948193016138b6565b60208151910120146140a7575b01614031565b806140bb6140b486613f20565b9589613ae5565b526140a1565b60609450925050565b6140d49085613c7e565b9261400a565b9392916002916105f1614112926140f46006548910613e5d565b6140fd88613937565b509561228560ff600489015460081c16613edd565b910154801580156143215750506040805190939290916141328584613731565b60018352601f19850136602085013761414a83613ac8565b527f0000000000000000000000000000000000000000000000000000000000000000935f5b835181101561418f5780614189876111f660019488613ae5565b0161416f565b509290935061420c917fa3b7807a596de74011b1ebd7ccdd970f7326220c4a2b809e58c378a6f88c9d496141c4602a54613f20565b602a8190558551306020820190815260408201929092526141e8816060810161125f565b5190209384928651918291631317eff760e11b8352886020840152888301906150a4565b0390a25f8281526026602090815284822080546001600160a01b0319163317905560278152848220805460ff19166002179055602890528390208190553461425357505050565b6024546001600160a01b031680156142ea578351635d8b116960e11b81523360048201526024810192909252909291906020908490604490829034905af19283156142e0575f936142ac575b505f5260296020525f2055565b9092506020813d6020116142d8575b816142c860209383613731565b810103126106975751915f61429f565b3d91506142bb565b82513d5f823e3d90fd5b835162461bcd60e51b815260206004820152601060248201526f14dd185ada5b99c8191a5cd8589b195960821b6044820152606490fd5b93929334614397576143499261434292918115614387575b6143775761579d565b8233614463565b6040519081527fca7909adaff9fffe9598be516fd5dfaf91f8fb6c4f9f6470b03543e8567625c660203392a2565b9050614381615528565b9061579d565b9050614391615528565b90614339565b60405162461bcd60e51b815260206004820152601960248201527f4368616c6c656e67652074616b6573206e6f207374616b6573000000000000006044820152606490fd5b906144149060018060a01b03831692835f52600460205261440260405f209283546150d7565b9161440d8284614f29565b90556152e2565b7fe1dda2a662a12b367401eb9a8eea1a64eaf52a0498289f48cecf72fc56be5cdc5f80a2565b906137be918015614455575b8161579d579050614381615614565b5061445e615614565b614446565b6001600160a01b0381165f81815260046020818152604080842042600280830182905584528286209094019390935560078252808420878552909152822054949691959491908215614dd0575b6144c26144bc84615acc565b8761584b565b906144cd87856158d1565b6144d7308261527d565b855f52600760205260405f208a5f5260205260405f2055805490855f52602360205260405f206040519063d34d5dc160e01b8252600482015286602482015283604482015260208160648173__$a1718a006e278e5c6ff5d3c119ef26b311$__5af49081156130c0575f91614d9c575b5061455590614592936150d7565b9061458a88600183019261457861456f8554610d346155c5565b855490896157f9565b906145838387614f29565b9055614f29565b9055866152e2565b61462d60026145a08a613937565b509260ff60048501541690815f52601f60205260405f2091805f526020805260405f20895f5260205260ff60405f20541615614d55575b506145e58254610d346155c5565b6145ef308261527d565b82556146156001830191610d348354916146076155c5565b61460f615528565b916157f9565b90614620308361527d565b55019182549054906150d7565b90614638308361527d565b5561464287613937565b5090835f52600260205260405f2093600385019361466285549454614f6b565b90818015614d3f575b60c8614676916159e9565b945f60208783908415998a614d2f575b15614d21575b5f80516020615bad83398151915254604051631391547f60e01b8152600480820194909452848101909301919091526001600160f81b0319841660448301529092839160649183916001600160a01b03165af19081156130c0575f91614cef575b508187614cd9575b60c8614700916159e9565b93808515614cc9575b15614cb7575b602090606460018060a01b035f80516020615bad8339815191525416965f6040519889948593631d44e90160e21b8552600485015260248401528160448401525af19384156130c0575f94614c81575b506147b06147b7916147936147726156b0565b61478c61477d6156ff565b61478561574e565b908a6157f9565b90836157f9565b9561460f61479f6156ff565b916147a86156b0565b61460f61574e565b93826150d7565b926104b08415614c6d575b5f80516020615bad833981519152546040516304559f7160e01b815260048101969096526024860191909152600160f81b6044860152602090859060649082905f906001600160a01b03165af19384156130c0575f94614c38575b50610190965f91801591602090828b85614c24575b61483b916159e9565b808792614c14575b15614c06575b5f80516020615bad83398151915254604051630d8c635960e21b8152600480820194909452848101909301919091526001600160f81b0319861660448301529094859160649183916001600160a01b03165af19283156130c0575f93614bd2575b50908215614bc2575b614bb0575b602090606460018060a01b035f80516020615bad8339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af19081156130c0575f91614b7c575b5061460f9061491b948c9e9a9d9e6157f9565b936149268786614f29565b90556149306155c5565b600299851598600160f81b97925b63ffffffff8d1660038111614a435787810263ffffffff811690810361340c5760c719019063ffffffff821161340c578a8d928b93614a2d575b5f80516020615bad83398151915254604051631391547f60e01b8152600481019590955263ffffffff90911660248501526044840191909152602090839060649082905f906001600160a01b03165af19182156130c0575f926149f6575b50918161293a6149f0946149ea9450615576565b9c615957565b9b61493e565b9150916020823d8211614a25575b81614a1160209383613731565b8101031261069757905190916149f06149d6565b3d9150614a04565b9250602090614a3a615528565b93909150614978565b50939a96509650969299509650614a5a9250614f29565b90556025546001600160a01b031680614a97575b50507fe1dda2a662a12b367401eb9a8eea1a64eaf52a0498289f48cecf72fc56be5cdc915080a2565b614aa084613937565b5091614ab160018401928354615b18565b602554614ac7906001600160a01b031682615b18565b60ff600460018060a01b036025541694015416915494865f52602360205263ffffffff600260405f20015460801c1691843b15610697575f9460c4938692604051998a978896633ae8f14b60e11b88528d6004890152602488015260448701526064860152608485015260a48401525af180156130c057614b4a575b8180614a6e565b505f614b5591613731565b7fe1dda2a662a12b367401eb9a8eea1a64eaf52a0498289f48cecf72fc56be5cdc5f614b43565b90506020813d602011614ba8575b81614b9760209383613731565b81010312610697575161491b614908565b3d9150614b8a565b506020614bbb615528565b90506148b8565b9150614bcc615528565b916148b3565b9092506020813d602011614bfe575b81614bee60209383613731565b810103126106975751915f6148aa565b3d9150614be1565b50614c0f615528565b614849565b9150614c1e615528565b91614843565b61483b9150614c31615528565b9150614832565b9093506020813d602011614c65575b81614c5460209383613731565b81010312610697575192602061481d565b3d9150614c47565b93506020614c79615528565b9490506147c2565b9093506020813d602011614caf575b81614c9d60209383613731565b810103126106975751926147b061475f565b3d9150614c90565b506020614cc2615528565b905061470f565b9450614cd3615528565b94614709565b5061470060c8614ce7615528565b9150506146f5565b90506020813d602011614d19575b81614d0a60209383613731565b8101031261069757515f6146ed565b3d9150614cfd565b50614d2a615528565b61468c565b9150614d39615528565b91614686565b5061467660c8614d4d615528565b91505061466b565b5f526020805260405f20885f5260205260405f20600160ff198254161790556003820163ffffffff614d8981835416615957565b1663ffffffff198254161790555f6145d7565b90506020813d602011614dc8575b81614db760209383613731565b810103126106975751614592614547565b3d9150614daa565b9150614ddb5f615662565b916144b0565b8015614f18575b5f80516020615bad83398151915254604051630d8c635960e21b8152600481019290925260016024830152600160f81b6044830181905290602090839060649082905f906001600160a01b03165af19182156130c0575f92614ee4575b508115614ed0575b602090606460018060a01b035f80516020615bad8339815191525416935f60405195869485936304559f7160e01b855260048501526003602485015260448401525af19081156130c0575f91614ea1575090565b90506020813d602011614ec8575b81614ebc60209383613731565b81010312610697575190565b3d9150614eaf565b90506020614edc615528565b919050614e4d565b9091506020813d602011614f10575b81614f0060209383613731565b810103126106975751905f614e45565b3d9150614ef3565b505f614f22615528565b9050614de8565b90614f34308361527d565b614f3e818361527d565b6001600160a01b039081165f908152600560205260409020541680614f61575090565b6137be908261527d565b8015614fd0575b5f80516020615bad83398151915254604051630afe14ad60e31b815260048101929092526101906024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af19081156130c0575f91614ea1575090565b505f6020614fdc615528565b915050614f72565b92919493909383600160a01b60019003811696875f5260036020528160405f20973661501190868861376d565b61501a91615179565b6150239061596e565b9061502d91614f29565b875561503a36848661376d565b61504391615179565b9061504d91614f29565b6001860155369061505d9261376d565b61506691615179565b61506f9061596e565b9061507991614f29565b90600201557fbf3eb70dde23c803ebbf3ca9fb2bb70a869b7403fdb48227af2454f1f9a362f65f80a2565b90602080835192838152019201905f5b8181106150c15750505090565b82518452602093840193909201916001016150b4565b6020905f92811561515c575b801561514e575b5f80516020615bad8339815191525460405163022f65e760e31b8152600480820194909452848101909301919091526001600160f81b0319841660448301529092839160649183916001600160a01b03165af19081156130c0575f91614ea1575090565b50615157615528565b6150ea565b9050615166615528565b906150e3565b9060548210156130cb5752565b91906151b85f80516020615bad83398151915254916040519463196d0b9b60e01b8652600486015233602486015260806044860152608485019061385a565b6004606485015260209184918290039082905f906001600160a01b03165af19182156130c0575f92615249575b505f80516020615bcd8339815191525482906001600160a01b0316803b1561069757604051630f8e573b60e21b815260048101929092523360248301525f908290818381604481015b03925af180156130c05761523f5750565b5f613f6d91613731565b9091506020813d602011615275575b8161526560209383613731565b810103126106975751905f6151e5565b3d9150615258565b5f80516020615bcd833981519152546001600160a01b031691823b1561069757604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f9082908183816044810161522e565b90600a8110156139535760051b0190565b91906152ec613f4d565b906153076152f8613f85565b946001600160a01b03166154d9565b906153115f615662565b5f5b600a811061549857509061532961536092615acc565b615350615346610120870192615340845186615a48565b9061584b565b92825190846157f9565b90526101208601928351916157f9565b90526009805b6153b957505f5b600a8110156153b35780615383600192846152d1565b5161538e308261527d565b816009015561539d81866152d1565b516153a8308261527d565b81601301550161536d565b50509050565b6153c381836152d1565b515f1982019082821161340c576153e8615488916153e184876152d1565b5190615a48565b916154096153f685876152d1565b5161540183886152d1565b5190856157f9565b61542961541683886152d1565b5161542187896152d1565b5190866157f9565b61543386886152d1565b5261543e82876152d1565b5261547761545a61544f868a6152d1565b51615421848b6152d1565b93615465838a6152d1565b51615470878b6152d1565b51916157f9565b61548185896152d1565b52866152d1565b52801561340c575f190180615366565b806154c86154bc6154b5876154af6001968d6152d1565b5161443a565b80956158d1565b9385615470848a6152d1565b6154d282886152d1565b5201615313565b5f80516020615bad83398151915254604051639cd07acb60e01b815260048101929092526001600160a01b0316816044815f602094600760248401525af19081156130c0575f91614ea1575090565b5f80516020615bad83398151915254604051639cd07acb60e01b81525f6004820152906001600160a01b0316816044815f602094600460248401525af19081156130c0575f91614ea1575090565b5f80516020615bad83398151915254604051639cd07acb60e01b815260048101929092526001600160a01b0316816044815f602094600460248401525af19081156130c0575f91614ea1575090565b5f80516020615bad83398151915254604051639cd07acb60e01b815260016004820152906001600160a01b0316816044815f602094600460248401525af19081156130c0575f91614ea1575090565b5f80516020615bad83398151915254604051639cd07acb60e01b81525f6004820152906001600160a01b0316816044815f602094600760248401525af19081156130c0575f91614ea1575090565b5f80516020615bad83398151915254604051639cd07acb60e01b815260048101929092526001600160a01b0316816044815f6020948160248401525af19081156130c0575f91614ea1575090565b5f80516020615bad83398151915254604051639cd07acb60e01b815260106004820152906001600160a01b0316816044815f602094600460248401525af19081156130c0575f91614ea1575090565b5f80516020615bad83398151915254604051639cd07acb60e01b815260306004820152906001600160a01b0316816044815f602094600460248401525af19081156130c0575f91614ea1575090565b5f80516020615bad83398151915254604051639cd07acb60e01b815260206004820152906001600160a01b0316816044815f602094600460248401525af19081156130c0575f91614ea1575090565b5f80516020615bad8339815191525460405163f77f3f1d60e01b8152600481019290925260248201929092525f604482018190529091602091839160649183916001600160a01b03165af19081156130c0575f91614ea1575090565b9060646020925f60018060a01b035f80516020615bad83398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af19081156130c0575f91614ea1575090565b9081156158c0575b80156158ad575b602090606460018060a01b035f80516020615bad8339815191525416935f604051958694859363d99882d560e01b8552600485015260248401528160448401525af19081156130c0575f91614ea1575090565b5060206158b95f615662565b905061585a565b90506158cb5f615662565b90615853565b908115615946575b8015615933575b602090606460018060a01b035f80516020615bad8339815191525416935f60405195869485936363a2db2960e01b8552600485015260248401528160448401525af19081156130c0575f91614ea1575090565b50602061593f5f615662565b90506158e0565b90506159515f615662565b906158d9565b63ffffffff1663ffffffff811461340c5760010190565b80156159d5575b5f80516020615bad833981519152546040516304559f7160e01b815260048101929092526305f5e1006024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af19081156130c0575f91614ea1575090565b505f60206159e1615528565b915050615975565b5f80516020615bad8339815191525460405163022f65e760e31b815260048101929092526024820192909252600160f81b604482015290602090829060649082905f906001600160a01b03165af19081156130c0575f91614ea1575090565b908115615abc575b8015615aaa575b602090606460018060a01b035f80516020615bad8339815191525416935f60405195869485936385362ee760e01b8552600485015260248401528160448401525af19081156130c0575f91614ea1575090565b506020615ab5615528565b9050615a57565b9050615ac6615528565b90615a50565b5f80516020615bad83398151915254604051630f51ccfb60e41b81526004810192909252602090829060249082905f906001600160a01b03165af19081156130c0575f91614ea1575090565b5f80516020615bcd833981519152546001600160a01b031691823b1561069757604051630f8e573b60e21b815260048101929092526001600160a01b03166024820152905f9082908183816044810161522e56feb8e9411eb48e2de6637480aa185f8956505ef7c9a40f6fff45f4e196c67314bc878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c634300081a000a9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497029e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700";
+
+type FinancialLiteracyGameConstructorParams =
+  | [
+      linkLibraryAddresses: FinancialLiteracyGameLibraryAddresses,
+      signer?: Signer
+    ]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: FinancialLiteracyGameConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => {
+  return (
+    typeof xs[0] === "string" ||
+    (Array.isArray as (arg: any) => arg is readonly any[])(xs[0]) ||
+    "_isInterface" in xs[0]
+  );
+};
+
+export class FinancialLiteracyGame__factory extends ContractFactory {
+  constructor(...args: FinancialLiteracyGameConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      const [linkLibraryAddresses, signer] = args;
+      super(
+        _abi,
+        FinancialLiteracyGame__factory.linkBytecode(linkLibraryAddresses),
+        signer
+      );
+    }
+  }
+
+  static linkBytecode(
+    linkLibraryAddresses: FinancialLiteracyGameLibraryAddresses
+  ): string {
+    let linkedBytecode = _bytecode;
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$d072a259ce2e96508c3b92058a6d0d4c42\\$__", "g"),
+      linkLibraryAddresses["contracts/PracticeScoring.sol:PracticeScoring"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$a1718a006e278e5c6ff5d3c119ef26b311\\$__", "g"),
+      linkLibraryAddresses["contracts/Engagement.sol:Engagement"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    return linkedBytecode;
+  }
+
+  override getDeployTransaction(
+    oracle: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(oracle, overrides || {});
+  }
+  override deploy(
+    oracle: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(oracle, overrides || {}) as Promise<
+      FinancialLiteracyGame & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): FinancialLiteracyGame__factory {
+    return super.connect(runner) as FinancialLiteracyGame__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): FinancialLiteracyGameInterface {
+    return new Interface(_abi) as FinancialLiteracyGameInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): FinancialLiteracyGame {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as FinancialLiteracyGame;
+  }
+}
+
+export interface FinancialLiteracyGameLibraryAddresses {
+  ["contracts/PracticeScoring.sol:PracticeScoring"]: string;
+  ["contracts/Engagement.sol:Engagement"]: string;
+}
@@ -0,0 +1,527 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  LiteracyBadges,
+  LiteracyBadgesInterface,
+} from "../../contracts/LiteracyBadges";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "uri_",
+        type: "string",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "balance",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "needed",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ERC1155InsufficientBalance",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "approver",
+        type: "address",
+      },
+    ],
+    name: "ERC1155InvalidApprover",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "idsLength",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "valuesLength",
+        type: "uint256",
+      },
+    ],
+    name: "ERC1155InvalidArrayLength",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "ERC1155InvalidOperator",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC1155InvalidReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "ERC1155InvalidSender",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ERC1155MissingApprovalForAll",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "ApprovalForAll",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "values",
+        type: "uint256[]",
+      },
+    ],
+    name: "TransferBatch",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "TransferSingle",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "value",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "URI",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address[]",
+        name: "accounts",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+    ],
+    name: "balanceOfBatch",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "isApprovedForAll",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "badgeId",
+        type: "uint256",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minter",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256[]",
+        name: "ids",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "values",
+        type: "uint256[]",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "safeBatchTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "setApprovalForAll",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes4",
+        name: "interfaceId",
+        type: "bytes4",
+      },
+    ],
+    name: "supportsInterface",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "uri",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a06040523461020d576112228038038061001981610211565b92833981019060208183031261020d578051906001600160401b03821161020d570181601f8201121561020d578051906001600160401b0382116101f95761006a601f8301601f1916602001610211565b928284526020838301011161020d57815f9260208093018386015e8301015280516001600160401b0381116101f957600254600181811c911680156101ef575b60208210146101db57601f8111610178575b50602091601f8211600114610118579181925f9261010d575b50508160011b915f199060031b1c1916176002555b33608052604051610feb908161023782396080518181816101d401526104ef0152f35b015190505f806100d5565b601f1982169260025f52805f20915f5b85811061016057508360019510610148575b505050811b016002556100ea565b01515f1960f88460031b161c191690555f808061013a565b91926020600181928685015181550194019201610128565b60025f527f405787fa12a823e0f2b7631cc41b3ba8828b3321ca811111fa75cd3aa3bb5ace601f830160051c810191602084106101d1575b601f0160051c01905b8181106101c657506100bc565b5f81556001016101b9565b90915081906101b0565b634e487b7160e01b5f52602260045260245ffd5b90607f16906100aa565b634e487b7160e01b5f52604160045260245ffd5b5f80fd5b6040519190601f01601f191682016001600160401b038111838210176101f95760405256fe60806040526004361015610011575f80fd5b5f3560e01c8062fdd58e146100b357806301ffc9a7146100ae57806307546172146100a95780630e89341c146100a45780632eb2c2d61461009f57806340c10f191461009a5780634e1273f414610095578063a22cb46514610090578063e985e9c51461008b5763f242432a14610086575f80fd5b6107d9565b61077d565b6106c7565b610606565b6104d0565b610441565b61023b565b6101bf565b610151565b346100fb5760403660031901126100fb5760206100f26100d16100ff565b6024355f525f835260405f209060018060a01b03165f5260205260405f2090565b54604051908152f35b5f80fd5b600435906001600160a01b03821682036100fb57565b602435906001600160a01b03821682036100fb57565b35906001600160a01b03821682036100fb57565b6001600160e01b03198116036100fb57565b346100fb5760203660031901126100fb5760206004356101708161013f565b63ffffffff60e01b16636cdb3d1360e11b81149081156101ae575b811561019d575b506040519015158152f35b6301ffc9a760e01b1490505f610192565b6303a24d0760e21b8114915061018b565b346100fb575f3660031901126100fb576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b805180835260209291819084018484015e5f828201840152601f01601f1916010190565b906020610238928181520190610203565b90565b346100fb5760203660031901126100fb576040515f6002548060011c9060018116908115610325575b6020831082146103115782855260208501919081156102f857506001146102a6575b6102a28461029681860382610343565b60405191829182610227565b0390f35b60025f9081529250907f405787fa12a823e0f2b7631cc41b3ba8828b3321ca811111fa75cd3aa3bb5ace5b8184106102e45750500161029682610286565b8054848401526020909301926001016102d1565b60ff191682525090151560051b01905061029682610286565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610264565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff82111761036557604052565b61032f565b67ffffffffffffffff81116103655760051b60200190565b9080601f830112156100fb5781356103998161036a565b926103a76040519485610343565b81845260208085019260051b8201019283116100fb57602001905b8282106103cf5750505090565b81358152602091820191016103c2565b67ffffffffffffffff811161036557601f01601f191660200190565b81601f820112156100fb57803590610412826103df565b926104206040519485610343565b828452602083830101116100fb57815f926020809301838601378301015290565b346100fb5760a03660031901126100fb5761045a6100ff565b610462610115565b9060443567ffffffffffffffff81116100fb57610483903690600401610382565b60643567ffffffffffffffff81116100fb576104a3903690600401610382565b906084359367ffffffffffffffff85116100fb576104c86104ce9536906004016103fb565b936108e0565b005b346100fb5760403660031901126100fb576104e96100ff565b602435907f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03163303610590575f828152602081815260408083206001600160a01b0385168452909152902054610553576104ce9161054d61093e565b91610a2e565b60405162461bcd60e51b815260206004820152601560248201527410985919d948185b1c9958591e48185dd85c991959605a1b6044820152606490fd5b60405162461bcd60e51b815260206004820152600a6024820152692737ba1036b4b73a32b960b11b6044820152606490fd5b90602080835192838152019201905f5b8181106105df5750505090565b82518452602093840193909201916001016105d2565b9060206102389281815201906105c2565b346100fb5760403660031901126100fb5760043567ffffffffffffffff81116100fb57366023820112156100fb578060040135906106438261036a565b916106516040519384610343565b8083526024602084019160051b830101913683116100fb57602401905b8282106106af578360243567ffffffffffffffff81116100fb576102a29161069d6106a3923690600401610382565b9061097a565b604051918291826105f5565b602080916106bc8461012b565b81520191019061066e565b346100fb5760403660031901126100fb576106e06100ff565b6024358015158082036100fb576001600160a01b03831692831561076b57335f9081526001602090815260408083206001600160a01b039094168352929052209060ff801983541691161790557f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c3160405180610766339482919091602081019215159052565b0390a3005b62ced3e160e81b5f525f60045260245ffd5b346100fb5760403660031901126100fb57602060ff6107cd61079d6100ff565b6107a5610115565b6001600160a01b039182165f9081526001865260408082209290931681526020919091522090565b54166040519015158152f35b346100fb5760a03660031901126100fb576107f26100ff565b6107fa610115565b604435906064359260843567ffffffffffffffff81116100fb576108229036906004016103fb565b926001600160a01b03821633811415806108bd575b6108a7576001600160a01b038416156108945715610882576104ce9461087a60405192600184526020840152604083019160018352606084015260808301604052565b929091610b9b565b626a0d4560e21b5f525f60045260245ffd5b632bfa23e760e11b5f525f60045260245ffd5b63711bec9160e11b5f523360045260245260445ffd5b505f81815260016020908152604080832033845290915290205460ff1615610837565b939291906001600160a01b038516338114158061091b575b6108a7576001600160a01b0382161561089457156108825761091994610b9b565b565b505f81815260016020908152604080832033845290915290205460ff16156108f8565b6040519061094d602083610343565b5f8252565b80518210156109665760209160051b010190565b634e487b7160e01b5f52603260045260245ffd5b91909180518351808203610a195750508051906109968261036a565b916109a46040519384610343565b8083526109b3601f199161036a565b013660208401375f5b8151811015610a125780610a0160019260051b60208082870101519189010151905f918252602082815260408084206001600160a01b03909316845291905290205490565b610a0b8286610952565b52016109bc565b5090925050565b635b05999160e01b5f5260045260245260445ffd5b6001600160a01b03811692918315610894576001610a6960405192600184526020840152604083019160018352606084015260808301604052565b928151845190818103610b865750505f5b8251811015610ad4578060019160051b610acc610ac487610aaf602080868b010151958c010151945f525f60205260405f2090565b9060018060a01b03165f5260205260405f2090565b918254610f98565b905501610a7a565b5092919360018251145f14610b4b576020828101518482015160408051928352928201525f9133917fc3d58168c5ae7397731d063d5bbf3d657854427343f4c083240f7aacaa2d0f629190a45b8051600103610b40579060208061091995930151910151915f33610efa565b610919935f33610dcb565b5f6040517f4a39dc06d4c0dbc64b70af90fd698a233a518aa5d07e595d983b8c0526c8f7fb339180610b7e888883610fb9565b0390a4610b21565b635b05999160e01b5f5260045260245260445ffd5b919491936001600160a01b0385169391929084610cef578651835190818103610b86575094956001600160a01b03851680151596505f5b8951811015610c23578088888c60208060019660051b8093010151918b01015192610c01575b50505001610bd2565b610c1991610aaf610ac4925f525f60205260405f2090565b90555f8881610bf8565b50909492979695919560018851145f14610cb55760208881015186820151604080519283529282015233917fc3d58168c5ae7397731d063d5bbf3d657854427343f4c083240f7aacaa2d0f6291a45b610c7e575b5050505050565b8451600103610ca457602080610c9a9601519201519233610efa565b5f80808080610c77565b610cb094919233610dcb565b610c9a565b6040517f4a39dc06d4c0dbc64b70af90fd698a233a518aa5d07e595d983b8c0526c8f7fb339180610ce7898d83610fb9565b0390a4610c72565b60405162461bcd60e51b815260206004820152601b60248201527f42616467657320617265206e6f6e2d7472616e7366657261626c6500000000006044820152606490fd5b908160209103126100fb57516102388161013f565b6001600160a01b0391821681529116602082015260a0604082018190526102389491939192610d8e9291610d8091908601906105c2565b9084820360608601526105c2565b916080818403910152610203565b3d15610dc6573d90610dad826103df565b91610dbb6040519384610343565b82523d5f602084013e565b606090565b9091949293853b610ddf575b505050505050565b602093610e0191604051968795869563bc197c8160e01b875260048701610d49565b03815f6001600160a01b0387165af15f9181610e90575b50610e525750610e26610d9c565b8051919082610e4b57632bfa23e760e11b5f526001600160a01b03821660045260245ffd5b6020915001fd5b6001600160e01b0319166343e6837f60e01b01610e7557505f8080808080610dd7565b632bfa23e760e11b5f526001600160a01b031660045260245ffd5b610eb391925060203d602011610eba575b610eab8183610343565b810190610d34565b905f610e18565b503d610ea1565b6001600160a01b039182168152911660208201526040810191909152606081019190915260a06080820181905261023892910190610203565b9091949293853b610f0d57505050505050565b602093610f2f91604051968795869563f23a6e6160e01b875260048701610ec1565b03815f6001600160a01b0387165af15f9181610f77575b50610f545750610e26610d9c565b6001600160e01b031916630dc5919f60e01b01610e7557505f8080808080610dd7565b610f9191925060203d602011610eba57610eab8183610343565b905f610f46565b91908201809211610fa557565b634e487b7160e01b5f52601160045260245ffd5b9091610fd0610238936040845260408401906105c2565b9160208184039101526105c256fea164736f6c634300081a000a";
+
+type LiteracyBadgesConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: LiteracyBadgesConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class LiteracyBadges__factory extends ContractFactory {
+  constructor(...args: LiteracyBadgesConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    uri_: string,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(uri_, overrides || {});
+  }
+  override deploy(
+    uri_: string,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(uri_, overrides || {}) as Promise<
+      LiteracyBadges & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): LiteracyBadges__factory {
+    return super.connect(runner) as LiteracyBadges__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): LiteracyBadgesInterface {
+    return new Interface(_abi) as LiteracyBadgesInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): LiteracyBadges {
+    return new Contract(address, _abi, runner) as unknown as LiteracyBadges;
+  }
+}
@@ -0,0 +1,553 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  LiteracyRewards,
+  LiteracyRewardsInterface,
+} from "../../contracts/LiteracyRewards";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "gameAddress",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "badgeUri",
+        type: "string",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "badgeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "BadgeClaimRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "badgeId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "awarded",
+        type: "bool",
+      },
+    ],
+    name: "BadgeClaimSettled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "PointsRedeemed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "RedemptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "SolutionRecorded",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "CATEGORY_MASTERY",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "FIRST_COMPLETION",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MASTERY_CATEGORIES",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MASTERY_CORRECT_ANSWERS",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "STREAK_BADGE_DAYS",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "WEEK_STREAK",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "awardBadge",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "badgeClaimPending",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "badges",
+    outputs: [
+      {
+        internalType: "contract LiteracyBadges",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "bestStreak",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "badgeId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8[]",
+        name: "categories",
+        type: "uint8[]",
+      },
+    ],
+    name: "claimBadge",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "game",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint8",
+        name: "category",
+        type: "uint8",
+      },
+    ],
+    name: "getEncryptedCorrectAnswers",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "getEncryptedPendingPoints",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "mintPoints",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "points",
+    outputs: [
+      {
+        internalType: "contract LiteracyPoint",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "challengeId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "category",
+        type: "uint8",
+      },
+      {
+        internalType: "euint32",
+        name: "reward",
+        type: "bytes32",
+      },
+      {
+        internalType: "ebool",
+        name: "isCorrect",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint32",
+        name: "streak",
+        type: "uint32",
+      },
+    ],
+    name: "recordSolution",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "redeemPoints",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60e06040523461036b57613e27803803806100198161038e565b92833981019060408183031261036b5780516001600160a01b0381169182820361036b576020810151906001600160401b03821161036b57019183601f8401121561036b5782516001600160401b03811161032357610081601f8201601f191660200161038e565b9381855260208501956020838301011161036b57815f926020809301885e850101525f60606100ae61036f565b8281528260208201528260408201520152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60606100de61036f565b7350157cffd6bbfa2dece204a89ec419c23ef5755d815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69602082015273a02cda4ca3a71d7c46997716f4283aa851c28812604082015201527350157cffd6bbfa2dece204a89ec419c23ef5755d60018060a01b03197f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416177f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005573cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6960018060a01b03195f80516020613de78339815191525416175f80516020613de78339815191525573a02cda4ca3a71d7c46997716f4283aa851c2881260018060a01b03195f80516020613e078339815191525416175f80516020613e0783398151915255731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac60018060a01b03195f80516020613dc78339815191525416175f80516020613dc7833981519152551561033757608052604051610a5a8082016001600160401b0381118382101761032357829161336d833903905ff080156103185760a0526040519161122290818401906001600160401b0382118583101761032357604093859361214b8539602083525180918160208501528584015e5f848284010152601f8019910116010301905ff080156103185760c052604051611d9790816103b482396080518181816104dc0152610814015260a0518181816105ac0152610e15015260c0518181816106ed01528181610e5901526110130152f35b6040513d5f823e3d90fd5b634e487b7160e01b5f52604160045260245ffd5b60405162461bcd60e51b815260206004820152600c60248201526b496e76616c69642067616d6560a01b6044820152606490fd5b5f80fd5b60405190608082016001600160401b0381118382101761032357604052565b6040519190601f01601f191682016001600160401b038111838210176103235760405256fe6080806040526004361015610012575f80fd5b5f905f3560e01c90816316d02f8d14610e88575080631a64624014610e445780631be6dd6414610e00578063246199f414610d9e57806331cdc99d14610d55578063324eda6f14610cf357806370294b5814610cd857806375d1e296146107d057806385e4549e146107b5578063aa32ac991461079a578063ac3594a31461079a578063b5dd70c81461077f578063c163118d14610631578063c19d8d771461050b578063c3fe3e28146104c6578063c73066da146104aa578063c8d837cb1461046a578063da1f12ab1461044d5763eba2463f146100ef575f80fd5b3461044a578060031936011261044a57338152806020526040812054801561041157610119611c37565b6101233082611c89565b61012d3382611c89565b33835282602052604083205560408051916101488284610f01565b600183526020830190601f19830136833761016284610fcb565b525f80516020611d6b833981519152547f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005490939085906001600160a01b0316803b156103f8578185518092637d6e912360e11b8252602060048301528183816101cf602482018a611bb1565b03925af180156103ee576103fc575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702546001600160a01b0316803b156103f8578185518092633263b83b60e01b82528860048301526060602483015281838161023d606482018a611bb1565b63c19d8d7760e01b604483015203925af180156103ee576103d5575b508490525f80516020611d2b833981519152602052828520546103c6578385525f80516020611d2b83398151915260205282852090519167ffffffffffffffff83116103b257600160401b83116103b257815483835580841061038c575b5090855260208520855b83811061037857505050505f80516020611d6b833981519152545f198114610364576001015f80516020611d6b83398151915255600181519161030383610ed1565b33835260208301908582528486526006602052852092828060a01b039051166bffffffffffffffffffffffff60a01b84541617835551910155337f3779310b71beb93dce3cb4f282d1ee00e2a6c89891587b17c1842ba12f7d52a48380a380f35b634e487b7160e01b84526011600452602484fd5b6001906020845194019381840155016102c1565b828752836020882091820191015b8181106103a757506102b7565b87815560010161039a565b634e487b7160e01b86526041600452602486fd5b633f06d22b60e01b8552600485fd5b816103df91610f01565b6103ea57845f610259565b8480fd5b85513d84823e3d90fd5b5080fd5b8161040691610f01565b6103ea57845f6101de565b60405162461bcd60e51b81526020600482015260116024820152704e6f7468696e6720746f2072656465656d60781b6044820152606490fd5b80fd5b503461044a578060031936011261044a5760206040516127118152f35b503461044a57602036600319011261044a5760209063ffffffff906040906001600160a01b03610498610ebb565b16815260048452205416604051908152f35b503461044a578060031936011261044a57602060405160028152f35b503461044a578060031936011261044a576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b503461044a5761053e61051d36610f79565b8161052a84959394611965565b94610539602087015115611777565b6119cc565b60208180518101031261062257602001519063ffffffff8216809203610622578161059e575b516040519182526001600160a01b0316907fc37df5d14f305277c1289e9a188a097cda6684189c95f785feb056cb77a8c91090602090a280f35b805183906001600160a01b037f000000000000000000000000000000000000000000000000000000000000000081169116813b156106225782916044839260405194859384926340c10f1960e01b845260048401528960248401525af180156106265761060d575b5050610564565b8161061791610f01565b61062257825f610606565b8280fd5b6040513d84823e3d90fd5b503461077b5761067361064336610f79565b929061066461065184611965565b9482602087019561053987511515611777565b602080825183010191016117b5565b9160018060a01b038151165f52600560205260405f2082515f526020528260405f2060ff1981541690556106df575b60207fbf018604b85c79a59cbe8bba5473a476df6225bff090c63a03c4e11370df981c9160018060a01b039051169251936040519015158152a380f35b805182516001600160a01b037f00000000000000000000000000000000000000000000000000000000000000008116921690823b1561077b576040516340c10f1960e01b81526001600160a01b039290921660048301526024820152905f908290604490829084905af180156107705761075a575b506106a2565b6107679194505f90610f01565b5f926020610754565b6040513d5f823e3d90fd5b5f80fd5b3461077b575f36600319011261077b57602060405160018152f35b3461077b575f36600319011261077b57602060405160038152f35b3461077b575f36600319011261077b57602060405160078152f35b3461077b5760c036600319011261077b576107e9610ebb565b602435906044359060ff821680920361077b576084359160a4359263ffffffff841680940361077b577f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03163303610ca85760018060a01b03831694855f52600360205260405f20815f5260205260405f2054908115610c97575b5f80516020611d4b83398151915254604051630f51ccfb60e41b81526004810184905290602090829060249082905f906001600160a01b03165af18015610770575f90610c63575b6108be91508461182c565b92808315610c52575b15610c3f575b602090606460018060a01b035f80516020611d4b8339815191525416945f60405196879485936363a2db2960e01b8552600485015260248401528160448401525af1918215610770575f92610c0b575b506109283083611c89565b865f52600360205260405f20905f5260205260405f20555f602061094a611c37565b5f80516020611d4b83398151915254604051637702dcff60e01b8152600481018690526064803560248301526044820193909352938492918391906001600160a01b03165af18015610770575f90610bd7575b6109b39150865f525f60205260405f20546118e1565b6109bd3082611c89565b6109c78482611c89565b855f525f60205260405f20555f60205f80516020611d4b83398151915254604460405180948193639cd07acb60e01b8352600160048401526004602484015260018060a01b03165af18015610770575f90610ba4575b602091506064610a2b611c37565b5f80516020611d4b83398151915254604051637702dcff60e01b8152600481019690965260248601939093526044850152839182905f906001600160a01b03165af1908115610770575f91610b72575b50845f526001602052610a928160405f20546118e1565b610a9c3082611c89565b610aa68482611c89565b855f52600160205260405f205560ff8203610b1f575b505050815f52600460205263ffffffff60405f2054168111610b00575b507f1780052369c8a43289e47f085338d55ed42b71afa8714745d97b54df84358f675f80a2005b815f52600460205260405f209063ffffffff1982541617905581610ad9565b610b42610b5391865f52600260205260405f20845f5260205260405f20546118e1565b92610b4d3085611c89565b83611c89565b835f52600260205260405f20905f5260205260405f2055828080610abc565b90506020813d602011610b9c575b81610b8d60209383610f01565b8101031261077b575185610a7b565b3d9150610b80565b506020813d602011610bcf575b81610bbe60209383610f01565b8101031261077b5760209051610a1d565b3d9150610bb1565b506020813d602011610c03575b81610bf160209383610f01565b8101031261077b576109b3905161099d565b3d9150610be4565b9091506020813d602011610c37575b81610c2760209383610f01565b8101031261077b5751908761091d565b3d9150610c1a565b506020610c4b5f611be4565b90506108cd565b9250610c5d5f611be4565b926108c7565b506020813d602011610c8f575b81610c7d60209383610f01565b8101031261077b576108be90516108b3565b3d9150610c70565b9050610ca25f611be4565b9061086b565b60405162461bcd60e51b81526020600482015260086024820152674e6f742067616d6560c01b6044820152606490fd5b3461077b575f36600319011261077b57602060405160058152f35b3461077b57604036600319011261077b57610d0c610ebb565b60243560ff8116810361077b5760409160018060a01b031690815f526001602052825f2054915f52600260205260ff835f2091165f52602052815f205482519182526020820152f35b3461077b57604036600319011261077b576001600160a01b03610d76610ebb565b165f52600560205260405f206024355f52602052602060ff60405f2054166040519015158152f35b3461077b57604036600319011261077b5760243567ffffffffffffffff811161077b573660238201121561077b57806004013567ffffffffffffffff811161077b573660248260051b8401011161077b576024610dfe9201600435610fec565b005b3461077b575f36600319011261077b576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b3461077b575f36600319011261077b576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b3461077b57602036600319011261077b576020906001600160a01b03610eac610ebb565b165f525f825260405f20548152f35b600435906001600160a01b038216820361077b57565b6040810190811067ffffffffffffffff821117610eed57604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff821117610eed57604052565b81601f8201121561077b5780359067ffffffffffffffff8211610eed5760405192610f58601f8401601f191660200185610f01565b8284526020838301011161077b57815f926020809301838601378301015290565b606060031982011261077b576004359160243567ffffffffffffffff811161077b5782610fa891600401610f23565b916044359067ffffffffffffffff821161077b57610fc891600401610f23565b90565b805115610fd85760200190565b634e487b7160e01b5f52603260045260245ffd5b604051627eeac760e11b815233600482015260248101829052929091906001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016602085604481845afa8015610770575f955f91611745575b5061170857335f52600560205260405f20845f5260205260ff60405f2054166116cd57600384146115fc57506001830361143c5750503382526001602052816040812054801561142a575b5f80516020611d4b83398151915254604051631391547f60e01b8152600481019290925260016024830152600160f81b6044830152909160209183916064918391906001600160a01b03165af190811561141f5783916113ed575b50915b33815260056020526040812082825260205260408120600160ff1982541617905560408051936111248286610f01565b600185526020850190601f19830136833761113e86610fcb565b525f80516020611d6b833981519152547f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700549095906001600160a01b0316803b156103ea578484518092637d6e912360e11b8252602060048301528183816111a96024820189611bb1565b03925af180156113ce579085916113d8575b50507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702546001600160a01b0316803b156103ea578484518092633263b83b60e01b82528960048301526060602483015281838161121b6064820189611bb1565b63c163118d60e01b604483015203925af180156113ce579085916113b5575b508690525f80516020611d2b833981519152602052828420546113a6578584525f80516020611d2b83398151915260205282842090519167ffffffffffffffff831161139257600160401b831161139257815483835580841061136c575b5090845260208420845b83811061135857505050505f80516020611d6b833981519152545f198114611344576001015f80516020611d6b8339815191525560018151916112e483610ed1565b33835260208301908582528685526006602052842092828060a01b039051166bffffffffffffffffffffffff60a01b845416178355519101557fd8e433e8870f7928179a0c4a1048f1dcdcf9b3afcaa4f9bc9046281340c88088339180a4565b634e487b7160e01b83526011600452602483fd5b6001906020845194019381840155016112a2565b828652836020872091820191015b8181106113875750611298565b86815560010161137a565b634e487b7160e01b85526041600452602485fd5b633f06d22b60e01b8452600484fd5b816113bf91610f01565b6113ca57835f61123a565b8380fd5b84513d87823e3d90fd5b816113e291610f01565b6113ca57835f6111bb565b90506020813d602011611417575b8161140860209383610f01565b8101031261077b57515f6110f1565b3d91506113fb565b6040513d85823e3d90fd5b506020611435611c37565b9050611096565b600283036115c75790611451600583146117cd565b61145b6001611be4565b9184915b81831061146f57505050916110f4565b90919283158015611579575b611484906117cd565b33865260026020526040862060ff6114a56114a087878761180e565b61181e565b165f526020528560405f20548015611567575b5f80516020611d4b83398151915254604051631391547f60e01b8152600481019290925260036024830152600160f81b6044830152909160209183916064918391906001600160a01b03165af190811561155c57879161152a575b50600191611521919061182c565b9301919061145f565b90506020813d8211611554575b8161154460209383610f01565b8101031261077b57516001611513565b3d9150611537565b6040513d89823e3d90fd5b506020611572611c37565b90506114b8565b506115886114a085858561180e565b5f1985018581116115b3579060ff806115a86114a061148495898961180e565b16911611905061147b565b634e487b7160e01b88526011600452602488fd5b60405162461bcd60e51b815260206004820152600d60248201526c556e6b6e6f776e20626164676560981b6044820152606490fd5b9293505050335f526004602052600763ffffffff60405f2054161061169557803b1561077b576040516340c10f1960e01b815233600482015260248101839052905f908290604490829084905af1801561077057611685575b50604051600181527fbf018604b85c79a59cbe8bba5473a476df6225bff090c63a03c4e11370df981c60203392a3565b5f61168f91610f01565b5f611655565b60405162461bcd60e51b815260206004820152601060248201526f14dd1c99585ac81d1bdbc81cda1bdc9d60821b6044820152606490fd5b60405162461bcd60e51b8152602060048201526013602482015272426164676520636c61696d2070656e64696e6760681b6044820152606490fd5b60405162461bcd60e51b815260206004820152601560248201527410985919d948185b1c9958591e48185dd85c991959605a1b6044820152606490fd5b90506020813d60201161176f575b8161176060209383610f01565b8101031261077b57515f61104b565b3d9150611753565b1561177e57565b60405162461bcd60e51b815260206004820152600f60248201526e125b9d985b1a59081c995c5d595cdd608a1b6044820152606490fd5b9081602091031261077b5751801515810361077b5790565b156117d457565b60405162461bcd60e51b8152602060048201526012602482015271496e76616c69642063617465676f7269657360701b6044820152606490fd5b9190811015610fd85760051b0190565b3560ff8116810361077b5790565b9081156118d0575b80156118bd575b602090606460018060a01b035f80516020611d4b8339815191525416935f604051958694859363d99882d560e01b8552600485015260248401528160448401525af1908115610770575f9161188e575090565b90506020813d6020116118b5575b816118a960209383610f01565b8101031261077b575190565b3d915061189c565b5060206118c95f611be4565b905061183b565b90506118db5f611be4565b90611834565b908115611955575b8015611943575b602090606460018060a01b035f80516020611d4b8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115610770575f9161188e575090565b50602061194e611c37565b90506118f0565b905061195f611c37565b906118e9565b905f602060405161197581610ed1565b8281520152815f52600660205260405f20916119b760405161199681610ed1565b84546001600160a01b03168082526001909501546020820152931515611777565b5f5260066020525f6001604082208281550155565b9190825f525f80516020611d2b83398151915260205260405f205415611ba257825f525f80516020611d2b83398151915260205260405f20604051808260208294549384815201905f5260205f20925f5b818110611b89575050611a3292500382610f01565b815192836020019384602011611b7557604001809411611b7557611ad55f60209493611a8286808097611ae79a60405199828b9351918291018585015e8201908382015203018088520186610f01565b611af960018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703541694604051988997889687956378542ead60e01b8752606060048801526064870190611bb1565b85810360031901602487015290611d06565b83810360031901604485015290611d06565b03925af1908115610770575f91611b46575b5015611b37577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b63cf6c44e960e01b5f5260045ffd5b611b68915060203d602011611b6e575b611b608183610f01565b8101906117b5565b5f611b0b565b503d611b56565b634e487b7160e01b5f52601160045260245ffd5b8454835260019485019486945060209093019201611a1d565b63d66ca67560e01b5f5260045ffd5b90602080835192838152019201905f5b818110611bce5750505090565b8251845260209384019390920191600101611bc1565b5f80516020611d4b83398151915254604051639cd07acb60e01b815260048101929092525f6024830181905260209183916044918391906001600160a01b03165af1908115610770575f9161188e575090565b5f80516020611d4b83398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115610770575f9161188e575090565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b1561077b57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af1801561077057611cfa5750565b5f611d0491610f01565b565b805180835260209291819084018484015e5f828201840152601f01601f191601019056fe878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00a164736f6c634300081a000a60a06040523461020d576112228038038061001981610211565b92833981019060208183031261020d578051906001600160401b03821161020d570181601f8201121561020d578051906001600160401b0382116101f95761006a601f8301601f1916602001610211565b928284526020838301011161020d57815f9260208093018386015e8301015280516001600160401b0381116101f957600254600181811c911680156101ef575b60208210146101db57601f8111610178575b50602091601f8211600114610118579181925f9261010d575b50508160011b915f199060031b1c1916176002555b33608052604051610feb908161023782396080518181816101d401526104ef0152f35b015190505f806100d5565b601f1982169260025f52805f20915f5b85811061016057508360019510610148575b505050811b016002556100ea565b01515f1960f88460031b161c191690555f808061013a565b91926020600181928685015181550194019201610128565b60025f527f405787fa12a823e0f2b7631cc41b3ba8828b3321ca811111fa75cd3aa3bb5ace601f830160051c810191602084106101d1575b601f0160051c01905b8181106101c657506100bc565b5f81556001016101b9565b90915081906101b0565b634e487b7160e01b5f52602260045260245ffd5b90607f16906100aa565b634e487b7160e01b5f52604160045260245ffd5b5f80fd5b6040519190601f01601f191682016001600160401b038111838210176101f95760405256fe60806040526004361015610011575f80fd5b5f3560e01c8062fdd58e146100b357806301ffc9a7146100ae57806307546172146100a95780630e89341c146100a45780632eb2c2d61461009f57806340c10f191461009a5780634e1273f414610095578063a22cb46514610090578063e985e9c51461008b5763f242432a14610086575f80fd5b6107d9565b61077d565b6106c7565b610606565b6104d0565b610441565b61023b565b6101bf565b610151565b346100fb5760403660031901126100fb5760206100f26100d16100ff565b6024355f525f835260405f209060018060a01b03165f5260205260405f2090565b54604051908152f35b5f80fd5b600435906001600160a01b03821682036100fb57565b602435906001600160a01b03821682036100fb57565b35906001600160a01b03821682036100fb57565b6001600160e01b03198116036100fb57565b346100fb5760203660031901126100fb5760206004356101708161013f565b63ffffffff60e01b16636cdb3d1360e11b81149081156101ae575b811561019d575b506040519015158152f35b6301ffc9a760e01b1490505f610192565b6303a24d0760e21b8114915061018b565b346100fb575f3660031901126100fb576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b805180835260209291819084018484015e5f828201840152601f01601f1916010190565b906020610238928181520190610203565b90565b346100fb5760203660031901126100fb576040515f6002548060011c9060018116908115610325575b6020831082146103115782855260208501919081156102f857506001146102a6575b6102a28461029681860382610343565b60405191829182610227565b0390f35b60025f9081529250907f405787fa12a823e0f2b7631cc41b3ba8828b3321ca811111fa75cd3aa3bb5ace5b8184106102e45750500161029682610286565b8054848401526020909301926001016102d1565b60ff191682525090151560051b01905061029682610286565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610264565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff82111761036557604052565b61032f565b67ffffffffffffffff81116103655760051b60200190565b9080601f830112156100fb5781356103998161036a565b926103a76040519485610343565b81845260208085019260051b8201019283116100fb57602001905b8282106103cf5750505090565b81358152602091820191016103c2565b67ffffffffffffffff811161036557601f01601f191660200190565b81601f820112156100fb57803590610412826103df565b926104206040519485610343565b828452602083830101116100fb57815f926020809301838601378301015290565b346100fb5760a03660031901126100fb5761045a6100ff565b610462610115565b9060443567ffffffffffffffff81116100fb57610483903690600401610382565b60643567ffffffffffffffff81116100fb576104a3903690600401610382565b906084359367ffffffffffffffff85116100fb576104c86104ce9536906004016103fb565b936108e0565b005b346100fb5760403660031901126100fb576104e96100ff565b602435907f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03163303610590575f828152602081815260408083206001600160a01b0385168452909152902054610553576104ce9161054d61093e565b91610a2e565b60405162461bcd60e51b815260206004820152601560248201527410985919d948185b1c9958591e48185dd85c991959605a1b6044820152606490fd5b60405162461bcd60e51b815260206004820152600a6024820152692737ba1036b4b73a32b960b11b6044820152606490fd5b90602080835192838152019201905f5b8181106105df5750505090565b82518452602093840193909201916001016105d2565b9060206102389281815201906105c2565b346100fb5760403660031901126100fb5760043567ffffffffffffffff81116100fb57366023820112156100fb578060040135906106438261036a565b916106516040519384610343565b8083526024602084019160051b830101913683116100fb57602401905b8282106106af578360243567ffffffffffffffff81116100fb576102a29161069d6106a3923690600401610382565b9061097a565b604051918291826105f5565b602080916106bc8461012b565b81520191019061066e565b346100fb5760403660031901126100fb576106e06100ff565b6024358015158082036100fb576001600160a01b03831692831561076b57335f9081526001602090815260408083206001600160a01b039094168352929052209060ff801983541691161790557f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c3160405180610766339482919091602081019215159052565b0390a3005b62ced3e160e81b5f525f60045260245ffd5b346100fb5760403660031901126100fb57602060ff6107cd61079d6100ff565b6107a5610115565b6001600160a01b039182165f9081526001865260408082209290931681526020919091522090565b54166040519015158152f35b346100fb5760a03660031901126100fb576107f26100ff565b6107fa610115565b604435906064359260843567ffffffffffffffff81116100fb576108229036906004016103fb565b926001600160a01b03821633811415806108bd575b6108a7576001600160a01b038416156108945715610882576104ce9461087a60405192600184526020840152604083019160018352606084015260808301604052565b929091610b9b565b626a0d4560e21b5f525f60045260245ffd5b632bfa23e760e11b5f525f60045260245ffd5b63711bec9160e11b5f523360045260245260445ffd5b505f81815260016020908152604080832033845290915290205460ff1615610837565b939291906001600160a01b038516338114158061091b575b6108a7576001600160a01b0382161561089457156108825761091994610b9b565b565b505f81815260016020908152604080832033845290915290205460ff16156108f8565b6040519061094d602083610343565b5f8252565b80518210156109665760209160051b010190565b634e487b7160e01b5f52603260045260245ffd5b91909180518351808203610a195750508051906109968261036a565b916109a46040519384610343565b8083526109b3601f199161036a565b013660208401375f5b8151811015610a125780610a0160019260051b60208082870101519189010151905f918252602082815260408084206001600160a01b03909316845291905290205490565b610a0b8286610952565b52016109bc565b5090925050565b635b05999160e01b5f5260045260245260445ffd5b6001600160a01b03811692918315610894576001610a6960405192600184526020840152604083019160018352606084015260808301604052565b928151845190818103610b865750505f5b8251811015610ad4578060019160051b610acc610ac487610aaf602080868b010151958c010151945f525f60205260405f2090565b9060018060a01b03165f5260205260405f2090565b918254610f98565b905501610a7a565b5092919360018251145f14610b4b576020828101518482015160408051928352928201525f9133917fc3d58168c5ae7397731d063d5bbf3d657854427343f4c083240f7aacaa2d0f629190a45b8051600103610b40579060208061091995930151910151915f33610efa565b610919935f33610dcb565b5f6040517f4a39dc06d4c0dbc64b70af90fd698a233a518aa5d07e595d983b8c0526c8f7fb339180610b7e888883610fb9565b0390a4610b21565b635b05999160e01b5f5260045260245260445ffd5b919491936001600160a01b0385169391929084610cef578651835190818103610b86575094956001600160a01b03851680151596505f5b8951811015610c23578088888c60208060019660051b8093010151918b01015192610c01575b50505001610bd2565b610c1991610aaf610ac4925f525f60205260405f2090565b90555f8881610bf8565b50909492979695919560018851145f14610cb55760208881015186820151604080519283529282015233917fc3d58168c5ae7397731d063d5bbf3d657854427343f4c083240f7aacaa2d0f6291a45b610c7e575b5050505050565b8451600103610ca457602080610c9a9601519201519233610efa565b5f80808080610c77565b610cb094919233610dcb565b610c9a565b6040517f4a39dc06d4c0dbc64b70af90fd698a233a518aa5d07e595d983b8c0526c8f7fb339180610ce7898d83610fb9565b0390a4610c72565b60405162461bcd60e51b815260206004820152601b60248201527f42616467657320617265206e6f6e2d7472616e7366657261626c6500000000006044820152606490fd5b908160209103126100fb57516102388161013f565b6001600160a01b0391821681529116602082015260a0604082018190526102389491939192610d8e9291610d8091908601906105c2565b9084820360608601526105c2565b916080818403910152610203565b3d15610dc6573d90610dad826103df565b91610dbb6040519384610343565b82523d5f602084013e565b606090565b9091949293853b610ddf575b505050505050565b602093610e0191604051968795869563bc197c8160e01b875260048701610d49565b03815f6001600160a01b0387165af15f9181610e90575b50610e525750610e26610d9c565b8051919082610e4b57632bfa23e760e11b5f526001600160a01b03821660045260245ffd5b6020915001fd5b6001600160e01b0319166343e6837f60e01b01610e7557505f8080808080610dd7565b632bfa23e760e11b5f526001600160a01b031660045260245ffd5b610eb391925060203d602011610eba575b610eab8183610343565b810190610d34565b905f610e18565b503d610ea1565b6001600160a01b039182168152911660208201526040810191909152606081019190915260a06080820181905261023892910190610203565b9091949293853b610f0d57505050505050565b602093610f2f91604051968795869563f23a6e6160e01b875260048701610ec1565b03815f6001600160a01b0387165af15f9181610f77575b50610f545750610e26610d9c565b6001600160e01b031916630dc5919f60e01b01610e7557505f8080808080610dd7565b610f9191925060203d602011610eba57610eab8183610343565b905f610f46565b91908201809211610fa557565b634e487b7160e01b5f52601160045260245ffd5b9091610fd0610238936040845260408401906105c2565b9160208184039101526105c256fea164736f6c634300081a000a60a06040523461032b57604080519081016001600160401b0381118282101761023e576040908152600e82526d131a5d195c9858de48141bda5b9d60921b602083015280519081016001600160401b0381118282101761023e57604052600381526213125560ea1b602082015281516001600160401b03811161023e57600354600181811c91168015610321575b602082101461022057601f81116102be575b50602092601f821160011461025d57928192935f92610252575b50508160011b915f199060031b1c1916176003555b80516001600160401b03811161023e57600454600181811c91168015610234575b602082101461022057601f81116101bd575b50602091601f821160011461015d579181925f92610152575b50508160011b915f199060031b1c1916176004555b3360805260405161072a9081610330823960805181818161028b015261051f0152f35b015190505f8061011a565b601f1982169260045f52805f20915f5b8581106101a55750836001951061018d575b505050811b0160045561012f565b01515f1960f88460031b161c191690555f808061017f565b9192602060018192868501518155019401920161016d565b60045f527f8a35acfbc15ff81a39ae7d344fd709f28e8600b4aa8c65c6b64bfe7fe36bd19b601f830160051c81019160208410610216575b601f0160051c01905b81811061020b5750610101565b5f81556001016101fe565b90915081906101f5565b634e487b7160e01b5f52602260045260245ffd5b90607f16906100ef565b634e487b7160e01b5f52604160045260245ffd5b015190505f806100b9565b601f1982169360035f52805f20915f5b8681106102a6575083600195961061028e575b505050811b016003556100ce565b01515f1960f88460031b161c191690555f8080610280565b9192602060018192868501518155019401920161026d565b60035f527fc2575a0e9e593c00f959f8c92f12db2869c3395a3b0502d05e2516446f71f85b601f830160051c81019160208410610317575b601f0160051c01905b81811061030c575061009f565b5f81556001016102ff565b90915081906102f6565b90607f169061008d565b5f80fdfe6080806040526004361015610012575f80fd5b5f3560e01c90816306fdde031461054e57508063075461721461050a578063095ea7b31461048857806318160ddd1461046b57806323b872dd1461038c578063313ce5671461037257806340c10f191461026c57806370a082311461023557806395d89b411461011a578063a9059cbb146100e95763dd62ed3e14610095575f80fd5b346100e55760403660031901126100e5576100ae610647565b6100b661065d565b6001600160a01b039182165f908152600160209081526040808320949093168252928352819020549051908152f35b5f80fd5b346100e55760403660031901126100e55761010f610105610647565b6024359033610673565b602060405160018152f35b346100e5575f3660031901126100e5576040515f6004548060011c9060018116801561022b575b602083108114610217578285529081156101fb57506001146101a6575b50819003601f01601f191681019067ffffffffffffffff8211818310176101925761018e8291826040528261061d565b0390f35b634e487b7160e01b5f52604160045260245ffd5b905060045f527f8a35acfbc15ff81a39ae7d344fd709f28e8600b4aa8c65c6b64bfe7fe36bd19b5f905b8282106101e55750602091508201018261015e565b60018160209254838588010152019101906101d0565b90506020925060ff191682840152151560051b8201018261015e565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610141565b346100e55760203660031901126100e5576001600160a01b03610256610647565b165f525f602052602060405f2054604051908152f35b346100e55760403660031901126100e557610285610647565b602435907f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03163303610340576001600160a01b031690811561032d57600254908082018092116103195760207fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef915f9360025584845283825260408420818154019055604051908152a3005b634e487b7160e01b5f52601160045260245ffd5b63ec442f0560e01b5f525f60045260245ffd5b60405162461bcd60e51b815260206004820152600a6024820152692737ba1036b4b73a32b960b11b6044820152606490fd5b346100e5575f3660031901126100e55760206040515f8152f35b346100e55760603660031901126100e5576103a5610647565b6103ad61065d565b6001600160a01b0382165f818152600160209081526040808320338452909152902054909260443592915f1981106103eb575b5061010f9350610673565b83811061045057841561043d57331561042a5761010f945f52600160205260405f2060018060a01b0333165f526020528360405f2091039055846103e0565b634a1406b160e11b5f525f60045260245ffd5b63e602df0560e01b5f525f60045260245ffd5b8390637dc7a0d960e11b5f523360045260245260445260645ffd5b346100e5575f3660031901126100e5576020600254604051908152f35b346100e55760403660031901126100e5576104a1610647565b60243590331561043d576001600160a01b031690811561042a57335f52600160205260405f20825f526020528060405f20556040519081527f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b92560203392a3602060405160018152f35b346100e5575f3660031901126100e5576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b346100e5575f3660031901126100e5575f6003548060011c90600181168015610613575b602083108114610217578285529081156101fb57506001146105be5750819003601f01601f191681019067ffffffffffffffff8211818310176101925761018e8291826040528261061d565b905060035f527fc2575a0e9e593c00f959f8c92f12db2869c3395a3b0502d05e2516446f71f85b5f905b8282106105fd5750602091508201018261015e565b60018160209254838588010152019101906105e8565b91607f1691610572565b602060409281835280519182918282860152018484015e5f828201840152601f01601f1916010190565b600435906001600160a01b03821682036100e557565b602435906001600160a01b03821682036100e557565b6001600160a01b031690811561070a576001600160a01b031691821561032d57815f525f60205260405f20548181106106f157817fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef92602092855f525f84520360405f2055845f525f825260405f20818154019055604051908152a3565b8263391434e360e21b5f5260045260245260445260645ffd5b634b637e8f60e11b5f525f60045260245ffdfea164736f6c634300081a000a9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702";
+
+type LiteracyRewardsConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: LiteracyRewardsConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class LiteracyRewards__factory extends ContractFactory {
+  constructor(...args: LiteracyRewardsConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    gameAddress: AddressLike,
+    badgeUri: string,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(gameAddress, badgeUri, overrides || {});
+  }
+  override deploy(
+    gameAddress: AddressLike,
+    badgeUri: string,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(gameAddress, badgeUri, overrides || {}) as Promise<
+      LiteracyRewards & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): LiteracyRewards__factory {
+    return super.connect(runner) as LiteracyRewards__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): LiteracyRewardsInterface {
+    return new Interface(_abi) as LiteracyRewardsInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): LiteracyRewards {
+    return new Contract(address, _abi, runner) as unknown as LiteracyRewards;
+  }
+}
@@ -1,5 +1,9 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { CsrFeedbackFHE__factory } from "./CsrFeedbackFHE__factory";
-export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
+export { ChallengeStaking__factory } from "./ChallengeStaking__factory";
+export { Engagement__factory } from "./Engagement__factory";
+export { FinancialLiteracyGame__factory } from "./FinancialLiteracyGame__factory";
+export { LiteracyBadges__factory } from "./LiteracyBadges__factory";
+export { LiteracyPoint__factory } from "./LiteracyPoint__factory";
+export { LiteracyRewards__factory } from "./LiteracyRewards__factory";